@@ -0,0 +1,189 @@
+// assembly/orbital_kernel.ts
+// AssemblyScript kernel of the 'wasm' compute backend (src/compute_backend.ts): ψ of an orbital
+// over one slab of constant x of a grid, from the coefficients of getOrbitalCoefficients
+// (src/quantum_functions.ts). Two points along z are evaluated at once in f64x2 lanes, with the
+// operations of compileOrbital's evaluator in the same order, so the grids agree with the JS
+// backend but for the last bit of e^x. Built by `npm run build:wasm`.
+
+let l: i32 = 0;
+let m: i32 = 0;
+let decay: f64 = 0;
+let logConstant: f64 = 0;
+let alpha: f64 = 0;
+let firstStep: f64 = 0;
+let realWeight: f64 = 0;
+let imaginaryWeight: f64 = 0;
+let complexBasis: bool = false;
+// Coefficient arrays are only ever grown, since the stub runtime never frees memory; the
+// current orbital uses the first laguerreDegree entries of the Laguerre ones
+let laguerreDegree: i32 = 0;
+let laguerreA = new StaticArray<f64>(0);
+let laguerreB = new StaticArray<f64>(0);
+let laguerreScale = new StaticArray<f64>(0);
+let legendre = new StaticArray<f64>(0);
+
+// |ψ|² and Re(ψ) of the last slab, resolution² each
+let densities = new StaticArray<f32>(0);
+let psis = new StaticArray<f32>(0);
+
+/**
+ * Starts an orbital: the scalars of its OrbitalCoefficients and the lengths of its arrays, which
+ * setLaguerre and setLegendre then fill.
+ */
+export function configure(
+    newL: i32,
+    newM: i32,
+    newDecay: f64,
+    newLogConstant: f64,
+    newAlpha: f64,
+    newFirstStep: f64,
+    newRealWeight: f64,
+    newImaginaryWeight: f64,
+    complex: bool,
+    laguerreLength: i32,
+    legendreLength: i32
+): void {
+    l = newL;
+    m = newM;
+    decay = newDecay;
+    logConstant = newLogConstant;
+    alpha = newAlpha;
+    firstStep = newFirstStep;
+    realWeight = newRealWeight;
+    imaginaryWeight = newImaginaryWeight;
+    complexBasis = complex;
+    laguerreDegree = laguerreLength;
+    if (laguerreA.length < laguerreLength) {
+        laguerreA = new StaticArray<f64>(laguerreLength);
+        laguerreB = new StaticArray<f64>(laguerreLength);
+        laguerreScale = new StaticArray<f64>(laguerreLength);
+    }
+    if (legendre.length < legendreLength) {
+        legendre = new StaticArray<f64>(legendreLength);
+    }
+}
+
+export function setLaguerre(k: i32, a: f64, b: f64, scale: f64): void {
+    laguerreA[k] = a;
+    laguerreB[k] = b;
+    laguerreScale[k] = scale;
+}
+
+export function setLegendre(i: i32, value: f64): void {
+    legendre[i] = value;
+}
+
+export function densityPointer(): usize {
+    return changetype<usize>(densities);
+}
+
+export function psiPointer(): usize {
+    return changetype<usize>(psis);
+}
+
+// Re ψ and Im ψ of the last evaluatePair
+let pairRe: v128 = f64x2.splat(0);
+let pairIm: v128 = f64x2.splat(0);
+
+// ψ at (x, y, z) for the two z lanes, given x² + y² and (x + iy)^m
+// @ts-ignore: decorator
+@inline
+function evaluatePair(xxyy: f64, z: v128, azimuthalRe: f64, azimuthalIm: f64): void {
+    const r2 = f64x2.add(f64x2.splat(xxyy), f64x2.mul(z, z));
+    const r = f64x2.sqrt(r2);
+    const exponent = f64x2.sub(f64x2.splat(logConstant), f64x2.mul(f64x2.splat(decay), r));
+    const envelope = f64x2(Math.exp(f64x2.extract_lane(exponent, 0)), Math.exp(f64x2.extract_lane(exponent, 1)));
+
+    const rho = f64x2.mul(f64x2.splat(2 * decay), r);
+    const degree = laguerreDegree;
+    let laguerre = f64x2.splat(1);
+    if (degree > 0) {
+        let previous = laguerre;
+        laguerre = f64x2.sub(f64x2.splat(1 + alpha), rho);
+        for (let k = 1; k < degree; k++) {
+            const next = f64x2.mul(
+                f64x2.sub(
+                    f64x2.mul(f64x2.sub(f64x2.splat(unchecked(laguerreA[k])), rho), laguerre),
+                    f64x2.mul(f64x2.splat(unchecked(laguerreB[k])), previous)
+                ),
+                f64x2.splat(unchecked(laguerreScale[k]))
+            );
+            previous = laguerre;
+            laguerre = next;
+        }
+    }
+
+    let polar = f64x2.splat(unchecked(legendre[0]));
+    if (l > m) {
+        let previous = polar;
+        polar = f64x2.mul(f64x2.mul(f64x2.splat(firstStep), z), previous);
+        for (let k = m + 2; k <= l; k++) {
+            const i = 1 + 2 * (k - m - 2);
+            const next = f64x2.mul(
+                f64x2.splat(unchecked(legendre[i])),
+                f64x2.sub(f64x2.mul(z, polar), f64x2.mul(f64x2.mul(f64x2.splat(unchecked(legendre[i + 1])), r2), previous))
+            );
+            previous = polar;
+            polar = next;
+        }
+    }
+
+    const radialAndPolar = f64x2.mul(f64x2.mul(envelope, laguerre), polar);
+    const zero = f64x2.splat(0);
+    const vanished = f64x2.eq(envelope, zero); // Where the JS evaluator returns 0 outright
+    if (complexBasis) {
+        pairRe = v128.bitselect(zero, f64x2.mul(f64x2.mul(radialAndPolar, f64x2.splat(realWeight)), f64x2.splat(azimuthalRe)), vanished);
+        pairIm = v128.bitselect(zero, f64x2.mul(f64x2.mul(radialAndPolar, f64x2.splat(imaginaryWeight)), f64x2.splat(azimuthalIm)), vanished);
+    } else {
+        const angular = realWeight * azimuthalRe + imaginaryWeight * azimuthalIm;
+        pairRe = v128.bitselect(zero, f64x2.mul(radialAndPolar, f64x2.splat(angular)), vanished);
+        pairIm = zero;
+    }
+}
+
+/**
+ * Samples the resolution² points (x, start + j * step, start + k * step) into the arrays at
+ * densityPointer and psiPointer, at index j * resolution + k.
+ * @returns The largest density of the slab.
+ */
+export function sampleSlab(x: f64, start: f64, step: f64, resolution: i32): f64 {
+    const count = resolution * resolution;
+    if (densities.length < count) {
+        densities = new StaticArray<f32>(count);
+        psis = new StaticArray<f32>(count);
+    }
+
+    let maxDensity: f64 = 0;
+    for (let j = 0; j < resolution; j++) {
+        const y = start + j * step;
+        const xxyy = x * x + y * y;
+        // (x + iy)^m, the same for the whole row
+        let azimuthalRe: f64 = 1;
+        let azimuthalIm: f64 = 0;
+        for (let k = 0; k < m; k++) {
+            const re = azimuthalRe * x - azimuthalIm * y;
+            azimuthalIm = azimuthalRe * y + azimuthalIm * x;
+            azimuthalRe = re;
+        }
+
+        const row = j * resolution;
+        for (let k = 0; k < resolution; k += 2) {
+            // The last point of an odd row fills both lanes
+            const second = k + 1 < resolution ? k + 1 : k;
+            evaluatePair(xxyy, f64x2(start + k * step, start + second * step), azimuthalRe, azimuthalIm);
+            const densityPair = f64x2.add(f64x2.mul(pairRe, pairRe), f64x2.mul(pairIm, pairIm));
+
+            const density0 = f64x2.extract_lane(densityPair, 0);
+            unchecked(densities[row + k] = <f32>density0);
+            unchecked(psis[row + k] = <f32>f64x2.extract_lane(pairRe, 0));
+            if (density0 > maxDensity) maxDensity = density0;
+            if (second !== k) {
+                const density1 = f64x2.extract_lane(densityPair, 1);
+                unchecked(densities[row + second] = <f32>density1);
+                unchecked(psis[row + second] = <f32>f64x2.extract_lane(pairRe, 1));
+                if (density1 > maxDensity) maxDensity = density1;
+            }
+        }
+    }
+    return maxDensity;
+}
@@ -36,6 +36,22 @@ class InfraStack(Stack):
             )
         )
         
+        # Cross-origin isolation, so the page may share grid memory with its workers
+        # (the same headers as the Vite dev and preview servers)
+        isolation_headers = cloudfront.ResponseHeadersPolicy(
+            self, "ElectronOrbitalViewerIsolationHeaders",
+            custom_headers_behavior=cloudfront.ResponseCustomHeadersBehavior(
+                custom_headers=[
+                    cloudfront.ResponseCustomHeader(
+                        header="Cross-Origin-Opener-Policy", value="same-origin", override=True
+                    ),
+                    cloudfront.ResponseCustomHeader(
+                        header="Cross-Origin-Embedder-Policy", value="require-corp", override=True
+                    ),
+                ]
+            ),
+        )
+
         # CloudFront distribution for the website
         distribution = cloudfront.Distribution(
             self, "ElectronOrbitalViewerDistribution",
@@ -43,6 +59,7 @@ class InfraStack(Stack):
                 origin=origins.S3BucketOrigin(website_bucket),
                 viewer_protocol_policy=cloudfront.ViewerProtocolPolicy.REDIRECT_TO_HTTPS,
                 cache_policy=cloudfront.CachePolicy.CACHING_OPTIMIZED,
+                response_headers_policy=isolation_headers,
             ),
             default_root_object="index.html",
             error_responses=[
@@ -20,4 +20,20 @@ def test_cloudfront_distribution_created():
     stack = InfraStack(app, "electron-orbital-viewer")
     template = assertions.Template.from_stack(stack)
 
-    template.resource_count_is("AWS::CloudFront::Distribution", 1)
\ No newline at end of file
+    template.resource_count_is("AWS::CloudFront::Distribution", 1)
+
+def test_cross_origin_isolation_headers():
+    app = core.App()
+    stack = InfraStack(app, "electron-orbital-viewer")
+    template = assertions.Template.from_stack(stack)
+
+    template.has_resource_properties("AWS::CloudFront::ResponseHeadersPolicy", {
+        "ResponseHeadersPolicyConfig": {
+            "CustomHeadersConfig": {
+                "Items": [
+                    {"Header": "Cross-Origin-Opener-Policy", "Value": "same-origin", "Override": True},
+                    {"Header": "Cross-Origin-Embedder-Policy", "Value": "require-corp", "Override": True}
+                ]
+            }
+        }
+    })
\ No newline at end of file
@@ -0,0 +1,96 @@
+// scripts/benchmark_grid.ts
+// Times sampling an orbital's grid serially (generateOrbitalData) against sampling it in slabs
+// on worker threads, writing into shared memory and copying slabs back, and checks that every
+// run produces exactly the serial grid. Node threads stand in for the browser's workers.
+//
+// Usage: npm run benchmark:grid -- [resolution=64] [workers=available cores] [n=3 l=2 ml=0]
+import { availableParallelism } from 'node:os';
+import { isMainThread, parentPort, Worker } from 'node:worker_threads';
+import { GridSlab, sampleGridInSlabs, sampleOrbitalSlab, SlabArrays, SlabResult } from '../src/parallel_grid';
+import { generateOrbitalData } from '../src/quantum_functions';
+import { getAutoRMax } from '../src/orbital_bounds';
+import { OrbitalParams } from '../src/types/orbital';
+import { WorkerJob } from '../src/worker_pool';
+
+interface SlabMessage {
+    params: OrbitalParams;
+    slab: GridSlab;
+    target: SlabArrays | null;
+}
+
+const RUNS = 3; // Timed runs, after one untimed warm-up run
+
+function sameBits(a: Float32Array, b: Float32Array): boolean {
+    const [x, y] = [new Uint32Array(a.buffer, a.byteOffset, a.length), new Uint32Array(b.buffer, b.byteOffset, b.length)];
+    return x.length === y.length && x.every((bits, i) => bits === y[i]);
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Median time of the timed runs; check is called with every run's result
+async function time<T>(run: () => T | Promise<T>, check: (result: T) => void = () => undefined): Promise<number> {
+    const times: number[] = [];
+    for (let i = 0; i <= RUNS; i++) {
+        const start = performance.now();
+        const result = await run();
+        if (i > 0) {
+            times.push(performance.now() - start);
+        }
+        check(result);
+    }
+    return median(times);
+}
+
+async function main() {
+    const [resolution = 64, workerCount = availableParallelism(), n = 3, l = 2, ml = 0] = process.argv.slice(2).map(Number);
+    const params: OrbitalParams = { n, l, ml, Z: 1, resolution, rMax: getAutoRMax({ n, l, ml, Z: 1 }), isoLevel: 0 };
+
+    const workers = Array.from({ length: workerCount }, () => new Worker(new URL(import.meta.url)));
+    let nextId = 1;
+    let nextWorker = 0;
+    const runSlab = (slab: GridSlab, target: SlabArrays | null): WorkerJob<SlabResult> => {
+        const worker = workers[nextWorker++ % workers.length];
+        const result = new Promise<SlabResult>((resolve, reject) => {
+            worker.once('message', resolve);
+            worker.once('error', reject);
+        });
+        const message: SlabMessage = { params, slab, target };
+        worker.postMessage(message);
+        return { id: nextId++, result, cancel: () => undefined };
+    };
+
+    console.log(`${n},${l},${ml} orbital, ${resolution}³ grid (rMax ${params.rMax}), ${workerCount} worker threads`);
+    const serial = generateOrbitalData(n, l, ml, 1, resolution, params.rMax);
+    const serialTime = await time(() => generateOrbitalData(n, l, ml, 1, resolution, params.rMax));
+    console.log(`serial:           ${serialTime.toFixed(0)} ms`);
+
+    for (const shared of [true, false]) {
+        const parallelTime = await time(
+            () => sampleGridInSlabs(runSlab, resolution, params.rMax, { slabCount: workerCount, shared }).result,
+            grid => {
+                if (!sameBits(grid.grid, serial.grid) || !sameBits(grid.psiGrid, serial.psiGrid)) {
+                    throw new Error(`The ${shared ? 'shared' : 'copied'} grid differs from the serial one.`);
+                }
+            }
+        );
+        const label = shared ? 'parallel, shared:' : 'parallel, copied:';
+        console.log(`${label} ${parallelTime.toFixed(0)} ms (${(serialTime / parallelTime).toFixed(2)}x), identical to serial`);
+    }
+    await Promise.all(workers.map(worker => worker.terminate()));
+}
+
+if (isMainThread) {
+    main().catch(error => {
+        console.error(error);
+        process.exitCode = 1;
+    });
+} else {
+    parentPort!.on('message', ({ params, slab, target }: SlabMessage) => {
+        const result = sampleOrbitalSlab(params, slab, target);
+        const transfer = result.arrays ? [result.arrays.grid.buffer, result.arrays.psiGrid.buffer] as ArrayBuffer[] : [];
+        parentPort!.postMessage(result, transfer);
+    });
+}
@@ -0,0 +1,69 @@
+// scripts/benchmark_orbital.ts
+// Times sampling an orbital's grid point by point in spherical coordinates
+// (atomicOrbitalProbabilityDensity, with acos and atan2 per point) against the compiled Cartesian
+// evaluator, both through its potential function and as the batch sampler generateOrbitalData
+// uses, and checks how far the compiled grids are from the spherical one.
+//
+// Usage: npm run benchmark:orbital -- [resolution=64] [n=8 l=3 ml=1] [Z=1]
+import {
+    atomicOrbitalProbabilityDensity,
+    compileOrbital,
+    getOrbitalPotentialFunction,
+    sampleCompiledOrbitalGrid,
+    sampleOrbitalGrid
+} from '../src/quantum_functions';
+import { getAutoRMax } from '../src/orbital_bounds';
+import { OrbitalData } from '../src/types/orbital';
+
+const RUNS = 3; // Timed runs, after one untimed warm-up run
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+// Median time of the timed runs, and the result of the last run
+function time<T>(run: () => T): { milliseconds: number; result: T } {
+    const times: number[] = [];
+    let result = run();
+    for (let i = 0; i < RUNS; i++) {
+        const start = performance.now();
+        result = run();
+        times.push(performance.now() - start);
+    }
+    return { milliseconds: median(times), result };
+}
+
+// Largest difference in Re(ψ), relative to the largest |Re(ψ)| of the reference
+function relativeDifference(data: OrbitalData, reference: OrbitalData): number {
+    let difference = 0;
+    let scale = 0;
+    reference.psiGrid.forEach((value, i) => {
+        difference = Math.max(difference, Math.abs(data.psiGrid[i] - value));
+        scale = Math.max(scale, Math.abs(value));
+    });
+    return scale > 0 ? difference / scale : difference;
+}
+
+function main() {
+    const [resolution = 64, n = 8, l = 3, ml = 1, Z = 1] = process.argv.slice(2).map(Number);
+    const rMax = getAutoRMax({ n, l, ml, Z });
+    console.log(`${n},${l},${ml} orbital (Z = ${Z}), ${resolution}³ grid (rMax ${rMax})`);
+
+    const spherical = time(() => sampleOrbitalGrid((x, y, z) => {
+        const r = Math.sqrt(x * x + y * y + z * z);
+        const theta = r === 0 ? 0 : Math.acos(Math.min(1, Math.max(-1, z / r)));
+        return atomicOrbitalProbabilityDensity(n, l, ml, r, theta, Math.atan2(y, x), Z);
+    }, resolution, rMax));
+    console.log(`spherical, per point: ${spherical.milliseconds.toFixed(0)} ms`);
+
+    const perPoint = time(() => sampleOrbitalGrid(getOrbitalPotentialFunction(n, l, ml, Z, 0), resolution, rMax));
+    const batch = time(() => sampleCompiledOrbitalGrid(compileOrbital(n, l, ml, Z), resolution, rMax));
+    for (const [label, run] of [['compiled, per point:', perPoint], ['compiled, batch:    ', batch]] as const) {
+        const speedup = spherical.milliseconds / run.milliseconds;
+        const difference = relativeDifference(run.result, spherical.result);
+        console.log(`${label} ${run.milliseconds.toFixed(0)} ms (${speedup.toFixed(2)}x), Re(ψ) within ${difference.toExponential(1)} of the spherical grid`);
+    }
+}
+
+main();
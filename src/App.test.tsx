@@ -1,48 +1,114 @@
-import React from 'react';
-import { render, screen } from '@testing-library/react'; // Add screen import
-import { Provider } from 'react-redux';
-import { configureStore } from '@reduxjs/toolkit';
-import orbitalReducer from './store/orbitalSlice';
-import App from './App';
-
-// Mock OrbitalViewer component
-jest.mock('./components/OrbitalViewer', () => ({
-    __esModule: true,
-    default: () => <div data-testid="orbital-viewer">Orbital Viewer Mock</div>
-}));
-
-// Mock just what App directly uses
-jest.mock('./orbital_visualizer', () => ({
-    getOptimizedParameters: () => ({ rMax: 15, isoLevel: 0.005 })
-}));
-
-// Simple store setup
-const createTestStore = () => configureStore({
-    reducer: { orbital: orbitalReducer }
-});
-
-// Test wrapper
-const renderWithProvider = (ui: React.ReactElement) => {
-    const store = createTestStore();
-    return {
-        store,
-        ...render(
-            <Provider store={store}>{ui}</Provider>
-        )
-    };
-};
-
-describe('App', () => {
-
-    it('renders main components', () => {
-        renderWithProvider(<App />);
-        
-        // Check if container exists by id
-        expect(screen.getByTestId('orbital-viewer')).toBeInTheDocument();
-        
-        // Check for controls by matching exact label text
-        expect(screen.getByRole('combobox', { name: /Principal \(n\)/i })).toBeInTheDocument();
-        expect(screen.getByRole('combobox', { name: /Angular \(l\)/i })).toBeInTheDocument();
-        expect(screen.getByRole('spinbutton', { name: /Atomic Number \(Z\)/i })).toBeInTheDocument();
-    });
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react'; // Add screen import
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import orbitalReducer, { finishOrbitalCalculation, setActiveViewport } from './store/orbitalSlice';
+import scenesReducer from './store/scenesSlice';
+import App from './App';
+
+// Mock OrbitalViewer component
+jest.mock('./components/OrbitalViewer', () => ({
+    __esModule: true,
+    default: () => <div data-testid="orbital-viewer">Orbital Viewer Mock</div>
+}));
+
+// Mock just what App directly uses
+jest.mock('./orbital_visualizer', () => ({
+    getOptimizedParameters: () => ({ rMax: 15, isoLevel: 0.005 }),
+    createCameraLink: () => ({ contexts: new Set(), enabled: false, isSyncing: false })
+}));
+
+// Simple store setup
+const createTestStore = () => configureStore({
+    reducer: { orbital: orbitalReducer, scenes: scenesReducer }
+});
+
+// Test wrapper
+const renderWithProvider = (ui: React.ReactElement) => {
+    const store = createTestStore();
+    return {
+        store,
+        ...render(
+            <Provider store={store}>{ui}</Provider>
+        )
+    };
+};
+
+describe('App', () => {
+    afterEach(() => {
+        window.history.replaceState(null, '', '/');
+    });
+
+    it('renders main components', () => {
+        renderWithProvider(<App />);
+        
+        // Check if container exists by id
+        expect(screen.getByTestId('orbital-viewer')).toBeInTheDocument();
+        
+        // Check for controls by matching exact label text
+        expect(screen.getByRole('combobox', { name: /Principal \(n\)/i })).toBeInTheDocument();
+        expect(screen.getByRole('combobox', { name: /Angular \(l\)/i })).toBeInTheDocument();
+        expect(screen.getByRole('spinbutton', { name: /Atomic Number \(Z\)/i })).toBeInTheDocument();
+    });
+
+    it('opens the view described by a link', () => {
+        window.history.replaceState(null, '', '/?n=4&l=1&ml=-1&Z=2&res=64&rMax=40&iso=0.0002&nodal=1');
+        const { store } = renderWithProvider(<App />);
+
+        const { viewports: [{ params: currentParams }], showNodalSurfaces } = store.getState().orbital;
+        expect(currentParams).toMatchObject({ n: 4, l: 1, ml: -1, Z: 2, resolution: 64, rMax: 40, isoLevel: 0.0002 });
+        expect(showNodalSurfaces).toBe(true);
+        expect(screen.getByRole('combobox', { name: /Principal \(n\)/i })).toHaveTextContent('4');
+        expect(screen.getByRole('spinbutton', { name: /Atomic Number \(Z\)/i })).toHaveValue(2);
+        expect(screen.getByRole('spinbutton', { name: /Iso-Level/i })).toHaveValue(0.0002);
+    });
+
+    it('falls back to the default orbital for an invalid link', () => {
+        window.history.replaceState(null, '', '/?n=2&l=3&ml=0&Z=1&res=64&rMax=10&iso=0.001');
+        const { store } = renderWithProvider(<App />);
+        expect(store.getState().orbital.viewports[0].params).toMatchObject({ n: 3, l: 2 });
+        expect(window.location.search).toContain('n=3&l=2');
+    });
+
+    it('adds a history entry per orbital and restores it on back', () => {
+        const { store } = renderWithProvider(<App />);
+        const firstSearch = window.location.search;
+        const pushState = jest.spyOn(window.history, 'pushState');
+
+        store.dispatch(finishOrbitalCalculation());
+        fireEvent.change(screen.getByRole('spinbutton', { name: /Atomic Number \(Z\)/i }), { target: { value: '3' } });
+        fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+        expect(pushState).toHaveBeenCalledTimes(1);
+        expect(window.location.search).toContain('Z=3');
+
+        act(() => {
+            window.history.replaceState(null, '', `/${firstSearch}`);
+            window.dispatchEvent(new PopStateEvent('popstate'));
+        });
+        expect(store.getState().orbital.viewports[0].params).toMatchObject({ Z: 1 });
+        expect(pushState).toHaveBeenCalledTimes(1);
+        pushState.mockRestore();
+    });
+
+    it('edits the active pane and loads its orbital into the controls', () => {
+        const { store } = renderWithProvider(<App />);
+        act(() => {
+            store.dispatch(finishOrbitalCalculation());
+        });
+        fireEvent.click(screen.getByRole('button', { name: '2 panes' }));
+        expect(screen.getAllByTestId('orbital-viewer')).toHaveLength(2);
+
+        act(() => {
+            store.dispatch(finishOrbitalCalculation(1));
+            store.dispatch(setActiveViewport(1));
+        });
+        fireEvent.change(screen.getByRole('spinbutton', { name: /Atomic Number \(Z\)/i }), { target: { value: '4' } });
+        fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+        expect(store.getState().orbital.viewports.map(v => v.params?.Z)).toEqual([1, 4]);
+
+        act(() => {
+            store.dispatch(setActiveViewport(0));
+        });
+        expect(screen.getByRole('spinbutton', { name: /Atomic Number \(Z\)/i })).toHaveValue(1);
+    });
 });
\ No newline at end of file
@@ -1,116 +1,385 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { 
-    ThemeProvider, 
-    createTheme, 
-    CssBaseline, 
-    Box, 
-    CircularProgress 
-} from '@mui/material';
-import { useAppDispatch, useAppSelector } from './store/hooks';
-import { startOrbitalCalculation, finishOrbitalCalculation } from './store/orbitalSlice';
-import Controls from './components/Controls';
-import OrbitalViewer from './components/OrbitalViewer';
-import { getOptimizedParameters } from './orbital_visualizer';
-import { OrbitalParams } from './types/orbital';
-
-const defaultN = 3;
-const defaultL = 2;
-const defaultOptimized = getOptimizedParameters(defaultN, defaultL) || { rMax: 15, isoLevel: 0.005 };
-
-const theme = createTheme({
-  palette: {
-    primary: { main: '#1976d2' },
-    secondary: { main: '#dc004e' },
-  },
-});
-
-function App() {
-    const dispatch = useAppDispatch();
-    const { isLoading } = useAppSelector(state => state.orbital);
-
-    // Keep individual control values as local state
-    const [n, setN] = useState<number>(defaultN);
-    const [l, setL] = useState<number>(defaultL);
-    const [ml, setMl] = useState<number>(0);
-    const [Z, setZ] = useState<number>(1);
-    const [resolution, setResolution] = useState<number>(64);
-    const [rMax, setRMax] = useState<number>(defaultOptimized.rMax);
-    const [isoLevel, setIsoLevel] = useState<number>(defaultOptimized.isoLevel);
-
-    const isInitializedRef = useRef(false);
-
-    const handleOrbitalParamsChange = useCallback((newParams: OrbitalParams) => {
-        console.log('App.tsx: Orbital params changing:', newParams);
-        dispatch(startOrbitalCalculation(newParams));
-    }, [dispatch]);
-
-    const handleOrbitalRendered = useCallback(() => {
-        console.log('App.tsx: Orbital rendered callback');
-        dispatch(finishOrbitalCalculation());
-    }, [dispatch]);
-
-    // Initial render - only run once
-    useEffect(() => {
-        if (!isInitializedRef.current) {
-            isInitializedRef.current = true;
-            console.log("App.tsx: Triggering initial orbital render.");
-            const initialParams = {
-                n: defaultN,
-                l: defaultL,
-                ml: 0,
-                Z: 1,
-                resolution: 32,
-                rMax: defaultOptimized.rMax,
-                isoLevel: defaultOptimized.isoLevel,
-            };
-            handleOrbitalParamsChange(initialParams);
-        }
-    }, [handleOrbitalParamsChange]);
-
-    return (
-        <ThemeProvider theme={theme}>
-            <CssBaseline />
-            <Box 
-                id="canvas-container"
-                sx={{ 
-                    width: '100%', 
-                    height: '100vh',
-                    position: 'relative',
-                    backgroundColor: '#111'
-                }}
-            >
-                <OrbitalViewer
-                    onOrbitalRendered={handleOrbitalRendered}
-                />
-                {isLoading && (
-                    <div className="spinner-overlay">
-                        <div className="spinner-container">
-                            <CircularProgress />
-                        </div>
-                    </div>
-                )}
-                <Controls
-                    initialN={n}
-                    onNChange={setN}
-                    initialL={l}
-                    onLChange={setL}
-                    initialMl={ml}
-                    onMlChange={setMl}
-                    initialZ={Z}
-                    onZChange={setZ}
-                    initialResolution={resolution}
-                    onResolutionChange={setResolution}
-                    initialRMax={rMax}
-                    onRMaxChange={setRMax}
-                    initialIsoLevel={isoLevel}
-                    onIsoLevelChange={setIsoLevel}
-                    onUpdateOrbital={handleOrbitalParamsChange}
-                    getOptimizedParams={getOptimizedParameters}
-                    isLoading={isLoading}
-                />
-            </Box>
-        </ThemeProvider>
-    );
-}
-
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { 
+    ThemeProvider, 
+    createTheme, 
+    CssBaseline, 
+    Box, 
+    CircularProgress 
+} from '@mui/material';
+import { useAppDispatch, useAppSelector } from './store/hooks';
+import {
+    startOrbitalCalculation,
+    finishOrbitalCalculation,
+    selectCalculationProgress,
+    selectCurrentParams,
+    selectIsLoading,
+    setLinkCameras,
+    setShowNodalSurfaces,
+    setSlicePlane,
+    setViewportCount
+} from './store/orbitalSlice';
+import Controls from './components/Controls';
+import OrbitalViewer from './components/OrbitalViewer';
+import TimelineControls from './components/TimelineControls';
+import RadialAnalysisPanel from './components/RadialAnalysisPanel';
+import SlicePanel from './components/SlicePanel';
+import ScenesPanel from './components/ScenesPanel';
+import LayersPanel from './components/LayersPanel';
+import { createCameraLink, getOptimizedParameters } from './orbital_visualizer';
+import { CameraPose, ComputeBackendName, ExtractionMode, ImportedCube, MeshData, OrbitalBasis, OrbitalComponent, OrbitalParams, RenderMode, TransferFunction } from './types/orbital';
+import { defaultTransferFunction } from './volume_rendering';
+import { DEFAULT_POINT_COUNT, DEFAULT_SAMPLE_SEED } from './orbital_sampler';
+import { DEFAULT_ENCLOSED_PROBABILITY } from './enclosed_probability';
+import { getAutoRMax } from './orbital_bounds';
+import { DEFAULT_COMPUTE_BACKEND } from './compute_backend';
+import { decodeUrlState, encodeUrlState, UrlState } from './url_state';
+
+const defaultN = 3;
+const defaultL = 2;
+const defaultOptimized = getOptimizedParameters(defaultN, defaultL);
+
+const defaultParams: OrbitalParams = {
+    n: defaultN,
+    l: defaultL,
+    ml: 0,
+    Z: 1,
+    resolution: 32,
+    rMax: defaultOptimized.rMax,
+    isoLevel: defaultOptimized.isoLevel,
+    enclosedProbability: DEFAULT_ENCLOSED_PROBABILITY,
+    basis: 'real',
+};
+
+// The view in the address bar, or null when there is none or it is invalid
+const readUrlState = (): UrlState | null => {
+    try {
+        return decodeUrlState(window.location.search);
+    } catch (error) {
+        console.warn('App.tsx: Ignoring invalid link', error);
+        return null;
+    }
+};
+
+const theme = createTheme({
+  palette: {
+    primary: { main: '#1976d2' },
+    secondary: { main: '#dc004e' },
+  },
+});
+
+function App() {
+    const dispatch = useAppDispatch();
+    const { viewports, activeViewport, linkCameras, showNodalSurfaces, slicePlane } = useAppSelector(state => state.orbital);
+    const currentParams = useAppSelector(selectCurrentParams);
+    const isLoading = useAppSelector(selectIsLoading);
+    const progress = useAppSelector(selectCalculationProgress);
+    const { surfaceInfo, error: calculationError } = viewports[activeViewport];
+
+    // Keep individual control values as local state
+    const [n, setN] = useState<number>(defaultN);
+    const [l, setL] = useState<number>(defaultL);
+    const [ml, setMl] = useState<number>(0);
+    const [Z, setZ] = useState<number>(1);
+    const [resolution, setResolution] = useState<number>(64);
+    const [extraction, setExtraction] = useState<ExtractionMode>('uniform');
+    const [computeBackend, setComputeBackend] = useState<ComputeBackendName>(DEFAULT_COMPUTE_BACKEND);
+    const [rMax, setRMax] = useState<number>(defaultOptimized.rMax);
+    const [autoRMax, setAutoRMax] = useState<boolean>(true);
+    const [isoLevel, setIsoLevel] = useState<number>(defaultOptimized.isoLevel);
+    const [enclosedProbability, setEnclosedProbability] = useState<number | null>(DEFAULT_ENCLOSED_PROBABILITY);
+    const [basis, setBasis] = useState<OrbitalBasis>('real');
+    const [condonShortleyPhase, setCondonShortleyPhase] = useState<boolean>(true);
+    const [components, setComponents] = useState<OrbitalComponent[]>([]);
+    const [frameCount, setFrameCount] = useState<number>(0);
+    const [renderMode, setRenderMode] = useState<RenderMode>('isosurface');
+    const [transferFunction, setTransferFunction] = useState<TransferFunction>(defaultTransferFunction);
+    const [pointCount, setPointCount] = useState<number>(DEFAULT_POINT_COUNT);
+    const [sampleSeed, setSampleSeed] = useState<number>(DEFAULT_SAMPLE_SEED);
+    const [meshDataByViewport, setMeshDataByViewport] = useState<(MeshData | null)[]>([]);
+    const [importedCube, setImportedCube] = useState<ImportedCube | null>(null);
+    const [importedIsoLevel, setImportedIsoLevel] = useState<number>(0);
+    // Pose from a link or scene, for the pane that was active when it was opened
+    const [restoredCamera, setRestoredCamera] = useState<{ viewport: number; pose: CameraPose } | null>(null);
+    const cameraLinkRef = useRef(createCameraLink());
+
+    const isInitializedRef = useRef(false);
+    // Whether the next orbital gets its own history entry; restored views replace the current one
+    const historyModeRef = useRef<'push' | 'replace'>('replace');
+    const urlStateRef = useRef<UrlState | null>(null); // View last written to the address bar
+    const cameraPoseRef = useRef<CameraPose | null>(null); // Last pose the user left the camera in
+    const restoredIsoLevelRef = useRef<number | null>(null);
+    const activeViewportRef = useRef(activeViewport); // Pane the controls were last loaded from
+
+    // Controls re-derives the iso-level whenever n or l change, which would overwrite a restored
+    // one. Its effects run before this component's, so the restored value is put back here.
+    // Declared first so that it only runs in the commit after a restore.
+    useEffect(() => {
+        if (restoredIsoLevelRef.current !== null) {
+            setIsoLevel(restoredIsoLevelRef.current);
+            restoredIsoLevelRef.current = null;
+        }
+    });
+
+    const handleOrbitalParamsChange = useCallback((newParams: OrbitalParams) => {
+        console.log('App.tsx: Orbital params changing:', newParams);
+        historyModeRef.current = 'push';
+        setImportedCube(null); // Updating the orbital closes an imported cube file
+        dispatch(startOrbitalCalculation(newParams));
+    }, [dispatch]);
+
+    // Sets every control to match params, e.g. when another pane becomes active
+    const setControlsFromParams = useCallback((params: OrbitalParams) => {
+        setN(params.n);
+        setL(params.l);
+        setMl(params.ml);
+        setZ(params.Z);
+        setResolution(params.resolution);
+        setExtraction(params.extraction ?? 'uniform');
+        setComputeBackend(params.computeBackend ?? DEFAULT_COMPUTE_BACKEND);
+        setRMax(params.rMax);
+        setAutoRMax(params.rMax === getAutoRMax(params));
+        setIsoLevel(params.isoLevel);
+        restoredIsoLevelRef.current = params.isoLevel;
+        setEnclosedProbability(params.enclosedProbability ?? null);
+        setBasis(params.basis ?? 'real');
+        setCondonShortleyPhase(params.condonShortleyPhase ?? true);
+        setComponents(params.components ?? []);
+        setFrameCount(params.frameCount ?? 0);
+        setRenderMode(params.renderMode ?? 'isosurface');
+        setTransferFunction(params.transferFunction ?? defaultTransferFunction);
+        setPointCount(params.pointCount ?? DEFAULT_POINT_COUNT);
+        setSampleSeed(params.sampleSeed ?? DEFAULT_SAMPLE_SEED);
+    }, []);
+
+    // Shows a view from a link or from history in the active pane, with the controls set to match
+    const restoreView = useCallback((state: UrlState) => {
+        const { params } = state;
+        setControlsFromParams(params);
+        setImportedCube(null);
+        if (state.camera) {
+            cameraPoseRef.current = state.camera;
+            setRestoredCamera({ viewport: activeViewportRef.current, pose: state.camera });
+        }
+        historyModeRef.current = 'replace';
+        dispatch(setShowNodalSurfaces(state.showNodalSurfaces));
+        dispatch(setSlicePlane(state.slicePlane));
+        dispatch(startOrbitalCalculation(params));
+    }, [setControlsFromParams, dispatch]);
+
+    const writeUrl = useCallback((state: UrlState, mode: 'push' | 'replace') => {
+        urlStateRef.current = state;
+        const search = `?${encodeUrlState(state)}`;
+        if (search === window.location.search) return;
+        const url = `${window.location.pathname}${search}${window.location.hash}`;
+        if (mode === 'push') {
+            window.history.pushState(null, '', url);
+        } else {
+            window.history.replaceState(null, '', url);
+        }
+    }, []);
+
+    const handleShowNodalSurfacesChange = useCallback((show: boolean) => {
+        dispatch(setShowNodalSurfaces(show));
+    }, [dispatch]);
+
+    const handleOrbitalRendered = useCallback((viewport: number) => {
+        console.log('App.tsx: Orbital rendered callback');
+        dispatch(finishOrbitalCalculation(viewport));
+    }, [dispatch]);
+
+    const handleMeshDataChange = useCallback((meshData: MeshData | null, viewport: number) => {
+        setMeshDataByViewport(previous => {
+            const next = [...previous];
+            next[viewport] = meshData;
+            return next;
+        });
+    }, []);
+
+    const handleViewportCountChange = useCallback((count: number) => {
+        dispatch(setViewportCount(count));
+    }, [dispatch]);
+
+    const handleLinkCamerasChange = useCallback((link: boolean) => {
+        dispatch(setLinkCameras(link));
+    }, [dispatch]);
+
+    useEffect(() => {
+        cameraLinkRef.current.enabled = linkCameras;
+    }, [linkCameras]);
+
+    // The controls edit the active pane: load its orbital into them when another pane is picked.
+    // An imported cube belongs to the pane it was opened in, so it is closed.
+    useEffect(() => {
+        if (activeViewportRef.current === activeViewport) return;
+        activeViewportRef.current = activeViewport;
+        setImportedCube(null);
+        const { params } = viewports[activeViewport];
+        if (params) {
+            setControlsFromParams(params);
+        }
+    }, [activeViewport, viewports, setControlsFromParams]);
+
+    // Camera moves only update the current history entry
+    const handleCameraChange = useCallback((camera: CameraPose) => {
+        cameraPoseRef.current = camera;
+        if (urlStateRef.current) {
+            writeUrl({ ...urlStateRef.current, camera }, 'replace');
+        }
+    }, [writeUrl]);
+
+    // Initial render - only run once; a link opens the view it describes
+    useEffect(() => {
+        if (!isInitializedRef.current) {
+            isInitializedRef.current = true;
+            console.log("App.tsx: Triggering initial orbital render.");
+            const linkedState = readUrlState();
+            if (linkedState) {
+                restoreView(linkedState);
+            } else {
+                historyModeRef.current = 'replace';
+                dispatch(startOrbitalCalculation(defaultParams));
+            }
+        }
+    }, [restoreView, dispatch]);
+
+    // A scene gets its own history entry, like a new orbital
+    const handleOpenScene = useCallback((state: UrlState) => {
+        restoreView(state);
+        historyModeRef.current = 'push';
+    }, [restoreView]);
+
+    const getCurrentView = useCallback(
+        () => (urlStateRef.current ? encodeUrlState(urlStateRef.current) : null),
+        []
+    );
+
+    // Back/forward show the orbital that was on screen at that point
+    useEffect(() => {
+        const handlePopState = () => {
+            restoreView(readUrlState() ?? { params: defaultParams, showNodalSurfaces: false, slicePlane: null, camera: null });
+        };
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, [restoreView]);
+
+    // Keep the address bar in sync: a new orbital pushes an entry, display options replace it
+    useEffect(() => {
+        if (!currentParams) return;
+        writeUrl(
+            { params: currentParams, showNodalSurfaces, slicePlane, camera: cameraPoseRef.current },
+            historyModeRef.current
+        );
+        historyModeRef.current = 'replace';
+    }, [currentParams, showNodalSurfaces, slicePlane, writeUrl]);
+
+    return (
+        <ThemeProvider theme={theme}>
+            <CssBaseline />
+            <Box 
+                id="canvas-container"
+                sx={{ 
+                    width: '100%', 
+                    height: '100vh',
+                    position: 'relative',
+                    backgroundColor: '#111'
+                }}
+            >
+                <Box
+                    id="viewport-grid"
+                    sx={{
+                        gridTemplateColumns: `repeat(${viewports.length === 4 ? 2 : viewports.length}, 1fr)`,
+                        gridTemplateRows: viewports.length === 4 ? '1fr 1fr' : '1fr',
+                    }}
+                >
+                    {viewports.map((_, i) => (
+                        <OrbitalViewer
+                            key={i}
+                            viewport={i}
+                            cameraLink={cameraLinkRef.current}
+                            onOrbitalRendered={handleOrbitalRendered}
+                            onMeshDataChange={handleMeshDataChange}
+                            importedCube={i === activeViewport ? importedCube : null}
+                            importedIsoLevel={importedIsoLevel}
+                            cameraPose={restoredCamera?.viewport === i ? restoredCamera.pose : null}
+                            onCameraChange={i === activeViewport ? handleCameraChange : undefined}
+                        />
+                    ))}
+                </Box>
+                <TimelineControls />
+                <RadialAnalysisPanel />
+                <SlicePanel />
+                <Box id="top-panels">
+                    <ScenesPanel getCurrentView={getCurrentView} onOpenScene={handleOpenScene} />
+                    <LayersPanel />
+                </Box>
+                {isLoading && (
+                    <div className="spinner-overlay">
+                        <div className="spinner-container">
+                            <CircularProgress />
+                        </div>
+                    </div>
+                )}
+                <Controls
+                    initialN={n}
+                    onNChange={setN}
+                    initialL={l}
+                    onLChange={setL}
+                    initialMl={ml}
+                    onMlChange={setMl}
+                    initialZ={Z}
+                    onZChange={setZ}
+                    initialResolution={resolution}
+                    onResolutionChange={setResolution}
+                    initialExtraction={extraction}
+                    onExtractionChange={setExtraction}
+                    initialComputeBackend={computeBackend}
+                    onComputeBackendChange={setComputeBackend}
+                    initialRMax={rMax}
+                    onRMaxChange={setRMax}
+                    initialAutoRMax={autoRMax}
+                    onAutoRMaxChange={setAutoRMax}
+                    initialIsoLevel={isoLevel}
+                    onIsoLevelChange={setIsoLevel}
+                    initialEnclosedProbability={enclosedProbability}
+                    onEnclosedProbabilityChange={setEnclosedProbability}
+                    surfaceInfo={surfaceInfo}
+                    initialBasis={basis}
+                    onBasisChange={setBasis}
+                    initialCondonShortleyPhase={condonShortleyPhase}
+                    onCondonShortleyPhaseChange={setCondonShortleyPhase}
+                    initialShowNodalSurfaces={showNodalSurfaces}
+                    onShowNodalSurfacesChange={handleShowNodalSurfacesChange}
+                    initialComponents={components}
+                    onComponentsChange={setComponents}
+                    initialFrameCount={frameCount}
+                    onFrameCountChange={setFrameCount}
+                    initialRenderMode={renderMode}
+                    onRenderModeChange={setRenderMode}
+                    initialTransferFunction={transferFunction}
+                    onTransferFunctionChange={setTransferFunction}
+                    initialPointCount={pointCount}
+                    onPointCountChange={setPointCount}
+                    initialSampleSeed={sampleSeed}
+                    onSampleSeedChange={setSampleSeed}
+                    onUpdateOrbital={handleOrbitalParamsChange}
+                    meshData={meshDataByViewport[activeViewport] ?? null}
+                    initialViewportCount={viewports.length}
+                    onViewportCountChange={handleViewportCountChange}
+                    initialLinkCameras={linkCameras}
+                    onLinkCamerasChange={handleLinkCamerasChange}
+                    exportParams={importedCube ? null : currentParams}
+                    importedCube={importedCube}
+                    onImportedCubeChange={setImportedCube}
+                    initialImportedIsoLevel={importedIsoLevel}
+                    onImportedIsoLevelChange={setImportedIsoLevel}
+                    getOptimizedParams={getOptimizedParameters}
+                    isLoading={isLoading}
+                    progress={progress}
+                    calculationError={calculationError}
+                />
+            </Box>
+        </ThemeProvider>
+    );
+}
+
 export default App;
\ No newline at end of file
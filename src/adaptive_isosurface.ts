@@ -0,0 +1,221 @@
+import { OrbitalDataPoint } from './types/orbital';
+import { createPolygonizer, Isosurface, IsosurfaceLattice, IsosurfaceOptions } from './isosurface';
+
+// Isosurfaces of an analytic orbital over an octree instead of a uniform grid. For large n the
+// box is wide and the surface fills little of it, yet its inner lobes are small: a uniform grid
+// spends most of its samples on empty space and still misses them. The octree is refined one
+// level at a time, splitting every cell whose corners and centre straddle the iso-level, or a
+// node of ψ where the density is not negligible, until the next level would exceed the cell
+// budget. The surface is extracted from the cells of the last level only, which all have the
+// same size, so there are no cracks between cells of different sizes; from those cells it is
+// followed into every neighbour it crosses into, so that a piece of surface the coarse levels
+// missed inside an unsplit cell is still closed.
+
+export const ADAPTIVE_MIN_DEPTH = 3; // Every cell is split down to 8³ cells before any is tested
+export const ADAPTIVE_MAX_DEPTH = 10; // At most 1024 cells along each axis
+
+// Cells on a node are only split where the density reaches this fraction of the iso-level;
+// further out no lobe between the nodes comes near the surface
+const NODE_DENSITY_RATIO = 0.01;
+
+// Samples are kept on the lattice one level below the deepest, where every cell centre lies
+const SAMPLE_DEPTH = ADAPTIVE_MAX_DEPTH + 1;
+const SAMPLE_POINTS = 2 ** SAMPLE_DEPTH + 1;
+
+// Cell budgets offered in the controls, as the resolution of the uniform grid with that many
+// cells; adaptive extraction may use resolution³ octree cells
+export const CELL_BUDGET_RESOLUTIONS = [16, 24, 32, 48, 64, 96, 128];
+
+// The corners on each face of a cell, as a mask of corner bits (see TETRAHEDRA in isosurface.ts),
+// with the axis and direction of the neighbour across it
+const FACES = [
+    { mask: 0x55, axis: 0, direction: -1 },
+    { mask: 0xaa, axis: 0, direction: 1 },
+    { mask: 0x33, axis: 1, direction: -1 },
+    { mask: 0xcc, axis: 1, direction: 1 },
+    { mask: 0x0f, axis: 2, direction: -1 },
+    { mask: 0xf0, axis: 2, direction: 1 },
+];
+
+export type OrbitalSampler = (x: number, y: number, z: number) => OrbitalDataPoint;
+
+export interface IsoOctreeOptions {
+    maxCells: number; // Leaves the octree may have
+    onLevel?: () => void; // Called after each level of cells is tested
+}
+
+export interface IsoOctree {
+    depth: number; // Of the finest cells, 2^depth of which span the box along each axis
+    leafCount: number; // Cells of every size that were not split
+    cells: number[]; // Finest cells on the surface or a node, by the lattice index of their lowest corner
+    lattice: Omit<IsosurfaceLattice, 'valueAt'>; // Corners of the finest cells
+    densityAt: (index: number) => number; // |ψ|² at a lattice point
+    psiAt: (index: number) => number; // Re(ψ) at a lattice point
+}
+
+/**
+ * The number of cells in a budget of the controls.
+ */
+export function getCellBudget(resolution: number): number {
+    return resolution ** 3;
+}
+
+/**
+ * Refines an octree over [-rMax, rMax]³ towards the surface |ψ|² = isoLevel and the nodes of ψ.
+ * @param sample The orbital, evaluated with an isoLevel of 0.
+ * @throws Error when the budget does not cover the cells of ADAPTIVE_MIN_DEPTH.
+ */
+export function buildIsoOctree(sample: OrbitalSampler, rMax: number, isoLevel: number, options: IsoOctreeOptions): IsoOctree {
+    const minCells = 8 ** ADAPTIVE_MIN_DEPTH;
+    if (!(options.maxCells >= minCells)) {
+        throw new Error(`The cell budget must be at least ${minCells} cells.`);
+    }
+    if (!(rMax > 0)) {
+        throw new Error("rMax must be a positive number.");
+    }
+    if (!(isoLevel > 0)) {
+        throw new Error("The iso-level must be positive.");
+    }
+
+    // Every point is evaluated once, whichever level asks for it
+    const slots = new Map<number, number>();
+    const densities: number[] = [];
+    const psis: number[] = [];
+    const sampleSpacing = (2 * rMax) / (SAMPLE_POINTS - 1);
+    const sampleSlot = (i: number, j: number, k: number): number => {
+        const id = (i * SAMPLE_POINTS + j) * SAMPLE_POINTS + k;
+        let slot = slots.get(id);
+        if (slot === undefined) {
+            const { probabilityDensity, waveFunctionValue } = sample(
+                -rMax + i * sampleSpacing,
+                -rMax + j * sampleSpacing,
+                -rMax + k * sampleSpacing
+            );
+            slot = densities.length;
+            densities.push(probabilityDensity);
+            psis.push(waveFunctionValue);
+            slots.set(id, slot);
+        }
+        return slot;
+    };
+
+    // Tests the corners and centre of cell (i, j, k) of `depth`
+    const needsSplit = (i: number, j: number, k: number, depth: number): boolean => {
+        const scale = 2 ** (SAMPLE_DEPTH - depth);
+        const half = scale / 2;
+        const points = [[i * scale + half, j * scale + half, k * scale + half]];
+        for (let c = 0; c < 8; c++) {
+            points.push([(i + (c & 1)) * scale, (j + ((c >> 1) & 1)) * scale, (k + ((c >> 2) & 1)) * scale]);
+        }
+        let above = 0;
+        let maxDensity = 0;
+        let positive = false;
+        let negative = false;
+        for (const [x, y, z] of points) {
+            const slot = sampleSlot(x, y, z);
+            if (densities[slot] > isoLevel) above++;
+            maxDensity = Math.max(maxDensity, densities[slot]);
+            positive ||= psis[slot] > 0;
+            negative ||= psis[slot] < 0;
+        }
+        const onSurface = above > 0 && above < points.length;
+        const onNode = positive && negative && maxDensity > NODE_DENSITY_RATIO * isoLevel;
+        return onSurface || onNode;
+    };
+
+    let depth = 0;
+    let cells = [0, 0, 0]; // i, j, k of each cell of the current level
+    let leafCount = 1;
+    for (;;) {
+        let active = cells;
+        if (depth >= ADAPTIVE_MIN_DEPTH) {
+            active = [];
+            for (let c = 0; c < cells.length; c += 3) {
+                if (needsSplit(cells[c], cells[c + 1], cells[c + 2], depth)) {
+                    active.push(cells[c], cells[c + 1], cells[c + 2]);
+                }
+            }
+        }
+        options.onLevel?.();
+        const activeCount = active.length / 3;
+        // Splitting a cell turns one leaf into eight
+        const overBudget = depth >= ADAPTIVE_MIN_DEPTH && leafCount + 7 * activeCount > options.maxCells;
+        if (activeCount === 0 || depth === ADAPTIVE_MAX_DEPTH || overBudget) {
+            cells = active;
+            break;
+        }
+        const children: number[] = [];
+        for (let c = 0; c < active.length; c += 3) {
+            for (let child = 0; child < 8; child++) {
+                children.push(2 * active[c] + (child & 1), 2 * active[c + 1] + ((child >> 1) & 1), 2 * active[c + 2] + ((child >> 2) & 1));
+            }
+        }
+        leafCount += 7 * activeCount;
+        cells = children;
+        depth++;
+    }
+
+    const points = 2 ** depth + 1;
+    const scale = 2 ** (SAMPLE_DEPTH - depth);
+    const slotAt = (index: number) => sampleSlot(
+        Math.floor(index / (points * points)) * scale,
+        (Math.floor(index / points) % points) * scale,
+        (index % points) * scale
+    );
+    const spacing = (2 * rMax) / (points - 1);
+    const bases: number[] = [];
+    for (let c = 0; c < cells.length; c += 3) {
+        bases.push((cells[c] * points + cells[c + 1]) * points + cells[c + 2]);
+    }
+    return {
+        depth,
+        leafCount,
+        cells: bases,
+        lattice: { dims: [points, points, points], origin: [-rMax, -rMax, -rMax], spacing: [spacing, spacing, spacing] },
+        densityAt: index => densities[slotAt(index)],
+        psiAt: index => psis[slotAt(index)],
+    };
+}
+
+/**
+ * Extracts the surface where |ψ|² ('density') or Re(ψ) ('psi') crosses `level` from the finest
+ * cells of an octree, following it into neighbouring cells until it closes or leaves the box.
+ * Options are as for extractIsosurface, without onSlab.
+ */
+export function extractOctreeSurface(
+    octree: IsoOctree,
+    field: 'density' | 'psi',
+    level: number,
+    options: Omit<IsosurfaceOptions, 'onSlab'> = {}
+): Isosurface {
+    const polygonizer = createPolygonizer(
+        { ...octree.lattice, valueAt: field === 'density' ? octree.densityAt : octree.psiAt },
+        level,
+        options
+    );
+    const points = octree.lattice.dims[0];
+    const cellsPerAxis = points - 1;
+    const queue = [...octree.cells];
+    const visited = new Set(queue);
+    for (let head = 0; head < queue.length; head++) {
+        const base = queue[head];
+        const insideMask = polygonizer.addCell(base);
+        if (insideMask === 0 || insideMask === 255) continue;
+
+        const ijk = [Math.floor(base / (points * points)), Math.floor(base / points) % points, base % points];
+        for (const { mask, axis, direction } of FACES) {
+            // The surface crosses a face exactly when the face's corners are on both sides
+            const inside = insideMask & mask;
+            if (inside === 0 || inside === mask) continue;
+            const neighbour = [...ijk];
+            neighbour[axis] += direction;
+            if (neighbour[axis] < 0 || neighbour[axis] >= cellsPerAxis) continue;
+            const neighbourBase = (neighbour[0] * points + neighbour[1]) * points + neighbour[2];
+            if (!visited.has(neighbourBase)) {
+                visited.add(neighbourBase);
+                queue.push(neighbourBase);
+            }
+        }
+    }
+    return polygonizer.finish();
+}
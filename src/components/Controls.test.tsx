@@ -1,35 +1,351 @@
-import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
-import Controls from './Controls';
-
-describe('Controls', () => {
-  it('renders with initial values and calls onNChange when N is changed', () => {
-    const onNChange = jest.fn();
-    render(
-      <Controls
-        initialN={3}
-        onNChange={onNChange}
-        initialL={2}
-        onLChange={() => {}}
-        initialMl={0}
-        onMlChange={() => {}}
-        initialZ={1}
-        onZChange={() => {}}
-        initialResolution={32}
-        onResolutionChange={() => {}}
-        initialRMax={15}
-        onRMaxChange={() => {}}
-        initialIsoLevel={0.005}
-        onIsoLevelChange={() => {}}
-        onUpdateOrbital={() => {}}
-        getOptimizedParams={() => ({ rMax: 15, isoLevel: 0.005 })}
-      />
-    );
-    // Example: check if N select is rendered
-    expect(screen.getByRole('combobox', { name: /Principal \(n\)/i })).toBeInTheDocument();
-
-    // Simulate changing N (you may need to adjust the selector based on your actual markup)
-    // fireEvent.change(screen.getByLabelText(/principal quantum number/i), { target: { value: '4' } });
-    // expect(onNChange).toHaveBeenCalledWith(4);
-  });
-});
\ No newline at end of file
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import Controls from './Controls';
+import { defaultTransferFunction } from '../volume_rendering';
+import { calculateOrbitalGrid } from '../orbital_visualizer';
+import { generateOrbitalData } from '../quantum_functions';
+import { writeCube } from '../volume_export';
+import { createMeshData } from '../mesh_data';
+
+// The worker behind volume exports does not run under jsdom
+jest.mock('../orbital_visualizer', () => ({
+  calculateOrbitalGrid: jest.fn(),
+}));
+
+type ControlsProps = React.ComponentProps<typeof Controls>;
+
+const defaultProps: ControlsProps = {
+  initialN: 3,
+  onNChange: () => {},
+  initialL: 2,
+  onLChange: () => {},
+  initialMl: 0,
+  onMlChange: () => {},
+  initialZ: 1,
+  onZChange: () => {},
+  initialResolution: 32,
+  onResolutionChange: () => {},
+  initialExtraction: 'uniform',
+  onExtractionChange: () => {},
+  initialComputeBackend: 'wasm',
+  onComputeBackendChange: () => {},
+  initialRMax: 15,
+  onRMaxChange: () => {},
+  initialAutoRMax: false,
+  onAutoRMaxChange: () => {},
+  initialIsoLevel: 0.005,
+  onIsoLevelChange: () => {},
+  initialEnclosedProbability: null,
+  onEnclosedProbabilityChange: () => {},
+  surfaceInfo: null,
+  initialBasis: 'real',
+  onBasisChange: () => {},
+  initialCondonShortleyPhase: true,
+  onCondonShortleyPhaseChange: () => {},
+  initialShowNodalSurfaces: false,
+  onShowNodalSurfacesChange: () => {},
+  initialComponents: [],
+  onComponentsChange: () => {},
+  initialFrameCount: 0,
+  onFrameCountChange: () => {},
+  initialRenderMode: 'isosurface',
+  onRenderModeChange: () => {},
+  initialTransferFunction: defaultTransferFunction,
+  onTransferFunctionChange: () => {},
+  initialPointCount: 20000,
+  onPointCountChange: () => {},
+  initialSampleSeed: 1,
+  onSampleSeedChange: () => {},
+  onUpdateOrbital: () => {},
+  meshData: null,
+  exportParams: null,
+  importedCube: null,
+  onImportedCubeChange: () => {},
+  initialImportedIsoLevel: 0,
+  onImportedIsoLevelChange: () => {},
+  initialViewportCount: 1,
+  onViewportCountChange: () => {},
+  initialLinkCameras: false,
+  onLinkCamerasChange: () => {},
+  getOptimizedParams: () => ({ rMax: 15, isoLevel: 0.005 }),
+  isLoading: false,
+  progress: null,
+  calculationError: null,
+};
+
+const exportParams = { n: 3, l: 2, ml: 0, Z: 1, resolution: 32, rMax: 20, isoLevel: 0.001 };
+
+const renderControls = (props: Partial<ControlsProps> = {}) => render(<Controls {...defaultProps} {...props} />);
+
+describe('Controls', () => {
+  // jsdom has no object URLs; the download tests stub them and this puts back what was there
+  const { createObjectURL, revokeObjectURL } = URL;
+  afterEach(() => {
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+  });
+
+  it('renders with initial values and calls onNChange when N is changed', () => {
+    const onNChange = jest.fn();
+    renderControls({ onNChange });
+    // Example: check if N select is rendered
+    expect(screen.getByRole('combobox', { name: /Principal \(n\)/i })).toBeInTheDocument();
+
+    // Simulate changing N (you may need to adjust the selector based on your actual markup)
+    // fireEvent.change(screen.getByLabelText(/principal quantum number/i), { target: { value: '4' } });
+    // expect(onNChange).toHaveBeenCalledWith(4);
+  });
+
+  it('calls onBasisChange when the Complex basis is selected', () => {
+    const onBasisChange = jest.fn();
+    renderControls({ initialN: 2, initialL: 1, initialMl: 1, onBasisChange });
+    fireEvent.click(screen.getByRole('button', { name: /complex basis/i }));
+    expect(onBasisChange).toHaveBeenCalledWith('complex');
+  });
+
+  it('sends the Condon–Shortley phase option only when it is turned off in the complex basis', () => {
+    const onCondonShortleyPhaseChange = jest.fn();
+    const onUpdateOrbital = jest.fn();
+    const { rerender } = renderControls({ onCondonShortleyPhaseChange, onUpdateOrbital });
+    expect(screen.getByRole('checkbox', { name: /condon–shortley phase/i })).toBeDisabled();
+
+    rerender(<Controls {...defaultProps} initialBasis="complex" onCondonShortleyPhaseChange={onCondonShortleyPhaseChange} onUpdateOrbital={onUpdateOrbital} />);
+    fireEvent.click(screen.getByRole('checkbox', { name: /condon–shortley phase/i }));
+    expect(onCondonShortleyPhaseChange).toHaveBeenCalledWith(false);
+    rerender(<Controls {...defaultProps} initialBasis="complex" initialCondonShortleyPhase={false} onUpdateOrbital={onUpdateOrbital} />);
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenLastCalledWith(expect.objectContaining({ basis: 'complex', condonShortleyPhase: false }));
+
+    // The real basis has no such phase
+    rerender(<Controls {...defaultProps} initialCondonShortleyPhase={false} onUpdateOrbital={onUpdateOrbital} />);
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenLastCalledWith(expect.objectContaining({ condonShortleyPhase: undefined }));
+  });
+
+  it('flags a superposition that is not normalised', () => {
+    renderControls({
+      initialComponents: [
+        { n: 2, l: 0, ml: 0, coefficient: 1 },
+        { n: 2, l: 1, ml: 0, coefficient: 1 },
+      ],
+    });
+    expect(screen.getByTestId('superposition-norm')).toHaveTextContent('Σ|cᵢ|² = 2.000 (not normalised)');
+  });
+
+  it('sends the superposition components with the orbital update', () => {
+    const onUpdateOrbital = jest.fn();
+    const components = [
+      { n: 2, l: 0, ml: 0, coefficient: Math.SQRT1_2 },
+      { n: 2, l: 1, ml: 0, coefficient: Math.SQRT1_2 },
+    ];
+    renderControls({ initialComponents: components, onUpdateOrbital });
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenCalledWith(expect.objectContaining({ components }));
+  });
+
+  it('disables the update button when a component breaks the quantum-number rules', () => {
+    renderControls({ initialComponents: [{ n: 2, l: 2, ml: 0, coefficient: 1 }] });
+    expect(screen.getByRole('button', { name: /update orbital/i })).toBeDisabled();
+  });
+
+  it('sets the cell budget and sends adaptive extraction with an isosurface update', () => {
+    const onResolutionChange = jest.fn();
+    const onExtractionChange = jest.fn();
+    const onUpdateOrbital = jest.fn();
+    const { rerender } = renderControls({ onResolutionChange, onExtractionChange, onUpdateOrbital });
+    expect(screen.getByText(/cell budget/i)).toHaveTextContent('32,768 (32³)');
+    fireEvent.keyDown(screen.getByRole('slider', { name: /cell budget/i }), { key: 'ArrowRight' });
+    expect(onResolutionChange).toHaveBeenCalledWith(48);
+
+    fireEvent.click(screen.getByRole('checkbox', { name: /adaptive extraction/i }));
+    expect(onExtractionChange).toHaveBeenCalledWith('adaptive');
+    rerender(<Controls {...defaultProps} initialExtraction="adaptive" onUpdateOrbital={onUpdateOrbital} />);
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenLastCalledWith(expect.objectContaining({ resolution: 32, extraction: 'adaptive' }));
+
+    // Volumes and point clouds have no surface to extract
+    rerender(<Controls {...defaultProps} initialExtraction="adaptive" initialRenderMode="volume" onUpdateOrbital={onUpdateOrbital} />);
+    expect(screen.getByRole('checkbox', { name: /adaptive extraction/i })).toBeDisabled();
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenLastCalledWith(expect.objectContaining({ extraction: undefined }));
+  });
+
+  it('switches the compute backend and sends it only when it is not the default', () => {
+    const onComputeBackendChange = jest.fn();
+    const onUpdateOrbital = jest.fn();
+    const { rerender } = renderControls({ onComputeBackendChange, onUpdateOrbital });
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenLastCalledWith(expect.objectContaining({ computeBackend: undefined }));
+
+    fireEvent.click(screen.getByRole('checkbox', { name: /webassembly sampling/i }));
+    expect(onComputeBackendChange).toHaveBeenCalledWith('js');
+    rerender(<Controls {...defaultProps} initialComputeBackend="js" onUpdateOrbital={onUpdateOrbital} />);
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenLastCalledWith(expect.objectContaining({ computeBackend: 'js' }));
+  });
+
+  it('shows the transfer function editor only in volume mode', () => {
+    const { rerender } = renderControls();
+    expect(screen.queryByText(/transfer function/i)).not.toBeInTheDocument();
+    rerender(<Controls {...defaultProps} initialRenderMode="volume" />);
+    expect(screen.getByText(/transfer function/i)).toBeInTheDocument();
+  });
+
+  it('sends the transfer function with a volume update', () => {
+    const onUpdateOrbital = jest.fn();
+    renderControls({ initialRenderMode: 'volume', onUpdateOrbital });
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenCalledWith(expect.objectContaining({
+      renderMode: 'volume',
+      transferFunction: defaultTransferFunction,
+    }));
+  });
+
+  it('resamples points mode with a new seed', () => {
+    const onUpdateOrbital = jest.fn();
+    const onSampleSeedChange = jest.fn();
+    renderControls({ initialRenderMode: 'points', onUpdateOrbital, onSampleSeedChange });
+    expect(screen.getByText(/points: /i)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenLastCalledWith(expect.objectContaining({
+      renderMode: 'points',
+      pointCount: 20000,
+      sampleSeed: 1,
+    }));
+
+    fireEvent.click(screen.getByRole('button', { name: /resample/i }));
+    const newSeed = onSampleSeedChange.mock.calls[0][0];
+    expect(newSeed).not.toBe(1);
+    expect(onUpdateOrbital).toHaveBeenLastCalledWith(expect.objectContaining({ sampleSeed: newSeed }));
+  });
+
+  it('sends the enclosed probability and shows the reported surface', () => {
+    const onUpdateOrbital = jest.fn();
+    renderControls({
+      initialEnclosedProbability: 0.8,
+      surfaceInfo: { isoLevel: 2.5e-4, enclosedFraction: 0.8034 },
+      onUpdateOrbital,
+    });
+    expect(screen.getByLabelText(/iso-level/i)).toBeDisabled();
+    expect(screen.getByTestId('surface-info')).toHaveTextContent('80.3%');
+    fireEvent.click(screen.getByRole('button', { name: /update orbital/i }));
+    expect(onUpdateOrbital).toHaveBeenCalledWith(expect.objectContaining({ enclosedProbability: 0.8 }));
+  });
+
+  it('switches between enclosed probability and a raw iso-level', () => {
+    const onEnclosedProbabilityChange = jest.fn();
+    renderControls({ onEnclosedProbabilityChange });
+    fireEvent.click(screen.getByRole('checkbox', { name: /enclose a probability/i }));
+    expect(onEnclosedProbabilityChange).toHaveBeenCalledWith(0.9);
+  });
+
+  it('passes on any positive iso-level and ignores others', () => {
+    const onIsoLevelChange = jest.fn();
+    renderControls({ onIsoLevelChange });
+    const isoLevel = screen.getByLabelText(/iso-level/i);
+    onIsoLevelChange.mockClear(); // Set from the optimised parameters on mount
+    fireEvent.change(isoLevel, { target: { value: '2e-14' } });
+    fireEvent.change(isoLevel, { target: { value: '0.05' } });
+    fireEvent.change(isoLevel, { target: { value: '-1' } });
+    expect(onIsoLevelChange.mock.calls).toEqual([[2e-14], [0.05]]);
+  });
+
+  it('sizes the box automatically until rMax is typed', () => {
+    const onRMaxChange = jest.fn();
+    const onAutoRMaxChange = jest.fn();
+    const { rerender } = renderControls({ initialN: 1, initialL: 0, initialAutoRMax: true, onRMaxChange, onAutoRMaxChange });
+    expect(onRMaxChange).toHaveBeenLastCalledWith(5.7); // 99.9% of the 1s radial probability, rounded up
+
+    rerender(<Controls {...defaultProps} initialN={1} initialL={0} initialZ={2} initialAutoRMax onRMaxChange={onRMaxChange} onAutoRMaxChange={onAutoRMaxChange} />);
+    expect(onRMaxChange).toHaveBeenLastCalledWith(2.9);
+
+    fireEvent.change(screen.getByLabelText(/max radius/i), { target: { value: '40' } });
+    expect(onAutoRMaxChange).toHaveBeenCalledWith(false);
+    expect(onRMaxChange).toHaveBeenLastCalledWith(40);
+  });
+
+  it('downloads the isosurface on screen from the Download menu', () => {
+    const { rerender } = renderControls();
+    expect(screen.getByRole('button', { name: /download/i })).toBeDisabled();
+
+    const meshData = createMeshData(
+      [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]],
+      [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]],
+      [1, 1, 1, 1],
+      [0, 0, 0, 0],
+    );
+    const createObjectURL = jest.fn(() => 'blob:mesh');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: jest.fn() });
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('orbital-n3-l2-m0.obj');
+    });
+
+    rerender(<Controls {...defaultProps} meshData={meshData} exportParams={exportParams} />);
+    fireEvent.click(screen.getByRole('button', { name: /download/i }));
+    fireEvent.click(screen.getByRole('menuitem', { name: /wavefront obj/i }));
+    expect(createObjectURL).toHaveBeenCalledTimes(1);
+    expect(click).toHaveBeenCalledTimes(1);
+    click.mockRestore();
+  });
+
+  it('resamples the grid for a volume download', async () => {
+    (calculateOrbitalGrid as jest.Mock).mockResolvedValue(generateOrbitalData(3, 2, 0, 1, 4, 10));
+    const createObjectURL = jest.fn(() => 'blob:volume');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: jest.fn() });
+    const names: string[] = [];
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      names.push(this.download);
+    });
+
+    renderControls({ exportParams });
+    fireEvent.click(screen.getByRole('button', { name: /download/i }));
+    expect(screen.getByRole('menuitem', { name: /wavefront obj/i })).toHaveAttribute('aria-disabled', 'true');
+    fireEvent.click(screen.getByRole('button', { name: /export wavefunction/i }));
+    fireEvent.click(screen.getByRole('menuitem', { name: /raw float32/i }));
+
+    await waitFor(() => expect(names).toEqual(['orbital-n3-l2-m0-psi.raw', 'orbital-n3-l2-m0-psi.json']));
+    expect(calculateOrbitalGrid).toHaveBeenCalledWith(exportParams);
+    click.mockRestore();
+  });
+
+  it('imports a cube file and reports unreadable ones', async () => {
+    const onImportedCubeChange = jest.fn();
+    const onImportedIsoLevelChange = jest.fn();
+    renderControls({ onImportedCubeChange, onImportedIsoLevelChange });
+    const input = screen.getByTestId('cube-file-input');
+
+    const cubeText = writeCube(generateOrbitalData(2, 1, 0, 1, 6, 10), 'psi', exportParams);
+    fireEvent.change(input, { target: { files: [new File([cubeText], '2pz.cube')] } });
+    await waitFor(() => expect(onImportedCubeChange).toHaveBeenCalledTimes(1));
+    expect(onImportedCubeChange.mock.calls[0][0]).toMatchObject({ name: '2pz.cube', signed: true });
+    expect(onImportedIsoLevelChange.mock.calls[0][0]).toBeGreaterThan(0);
+
+    fireEvent.change(input, { target: { files: [new File(['not a cube'], 'broken.cube')] } });
+    expect(await screen.findByRole('alert')).toHaveTextContent(/could not import broken\.cube/i);
+    expect(onImportedCubeChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows the calculation progress and why a calculation failed', () => {
+    const { rerender } = renderControls({ isLoading: true, progress: 0.4 });
+    expect(screen.getByRole('progressbar', { name: /calculation progress/i })).toHaveAttribute('aria-valuenow', '40');
+
+    rerender(<Controls {...defaultProps} calculationError="Calculation timed out after 120 s." />);
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Calculation timed out after 120 s.');
+  });
+
+  it('changes the pane count and only links cameras with several panes', () => {
+    const onViewportCountChange = jest.fn();
+    const onLinkCamerasChange = jest.fn();
+    const { rerender } = renderControls({ onViewportCountChange, onLinkCamerasChange });
+    const linkSwitch = screen.getByRole('checkbox', { name: /link cameras/i });
+    expect(linkSwitch).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: '2 panes' }));
+    expect(onViewportCountChange).toHaveBeenCalledWith(2);
+
+    rerender(<Controls {...defaultProps} initialViewportCount={2} onLinkCamerasChange={onLinkCamerasChange} />);
+    fireEvent.click(screen.getByRole('checkbox', { name: /link cameras/i }));
+    expect(onLinkCamerasChange).toHaveBeenCalledWith(true);
+  });
+});
@@ -1,334 +1,669 @@
-import React, { useState, useEffect } from 'react';
-import {
-  Box,
-  FormControl,
-  InputLabel,
-  Select,
-  MenuItem,
-  TextField,
-  Button,
-  SelectChangeEvent,
-  ToggleButton,
-  ToggleButtonGroup,
-  FormLabel, // To label the ToggleButtonGroup
-  LinearProgress,
-} from '@mui/material';
-import { OrbitalParams } from '@/types/orbital';
-
-interface ControlsProps {
-  initialN: number;
-  onNChange: (value: number) => void;
-  initialL: number;
-  onLChange: (value: number) => void;
-  initialMl: number;
-  onMlChange: (value: number) => void;
-  initialZ: number;
-  onZChange: (value: number) => void;
-  initialResolution: number;
-  onResolutionChange: (value: number) => void;
-  initialRMax: number;
-  onRMaxChange: (value: number) => void;
-  initialIsoLevel: number;
-  onIsoLevelChange: (value: number) => void;
-  onUpdateOrbital: (params: OrbitalParams) => void;
-  getOptimizedParams: (n: number, l: number) => { rMax: number; isoLevel: number } | null;
-  isLoading: boolean;
-}
-
-const Controls: React.FC<ControlsProps> = ({
-  initialN, onNChange,
-  initialL, onLChange,
-  initialMl, onMlChange,
-  initialZ, onZChange,
-  initialResolution, onResolutionChange,
-  initialRMax, onRMaxChange,
-  initialIsoLevel, onIsoLevelChange,
-  onUpdateOrbital,
-  getOptimizedParams,
-  isLoading,
-}) => {
-  // Local state for dropdown options, derived from props
-  const [lOptions, setLOptions] = useState<number[]>([0,1,2]);
-  const [mlOptions, setMlOptions] = useState<number[]>([-2, -1, 0, 1, 2]);
-
-  // Effect to update l options when n changes
-  useEffect(() => {
-    const newLOptions = Array.from({ length: initialN }, (_, i) => i);
-    setLOptions(newLOptions);
-    // If current L is not valid for new N, reset L (and subsequently Ml)
-    // Also, update rMax and isoLevel based on new N (and potentially new L)
-    if (!newLOptions.includes(initialL)) {
-      const newL = newLOptions[0] !== undefined ? newLOptions[0] : 0;
-      onLChange(newL); // This will trigger the l effect
-      // Ml will be reset by the effect hook for L
-      const optimized = getOptimizedParams(initialN, newL);
-      if (optimized) {
-        onRMaxChange(optimized.rMax);
-        onIsoLevelChange(optimized.isoLevel);
-      }
-    } else {
-      // N changed, but L is still valid. Update optimized params for current N, L.
-      const optimized = getOptimizedParams(initialN, initialL);
-      if (optimized) {
-        onRMaxChange(optimized.rMax);
-        onIsoLevelChange(optimized.isoLevel);
-      }
-    }
-  }, [initialN, getOptimizedParams, onLChange, onRMaxChange, onIsoLevelChange]); // initialL is intentionally not here to avoid loops if L is reset
-
-
-  // Effect to update ml options when l changes
-  useEffect(() => {
-    const newMlOptions = Array.from({ length: 2 * initialL + 1 }, (_, i) => i - initialL);
-    setMlOptions(newMlOptions);
-    // Reset ml if the current ml is no longer valid
-    if (!newMlOptions.includes(initialMl)) {
-      onMlChange(newMlOptions[0] !== undefined ? newMlOptions[0] : 0);
-    }
-    // When L changes, also update rMax and isoLevel
-    const optimized = getOptimizedParams(initialN, initialL);
-    if (optimized) {
-        onRMaxChange(optimized.rMax);
-        onIsoLevelChange(optimized.isoLevel);
-    }
-  }, [initialL, initialN, getOptimizedParams, onMlChange, onRMaxChange, onIsoLevelChange]); // initialMl is intentionally not here
-
-
-  const handleUpdateOrbital = () => {
-    const params: OrbitalParams = {
-      n: initialN,
-      l: initialL,
-      ml: initialMl,
-      Z: initialZ,
-      resolution: initialResolution,
-      rMax: initialRMax,
-      isoLevel: initialIsoLevel,
-    };
-    console.log("Update Orbital Clicked with params:", params);
-      onUpdateOrbital(params);
-  };
-
-  return (
-    <Box 
-      id="controls" 
-      sx={{ 
-        p: 2,
-        position: 'relative',
-      }}
-    >
-      {/* Add overlay when loading */}
-      {isLoading && (
-        <Box
-          sx={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            right: 0,
-            bottom: 0,
-            backgroundColor: 'rgba(255, 255, 255, 0.5)',
-            zIndex: 1,
-            cursor: 'not-allowed',
-          }}
-        />
-      )}
-
-      <FormControl fullWidth margin="normal" size="small" >
-        <InputLabel id="n-select-label">Principal (n)</InputLabel>
-        <Select
-          labelId="n-select-label"
-          id="n-select"
-          value={initialN.toString()} // Select value must be a string if items are strings
-          label="Principal (n)"
-          onChange={(e: SelectChangeEvent<string>) => onNChange(parseInt(e.target.value, 10))}
-          disabled={isLoading}
-        >
-          {[1, 2, 3, 4, 5, 6, 7, 8, 9].map(val => <MenuItem key={val} value={val.toString()}>{val}</MenuItem>)}
-        </Select>
-      </FormControl>
-
-      <FormControl fullWidth margin="normal" size="small">
-        <InputLabel id="l-select-label">Angular (l)</InputLabel>
-        <Select
-          labelId="l-select-label"
-          id="l-select"
-          value={initialL.toString()}
-          label="Angular (l)"
-          onChange={(e: SelectChangeEvent<string>) => onLChange(parseInt(e.target.value, 10))}
-          disabled={lOptions.length === 0 || isLoading}
-        >
-          {lOptions.map(val => <MenuItem key={val} value={val.toString()}>{val}</MenuItem>)}
-        </Select>
-      </FormControl>
-
-      <FormControl fullWidth margin="normal" size="small">
-        <InputLabel id="ml-select-label">Magnetic (m_l)</InputLabel>
-        <Select
-          labelId="ml-select-label"
-          id="ml-select"
-          value={initialMl.toString()}
-          label="Magnetic (m_l)"
-          onChange={(e: SelectChangeEvent<string>) => onMlChange(parseInt(e.target.value, 10))}
-          disabled={mlOptions.length === 0 || isLoading}
-        >
-          {mlOptions.map(val => <MenuItem key={val} value={val.toString()}>{val}</MenuItem>)}
-        </Select>
-      </FormControl>
-
-      <TextField
-        fullWidth
-        margin="normal"
-        size="small"
-        id="rMax-input"
-        label="Max Radius (rMax)"
-        type="number"
-        value={initialRMax}
-        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-          const value = e.target.value === '' ? 1 : parseFloat(e.target.value);
-          onRMaxChange(Math.max(1, Math.min(200, value))); // Min 1, Max 150 (example)
-        }}
-        slotProps={{ 
-          input: { 
-            inputProps: { min: "20", max: "200", step: "1" }   
-          }      
-        }}
-        InputLabelProps={{ shrink: true }}
-        sx={{
-          '& input[type=number]::-webkit-inner-spin-button, & input[type=number]::-webkit-outer-spin-button': {
-            WebkitAppearance: 'none',
-            margin: 0,
-          },
-          '& input[type=number]': {
-            MozAppearance: 'textfield',
-          },
-        }}
-        disabled={isLoading}
-      />
-
-      <TextField
-        fullWidth
-        margin="normal"
-        size="small"
-        id="iso-level-input"
-        label="Iso-Level"
-        type="number"
-        value={initialIsoLevel}
-        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-          const valueStr = e.target.value;
-          const minIso = 0.000000001;
-          const maxIso = 0.001;
-
-          if (valueStr === '') {
-            onIsoLevelChange(NaN); // Allow clearing, TextField will show empty
-          } else {
-            let numValue = parseFloat(valueStr);
-            if (!isNaN(numValue)) {
-              // Clamp the value to the defined min/max
-              numValue = Math.max(minIso, Math.min(maxIso, numValue));
-              onIsoLevelChange(numValue);
-            }
-            // If numValue is NaN (e.g. "abc") and not empty, do nothing.
-          }
-        }}
-        slotProps={{
-          input: {
-            inputProps: { min: "0.000000001", max: "0.001", step: "any" }
-          }
-        }}
-        InputLabelProps={{ shrink: true }}
-        sx={{
-          '& input[type=number]::-webkit-inner-spin-button, & input[type=number]::-webkit-outer-spin-button': {
-            WebkitAppearance: 'none',
-            margin: 0,
-          },
-          '& input[type=number]': {
-            MozAppearance: 'textfield',
-          },
-        }}
-        disabled={isLoading}
-      />
-
-      <TextField
-        fullWidth
-        margin="normal"
-        size="small"
-        id="z-input"
-        label="Atomic Number (Z)"
-        type="number"
-        value={initialZ}
-        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-          const value = e.target.value === '' ? 1 : parseInt(e.target.value, 10);
-          onZChange(Math.max(1, Math.min(118, value))); // Min 1, Max 118
-        }}
-        slotProps={{ 
-          input: { 
-            inputProps: {
-              min: "1", max: "118", step: "1" }
-            }
-        }}
-        InputLabelProps={{ shrink: true }}
-        sx={{
-          // Attempt to hide spinners
-          '& input[type=number]::-webkit-inner-spin-button, & input[type=number]::-webkit-outer-spin-button': {
-            WebkitAppearance: 'none',
-            margin: 0,
-          },
-          '& input[type=number]': {
-            MozAppearance: 'textfield',
-          },
-        }}
-        disabled={isLoading}
-      />
-
-      {/* Resolution ToggleButtonGroup */}
-      <FormControl component="fieldset" margin="normal" fullWidth>
-        <FormLabel component="legend" sx={{ mb: 0.5, fontSize: '0.75rem' }}>Resolution</FormLabel> {/* Smaller label */}
-        <ToggleButtonGroup
-          value={initialResolution}
-          exclusive // Ensures only one button can be active
-          onChange={(event: React.MouseEvent<HTMLElement>, newValue: number | null) => {
-            if (newValue !== null) {
-              onResolutionChange(newValue);
-            }
-          }}
-          aria-label="text alignment"
-          size="small"
-          fullWidth
-        >
-          <ToggleButton value={32} aria-label="low resolution" disabled={isLoading}>Low</ToggleButton>
-          <ToggleButton value={64} aria-label="Medium resolution" disabled={isLoading}>Medium</ToggleButton>
-          <ToggleButton value={128} aria-label="High resolution" disabled={isLoading}>High</ToggleButton>
-        </ToggleButtonGroup>
-      </FormControl>
-
-      <Box sx={{ mt: 2, display: 'flex', justifyContent: 'flex-end' }}> {/* Align button to the right */}
-        <Button
-          id="update-orbital"
-          variant="contained"
-          color="primary"
-          onClick={handleUpdateOrbital}
-          disabled={isLoading}
-        >
-          Update Orbital
-        </Button>
-      </Box>
-
-      {/* Progress bar */}
-      <Box sx={{ 
-          width: '100%',
-          mt: 2,
-          height: 4
-      }}>
-          {isLoading && (
-              <LinearProgress 
-                  variant="indeterminate"
-                  sx={{ 
-                      borderRadius: 1
-                  }} 
-              />
-          )}
-      </Box>
-    </Box>
-  );
-};
-
+import React, { useState, useEffect } from 'react';
+import {
+  Alert,
+  Box,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  TextField,
+  Button,
+  SelectChangeEvent,
+  ToggleButton,
+  ToggleButtonGroup,
+  FormLabel, // To label the ToggleButtonGroup
+  LinearProgress,
+  Slider,
+  Switch,
+  FormControlLabel,
+  Typography,
+} from '@mui/material';
+import { ComputeBackendName, ExtractionMode, ImportedCube, MeshData, OrbitalBasis, OrbitalComponent, OrbitalParams, RenderMode, SurfaceInfo, TransferFunction } from '@/types/orbital';
+import SuperpositionEditor from './SuperpositionEditor';
+import TransferFunctionEditor from './TransferFunctionEditor';
+import DownloadMenu from './DownloadMenu';
+import CubeImportPanel from './CubeImportPanel';
+import { validateComponent } from '../orbital_superposition';
+import { createSeededRandom } from '../orbital_sampler';
+import { DEFAULT_ENCLOSED_PROBABILITY } from '../enclosed_probability';
+import { getAutoRMax } from '../orbital_bounds';
+import { CELL_BUDGET_RESOLUTIONS, getCellBudget } from '../adaptive_isosurface';
+import { DEFAULT_COMPUTE_BACKEND } from '../compute_backend';
+
+interface ControlsProps {
+  initialN: number;
+  onNChange: (value: number) => void;
+  initialL: number;
+  onLChange: (value: number) => void;
+  initialMl: number;
+  onMlChange: (value: number) => void;
+  initialZ: number;
+  onZChange: (value: number) => void;
+  initialResolution: number; // Sets the cell budget: resolution³ cells
+  onResolutionChange: (value: number) => void;
+  initialExtraction: ExtractionMode;
+  onExtractionChange: (value: ExtractionMode) => void;
+  initialComputeBackend: ComputeBackendName;
+  onComputeBackendChange: (value: ComputeBackendName) => void;
+  initialRMax: number;
+  onRMaxChange: (value: number) => void;
+  initialAutoRMax: boolean; // Size the box from the radial distribution until the user types an rMax
+  onAutoRMaxChange: (value: boolean) => void;
+  initialIsoLevel: number;
+  onIsoLevelChange: (value: number) => void;
+  initialEnclosedProbability: number | null; // null draws the raw iso-level instead
+  onEnclosedProbabilityChange: (value: number | null) => void;
+  surfaceInfo: SurfaceInfo | null;
+  initialBasis: OrbitalBasis;
+  onBasisChange: (value: OrbitalBasis) => void;
+  initialCondonShortleyPhase: boolean; // Complex basis only
+  onCondonShortleyPhaseChange: (value: boolean) => void;
+  initialShowNodalSurfaces: boolean; // Applied immediately, without "Update Orbital"
+  onShowNodalSurfacesChange: (value: boolean) => void;
+  initialComponents: OrbitalComponent[];
+  onComponentsChange: (value: OrbitalComponent[]) => void;
+  initialFrameCount: number;
+  onFrameCountChange: (value: number) => void;
+  initialRenderMode: RenderMode;
+  onRenderModeChange: (value: RenderMode) => void;
+  initialTransferFunction: TransferFunction;
+  onTransferFunctionChange: (value: TransferFunction) => void;
+  initialPointCount: number;
+  onPointCountChange: (value: number) => void;
+  initialSampleSeed: number;
+  onSampleSeedChange: (value: number) => void;
+  onUpdateOrbital: (params: OrbitalParams) => void;
+  meshData: MeshData | null; // Isosurface on screen, offered in the Download menu
+  exportParams: OrbitalParams | null; // Orbital on screen, whose grid the Download menu exports
+  importedCube: ImportedCube | null; // Cube file shown instead of the orbital
+  onImportedCubeChange: (cube: ImportedCube | null) => void;
+  initialImportedIsoLevel: number;
+  onImportedIsoLevelChange: (value: number) => void;
+  initialViewportCount: number; // Panes side by side; the controls edit the active one
+  onViewportCountChange: (value: number) => void;
+  initialLinkCameras: boolean;
+  onLinkCamerasChange: (value: boolean) => void;
+  getOptimizedParams: (n: number, l: number, Z: number) => { rMax: number; isoLevel: number };
+  isLoading: boolean;
+  progress: number | null; // Fraction of the calculation done; null draws an indeterminate bar
+  calculationError: string | null; // Why the last calculation failed
+}
+
+const Controls: React.FC<ControlsProps> = ({
+  initialN, onNChange,
+  initialL, onLChange,
+  initialMl, onMlChange,
+  initialZ, onZChange,
+  initialResolution, onResolutionChange,
+  initialExtraction, onExtractionChange,
+  initialComputeBackend, onComputeBackendChange,
+  initialRMax, onRMaxChange,
+  initialAutoRMax, onAutoRMaxChange,
+  initialIsoLevel, onIsoLevelChange,
+  initialEnclosedProbability, onEnclosedProbabilityChange,
+  surfaceInfo,
+  initialBasis, onBasisChange,
+  initialCondonShortleyPhase, onCondonShortleyPhaseChange,
+  initialShowNodalSurfaces, onShowNodalSurfacesChange,
+  initialComponents, onComponentsChange,
+  initialFrameCount, onFrameCountChange,
+  initialRenderMode, onRenderModeChange,
+  initialTransferFunction, onTransferFunctionChange,
+  initialPointCount, onPointCountChange,
+  initialSampleSeed, onSampleSeedChange,
+  onUpdateOrbital,
+  meshData, exportParams,
+  importedCube, onImportedCubeChange,
+  initialImportedIsoLevel, onImportedIsoLevelChange,
+  initialViewportCount, onViewportCountChange,
+  initialLinkCameras, onLinkCamerasChange,
+  getOptimizedParams,
+  isLoading,
+  progress,
+  calculationError,
+}) => {
+  // Local state for dropdown options, derived from props
+  const [lOptions, setLOptions] = useState<number[]>([0,1,2]);
+  const [mlOptions, setMlOptions] = useState<number[]>([-2, -1, 0, 1, 2]);
+
+  // Effect to update l options when n changes
+  useEffect(() => {
+    const newLOptions = Array.from({ length: initialN }, (_, i) => i);
+    setLOptions(newLOptions);
+    // If current L is not valid for new N, reset L (and subsequently Ml)
+    // Also, update isoLevel based on new N (and potentially new L)
+    if (!newLOptions.includes(initialL)) {
+      const newL = newLOptions[0] !== undefined ? newLOptions[0] : 0;
+      onLChange(newL); // This will trigger the l effect
+      // Ml will be reset by the effect hook for L
+      onIsoLevelChange(getOptimizedParams(initialN, newL, initialZ).isoLevel);
+    } else {
+      // N changed, but L is still valid. Update optimized params for current N, L.
+      onIsoLevelChange(getOptimizedParams(initialN, initialL, initialZ).isoLevel);
+    }
+  }, [initialN, getOptimizedParams, onLChange, onIsoLevelChange]); // initialL is intentionally not here to avoid loops if L is reset
+
+
+  // Effect to update ml options when l changes
+  useEffect(() => {
+    const newMlOptions = Array.from({ length: 2 * initialL + 1 }, (_, i) => i - initialL);
+    setMlOptions(newMlOptions);
+    // Reset ml if the current ml is no longer valid
+    if (!newMlOptions.includes(initialMl)) {
+      onMlChange(newMlOptions[0] !== undefined ? newMlOptions[0] : 0);
+    }
+    // When L changes, also update isoLevel
+    onIsoLevelChange(getOptimizedParams(initialN, initialL, initialZ).isoLevel);
+  }, [initialL, initialN, getOptimizedParams, onMlChange, onIsoLevelChange]); // initialMl is intentionally not here
+
+  // Effect to size the box from the radial distribution, unless the user has typed an rMax
+  useEffect(() => {
+    if (!initialAutoRMax || initialComponents.some(c => validateComponent(c) !== null)) {
+      return;
+    }
+    onRMaxChange(getAutoRMax({ n: initialN, l: initialL, ml: initialMl, Z: initialZ, components: initialComponents }));
+  }, [initialAutoRMax, initialN, initialL, initialZ, initialComponents, onRMaxChange]); // Only the inputs that change the box size
+
+
+  const hasInvalidComponent = initialComponents.some(c => validateComponent(c) !== null);
+
+  // Budget step of the resolution, or the nearest one for a resolution from elsewhere
+  const budgetStep = CELL_BUDGET_RESOLUTIONS.reduce(
+    (best, resolution, i) => Math.abs(resolution - initialResolution) < Math.abs(CELL_BUDGET_RESOLUTIONS[best] - initialResolution) ? i : best,
+    0
+  );
+
+  const buildParams = (sampleSeed: number): OrbitalParams => ({
+      n: initialN,
+      l: initialL,
+      ml: initialMl,
+      Z: initialZ,
+      resolution: initialResolution,
+      rMax: initialRMax,
+      isoLevel: initialIsoLevel,
+      enclosedProbability: initialEnclosedProbability ?? undefined,
+      basis: initialBasis,
+      condonShortleyPhase: initialBasis === 'complex' && !initialCondonShortleyPhase ? false : undefined,
+      components: initialComponents.length > 0 ? initialComponents : undefined,
+      frameCount: initialFrameCount,
+      renderMode: initialRenderMode,
+      extraction: initialRenderMode === 'isosurface' && initialExtraction === 'adaptive' ? 'adaptive' : undefined,
+      computeBackend: initialComputeBackend === DEFAULT_COMPUTE_BACKEND ? undefined : initialComputeBackend,
+      transferFunction: initialRenderMode === 'volume' ? initialTransferFunction : undefined,
+      pointCount: initialRenderMode === 'points' ? initialPointCount : undefined,
+      sampleSeed: initialRenderMode === 'points' ? sampleSeed : undefined,
+  });
+
+  const handleUpdateOrbital = () => {
+    const params = buildParams(initialSampleSeed);
+    console.log("Update Orbital Clicked with params:", params);
+      onUpdateOrbital(params);
+  };
+
+  // Draws a fresh cloud: derive the next seed from the current one so resampling stays reproducible
+  const handleResample = () => {
+    const nextSeed = Math.floor(createSeededRandom(initialSampleSeed)() * 0x100000000);
+    onSampleSeedChange(nextSeed);
+    onUpdateOrbital(buildParams(nextSeed));
+  };
+
+  return (
+    <Box 
+      id="controls" 
+      sx={{ 
+        p: 2,
+        position: 'relative',
+      }}
+    >
+      {/* Add overlay when loading */}
+      {isLoading && (
+        <Box
+          sx={{
+            position: 'absolute',
+            top: 0,
+            left: 0,
+            right: 0,
+            bottom: 0,
+            backgroundColor: 'rgba(255, 255, 255, 0.5)',
+            zIndex: 1,
+            cursor: 'not-allowed',
+          }}
+        />
+      )}
+
+      <FormControl fullWidth margin="normal" size="small" >
+        <InputLabel id="n-select-label">Principal (n)</InputLabel>
+        <Select
+          labelId="n-select-label"
+          id="n-select"
+          value={initialN.toString()} // Select value must be a string if items are strings
+          label="Principal (n)"
+          onChange={(e: SelectChangeEvent<string>) => onNChange(parseInt(e.target.value, 10))}
+          disabled={isLoading}
+        >
+          {Array.from({ length: 30 }, (_, i) => i + 1).map(val => <MenuItem key={val} value={val.toString()}>{val}</MenuItem>)}
+        </Select>
+      </FormControl>
+
+      <FormControl fullWidth margin="normal" size="small">
+        <InputLabel id="l-select-label">Angular (l)</InputLabel>
+        <Select
+          labelId="l-select-label"
+          id="l-select"
+          value={initialL.toString()}
+          label="Angular (l)"
+          onChange={(e: SelectChangeEvent<string>) => onLChange(parseInt(e.target.value, 10))}
+          disabled={lOptions.length === 0 || isLoading}
+        >
+          {lOptions.map(val => <MenuItem key={val} value={val.toString()}>{val}</MenuItem>)}
+        </Select>
+      </FormControl>
+
+      <FormControl fullWidth margin="normal" size="small">
+        <InputLabel id="ml-select-label">Magnetic (m_l)</InputLabel>
+        <Select
+          labelId="ml-select-label"
+          id="ml-select"
+          value={initialMl.toString()}
+          label="Magnetic (m_l)"
+          onChange={(e: SelectChangeEvent<string>) => onMlChange(parseInt(e.target.value, 10))}
+          disabled={mlOptions.length === 0 || isLoading}
+        >
+          {mlOptions.map(val => <MenuItem key={val} value={val.toString()}>{val}</MenuItem>)}
+        </Select>
+      </FormControl>
+
+      <TextField
+        fullWidth
+        margin="normal"
+        size="small"
+        id="rMax-input"
+        label="Max Radius (rMax)"
+        type="number"
+        value={initialRMax}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          const value = e.target.value === '' ? 1 : parseFloat(e.target.value);
+          onAutoRMaxChange(false); // A typed rMax overrides the automatic one
+          onRMaxChange(Math.max(0.1, Math.min(5000, value))); // Min 0.1 (heavy nuclei), Max 5000 (n up to 30)
+        }}
+        slotProps={{ 
+          input: { 
+            inputProps: { min: "0.1", max: "5000", step: "any" }   
+          }      
+        }}
+        InputLabelProps={{ shrink: true }}
+        sx={{
+          '& input[type=number]::-webkit-inner-spin-button, & input[type=number]::-webkit-outer-spin-button': {
+            WebkitAppearance: 'none',
+            margin: 0,
+          },
+          '& input[type=number]': {
+            MozAppearance: 'textfield',
+          },
+        }}
+        disabled={isLoading}
+      />
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={initialAutoRMax}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onAutoRMaxChange(e.target.checked)}
+            disabled={isLoading}
+          />
+        }
+        label={<Typography variant="body2">Automatic rMax</Typography>}
+      />
+
+      <TextField
+        fullWidth
+        margin="normal"
+        size="small"
+        id="iso-level-input"
+        label="Iso-Level"
+        type="number"
+        value={initialIsoLevel}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          const valueStr = e.target.value;
+
+          if (valueStr === '') {
+            onIsoLevelChange(NaN); // Allow clearing, TextField will show empty
+          } else {
+            const numValue = parseFloat(valueStr);
+            // Any positive density: its scale goes with Z³ and shrinks quickly with n
+            if (numValue > 0 && isFinite(numValue)) {
+              onIsoLevelChange(numValue);
+            }
+            // If numValue is NaN (e.g. "abc"), zero or negative, do nothing.
+          }
+        }}
+        slotProps={{
+          input: {
+            inputProps: { min: "0", step: "any" }
+          }
+        }}
+        InputLabelProps={{ shrink: true }}
+        sx={{
+          '& input[type=number]::-webkit-inner-spin-button, & input[type=number]::-webkit-outer-spin-button': {
+            WebkitAppearance: 'none',
+            margin: 0,
+          },
+          '& input[type=number]': {
+            MozAppearance: 'textfield',
+          },
+        }}
+        disabled={isLoading || initialEnclosedProbability !== null}
+      />
+
+      {/* Surface enclosing a fraction of the probability, instead of a raw density */}
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={initialEnclosedProbability !== null}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onEnclosedProbabilityChange(e.target.checked ? DEFAULT_ENCLOSED_PROBABILITY : null)}
+            disabled={isLoading}
+          />
+        }
+        label={<Typography variant="body2">Enclose a probability</Typography>}
+      />
+      {initialEnclosedProbability !== null && (
+        <>
+          <Typography variant="caption" id="enclosed-probability-label">
+            Enclosed probability: {Math.round(initialEnclosedProbability * 100)}%
+          </Typography>
+          <Slider
+            aria-labelledby="enclosed-probability-label"
+            value={initialEnclosedProbability}
+            min={0.1}
+            max={0.99}
+            step={0.01}
+            onChange={(_, value) => onEnclosedProbabilityChange(value as number)}
+            disabled={isLoading}
+            size="small"
+          />
+        </>
+      )}
+      {surfaceInfo && (
+        <Typography variant="caption" component="p" data-testid="surface-info">
+          Surface encloses {(surfaceInfo.enclosedFraction * 100).toFixed(1)}% (iso-level {surfaceInfo.isoLevel.toExponential(2)})
+        </Typography>
+      )}
+
+      <TextField
+        fullWidth
+        margin="normal"
+        size="small"
+        id="z-input"
+        label="Atomic Number (Z)"
+        type="number"
+        value={initialZ}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          const value = e.target.value === '' ? 1 : parseInt(e.target.value, 10);
+          onZChange(Math.max(1, Math.min(118, value))); // Min 1, Max 118
+        }}
+        slotProps={{ 
+          input: { 
+            inputProps: {
+              min: "1", max: "118", step: "1" }
+            }
+        }}
+        InputLabelProps={{ shrink: true }}
+        sx={{
+          // Attempt to hide spinners
+          '& input[type=number]::-webkit-inner-spin-button, & input[type=number]::-webkit-outer-spin-button': {
+            WebkitAppearance: 'none',
+            margin: 0,
+          },
+          '& input[type=number]': {
+            MozAppearance: 'textfield',
+          },
+        }}
+        disabled={isLoading}
+      />
+
+      {/* Cell budget: the cells of the uniform grid, or the most the adaptive octree may use */}
+      <Box sx={{ mt: 2 }}>
+        <Typography variant="caption" id="cell-budget-label">
+          Cell budget: {getCellBudget(initialResolution).toLocaleString()} ({initialResolution}³)
+        </Typography>
+        <Slider
+          aria-labelledby="cell-budget-label"
+          value={budgetStep}
+          min={0}
+          max={CELL_BUDGET_RESOLUTIONS.length - 1}
+          step={1}
+          marks
+          onChange={(_, value) => onResolutionChange(CELL_BUDGET_RESOLUTIONS[value as number])}
+          disabled={isLoading}
+          size="small"
+        />
+        {/* Refines towards the surface and nodes, for large n where the box is mostly empty */}
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={initialExtraction === 'adaptive'}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onExtractionChange(e.target.checked ? 'adaptive' : 'uniform')}
+              disabled={isLoading || initialRenderMode !== 'isosurface'}
+            />
+          }
+          label={<Typography variant="body2">Adaptive extraction</Typography>}
+        />
+        {/* Samples single orbitals with the WebAssembly kernel; off uses the JS sampler */}
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={initialComputeBackend === 'wasm'}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onComputeBackendChange(e.target.checked ? 'wasm' : 'js')}
+              disabled={isLoading}
+            />
+          }
+          label={<Typography variant="body2">WebAssembly sampling</Typography>}
+        />
+      </Box>
+
+      {/* Angular basis ToggleButtonGroup */}
+      <FormControl component="fieldset" margin="normal" fullWidth>
+        <FormLabel component="legend" sx={{ mb: 0.5, fontSize: '0.75rem' }}>Basis</FormLabel>
+        <ToggleButtonGroup
+          value={initialBasis}
+          exclusive
+          onChange={(event: React.MouseEvent<HTMLElement>, newValue: OrbitalBasis | null) => {
+            if (newValue !== null) {
+              onBasisChange(newValue);
+            }
+          }}
+          aria-label="orbital basis"
+          size="small"
+          fullWidth
+        >
+          <ToggleButton value="real" aria-label="real basis" disabled={isLoading}>Real</ToggleButton>
+          <ToggleButton value="complex" aria-label="complex basis" disabled={isLoading}>Complex</ToggleButton>
+        </ToggleButtonGroup>
+        {/* The (-1)^m of Y_l^m for odd positive m, which flips the phase colours and the relative signs in superpositions */}
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={initialCondonShortleyPhase}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onCondonShortleyPhaseChange(e.target.checked)}
+              disabled={isLoading || initialBasis !== 'complex'}
+            />
+          }
+          label={<Typography variant="body2">Condon–Shortley phase</Typography>}
+        />
+      </FormControl>
+
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={initialShowNodalSurfaces}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onShowNodalSurfacesChange(e.target.checked)}
+          />
+        }
+        label={<Typography variant="body2">Show nodal surfaces</Typography>}
+      />
+
+      {/* Linear combination of basis states; overrides (n, l, m_l) when non-empty */}
+      <SuperpositionEditor
+        components={initialComponents}
+        onComponentsChange={onComponentsChange}
+        defaultComponent={{ n: initialN, l: initialL, ml: initialMl, coefficient: 1 }}
+        disabled={isLoading}
+      />
+
+      {/* Render mode ToggleButtonGroup */}
+      <FormControl component="fieldset" margin="normal" fullWidth>
+        <FormLabel component="legend" sx={{ mb: 0.5, fontSize: '0.75rem' }}>Render mode</FormLabel>
+        <ToggleButtonGroup
+          value={initialRenderMode}
+          exclusive
+          onChange={(event: React.MouseEvent<HTMLElement>, newValue: RenderMode | null) => {
+            if (newValue !== null) {
+              onRenderModeChange(newValue);
+            }
+          }}
+          aria-label="render mode"
+          size="small"
+          fullWidth
+        >
+          <ToggleButton value="isosurface" aria-label="isosurface mode" disabled={isLoading}>Isosurface</ToggleButton>
+          <ToggleButton value="volume" aria-label="volume mode" disabled={isLoading}>Volume</ToggleButton>
+          <ToggleButton value="points" aria-label="points mode" disabled={isLoading}>Points</ToggleButton>
+        </ToggleButtonGroup>
+      </FormControl>
+
+      {initialRenderMode === 'points' && (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="caption" id="point-count-label">Points: {initialPointCount.toLocaleString()}</Typography>
+          <Slider
+            aria-labelledby="point-count-label"
+            value={initialPointCount}
+            min={1000}
+            max={100000}
+            step={1000}
+            onChange={(_, value) => onPointCountChange(value as number)}
+            disabled={isLoading}
+            size="small"
+          />
+          <Button
+            id="resample-points"
+            variant="outlined"
+            size="small"
+            onClick={handleResample}
+            disabled={isLoading || hasInvalidComponent}
+          >
+            Resample
+          </Button>
+        </Box>
+      )}
+
+      {initialRenderMode === 'volume' && (
+        <TransferFunctionEditor
+          transferFunction={initialTransferFunction}
+          onTransferFunctionChange={onTransferFunctionChange}
+          disabled={isLoading}
+        />
+      )}
+
+      {/* Frames precomputed over one beat period; only superpositions of different n evolve */}
+      <FormControl fullWidth margin="normal" size="small">
+        <InputLabel id="frame-count-select-label">Animation frames</InputLabel>
+        <Select
+          labelId="frame-count-select-label"
+          id="frame-count-select"
+          value={initialFrameCount.toString()}
+          label="Animation frames"
+          onChange={(e: SelectChangeEvent<string>) => onFrameCountChange(parseInt(e.target.value, 10))}
+          disabled={isLoading || initialRenderMode !== 'isosurface'}
+        >
+          <MenuItem value="0">Off</MenuItem>
+          {[24, 48, 96].map(val => <MenuItem key={val} value={val.toString()}>{val}</MenuItem>)}
+        </Select>
+      </FormControl>
+
+      {/* Panes ToggleButtonGroup; a new pane starts as a copy of the active one */}
+      <FormControl component="fieldset" margin="normal" fullWidth>
+        <FormLabel component="legend" sx={{ mb: 0.5, fontSize: '0.75rem' }}>Panes</FormLabel>
+        <ToggleButtonGroup
+          value={initialViewportCount}
+          exclusive
+          onChange={(event: React.MouseEvent<HTMLElement>, newValue: number | null) => {
+            if (newValue !== null) {
+              onViewportCountChange(newValue);
+            }
+          }}
+          aria-label="pane count"
+          size="small"
+          fullWidth
+        >
+          {[1, 2, 3, 4].map(count => (
+            <ToggleButton key={count} value={count} aria-label={`${count} panes`} disabled={isLoading}>{count}</ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </FormControl>
+
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={initialLinkCameras}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onLinkCamerasChange(e.target.checked)}
+            disabled={initialViewportCount === 1}
+          />
+        }
+        label={<Typography variant="body2">Link cameras</Typography>}
+      />
+
+      <CubeImportPanel
+        importedCube={importedCube}
+        onImportedCubeChange={onImportedCubeChange}
+        isoLevel={initialImportedIsoLevel}
+        onIsoLevelChange={onImportedIsoLevelChange}
+        disabled={isLoading}
+      />
+
+      <Box sx={{ mt: 2, display: 'flex', justifyContent: 'flex-end', gap: 1 }}> {/* Align buttons to the right */}
+        <DownloadMenu meshData={meshData} params={exportParams} disabled={isLoading} />
+        <Button
+          id="update-orbital"
+          variant="contained"
+          color="primary"
+          onClick={handleUpdateOrbital}
+          disabled={isLoading || hasInvalidComponent}
+        >
+          Update Orbital
+        </Button>
+      </Box>
+
+      {calculationError && (
+        <Alert severity="error" sx={{ mt: 1 }}>
+          {calculationError}
+        </Alert>
+      )}
+
+      {/* Progress bar */}
+      <Box sx={{ 
+          width: '100%',
+          mt: 2,
+          height: 4
+      }}>
+          {isLoading && (
+              <LinearProgress 
+                  variant={progress === null ? 'indeterminate' : 'determinate'}
+                  value={(progress ?? 0) * 100}
+                  aria-label="calculation progress"
+                  sx={{ 
+                      borderRadius: 1
+                  }} 
+              />
+          )}
+      </Box>
+    </Box>
+  );
+};
+
 export default React.memo(Controls);
\ No newline at end of file
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Alert, Box, Button, FormLabel, TextField, Typography } from '@mui/material';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import { ImportedCube } from '@/types/orbital';
+import { getImportedIsoLevel, parseCubeFile } from '../cube_import';
+import { enclosedProbabilityAtIsoLevel } from '../enclosed_probability';
+
+interface CubeImportPanelProps {
+  importedCube: ImportedCube | null;
+  onImportedCubeChange: (cube: ImportedCube | null) => void;
+  isoLevel: number; // In the file's units; an orbital is drawn at ± this value
+  onIsoLevelChange: (value: number) => void;
+  disabled: boolean;
+}
+
+const CubeImportPanel: React.FC<CubeImportPanelProps> = ({
+  importedCube,
+  onImportedCubeChange,
+  isoLevel,
+  onIsoLevelChange,
+  disabled,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The typed iso-value is only applied on blur or Enter, since every change re-meshes the grid
+  const [isoDraft, setIsoDraft] = useState(isoLevel.toString());
+
+  useEffect(() => {
+    setIsoDraft(isoLevel.toString());
+  }, [isoLevel]);
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const cube = parseCubeFile(reader.result as string, file.name);
+        setError(null);
+        onIsoLevelChange(getImportedIsoLevel(cube));
+        onImportedCubeChange(cube);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    };
+    reader.onerror = () => setError(`Could not read ${file.name}.`);
+    reader.readAsText(file);
+  };
+
+  const commitIsoDraft = () => {
+    const value = parseFloat(isoDraft);
+    if (value > 0) {
+      onIsoLevelChange(value);
+    } else {
+      setIsoDraft(isoLevel.toString());
+    }
+  };
+
+  const enclosedFraction = importedCube
+    ? enclosedProbabilityAtIsoLevel(importedCube.data.grid, importedCube.signed ? isoLevel * isoLevel : isoLevel)
+    : null;
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <FormLabel component="legend" sx={{ mb: 0.5, fontSize: '0.75rem' }}>Cube file</FormLabel>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".cube,.cub"
+        hidden
+        data-testid="cube-file-input"
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          const file = e.target.files?.[0];
+          if (file) {
+            handleFile(file);
+          }
+          e.target.value = ''; // Allow importing the same file again
+        }}
+      />
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Button
+          id="import-cube"
+          variant="outlined"
+          size="small"
+          startIcon={<FileUploadIcon />}
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+        >
+          Import .cube
+        </Button>
+        {importedCube && (
+          <Button id="close-cube" size="small" onClick={() => onImportedCubeChange(null)} disabled={disabled}>
+            Back to orbital
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {importedCube && (
+        <>
+          <Typography variant="body2" sx={{ mt: 1 }}>{importedCube.name}</Typography>
+          {importedCube.comments[0] && (
+            <Typography variant="caption" component="p" color="text.secondary">{importedCube.comments[0]}</Typography>
+          )}
+          <Typography variant="caption" component="p" data-testid="cube-info">
+            {importedCube.data.dims.join(' × ')} grid, {importedCube.atoms.length} atom{importedCube.atoms.length === 1 ? '' : 's'}
+            {importedCube.signed ? ', orbital (±)' : ', density'}
+          </Typography>
+          <TextField
+            fullWidth
+            margin="normal"
+            size="small"
+            id="cube-iso-level-input"
+            label={importedCube.signed ? 'Iso-value (±)' : 'Iso-value'}
+            value={isoDraft}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIsoDraft(e.target.value)}
+            onBlur={commitIsoDraft}
+            onKeyDown={(e: React.KeyboardEvent) => {
+              if (e.key === 'Enter') {
+                commitIsoDraft();
+              }
+            }}
+            disabled={disabled}
+          />
+          {enclosedFraction !== null && (
+            <Typography variant="caption" component="p">
+              Surface encloses {(enclosedFraction * 100).toFixed(1)}% of {importedCube.signed ? 'Σ|ψ|²' : 'the density'}
+            </Typography>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default CubeImportPanel;
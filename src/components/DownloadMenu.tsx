@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Divider,
+  FormControlLabel,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { MeshData, OrbitalParams } from '@/types/orbital';
+import { exportMesh, getExportFileName, MeshExportFormat, meshExportFormatLabels } from '../mesh_export';
+import { exportVolume, VolumeExportFormat, volumeExportFormatLabels, VolumeQuantity } from '../volume_export';
+import { calculateOrbitalGrid } from '../orbital_visualizer';
+import { saveFile } from '../file_download';
+
+interface DownloadMenuProps {
+  meshData: MeshData | null; // Isosurface on screen; mesh formats are disabled without one
+  params: OrbitalParams | null; // Orbital on screen, resampled for the volume formats
+  disabled?: boolean;
+}
+
+const DownloadMenu: React.FC<DownloadMenuProps> = ({ meshData, params, disabled = false }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [separateLobes, setSeparateLobes] = useState(false);
+  const [volumeQuantity, setVolumeQuantity] = useState<VolumeQuantity>('density');
+  const [isExportingVolume, setIsExportingVolume] = useState(false);
+
+  const fileName = params ? getExportFileName(params) : 'orbital';
+
+  const handleMeshExport = (format: MeshExportFormat) => {
+    setAnchorEl(null);
+    if (!meshData) return;
+    try {
+      const file = exportMesh(meshData, format, { separateLobes });
+      saveFile(file.data, file.mimeType, `${fileName}.${file.extension}`);
+    } catch (error) {
+      console.error('DownloadMenu: Error exporting mesh', error);
+    }
+  };
+
+  // The grid is resampled in the worker, so the volume formats work in every render mode
+  const handleVolumeExport = (format: VolumeExportFormat) => {
+    setAnchorEl(null);
+    if (!params) return;
+    setIsExportingVolume(true);
+    calculateOrbitalGrid(params)
+      .then(data => {
+        exportVolume(data, volumeQuantity, format, params).forEach(file => {
+          saveFile(file.data, file.mimeType, `${fileName}-${volumeQuantity}.${file.extension}`);
+        });
+      })
+      .catch(error => console.error('DownloadMenu: Error exporting volume', error))
+      .finally(() => setIsExportingVolume(false));
+  };
+
+  return (
+    <>
+      <Button
+        id="download-mesh"
+        variant="outlined"
+        startIcon={<FileDownloadIcon />}
+        onClick={(e: React.MouseEvent<HTMLElement>) => setAnchorEl(e.currentTarget)}
+        disabled={disabled || isExportingVolume || (!meshData && !params)}
+        aria-controls={anchorEl ? 'download-mesh-menu' : undefined}
+        aria-haspopup="true"
+      >
+        Download
+      </Button>
+      <Menu
+        id="download-mesh-menu"
+        anchorEl={anchorEl}
+        open={anchorEl !== null}
+        onClose={() => setAnchorEl(null)}
+      >
+        <ListSubheader>Isosurface</ListSubheader>
+        {(Object.keys(meshExportFormatLabels) as MeshExportFormat[]).map(format => (
+          <MenuItem key={format} onClick={() => handleMeshExport(format)} disabled={!meshData}>
+            {meshExportFormatLabels[format]}
+          </MenuItem>
+        ))}
+        <FormControlLabel
+          sx={{ px: 2 }}
+          control={
+            <Switch
+              size="small"
+              checked={separateLobes}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSeparateLobes(e.target.checked)}
+            />
+          }
+          label="Separate body per ψ sign"
+        />
+        <Divider />
+        <ListSubheader>Volume grid</ListSubheader>
+        <Box sx={{ px: 2, pb: 1 }}>
+          <ToggleButtonGroup
+            value={volumeQuantity}
+            exclusive
+            onChange={(event: React.MouseEvent<HTMLElement>, newValue: VolumeQuantity | null) => {
+              if (newValue !== null) {
+                setVolumeQuantity(newValue);
+              }
+            }}
+            aria-label="volume quantity"
+            size="small"
+          >
+            <ToggleButton value="psi" aria-label="export wavefunction">ψ</ToggleButton>
+            <ToggleButton value="density" aria-label="export probability density">|ψ|²</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+        {(Object.keys(volumeExportFormatLabels) as VolumeExportFormat[]).map(format => (
+          <MenuItem key={format} onClick={() => handleVolumeExport(format)} disabled={!params}>
+            {volumeExportFormatLabels[format]}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+};
+
+export default DownloadMenu;
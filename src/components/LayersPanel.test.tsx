@@ -0,0 +1,44 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import orbitalReducer, { startOrbitalCalculation } from '../store/orbitalSlice';
+import LayersPanel from './LayersPanel';
+
+const params = { n: 2, l: 1, ml: 0, Z: 1, resolution: 32, rMax: 15, isoLevel: 0.0005 };
+
+const renderPanel = () => {
+  const store = configureStore({ reducer: { orbital: orbitalReducer } });
+  store.dispatch(startOrbitalCalculation(params));
+  render(<Provider store={store}><LayersPanel /></Provider>);
+  fireEvent.click(screen.getByRole('button', { name: /expand layers/i }));
+  return store;
+};
+
+const layersOf = (store: ReturnType<typeof renderPanel>) => store.getState().orbital.viewports[0].layers;
+
+describe('LayersPanel', () => {
+  it('adds the whole subshell of the current orbital', () => {
+    const store = renderPanel();
+    fireEvent.click(screen.getByRole('button', { name: 'Show whole 2p subshell' }));
+    expect(layersOf(store).map(layer => layer.ml)).toEqual([-1, 0, 1]);
+    expect(screen.getByText('2p m=-1')).toBeInTheDocument();
+    expect(screen.getByText('Layers (3)')).toBeInTheDocument();
+  });
+
+  it('styles, hides and removes a layer', () => {
+    const store = renderPanel();
+    fireEvent.click(screen.getByRole('button', { name: /add orbital/i }));
+    expect(layersOf(store)).toMatchObject([{ n: 2, l: 1, ml: 0, isoLevel: 0.0005, visible: true }]);
+
+    fireEvent.change(screen.getByLabelText('positive colour of 2p m=0'), { target: { value: '#00ff00' } });
+    fireEvent.click(screen.getByRole('button', { name: 'hide 2p m=0' }));
+    const isoInput = screen.getByLabelText('iso-level of 2p m=0');
+    fireEvent.change(isoInput, { target: { value: '0.002' } });
+    fireEvent.blur(isoInput);
+    expect(layersOf(store)).toMatchObject([{ positiveColor: [0, 1, 0], visible: false, isoLevel: 0.002 }]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'remove 2p m=0' }));
+    expect(layersOf(store)).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  Slider,
+  TextField,
+  Typography,
+} from '@mui/material';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
+import { OrbitalLayer } from '@/types/orbital';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { addLayers, removeLayer, selectActiveViewport, updateLayer } from '../store/orbitalSlice';
+import { colorToHex, formatLayerName, getSubshellOrbitals, hexToColor } from '../orbital_layers';
+import { subshellLabel } from '../quantum_functions';
+
+interface LayerRowProps {
+  layer: OrbitalLayer;
+}
+
+const LayerRow: React.FC<LayerRowProps> = ({ layer }) => {
+  const dispatch = useAppDispatch();
+  const name = formatLayerName(layer);
+  // The typed iso-level is only applied on blur or Enter, since every change recomputes the layer
+  const [isoDraft, setIsoDraft] = useState(layer.isoLevel.toString());
+
+  useEffect(() => {
+    setIsoDraft(layer.isoLevel.toString());
+  }, [layer.isoLevel]);
+
+  const update = (changes: Partial<Omit<OrbitalLayer, 'id'>>) => dispatch(updateLayer({ id: layer.id, changes }));
+
+  const commitIsoDraft = () => {
+    const value = parseFloat(isoDraft);
+    if (value > 0) {
+      update({ isoLevel: value });
+    } else {
+      setIsoDraft(layer.isoLevel.toString());
+    }
+  };
+
+  return (
+    <ListItem disablePadding sx={{ display: 'block', py: 0.5 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+        <IconButton
+          size="small"
+          aria-label={`${layer.visible ? 'hide' : 'show'} ${name}`}
+          onClick={() => update({ visible: !layer.visible })}
+        >
+          {layer.visible ? <VisibilityIcon fontSize="small" /> : <VisibilityOffIcon fontSize="small" />}
+        </IconButton>
+        <Typography variant="body2" sx={{ flexGrow: 1 }} noWrap>{name}</Typography>
+        <input
+          type="color"
+          aria-label={`positive colour of ${name}`}
+          value={colorToHex(layer.positiveColor)}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ positiveColor: hexToColor(e.target.value) })}
+        />
+        <input
+          type="color"
+          aria-label={`negative colour of ${name}`}
+          value={colorToHex(layer.negativeColor)}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ negativeColor: hexToColor(e.target.value) })}
+        />
+        <IconButton size="small" aria-label={`remove ${name}`} onClick={() => dispatch(removeLayer(layer.id))}>
+          <DeleteOutlineIcon fontSize="small" />
+        </IconButton>
+      </Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, pl: 1 }}>
+        <Slider
+          aria-label={`opacity of ${name}`}
+          value={layer.opacity}
+          min={0.05}
+          max={1}
+          step={0.05}
+          onChange={(_, value) => update({ opacity: value as number })}
+          size="small"
+        />
+        <TextField
+          size="small"
+          label="Iso-level"
+          value={isoDraft}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIsoDraft(e.target.value)}
+          onBlur={commitIsoDraft}
+          onKeyDown={(e: React.KeyboardEvent) => {
+            if (e.key === 'Enter') commitIsoDraft();
+          }}
+          inputProps={{ 'aria-label': `iso-level of ${name}` }}
+          sx={{ width: 130, flexShrink: 0 }}
+        />
+      </Box>
+    </ListItem>
+  );
+};
+
+// Orbitals overlaid on the active pane's orbital, added from the quantum numbers in the controls
+const LayersPanel: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { params, surfaceInfo, layers } = useAppSelector(selectActiveViewport);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New layers start at the density of the surface on screen, so that they match it
+  const isoLevel = surfaceInfo?.isoLevel ?? params?.isoLevel ?? NaN;
+  const canAdd = !!params && isoLevel > 0;
+
+  const handleAddOrbital = () => {
+    if (!params) return;
+    dispatch(addLayers([{ n: params.n, l: params.l, ml: params.ml, Z: params.Z, isoLevel }]));
+  };
+
+  const handleAddSubshell = () => {
+    if (!params) return;
+    try {
+      dispatch(addLayers(getSubshellOrbitals(params.n, params.l, params.Z, isoLevel)));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <Box id="layers-panel">
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle2">Layers ({layers.length})</Typography>
+        <IconButton
+          aria-label={isOpen ? 'collapse layers' : 'expand layers'}
+          onClick={() => setIsOpen(!isOpen)}
+          size="small"
+        >
+          {isOpen ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+        </IconButton>
+      </Box>
+
+      {isOpen && (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+            <Button id="add-layer" variant="outlined" size="small" onClick={handleAddOrbital} disabled={!canAdd}>
+              Add orbital
+            </Button>
+            <Button id="add-subshell" variant="outlined" size="small" onClick={handleAddSubshell} disabled={!canAdd}>
+              {params ? `Show whole ${subshellLabel(params.n, params.l)} subshell` : 'Show whole subshell'}
+            </Button>
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <List dense aria-label="orbital layers">
+            {layers.map(layer => <LayerRow key={layer.id} layer={layer} />)}
+          </List>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default LayersPanel;
@@ -1,70 +1,218 @@
-import React, { useRef, useEffect } from 'react';
-import { useAppSelector } from '../store/hooks';
-import {
-    initVisualizer,
-    cleanupVisualizer,
-    updateOrbitalInScene,
-    handleResize as visualizerHandleResize,
-    VisualizerContext
-} from '../orbital_visualizer';
-
-
-interface OrbitalViewerProps {
-    onOrbitalRendered?: () => void;
-}
-
-const OrbitalViewer: React.FC<OrbitalViewerProps> = ({ onOrbitalRendered }) => {
-    const canvasHostRef = useRef<HTMLDivElement>(null);
-    const visualizerContextRef = useRef<VisualizerContext | null>(null);
-    const stateParams = useAppSelector(state => state.orbital.currentParams);
-
-    // Initialize visualizer - only once
-    useEffect(() => {
-        if (canvasHostRef.current) {
-            console.log('OrbitalViewer: Initializing visualizer');
-            visualizerContextRef.current = initVisualizer(canvasHostRef.current);
-        }
-
-        return () => {
-            if (visualizerContextRef.current) {
-                console.log('OrbitalViewer: Cleaning up visualizer');
-                cleanupVisualizer(visualizerContextRef.current);
-                visualizerContextRef.current = null;
-            }
-        };
-    }, []);
-
-    // Handle orbital updates - now using stateParams
-    useEffect(() => {
-        if (!visualizerContextRef.current || !stateParams) return;
-
-        console.log('OrbitalViewer: Using state params:', stateParams);
-        
-        updateOrbitalInScene(visualizerContextRef.current, stateParams, true)
-            .then(() => {
-                console.log('OrbitalViewer: Orbital update complete');
-                onOrbitalRendered?.();
-            })
-            .catch(error => {
-                console.error('OrbitalViewer: Error updating orbital', error);
-                onOrbitalRendered?.();
-            });
-    }, [stateParams, onOrbitalRendered]); // Changed dependency to stateParams
-
-    // Handle resize
-    useEffect(() => {
-        const handleResize = () => {
-            if (canvasHostRef.current && visualizerContextRef.current) {
-                visualizerHandleResize(visualizerContextRef.current, 
-                    canvasHostRef.current.clientWidth, 
-                    canvasHostRef.current.clientHeight);
-            }
-        };
-        window.addEventListener('resize', handleResize);
-        return () => window.removeEventListener('resize', handleResize);
-    }, []);
-
-    return <div ref={canvasHostRef} id="orbital-canvas-host" />;
-};
-
-export default OrbitalViewer;
+import React, { useRef, useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+    failOrbitalCalculation,
+    finishOrbitalCalculation,
+    setActiveViewport,
+    setAnimationTime,
+    setCalculationProgress,
+    setSliceOffset,
+    setSurfaceInfo,
+    startImportedCubeCalculation
+} from '../store/orbitalSlice';
+import { resolveRMax } from '../orbital_bounds';
+import { DEFAULT_LAYER_RESOLUTION } from '../orbital_layers';
+import { isJobCancelled } from '../worker_pool';
+import {
+    initVisualizer,
+    cleanupVisualizer,
+    updateOrbitalInScene,
+    updateImportedCubeInScene,
+    updateLayersInScene,
+    updateNodalOverlay,
+    updateSlicePlane,
+    setAnimationTime as visualizerSetAnimationTime,
+    setAnimationPlaying as visualizerSetAnimationPlaying,
+    handleResize as visualizerHandleResize,
+    getCurrentMeshData,
+    setCameraPose,
+    addCameraChangeListener,
+    joinCameraLink,
+    CameraLink,
+    VisualizerContext
+} from '../orbital_visualizer';
+import { CameraPose, ImportedCube, MeshData } from '../types/orbital';
+
+
+interface OrbitalViewerProps {
+    viewport?: number; // Pane of the store this viewer draws
+    cameraLink?: CameraLink; // Shared by the panes whose cameras can be linked
+    onOrbitalRendered?: (viewport: number) => void;
+    onMeshDataChange?: (meshData: MeshData | null, viewport: number) => void; // Isosurface on screen, for export
+    importedCube?: ImportedCube | null; // Shown instead of the analytic orbital while set
+    importedIsoLevel?: number;
+    cameraPose?: CameraPose | null; // Applied whenever it changes, e.g. when a link is opened
+    onCameraChange?: (pose: CameraPose) => void; // Called when the user stops moving the camera
+}
+
+const OrbitalViewer: React.FC<OrbitalViewerProps> = ({
+    viewport = 0,
+    cameraLink,
+    onOrbitalRendered,
+    onMeshDataChange,
+    importedCube = null,
+    importedIsoLevel = 0,
+    cameraPose = null,
+    onCameraChange,
+}) => {
+    const canvasHostRef = useRef<HTMLDivElement>(null);
+    const visualizerContextRef = useRef<VisualizerContext | null>(null);
+    const dispatch = useAppDispatch();
+    const stateParams = useAppSelector(state => state.orbital.viewports[viewport]?.params ?? null);
+    const layers = useAppSelector(state => state.orbital.viewports[viewport]?.layers);
+    const isActive = useAppSelector(state => state.orbital.activeViewport === viewport);
+    const isSplit = useAppSelector(state => state.orbital.viewports.length > 1);
+    const { time, isPlaying } = useAppSelector(state => state.orbital.animation);
+    const showNodalSurfaces = useAppSelector(state => state.orbital.showNodalSurfaces);
+    const slicePlane = useAppSelector(state => state.orbital.slicePlane);
+
+    // Initialize visualizer - only once
+    useEffect(() => {
+        if (canvasHostRef.current) {
+            console.log('OrbitalViewer: Initializing visualizer');
+            visualizerContextRef.current = initVisualizer(canvasHostRef.current);
+        }
+
+        return () => {
+            if (visualizerContextRef.current) {
+                console.log('OrbitalViewer: Cleaning up visualizer');
+                cleanupVisualizer(visualizerContextRef.current);
+                visualizerContextRef.current = null;
+            }
+        };
+    }, []);
+
+    // Handle orbital updates - now using stateParams
+    useEffect(() => {
+        if (!visualizerContextRef.current || importedCube || !stateParams) return;
+
+        console.log('OrbitalViewer: Using state params:', stateParams);
+        
+        const onProgress = (progress: number) => dispatch(setCalculationProgress(progress, viewport));
+        updateOrbitalInScene(visualizerContextRef.current, stateParams, true, onProgress)
+            .then((surfaceInfo) => {
+                console.log('OrbitalViewer: Orbital update complete');
+                dispatch(setSurfaceInfo(surfaceInfo, viewport));
+                onMeshDataChange?.(getCurrentMeshData(visualizerContextRef.current), viewport);
+                onOrbitalRendered?.(viewport);
+            })
+            .catch(error => {
+                // Superseded by newer params, whose calculation finishes the pane instead
+                if (isJobCancelled(error)) return;
+                console.error('OrbitalViewer: Error updating orbital', error);
+                dispatch(failOrbitalCalculation(error instanceof Error ? error.message : String(error), viewport));
+                onMeshDataChange?.(getCurrentMeshData(visualizerContextRef.current), viewport);
+            });
+    }, [stateParams, importedCube, viewport, onOrbitalRendered, onMeshDataChange, dispatch]); // Changed dependency to stateParams
+
+    // An imported cube file replaces the analytic orbital until it is closed
+    useEffect(() => {
+        if (!visualizerContextRef.current || !importedCube) return;
+
+        dispatch(startImportedCubeCalculation(viewport));
+        const onProgress = (progress: number) => dispatch(setCalculationProgress(progress, viewport));
+        updateImportedCubeInScene(visualizerContextRef.current, importedCube, importedIsoLevel, true, onProgress)
+            .then((surfaceInfo) => {
+                dispatch(setSurfaceInfo(surfaceInfo, viewport));
+                dispatch(finishOrbitalCalculation(viewport));
+                onMeshDataChange?.(getCurrentMeshData(visualizerContextRef.current), viewport);
+            })
+            .catch(error => {
+                if (isJobCancelled(error)) return;
+                console.error('OrbitalViewer: Error drawing imported cube', error);
+                dispatch(failOrbitalCalculation(error instanceof Error ? error.message : String(error), viewport));
+                onMeshDataChange?.(getCurrentMeshData(visualizerContextRef.current), viewport);
+            });
+    }, [importedCube, importedIsoLevel, viewport, onMeshDataChange, dispatch]);
+
+    // Overlaid layers share the grid resolution of the pane's orbital
+    const layerResolution = stateParams?.resolution ?? DEFAULT_LAYER_RESOLUTION;
+    useEffect(() => {
+        updateLayersInScene(visualizerContextRef.current, layers ?? [], layerResolution);
+    }, [layers, layerResolution]);
+
+    // Declared after the orbital updates, which re-centre the controls, so that a pose restored
+    // together with its orbital wins
+    useEffect(() => {
+        if (cameraPose) {
+            setCameraPose(visualizerContextRef.current, cameraPose);
+        }
+    }, [cameraPose]);
+
+    useEffect(() => {
+        if (!visualizerContextRef.current || !onCameraChange) return;
+        return addCameraChangeListener(visualizerContextRef.current, onCameraChange);
+    }, [onCameraChange]);
+
+    useEffect(() => {
+        if (!visualizerContextRef.current || !cameraLink) return;
+        return joinCameraLink(cameraLink, visualizerContextRef.current);
+    }, [cameraLink]);
+
+    // Nodal overlays only depend on the quantum numbers, so they are drawn without the worker
+    useEffect(() => {
+        updateNodalOverlay(visualizerContextRef.current, importedCube ? null : stateParams, showNodalSurfaces);
+    }, [stateParams, importedCube, showNodalSurfaces]);
+
+    // Show the slice plane and clip the orbital by it; dragging it in the scene moves the slice
+    useEffect(() => {
+        updateSlicePlane(
+            visualizerContextRef.current,
+            stateParams && !importedCube ? slicePlane : null,
+            stateParams ? resolveRMax(stateParams) : 0,
+            (offset: number) => dispatch(setSliceOffset(offset))
+        );
+    }, [stateParams, importedCube, slicePlane, dispatch]);
+
+    // Scrub to the selected time when paused; the frame shown is the one that gets exported.
+    // The timeline belongs to the active pane, since each pane has its own beat period.
+    useEffect(() => {
+        if (isActive && !isPlaying) {
+            visualizerSetAnimationTime(visualizerContextRef.current, time);
+            onMeshDataChange?.(getCurrentMeshData(visualizerContextRef.current), viewport);
+        }
+    }, [time, isPlaying, isActive, viewport, onMeshDataChange]);
+
+    // Start/stop frame playback in the render loop, reporting progress back to the store
+    useEffect(() => {
+        const playing = isActive && isPlaying;
+        visualizerSetAnimationPlaying(
+            visualizerContextRef.current,
+            playing,
+            playing ? (frameTime: number) => dispatch(setAnimationTime(frameTime)) : undefined
+        );
+    }, [isPlaying, isActive, dispatch]);
+
+    // Handle resize; panes also change size when panes are added or removed
+    useEffect(() => {
+        const handleResize = () => {
+            if (canvasHostRef.current && visualizerContextRef.current) {
+                visualizerHandleResize(visualizerContextRef.current, 
+                    canvasHostRef.current.clientWidth, 
+                    canvasHostRef.current.clientHeight);
+            }
+        };
+        if (typeof ResizeObserver !== 'undefined' && canvasHostRef.current) {
+            const observer = new ResizeObserver(handleResize);
+            observer.observe(canvasHostRef.current);
+            return () => observer.disconnect();
+        }
+        window.addEventListener('resize', handleResize);
+        return () => window.removeEventListener('resize', handleResize);
+    }, []);
+
+    return (
+        <div
+            ref={canvasHostRef}
+            className={`orbital-canvas-host${isSplit && isActive ? ' active' : ''}`}
+            data-testid={`orbital-viewport-${viewport}`}
+            onPointerDown={() => {
+                if (!isActive) {
+                    dispatch(setActiveViewport(viewport));
+                }
+            }}
+        />
+    );
+};
+
+export default OrbitalViewer;
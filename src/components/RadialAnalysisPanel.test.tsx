@@ -0,0 +1,53 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import orbitalReducer, { startOrbitalCalculation } from '../store/orbitalSlice';
+import RadialAnalysisPanel from './RadialAnalysisPanel';
+import { OrbitalParams } from '@/types/orbital';
+
+const baseParams: OrbitalParams = { n: 3, l: 0, ml: 0, Z: 1, resolution: 32, rMax: 30, isoLevel: 0.0001 };
+
+const renderPanel = (params?: OrbitalParams) => {
+  const store = configureStore({ reducer: { orbital: orbitalReducer } });
+  if (params) {
+    store.dispatch(startOrbitalCalculation(params));
+  }
+  return render(<Provider store={store}><RadialAnalysisPanel /></Provider>);
+};
+
+describe('RadialAnalysisPanel', () => {
+  it('renders nothing before an orbital is requested', () => {
+    const { container } = renderPanel();
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('marks the radial nodes and lists the expectation values', () => {
+    renderPanel(baseParams);
+    expect(screen.getByText(/radial analysis: 3s/i)).toBeInTheDocument();
+    expect(screen.getAllByTestId('radial-node-marker')).toHaveLength(2);
+    expect(screen.getByTestId('most-probable-marker')).toBeInTheDocument();
+    // ⟨r⟩ = 13.5 for 3s, shown in both columns
+    expect(screen.getAllByText('13.5000')).toHaveLength(2);
+  });
+
+  it('switches the plotted curve', () => {
+    renderPanel({ ...baseParams, n: 2, l: 1 });
+    expect(screen.getByRole('img', { name: /r²R\(r\)² plot/ })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'R(r)' }));
+    expect(screen.getByRole('img', { name: /^R\(r\) plot/ })).toBeInTheDocument();
+  });
+
+  it('offers each distinct radial state of a superposition', () => {
+    renderPanel({
+      ...baseParams,
+      components: [
+        { n: 2, l: 0, ml: 0, coefficient: Math.SQRT1_2 },
+        { n: 2, l: 1, ml: 1, coefficient: 0.5 },
+        { n: 2, l: 1, ml: -1, coefficient: 0.5 },
+      ],
+    });
+    expect(screen.getByRole('combobox', { name: /state/i })).toBeInTheDocument();
+    expect(screen.getByText(/radial analysis: 2s/i)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,211 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { useAppSelector } from '../store/hooks';
+import { selectCurrentParams } from '../store/orbitalSlice';
+import { getOrbitalComponents } from '../orbital_superposition';
+import { analyzeRadialFunction, RadialCurves, sampleRadialCurves } from '../radial_analysis';
+import { subshellLabel } from '../quantum_functions';
+
+type RadialCurve = 'R' | 'R2' | 'P';
+
+const curveLabels: Record<RadialCurve, string> = {
+  R: 'R(r)',
+  R2: 'R(r)²',
+  P: 'r²R(r)²',
+};
+
+// SVG plot geometry in user units
+const PLOT_WIDTH = 320;
+const PLOT_HEIGHT = 160;
+const PLOT_MARGIN = 24;
+
+interface RadialPlotProps {
+  curves: RadialCurves;
+  curve: RadialCurve;
+  nodes: number[];
+  mostProbableRadius: number;
+}
+
+const RadialPlot: React.FC<RadialPlotProps> = ({ curves, curve, nodes, mostProbableRadius }) => {
+  const values = curves[curve];
+  const rEnd = curves.r[curves.r.length - 1];
+  const yMin = Math.min(0, ...values);
+  const yMax = Math.max(0, ...values);
+  const ySpan = yMax - yMin || 1;
+
+  const toX = (r: number) => PLOT_MARGIN + (r / rEnd) * (PLOT_WIDTH - 2 * PLOT_MARGIN);
+  const toY = (value: number) => PLOT_HEIGHT - PLOT_MARGIN - ((value - yMin) / ySpan) * (PLOT_HEIGHT - 2 * PLOT_MARGIN);
+
+  const path = values.map((value, i) => `${i === 0 ? 'M' : 'L'}${toX(curves.r[i]).toFixed(2)},${toY(value).toFixed(2)}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`}
+      width="100%"
+      role="img"
+      aria-label={`${curveLabels[curve]} plot`}
+    >
+      {/* Axes: r along the zero line, value axis at r = 0 */}
+      <line x1={toX(0)} y1={toY(0)} x2={toX(rEnd)} y2={toY(0)} stroke="#666" strokeWidth={1} />
+      <line x1={toX(0)} y1={toY(yMin)} x2={toX(0)} y2={toY(yMax)} stroke="#666" strokeWidth={1} />
+      <text x={toX(rEnd)} y={PLOT_HEIGHT - 6} fontSize={10} textAnchor="end">{rEnd.toFixed(1)} a₀</text>
+      <text x={toX(0)} y={PLOT_HEIGHT - 6} fontSize={10} textAnchor="middle">0</text>
+
+      {nodes.filter(node => node <= rEnd).map(node => (
+        <line
+          key={node}
+          data-testid="radial-node-marker"
+          x1={toX(node)} y1={toY(yMin)} x2={toX(node)} y2={toY(yMax)}
+          stroke="#888" strokeDasharray="3 3" strokeWidth={1}
+        />
+      ))}
+      {mostProbableRadius <= rEnd && (
+        <line
+          data-testid="most-probable-marker"
+          x1={toX(mostProbableRadius)} y1={toY(yMin)} x2={toX(mostProbableRadius)} y2={toY(yMax)}
+          stroke="#e65100" strokeWidth={1}
+        />
+      )}
+
+      <path d={path} fill="none" stroke="#1976d2" strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const RadialAnalysisPanel: React.FC = () => {
+  const currentParams = useAppSelector(selectCurrentParams);
+  const [isOpen, setIsOpen] = useState(true);
+  const [curve, setCurve] = useState<RadialCurve>('P');
+  const [selectedState, setSelectedState] = useState(0);
+
+  // Radial functions depend only on (n, l), so superposition components sharing them are listed once
+  const radialStates = useMemo(() => {
+    if (!currentParams) {
+      return [];
+    }
+    const keys = new Set<string>();
+    return getOrbitalComponents(currentParams).filter(({ n, l }) => {
+      const key = `${n},${l}`;
+      if (keys.has(key)) {
+        return false;
+      }
+      keys.add(key);
+      return true;
+    });
+  }, [currentParams]);
+
+  const state = radialStates[Math.min(selectedState, radialStates.length - 1)];
+  const Z = currentParams?.Z ?? 1;
+
+  const analysis = useMemo(() => (state ? analyzeRadialFunction(state.n, state.l, Z) : null), [state, Z]);
+  const curves = useMemo(() => (state ? sampleRadialCurves(state.n, state.l, Z) : null), [state, Z]);
+
+  if (!state || !analysis || !curves) {
+    return null;
+  }
+
+  const rows: { label: string; numeric: number; analytic: number }[] = [
+    { label: '⟨r⟩', ...analysis.expectation.r },
+    { label: '⟨r²⟩', ...analysis.expectation.r2 },
+    { label: '⟨1/r⟩', ...analysis.expectation.inverseR },
+  ];
+
+  return (
+    <Box id="radial-analysis-panel">
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle2">Radial analysis: {subshellLabel(state.n, state.l)}, Z = {Z}</Typography>
+        <IconButton
+          aria-label={isOpen ? 'collapse radial analysis' : 'expand radial analysis'}
+          onClick={() => setIsOpen(!isOpen)}
+          size="small"
+        >
+          {isOpen ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+        </IconButton>
+      </Box>
+
+      {isOpen && (
+        <>
+          {radialStates.length > 1 && (
+            <FormControl fullWidth size="small" sx={{ my: 1 }}>
+              <InputLabel id="radial-state-select-label">State</InputLabel>
+              <Select
+                labelId="radial-state-select-label"
+                id="radial-state-select"
+                value={Math.min(selectedState, radialStates.length - 1).toString()}
+                label="State"
+                onChange={(e: SelectChangeEvent<string>) => setSelectedState(parseInt(e.target.value, 10))}
+              >
+                {radialStates.map(({ n, l }, i) => <MenuItem key={`${n},${l}`} value={i.toString()}>{subshellLabel(n, l)}</MenuItem>)}
+              </Select>
+            </FormControl>
+          )}
+
+          <ToggleButtonGroup
+            value={curve}
+            exclusive
+            onChange={(event: React.MouseEvent<HTMLElement>, newValue: RadialCurve | null) => {
+              if (newValue !== null) {
+                setCurve(newValue);
+              }
+            }}
+            aria-label="radial curve"
+            size="small"
+            fullWidth
+          >
+            {(Object.keys(curveLabels) as RadialCurve[]).map(key => (
+              <ToggleButton key={key} value={key} aria-label={curveLabels[key]}>{curveLabels[key]}</ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+
+          <RadialPlot curves={curves} curve={curve} nodes={analysis.nodes} mostProbableRadius={analysis.mostProbableRadius} />
+
+          <Typography variant="caption" component="p">
+            Radial nodes: {analysis.nodes.length > 0 ? analysis.nodes.map(node => node.toFixed(3)).join(', ') : 'none'} a₀
+          </Typography>
+          <Typography variant="caption" component="p" data-testid="most-probable-radius">
+            Most probable radius: {analysis.mostProbableRadius.toFixed(3)} a₀
+          </Typography>
+
+          <Table size="small" aria-label="radial expectation values">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                <TableCell align="right">Numeric</TableCell>
+                <TableCell align="right">Closed form</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.label}>
+                  <TableCell>{row.label}</TableCell>
+                  <TableCell align="right">{row.numeric.toPrecision(6)}</TableCell>
+                  <TableCell align="right">{row.analytic.toPrecision(6)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default RadialAnalysisPanel;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { configureStore } from '@reduxjs/toolkit';
+import scenesReducer from '../store/scenesSlice';
+import ScenesPanel from './ScenesPanel';
+
+const view = 'n=2&l=1&ml=1&Z=1&res=32&rMax=15&iso=0.0005&cam=0,0,12,0,0,0';
+
+const renderPanel = (onOpenScene = jest.fn()) => {
+  const store = configureStore({ reducer: { scenes: scenesReducer } });
+  render(<Provider store={store}><ScenesPanel getCurrentView={() => view} onOpenScene={onOpenScene} /></Provider>);
+  fireEvent.click(screen.getByRole('button', { name: /expand scenes/i }));
+  return store;
+};
+
+describe('ScenesPanel', () => {
+  it('saves the current view and opens it again', () => {
+    const onOpenScene = jest.fn();
+    const store = renderPanel(onOpenScene);
+    fireEvent.change(screen.getByLabelText(/scene name/i), { target: { value: 'Lecture 1' } });
+    fireEvent.click(screen.getByRole('button', { name: /^save$/i }));
+    expect(store.getState().scenes.scenes).toMatchObject([{ name: 'Lecture 1', view }]);
+
+    fireEvent.click(screen.getByText('Lecture 1'));
+    expect(onOpenScene).toHaveBeenCalledWith(expect.objectContaining({
+      params: expect.objectContaining({ n: 2, l: 1, ml: 1 }),
+      camera: { position: [0, 0, 12], target: [0, 0, 0] },
+    }));
+  });
+
+  it('renames a scene inline', () => {
+    const store = renderPanel();
+    fireEvent.change(screen.getByLabelText(/scene name/i), { target: { value: 'old' } });
+    fireEvent.click(screen.getByRole('button', { name: /^save$/i }));
+    fireEvent.click(screen.getByRole('button', { name: /rename old/i }));
+    const input = screen.getAllByLabelText(/scene name/i)[1];
+    fireEvent.change(input, { target: { value: 'new' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(store.getState().scenes.scenes[0].name).toBe('new');
+  });
+
+  it('rejects a corrupt scene file', async () => {
+    const store = renderPanel();
+    const file = new File(['{"version": 1, "scenes": [{"id": "x", "name": "bad", "view": "n=1&l=1"}]}'], 'scenes.json');
+    fireEvent.change(screen.getByTestId('scene-file-input'), { target: { files: [file] } });
+    expect(await screen.findByRole('alert')).toHaveTextContent(/could not import scenes\.json: scene 1 \("bad"\) is invalid/i);
+    await waitFor(() => expect(store.getState().scenes.scenes).toEqual([]));
+  });
+});
@@ -0,0 +1,222 @@
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Typography,
+} from '@mui/material';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import EditIcon from '@mui/icons-material/Edit';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import { Scene } from '@/types/orbital';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { deleteScene, importScenes, moveScene, renameScene, saveScene } from '../store/scenesSlice';
+import { readSceneFile, serializeSceneCollection } from '../scenes';
+import { decodeUrlState, UrlState } from '../url_state';
+import { saveFile } from '../file_download';
+
+interface ScenesPanelProps {
+  getCurrentView: () => string | null; // Query string of the view on screen, as in its link
+  onOpenScene: (view: UrlState) => void;
+}
+
+interface SceneRowProps {
+  scene: Scene;
+  index: number;
+  count: number;
+  onOpen: (scene: Scene) => void;
+}
+
+const SceneRow: React.FC<SceneRowProps> = ({ scene, index, count, onOpen }) => {
+  const dispatch = useAppDispatch();
+  const [draftName, setDraftName] = useState<string | null>(null); // Non-null while renaming
+
+  const commitRename = () => {
+    if (draftName !== null) {
+      dispatch(renameScene({ id: scene.id, name: draftName }));
+      setDraftName(null);
+    }
+  };
+
+  return (
+    <ListItem
+      disablePadding
+      secondaryAction={draftName === null && (
+        <>
+          <IconButton size="small" aria-label={`rename ${scene.name}`} onClick={() => setDraftName(scene.name)}>
+            <EditIcon fontSize="small" />
+          </IconButton>
+          <IconButton
+            size="small"
+            aria-label={`move ${scene.name} up`}
+            disabled={index === 0}
+            onClick={() => dispatch(moveScene({ id: scene.id, toIndex: index - 1 }))}
+          >
+            <ArrowUpwardIcon fontSize="small" />
+          </IconButton>
+          <IconButton
+            size="small"
+            aria-label={`move ${scene.name} down`}
+            disabled={index === count - 1}
+            onClick={() => dispatch(moveScene({ id: scene.id, toIndex: index + 1 }))}
+          >
+            <ArrowDownwardIcon fontSize="small" />
+          </IconButton>
+          <IconButton size="small" aria-label={`delete ${scene.name}`} onClick={() => dispatch(deleteScene(scene.id))}>
+            <DeleteOutlineIcon fontSize="small" />
+          </IconButton>
+        </>
+      )}
+      sx={{ '& .MuiListItemSecondaryAction-root': { right: 0 } }}
+    >
+      {draftName === null ? (
+        <ListItemButton dense onClick={() => onOpen(scene)} sx={{ pr: 17 }}>
+          <ListItemText primary={scene.name} primaryTypographyProps={{ noWrap: true }} />
+        </ListItemButton>
+      ) : (
+        <TextField
+          fullWidth
+          size="small"
+          autoFocus
+          label="Scene name"
+          value={draftName}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftName(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e: React.KeyboardEvent) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setDraftName(null);
+          }}
+          sx={{ my: 0.5 }}
+        />
+      )}
+    </ListItem>
+  );
+};
+
+const ScenesPanel: React.FC<ScenesPanelProps> = ({ getCurrentView, onOpenScene }) => {
+  const dispatch = useAppDispatch();
+  const scenes = useAppSelector(state => state.scenes.scenes);
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const view = getCurrentView();
+    if (view && name.trim() !== '') {
+      dispatch(saveScene(name, view));
+      setName('');
+    }
+  };
+
+  // Views were validated when they were saved or loaded, but the rules may have tightened since
+  const handleOpen = (scene: Scene) => {
+    try {
+      const view = decodeUrlState(scene.view);
+      if (view) {
+        setError(null);
+        onOpenScene(view);
+      }
+    } catch (e) {
+      setError(`Could not open "${scene.name}": ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        dispatch(importScenes(readSceneFile(reader.result as string)));
+        setError(null);
+      } catch (e) {
+        setError(`Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    };
+    reader.onerror = () => setError(`Could not read ${file.name}.`);
+    reader.readAsText(file);
+  };
+
+  return (
+    <Box id="scenes-panel">
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle2">Scenes ({scenes.length})</Typography>
+        <IconButton
+          aria-label={isOpen ? 'collapse scenes' : 'expand scenes'}
+          onClick={() => setIsOpen(!isOpen)}
+          size="small"
+        >
+          {isOpen ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+        </IconButton>
+      </Box>
+
+      {isOpen && (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+            <TextField
+              fullWidth
+              size="small"
+              id="scene-name-input"
+              label="Scene name"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              onKeyDown={(e: React.KeyboardEvent) => {
+                if (e.key === 'Enter') handleSave();
+              }}
+            />
+            <Button id="save-scene" variant="contained" size="small" onClick={handleSave} disabled={name.trim() === ''}>
+              Save
+            </Button>
+          </Box>
+
+          {error && (
+            <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <List dense aria-label="saved scenes">
+            {scenes.map((scene, i) => (
+              <SceneRow key={scene.id} scene={scene} index={i} count={scenes.length} onOpen={handleOpen} />
+            ))}
+          </List>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            data-testid="scene-file-input"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                handleImport(file);
+              }
+              e.target.value = ''; // Allow importing the same file again
+            }}
+          />
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+            <Button size="small" onClick={() => fileInputRef.current?.click()}>Import</Button>
+            <Button
+              size="small"
+              onClick={() => saveFile(serializeSceneCollection(scenes), 'application/json', 'orbital-scenes.json')}
+              disabled={scenes.length === 0}
+            >
+              Export
+            </Button>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default ScenesPanel;
@@ -0,0 +1,236 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Slider,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+import { SliceQuantity } from '@/types/orbital';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { selectCurrentParams, setSliceOffset, setSlicePlane } from '../store/orbitalSlice';
+import { resolveRMax } from '../orbital_bounds';
+import {
+  getContourLevels,
+  marchingSquares,
+  normalizeVector,
+  parseContourLevels,
+  sampleOrbitalSlice,
+  SlicePlanePreset,
+  slicePlanePresets,
+  sliceToImageData,
+} from '../orbital_slice';
+
+// Samples along each side of the slice; kept modest so dragging the plane stays interactive
+const SLICE_RESOLUTION = 80;
+const DEFAULT_CONTOUR_LEVELS = '0.1, 0.3, 0.5, 0.7, 0.9';
+
+type PlaneChoice = SlicePlanePreset | 'custom';
+
+const axisNames = ['x', 'y', 'z'];
+
+// Names an in-plane axis, e.g. "x" or "-z", or lists its components when it is not a world axis
+const formatAxis = (axis: number[]) => {
+  const index = axis.findIndex(c => Math.abs(Math.abs(c) - 1) < 1e-9);
+  if (index >= 0) {
+    return `${axis[index] < 0 ? '-' : ''}${axisNames[index]}`;
+  }
+  return `(${axis.map(c => c.toFixed(2)).join(', ')})`;
+};
+
+const SlicePanel: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const currentParams = useAppSelector(selectCurrentParams);
+  const slicePlane = useAppSelector(state => state.orbital.slicePlane);
+  const [planeChoice, setPlaneChoice] = useState<PlaneChoice>('xy');
+  const [customNormal, setCustomNormal] = useState<[string, string, string]>(['1', '1', '1']);
+  const [quantity, setQuantity] = useState<SliceQuantity>('psi');
+  const [contourText, setContourText] = useState(DEFAULT_CONTOUR_LEVELS);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const rMax = currentParams ? resolveRMax(currentParams) : 0;
+
+  const slice = useMemo(
+    () => (currentParams && slicePlane
+      ? sampleOrbitalSlice(currentParams, slicePlane, rMax, SLICE_RESOLUTION, quantity)
+      : null),
+    [currentParams, slicePlane, rMax, quantity]
+  );
+
+  const contourFractions = useMemo(() => parseContourLevels(contourText), [contourText]);
+  const contours = useMemo(() => {
+    if (!slice || !contourFractions) {
+      return [];
+    }
+    return getContourLevels(slice, contourFractions, quantity).map(level => ({
+      level,
+      segments: marchingSquares(slice.values, slice.resolution, level),
+    }));
+  }, [slice, contourFractions, quantity]);
+
+  // Paint the heatmap; jsdom and some headless browsers have no 2D context
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!slice || !context) {
+      return;
+    }
+    const image = context.createImageData(slice.resolution, slice.resolution);
+    image.data.set(sliceToImageData(slice));
+    context.putImageData(image, 0, 0);
+  }, [slice]);
+
+  if (!currentParams) {
+    return null;
+  }
+
+  const applyPlane = (choice: PlaneChoice, normalText: [string, string, string] = customNormal) => {
+    const offset = slicePlane?.offset ?? 0;
+    if (choice !== 'custom') {
+      dispatch(setSlicePlane({ normal: slicePlanePresets[choice], offset }));
+      return;
+    }
+    const normal = normalText.map(Number) as [number, number, number];
+    if (normal.every(Number.isFinite) && normal.some(c => c !== 0)) {
+      dispatch(setSlicePlane({ normal: normalizeVector(normal), offset }));
+    }
+  };
+
+  const last = SLICE_RESOLUTION - 1;
+  const quantityLabel = currentParams.basis === 'complex' ? 'Re ψ' : 'ψ';
+
+  return (
+    <Box id="slice-panel">
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={slicePlane !== null}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => (
+              e.target.checked ? applyPlane(planeChoice) : dispatch(setSlicePlane(null))
+            )}
+          />
+        }
+        label={<Typography variant="subtitle2">Slice</Typography>}
+      />
+
+      {slicePlane && slice && (
+        <>
+          <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+            <FormControl size="small" sx={{ minWidth: 100 }}>
+              <InputLabel id="slice-plane-select-label">Plane</InputLabel>
+              <Select
+                labelId="slice-plane-select-label"
+                id="slice-plane-select"
+                value={planeChoice}
+                label="Plane"
+                onChange={(e: SelectChangeEvent<string>) => {
+                  const choice = e.target.value as PlaneChoice;
+                  setPlaneChoice(choice);
+                  applyPlane(choice);
+                }}
+              >
+                {(Object.keys(slicePlanePresets) as SlicePlanePreset[]).map(name => (
+                  <MenuItem key={name} value={name}>{name}</MenuItem>
+                ))}
+                <MenuItem value="custom">normal…</MenuItem>
+              </Select>
+            </FormControl>
+            {planeChoice === 'custom' && axisNames.map((name, i) => (
+              <TextField
+                key={name}
+                size="small"
+                label={`n${name}`}
+                type="number"
+                value={customNormal[i]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  const next = [...customNormal] as [string, string, string];
+                  next[i] = e.target.value;
+                  setCustomNormal(next);
+                  applyPlane('custom', next);
+                }}
+                slotProps={{ input: { inputProps: { step: 'any' } } }}
+              />
+            ))}
+          </Box>
+
+          <Typography variant="caption" id="slice-offset-label">Offset: {slicePlane.offset.toFixed(2)} a₀</Typography>
+          <Slider
+            aria-labelledby="slice-offset-label"
+            value={slicePlane.offset}
+            min={-rMax}
+            max={rMax}
+            step={rMax / 100}
+            onChange={(_, value) => dispatch(setSliceOffset(value as number))}
+            size="small"
+          />
+
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <ToggleButtonGroup
+              value={quantity}
+              exclusive
+              onChange={(event: React.MouseEvent<HTMLElement>, newValue: SliceQuantity | null) => {
+                if (newValue !== null) {
+                  setQuantity(newValue);
+                }
+              }}
+              aria-label="slice quantity"
+              size="small"
+            >
+              <ToggleButton value="psi" aria-label="wavefunction">{quantityLabel}</ToggleButton>
+              <ToggleButton value="density" aria-label="probability density">|ψ|²</ToggleButton>
+            </ToggleButtonGroup>
+            <TextField
+              size="small"
+              label="Contours (fraction of max)"
+              value={contourText}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContourText(e.target.value)}
+              error={contourFractions === null}
+              sx={{ flex: 1 }}
+            />
+          </Box>
+
+          <Box sx={{ position: 'relative', width: '100%', aspectRatio: '1', mt: 1 }}>
+            <canvas
+              ref={canvasRef}
+              width={SLICE_RESOLUTION}
+              height={SLICE_RESOLUTION}
+              style={{ width: '100%', height: '100%', display: 'block' }}
+            />
+            {/* Pixel centres sit at grid coordinates (i, last - j) */}
+            <svg
+              viewBox={`-0.5 -0.5 ${SLICE_RESOLUTION} ${SLICE_RESOLUTION}`}
+              preserveAspectRatio="none"
+              style={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}
+              aria-label="slice contours"
+            >
+              {contours.map(({ level, segments }) => (
+                <path
+                  key={level}
+                  d={segments.map(([[x1, y1], [x2, y2]]) => `M${x1},${last - y1}L${x2},${last - y2}`).join('')}
+                  fill="none"
+                  stroke={level > 0 ? '#7f0000' : level < 0 ? '#00007f' : '#000'}
+                  strokeDasharray={level === 0 ? '1 1' : undefined}
+                  strokeWidth={0.3}
+                />
+              ))}
+            </svg>
+          </Box>
+          <Typography variant="caption" component="p">
+            Horizontal: {formatAxis(slice.u)}, vertical: {formatAxis(slice.v)}, ±{rMax} a₀;
+            range {slice.minValue.toExponential(2)} to {slice.maxValue.toExponential(2)}
+          </Typography>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default SlicePanel;
@@ -0,0 +1,160 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  FormControl,
+  FormLabel,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  TextField,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { OrbitalComponent } from '@/types/orbital';
+import {
+  getHybridOrbitalPreset,
+  hybridOrbitalPresets,
+  isNormalized,
+  normalizeComponents,
+  superpositionNorm,
+  validateComponent,
+} from '../orbital_superposition';
+
+interface SuperpositionEditorProps {
+  components: OrbitalComponent[];
+  onComponentsChange: (components: OrbitalComponent[]) => void;
+  defaultComponent: OrbitalComponent; // Added by "Add state", normally the currently selected (n, l, m_l)
+  disabled: boolean;
+}
+
+const numberFieldSx = {
+  '& input[type=number]::-webkit-inner-spin-button, & input[type=number]::-webkit-outer-spin-button': {
+    WebkitAppearance: 'none',
+    margin: 0,
+  },
+  '& input[type=number]': {
+    MozAppearance: 'textfield',
+  },
+};
+
+const SuperpositionEditor: React.FC<SuperpositionEditorProps> = ({
+  components,
+  onComponentsChange,
+  defaultComponent,
+  disabled,
+}) => {
+  const norm = superpositionNorm(components);
+  const normalized = isNormalized(components);
+
+  const updateComponent = (index: number, field: keyof OrbitalComponent, valueStr: string) => {
+    const value = field === 'coefficient' ? parseFloat(valueStr) : parseInt(valueStr, 10);
+    onComponentsChange(components.map((c, i) => (i === index ? { ...c, [field]: isNaN(value) ? 0 : value } : c)));
+  };
+
+  const handlePresetChange = (e: SelectChangeEvent<string>) => {
+    const preset = getHybridOrbitalPreset(e.target.value);
+    if (preset) {
+      onComponentsChange(preset.components);
+    }
+  };
+
+  return (
+    <FormControl component="fieldset" margin="normal" fullWidth>
+      <FormLabel component="legend" sx={{ mb: 0.5, fontSize: '0.75rem' }}>Superposition</FormLabel>
+
+      <FormControl fullWidth size="small" sx={{ mb: 1 }}>
+        <InputLabel id="hybrid-preset-label">Hybrid preset</InputLabel>
+        <Select
+          labelId="hybrid-preset-label"
+          id="hybrid-preset-select"
+          value=""
+          label="Hybrid preset"
+          onChange={handlePresetChange}
+          disabled={disabled}
+        >
+          {hybridOrbitalPresets.map(preset => (
+            <MenuItem key={preset.id} value={preset.id}>{preset.label} — {preset.description}</MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {components.map((component, index) => {
+        const error = validateComponent(component);
+        return (
+          <Box key={index} sx={{ display: 'flex', gap: 0.5, alignItems: 'flex-start', mb: 0.5 }}>
+            {(['n', 'l', 'ml'] as const).map(field => (
+              <TextField
+                key={field}
+                size="small"
+                type="number"
+                label={field === 'ml' ? 'm_l' : field}
+                value={component[field]}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateComponent(index, field, e.target.value)}
+                error={error !== null}
+                sx={{ width: 56, ...numberFieldSx }}
+                disabled={disabled}
+              />
+            ))}
+            <TextField
+              size="small"
+              type="number"
+              label="c"
+              value={component.coefficient}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateComponent(index, 'coefficient', e.target.value)}
+              slotProps={{ input: { inputProps: { step: "any" } } }}
+              sx={{ flex: 1, ...numberFieldSx }}
+              disabled={disabled}
+            />
+            <IconButton
+              aria-label={`remove component ${index + 1}`}
+              size="small"
+              onClick={() => onComponentsChange(components.filter((_, i) => i !== index))}
+              disabled={disabled}
+            >
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        );
+      })}
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 0.5 }}>
+        <Button
+          size="small"
+          onClick={() => onComponentsChange([...components, { ...defaultComponent }])}
+          disabled={disabled}
+        >
+          Add state
+        </Button>
+        <Button
+          size="small"
+          onClick={() => onComponentsChange(normalizeComponents(components))}
+          disabled={disabled || components.length === 0 || norm === 0 || normalized}
+        >
+          Normalise
+        </Button>
+        <Button
+          size="small"
+          onClick={() => onComponentsChange([])}
+          disabled={disabled || components.length === 0}
+        >
+          Clear
+        </Button>
+      </Box>
+
+      {components.length > 0 && (
+        <Typography
+          variant="caption"
+          color={normalized ? 'text.secondary' : 'error'}
+          data-testid="superposition-norm"
+        >
+          Σ|cᵢ|² = {norm.toFixed(3)}{normalized ? '' : ' (not normalised)'}
+        </Typography>
+      )}
+    </FormControl>
+  );
+};
+
+export default SuperpositionEditor;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Box, IconButton, Slider, Typography } from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import PauseIcon from '@mui/icons-material/Pause';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  selectCurrentParams,
+  selectIsLoading,
+  setAnimationPlaying,
+  setAnimationTime,
+  startOrbitalCalculation
+} from '../store/orbitalSlice';
+
+// One atomic unit of time (ħ/Eₕ) in femtoseconds
+const ATOMIC_TIME_IN_FS = 0.02418884;
+
+const TimelineControls: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const currentParams = useAppSelector(selectCurrentParams);
+  const isLoading = useAppSelector(selectIsLoading);
+  const { time, period, hasFrames, isPlaying } = useAppSelector(state => state.orbital.animation);
+
+  // Stationary states do not evolve, so there is nothing to show
+  if (period === null || !currentParams) {
+    return null;
+  }
+
+  const handleScrub = (_: Event, value: number | number[]) => {
+    if (isPlaying) {
+      dispatch(setAnimationPlaying(false));
+    }
+    dispatch(setAnimationTime(value as number));
+  };
+
+  const handleScrubCommitted = (_: React.SyntheticEvent | Event, value: number | number[]) => {
+    // Without precomputed frames, re-evaluate the density at the chosen time
+    if (!hasFrames) {
+      dispatch(startOrbitalCalculation({ ...currentParams, time: value as number }));
+    }
+  };
+
+  return (
+    <Box id="timeline-controls" sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+      <IconButton
+        aria-label={isPlaying ? 'pause' : 'play'}
+        onClick={() => dispatch(setAnimationPlaying(!isPlaying))}
+        disabled={!hasFrames || isLoading}
+        size="small"
+      >
+        {isPlaying ? <PauseIcon /> : <PlayArrowIcon />}
+      </IconButton>
+      <Slider
+        aria-label="evolution time"
+        value={time}
+        min={0}
+        max={period}
+        step={period / 1000}
+        onChange={handleScrub}
+        onChangeCommitted={handleScrubCommitted}
+        disabled={isLoading}
+        size="small"
+        sx={{ flex: 1 }}
+      />
+      <Typography variant="caption" sx={{ minWidth: 150 }} data-testid="timeline-time">
+        t = {time.toFixed(1)} ħ/Eₕ ({(time * ATOMIC_TIME_IN_FS).toFixed(2)} fs)
+      </Typography>
+    </Box>
+  );
+};
+
+export default TimelineControls;
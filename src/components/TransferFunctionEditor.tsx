@@ -0,0 +1,104 @@
+import React from 'react';
+import {
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  SelectChangeEvent,
+  Slider,
+  Switch,
+  Typography,
+} from '@mui/material';
+import { TransferFunction } from '@/types/orbital';
+import { transferFunctionRamps } from '../volume_rendering';
+
+interface TransferFunctionEditorProps {
+  transferFunction: TransferFunction;
+  onTransferFunctionChange: (transferFunction: TransferFunction) => void;
+  disabled: boolean;
+}
+
+const TransferFunctionEditor: React.FC<TransferFunctionEditorProps> = ({
+  transferFunction,
+  onTransferFunctionChange,
+  disabled,
+}) => {
+  const rampName = Object.keys(transferFunctionRamps).find(name => transferFunctionRamps[name] === transferFunction.stops) ?? '';
+
+  const update = (changes: Partial<TransferFunction>) => onTransferFunctionChange({ ...transferFunction, ...changes });
+
+  return (
+    <FormControl component="fieldset" margin="normal" fullWidth>
+      <FormLabel component="legend" sx={{ mb: 0.5, fontSize: '0.75rem' }}>Transfer function</FormLabel>
+
+      <FormControl fullWidth size="small" sx={{ mb: 1 }}>
+        <InputLabel id="color-ramp-select-label">Colour ramp</InputLabel>
+        <Select
+          labelId="color-ramp-select-label"
+          id="color-ramp-select"
+          value={rampName}
+          label="Colour ramp"
+          onChange={(e: SelectChangeEvent<string>) => update({ stops: transferFunctionRamps[e.target.value] })}
+          disabled={disabled}
+        >
+          {Object.keys(transferFunctionRamps).map(name => <MenuItem key={name} value={name}>{name}</MenuItem>)}
+        </Select>
+      </FormControl>
+
+      <Typography variant="caption" id="opacity-scale-label">Opacity ×{transferFunction.opacityScale.toFixed(2)}</Typography>
+      <Slider
+        aria-labelledby="opacity-scale-label"
+        value={transferFunction.opacityScale}
+        min={0.05}
+        max={2}
+        step={0.05}
+        onChange={(_, value) => update({ opacityScale: value as number })}
+        disabled={disabled}
+        size="small"
+      />
+
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={transferFunction.logScale}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ logScale: e.target.checked })}
+            disabled={disabled}
+          />
+        }
+        label={<Typography variant="body2">Log scale</Typography>}
+      />
+      {transferFunction.logScale && (
+        <>
+          <Typography variant="caption" id="log-decades-label">Decades shown: {transferFunction.logDecades}</Typography>
+          <Slider
+            aria-labelledby="log-decades-label"
+            value={transferFunction.logDecades}
+            min={1}
+            max={8}
+            step={1}
+            onChange={(_, value) => update({ logDecades: value as number })}
+            disabled={disabled}
+            size="small"
+          />
+        </>
+      )}
+
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={transferFunction.signAware}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ signAware: e.target.checked })}
+            disabled={disabled}
+          />
+        }
+        label={<Typography variant="body2">Colour by sign of ψ</Typography>}
+      />
+    </FormControl>
+  );
+};
+
+export default TransferFunctionEditor;
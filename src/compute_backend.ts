@@ -0,0 +1,123 @@
+import { ComputeBackendName, OrbitalParams } from './types/orbital';
+import { compileOrbital, getOrbitalCoefficients, sampleCompiledOrbitalGridSlab } from './quantum_functions';
+
+// How a worker samples the grid of a single orbital. 'js' runs compileOrbital's evaluator; 'wasm'
+// runs the AssemblyScript kernel in assembly/orbital_kernel.ts, compiled with SIMD into
+// src/wasm/orbital_kernel.wasm at build time, which evaluates the same recurrences two points at
+// a time. Their grids agree up to the last bit of e^x. Where the kernel cannot be loaded, e.g.
+// without WebAssembly SIMD, the JS backend stands in.
+
+export const DEFAULT_COMPUTE_BACKEND: ComputeBackendName = 'wasm';
+
+// The state and grid of a single orbital
+export type OrbitalGridParams = Pick<OrbitalParams, 'n' | 'l' | 'ml' | 'Z' | 'basis' | 'condonShortleyPhase' | 'resolution' | 'rMax'>;
+
+export interface ComputeBackend {
+    name: ComputeBackendName;
+    /**
+     * Samples the slabs xStart <= xIdx < xEnd of a single orbital's grid, at the points and in
+     * the layout of sampleOrbitalGridSlab.
+     * @param onSlab Called after each x index is sampled.
+     * @returns The largest density in the slabs.
+     */
+    sampleOrbitalSlab: (
+        params: OrbitalGridParams,
+        xStart: number,
+        xEnd: number,
+        grid: Float32Array,
+        psiGrid: Float32Array,
+        onSlab?: () => void
+    ) => number;
+}
+
+export const jsComputeBackend: ComputeBackend = {
+    name: 'js',
+    sampleOrbitalSlab: ({ n, l, ml, Z, basis, condonShortleyPhase, resolution, rMax }, xStart, xEnd, grid, psiGrid, onSlab) =>
+        sampleCompiledOrbitalGridSlab(
+            compileOrbital(n, l, ml, Z, basis, condonShortleyPhase), resolution, rMax, xStart, xEnd, grid, psiGrid, onSlab
+        ),
+};
+
+// Exports of assembly/orbital_kernel.ts
+interface OrbitalKernel {
+    memory: WebAssembly.Memory;
+    configure: (
+        l: number, m: number, decay: number, logConstant: number, alpha: number, firstStep: number,
+        realWeight: number, imaginaryWeight: number, complex: boolean, laguerreLength: number, legendreLength: number
+    ) => void;
+    setLaguerre: (k: number, a: number, b: number, scale: number) => void;
+    setLegendre: (i: number, value: number) => void;
+    sampleSlab: (x: number, start: number, step: number, resolution: number) => number;
+    densityPointer: () => number;
+    psiPointer: () => number;
+}
+
+/**
+ * Instantiates the kernel as a backend.
+ * @param source The compiled kernel, or the bytes of src/wasm/orbital_kernel.wasm.
+ * @throws Error when WebAssembly, or its SIMD instructions, are not available.
+ */
+export async function createWasmComputeBackend(source: WebAssembly.Module | BufferSource): Promise<ComputeBackend> {
+    if (typeof WebAssembly === 'undefined') {
+        throw new Error("WebAssembly is not available.");
+    }
+    const module = source instanceof WebAssembly.Module ? source : await WebAssembly.compile(source);
+    const instance = await WebAssembly.instantiate(module, {
+        env: {
+            abort: () => {
+                throw new Error("The orbital kernel aborted.");
+            },
+        },
+    });
+    const kernel = instance.exports as unknown as OrbitalKernel;
+
+    const sampleOrbitalSlab: ComputeBackend['sampleOrbitalSlab'] = (params, xStart, xEnd, grid, psiGrid, onSlab) => {
+        const { n, l, ml, Z, basis, condonShortleyPhase, resolution, rMax } = params;
+        const coefficients = getOrbitalCoefficients(n, l, ml, Z, basis, condonShortleyPhase);
+        const { laguerreA, laguerreB, laguerreScale, legendre } = coefficients;
+        kernel.configure(
+            coefficients.l, coefficients.m, coefficients.decay, coefficients.logConstant, coefficients.alpha,
+            coefficients.firstStep, coefficients.realWeight, coefficients.imaginaryWeight, coefficients.complex,
+            laguerreA.length, legendre.length
+        );
+        laguerreA.forEach((a, k) => kernel.setLaguerre(k, a, laguerreB[k], laguerreScale[k]));
+        legendre.forEach((value, i) => kernel.setLegendre(i, value));
+
+        const step = (rMax * 2) / (resolution - 1);
+        const slabSize = resolution * resolution;
+        let maxDensity = 0;
+        for (let xIdx = xStart; xIdx < xEnd; xIdx++) {
+            const slabMax = kernel.sampleSlab(-rMax + xIdx * step, -rMax, step, resolution);
+            if (slabMax > maxDensity) {
+                maxDensity = slabMax;
+            }
+            // Views are made after each call, since growing the memory detaches older ones
+            const offset = (xIdx - xStart) * slabSize;
+            grid.set(new Float32Array(kernel.memory.buffer, kernel.densityPointer(), slabSize), offset);
+            psiGrid.set(new Float32Array(kernel.memory.buffer, kernel.psiPointer(), slabSize), offset);
+            onSlab?.();
+        }
+        return maxDensity;
+    };
+
+    return { name: 'wasm', sampleOrbitalSlab };
+}
+
+/**
+ * The preferred backend when it can be loaded, the JS one otherwise.
+ * @param loadKernel Fetches or reads the compiled kernel; only called for 'wasm'.
+ */
+export async function loadComputeBackend(
+    preferred: ComputeBackendName,
+    loadKernel: () => Promise<WebAssembly.Module | BufferSource>
+): Promise<ComputeBackend> {
+    if (preferred === 'js') {
+        return jsComputeBackend;
+    }
+    try {
+        return await createWasmComputeBackend(await loadKernel());
+    } catch (error) {
+        console.warn('Sampling grids in JS; the WebAssembly kernel could not be loaded:', error);
+        return jsComputeBackend;
+    }
+}
@@ -0,0 +1,128 @@
+import { ImportedCube, OrbitalData } from './types/orbital';
+import { readCube, CubeFile } from './volume_export';
+import { DEFAULT_ENCLOSED_PROBABILITY, findIsoLevelForEnclosedProbability } from './enclosed_probability';
+
+// Grids imported from quantum-chemistry cube files. They become OrbitalData, like the analytic
+// grids, with a per-axis origin and spacing since molecular boxes are rarely centred cubes.
+
+// Axis components below this fraction of the axis length count as zero when checking alignment
+const AXIS_ALIGNMENT_TOLERANCE = 1e-6;
+
+/**
+ * First grid point of a grid, in Bohr.
+ */
+export function getGridOrigin(data: OrbitalData): [number, number, number] {
+    return data.origin ?? [data.minVal, data.minVal, data.minVal];
+}
+
+/**
+ * Voxel size along each axis of a grid, in Bohr.
+ */
+export function getGridSpacing(data: OrbitalData): [number, number, number] {
+    if (data.spacing) {
+        return data.spacing;
+    }
+    const step = (data.maxVal - data.minVal) / (data.dims[0] - 1);
+    return [step, step, step];
+}
+
+/**
+ * Converts a parsed cube file to OrbitalData. A grid whose values change sign is taken to be
+ * an orbital: psiGrid holds the values and grid their square. Otherwise the values are a
+ * density and fill both grids.
+ */
+export function cubeToOrbitalData(cube: CubeFile): { data: OrbitalData; signed: boolean } {
+    const spacing = cube.axes.map((axis, i) => {
+        const length = Math.hypot(axis[0], axis[1], axis[2]);
+        if (!(length > 0) || axis.some((c, j) => j !== i && Math.abs(c) > AXIS_ALIGNMENT_TOLERANCE * length) || axis[i] <= 0) {
+            throw new Error("Cube file axes must point along +x, +y and +z; skewed or rotated grids are not supported.");
+        }
+        return axis[i];
+    }) as [number, number, number];
+    if (cube.dims.some(size => size < 2)) {
+        throw new Error("Cube file grid needs at least two points along every axis.");
+    }
+
+    let hasNegative = false;
+    let hasPositive = false;
+    for (let i = 0; i < cube.values.length; i++) {
+        if (cube.values[i] < 0) hasNegative = true;
+        if (cube.values[i] > 0) hasPositive = true;
+    }
+    const signed = hasNegative && hasPositive;
+    if (hasNegative && !hasPositive) {
+        throw new Error("Cube file values are all negative; expected a density or an orbital.");
+    }
+
+    const grid = signed ? cube.values.map(value => value * value) : Float32Array.from(cube.values);
+    let maxDensity = 0;
+    grid.forEach(value => {
+        if (value > maxDensity) maxDensity = value;
+    });
+
+    const origin = cube.origin.slice(0, 3) as [number, number, number];
+    const far = origin.map((c, i) => c + spacing[i] * (cube.dims[i] - 1));
+    return {
+        data: {
+            grid,
+            psiGrid: Float32Array.from(cube.values),
+            dims: cube.dims,
+            maxDensity,
+            minVal: Math.min(...origin),
+            maxVal: Math.max(...far),
+            origin,
+            spacing,
+        },
+        signed,
+    };
+}
+
+/**
+ * Reads a cube file into an ImportedCube.
+ * @throws Error naming the file and what is wrong with it.
+ */
+export function parseCubeFile(text: string, name: string): ImportedCube {
+    try {
+        const cube = readCube(text);
+        const { data, signed } = cubeToOrbitalData(cube);
+        return { name, comments: cube.comments, data, atoms: cube.atoms, signed };
+    } catch (error) {
+        throw new Error(`Could not import ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Iso-value, in the units of the file's values, whose surface encloses `fraction` of Σ|ψ|²
+ * (or of the density). For an orbital the surfaces are drawn at ± this value.
+ */
+export function getImportedIsoLevel(cube: ImportedCube, fraction: number = DEFAULT_ENCLOSED_PROBABILITY): number {
+    const { isoLevel } = findIsoLevelForEnclosedProbability(cube.data.grid, fraction);
+    return cube.signed ? Math.sqrt(isoLevel) : isoLevel;
+}
+
+/**
+ * Trilinear interpolation of grid values at a world position; 0 outside the grid.
+ */
+export function sampleGrid(data: OrbitalData, values: ArrayLike<number>, x: number, y: number, z: number): number {
+    const origin = getGridOrigin(data);
+    const spacing = getGridSpacing(data);
+    const [nx, ny, nz] = data.dims;
+    const u = [(x - origin[0]) / spacing[0], (y - origin[1]) / spacing[1], (z - origin[2]) / spacing[2]];
+    if (u[0] < 0 || u[1] < 0 || u[2] < 0 || u[0] > nx - 1 || u[1] > ny - 1 || u[2] > nz - 1) {
+        return 0;
+    }
+    // Lower corner of the voxel, kept one below the last index so the upper corner exists
+    const i = Math.min(Math.floor(u[0]), nx - 2);
+    const j = Math.min(Math.floor(u[1]), ny - 2);
+    const k = Math.min(Math.floor(u[2]), nz - 2);
+    const [fx, fy, fz] = [u[0] - i, u[1] - j, u[2] - k];
+    const at = (a: number, b: number, c: number) => values[((i + a) * ny + (j + b)) * nz + (k + c)];
+
+    const c00 = at(0, 0, 0) * (1 - fz) + at(0, 0, 1) * fz;
+    const c01 = at(0, 1, 0) * (1 - fz) + at(0, 1, 1) * fz;
+    const c10 = at(1, 0, 0) * (1 - fz) + at(1, 0, 1) * fz;
+    const c11 = at(1, 1, 0) * (1 - fz) + at(1, 1, 1) * fz;
+    const c0 = c00 * (1 - fy) + c01 * fy;
+    const c1 = c10 * (1 - fy) + c11 * fy;
+    return c0 * (1 - fx) + c1 * fx;
+}
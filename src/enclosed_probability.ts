@@ -0,0 +1,100 @@
+import { SurfaceInfo } from './types/orbital';
+
+// Converts between iso-levels and enclosed probability on a sampled density grid.
+// Every grid cell has the same volume, so sums of grid densities are proportional to
+// probabilities, and fractions are taken relative to the total density inside the box.
+
+export const DEFAULT_ENCLOSED_PROBABILITY = 0.9;
+
+// Grid resolution used to invert the cumulative distribution; finer grids barely move the iso-level
+export const ENCLOSED_PROBABILITY_RESOLUTION = 64;
+
+function gridTotal(grid: ArrayLike<number>): number {
+    let total = 0;
+    for (let i = 0; i < grid.length; i++) {
+        total += grid[i];
+    }
+    if (!(total > 0)) {
+        throw new Error("Density grid is empty.");
+    }
+    return total;
+}
+
+/**
+ * Every stride-th point along each axis of an x-major resolution³ density grid, with the
+ * smallest stride leaving at most maxResolution points per axis. The points keep equal volumes,
+ * so fractions of the total are much the same as on the full grid.
+ * @returns The grid itself when it is no finer than maxResolution.
+ */
+export function downsampleDensityGrid(
+    grid: ArrayLike<number>,
+    resolution: number,
+    maxResolution: number = ENCLOSED_PROBABILITY_RESOLUTION
+): ArrayLike<number> {
+    if (grid.length !== resolution ** 3) {
+        throw new Error("Density grid does not have resolution³ points.");
+    }
+    if (resolution <= maxResolution) {
+        return grid;
+    }
+    const stride = Math.ceil(resolution / maxResolution);
+    const count = Math.ceil(resolution / stride);
+    const downsampled = new Float32Array(count ** 3);
+    let index = 0;
+    for (let i = 0; i < resolution; i += stride) {
+        for (let j = 0; j < resolution; j += stride) {
+            const row = (i * resolution + j) * resolution;
+            for (let k = 0; k < resolution; k += stride) {
+                downsampled[index++] = grid[row + k];
+            }
+        }
+    }
+    return downsampled;
+}
+
+/**
+ * Fraction of the grid's total probability inside the isosurface at `isoLevel`,
+ * i.e. in the region where the density is at least `isoLevel`.
+ */
+export function enclosedProbabilityAtIsoLevel(grid: ArrayLike<number>, isoLevel: number): number {
+    const total = gridTotal(grid);
+    let enclosed = 0;
+    for (let i = 0; i < grid.length; i++) {
+        if (grid[i] >= isoLevel) {
+            enclosed += grid[i];
+        }
+    }
+    return enclosed / total;
+}
+
+/**
+ * Finds the iso-level whose isosurface encloses `fraction` of the probability.
+ *
+ * Densities are sorted from highest to lowest and accumulated until the running sum
+ * reaches the requested fraction; the density at that point is the iso-level. Because
+ * the grid is discrete, the enclosed fraction actually achieved is returned alongside it
+ * and is always at least the requested fraction. The walk stops at the smallest positive
+ * density, since rounding can leave the sorted sum just short of the total and a level of 0
+ * would enclose the whole box.
+ *
+ * @param fraction - Requested enclosed probability in (0, 1].
+ */
+export function findIsoLevelForEnclosedProbability(grid: ArrayLike<number>, fraction: number): SurfaceInfo {
+    if (!(fraction > 0 && fraction <= 1)) {
+        throw new Error("Enclosed probability must be in (0, 1].");
+    }
+    const total = gridTotal(grid);
+    const sorted = Float64Array.from(grid).sort(); // Ascending; walked from the end
+
+    const target = fraction * total;
+    let enclosed = 0;
+    let i = sorted.length - 1;
+    for (; i > 0 && sorted[i - 1] > 0; i--) {
+        enclosed += sorted[i];
+        // Take every sample tied with this density, since the isosurface cannot split them
+        if (enclosed >= target && sorted[i - 1] < sorted[i]) {
+            return { isoLevel: sorted[i], enclosedFraction: Math.min(1, enclosed / total) };
+        }
+    }
+    return { isoLevel: sorted[i], enclosedFraction: 1 };
+}
@@ -0,0 +1,13 @@
+/**
+ * Saves data as a file through a temporary object URL, which works without a server round trip.
+ */
+export function saveFile(data: ArrayBuffer | string, mimeType: string, fileName: string) {
+    const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,281 @@
+import { MeshData, OrbitalData } from './types/orbital';
+import { getGridOrigin, getGridSpacing } from './cube_import';
+import { computeVertexNormals } from './mesh_data';
+
+// Isosurfaces of a sampled grid by marching tetrahedra. Every grid cube is cut into six
+// tetrahedra around its main diagonal (the Kuhn triangulation), which neighbouring cubes cut
+// their shared faces the same way, so the surface has no cracks; within a tetrahedron the
+// interpolated field is linear, so the surface is a manifold with no ambiguous cases.
+// Vertices sit on the edges of the tetrahedra and are shared by every triangle around their
+// edge, triangles wind counter-clockwise seen from outside, and a surface that stays inside
+// the grid is therefore closed.
+
+// Corner c of a cube is offset by (c & 1, c >> 1 & 1, c >> 2 & 1) cells along (x, y, z)
+const TETRAHEDRA = [
+    [0, 1, 3, 7],
+    [0, 1, 5, 7],
+    [0, 2, 3, 7],
+    [0, 2, 6, 7],
+    [0, 4, 5, 7],
+    [0, 4, 6, 7],
+];
+
+export interface IsosurfaceOptions {
+    sign?: 1 | -1; // Extract sign * value = level instead of value = level; defaults to 1
+    gradient?: (x: number, y: number, z: number) => number[]; // Of the field itself (sign not applied)
+    onSlab?: () => void; // Called after each slab of cells along x
+}
+
+export interface Isosurface {
+    positions: Float32Array; // x, y, z of each vertex
+    normals: Float32Array; // Unit normal of each vertex, pointing outwards
+    indices: Uint32Array; // Three vertex indices per triangle
+}
+
+// Points of a regular lattice, numbered (i * dims[1] + j) * dims[2] + k like OrbitalData's grids
+export interface IsosurfaceLattice {
+    dims: [number, number, number]; // Points along x, y, z
+    origin: number[]; // Position of point 0
+    spacing: number[]; // Between neighbouring points along each axis
+    valueAt: (index: number) => number; // The field at a point
+}
+
+/**
+ * Builds a surface one lattice cell at a time; extractIsosurface walks every cell of a grid,
+ * adaptive_isosurface.ts only the cells near the surface.
+ */
+export interface Polygonizer {
+    /**
+     * Adds the triangles in the cell whose lowest corner is point `base`.
+     * @returns A mask with bit c set when corner c is inside (see TETRAHEDRA for the numbering).
+     */
+    addCell: (base: number) => number;
+    finish: () => Isosurface;
+}
+
+/**
+ * Starts a surface where the lattice values cross `level`: the inside is where
+ * sign * value > level, and normals follow the field's gradient towards the outside, using
+ * options.gradient where given and central differences of the lattice otherwise.
+ * options.onSlab is left to the caller.
+ */
+export function createPolygonizer(lattice: IsosurfaceLattice, level: number, options: IsosurfaceOptions = {}): Polygonizer {
+    const { dims, origin, spacing, valueAt } = lattice;
+    const [, ny, nz] = dims;
+    const sign = options.sign ?? 1;
+    const strideX = ny * nz;
+    const strideY = nz;
+    const cornerOffsets = Array.from({ length: 8 }, (_, c) => (c & 1) * strideX + ((c >> 1) & 1) * strideY + ((c >> 2) & 1));
+    // Edges of the tetrahedra join a grid point to one at a positive offset; code them by offset
+    const edgeCodes = new Map(cornerOffsets.map((offset, c) => [offset, c]));
+
+    const field = (index: number) => sign * valueAt(index);
+    const pointPosition = (index: number) => [
+        origin[0] + Math.floor(index / strideX) * spacing[0],
+        origin[1] + (Math.floor(index / strideY) % ny) * spacing[1],
+        origin[2] + (index % nz) * spacing[2],
+    ];
+    // Central differences inside the lattice, one-sided on its faces
+    const latticeGradient = (index: number) => {
+        const ijk = [Math.floor(index / strideX), Math.floor(index / strideY) % ny, index % nz];
+        return [strideX, strideY, 1].map((stride, axis) => {
+            const before = ijk[axis] > 0 ? index - stride : index;
+            const after = ijk[axis] < dims[axis] - 1 ? index + stride : index;
+            const steps = (after - before) / stride;
+            return steps > 0 ? (field(after) - field(before)) / (steps * spacing[axis]) : 0;
+        });
+    };
+
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const indices: number[] = [];
+    const vertexByEdge = new Map<number, number>();
+    let hasMissingNormal = false;
+
+    // The vertex where the edge from an inside point to an outside point crosses the level
+    const getVertex = (inside: number, outside: number): number => {
+        const vIn = field(inside);
+        const vOut = field(outside);
+        const t = (vIn - level) / (vIn - vOut); // In (0, 1]; 1 when the outside point is on the level
+        const key = t === 1
+            ? outside * 8 // A crossing at a grid point is shared by every edge through it
+            : Math.min(inside, outside) * 8 + edgeCodes.get(Math.abs(outside - inside))!;
+        const existing = vertexByEdge.get(key);
+        if (existing !== undefined) return existing;
+
+        const a = pointPosition(inside);
+        const b = pointPosition(outside);
+        const position = a.map((c, axis) => c + t * (b[axis] - c));
+        let g: number[];
+        if (options.gradient) {
+            g = options.gradient(position[0], position[1], position[2]).map(component => sign * component);
+        } else {
+            const ga = latticeGradient(inside);
+            const gb = latticeGradient(outside);
+            g = ga.map((c, axis) => c + t * (gb[axis] - c));
+        }
+        const length = Math.hypot(g[0], g[1], g[2]);
+        if (length > 0) {
+            normals.push(-g[0] / length, -g[1] / length, -g[2] / length); // The field falls outwards
+        } else {
+            normals.push(0, 0, 0);
+            hasMissingNormal = true;
+        }
+        const index = positions.length / 3;
+        positions.push(...position);
+        vertexByEdge.set(key, index);
+        return index;
+    };
+
+    // Adds a triangle facing away from `inside`, unless two of its vertices were welded together
+    const addTriangle = (a: number, b: number, c: number, inside: number, outside: number) => {
+        if (a === b || b === c || c === a) return;
+        const p = [a, b, c].map(v => positions.slice(v * 3, v * 3 + 3));
+        const e1 = p[1].map((x, axis) => x - p[0][axis]);
+        const e2 = p[2].map((x, axis) => x - p[0][axis]);
+        const normal = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+        const pIn = pointPosition(inside);
+        const pOut = pointPosition(outside);
+        const facing = normal.reduce((dot, n, axis) => dot + n * (pOut[axis] - pIn[axis]), 0);
+        if (facing >= 0) {
+            indices.push(a, b, c);
+        } else {
+            indices.push(a, c, b);
+        }
+    };
+
+    const corners = new Array<number>(8);
+    const addCell = (base: number): number => {
+        let insideMask = 0;
+        for (let c = 0; c < 8; c++) {
+            corners[c] = base + cornerOffsets[c];
+            if (field(corners[c]) > level) insideMask |= 1 << c;
+        }
+        if (insideMask === 0 || insideMask === 255) return insideMask;
+
+        for (const tetrahedron of TETRAHEDRA) {
+            const points = tetrahedron.map(c => corners[c]);
+            const inside = points.filter((_, v) => insideMask & (1 << tetrahedron[v]));
+            const outside = points.filter((_, v) => !(insideMask & (1 << tetrahedron[v])));
+            if (inside.length === 1) {
+                const [a] = inside;
+                addTriangle(getVertex(a, outside[0]), getVertex(a, outside[1]), getVertex(a, outside[2]), a, outside[0]);
+            } else if (inside.length === 3) {
+                const [d] = outside;
+                addTriangle(getVertex(inside[0], d), getVertex(inside[1], d), getVertex(inside[2], d), inside[0], d);
+            } else if (inside.length === 2) {
+                // The crossings a-c, a-d, b-d, b-c go round a planar quad
+                const [a, b] = inside;
+                const [c, d] = outside;
+                const ac = getVertex(a, c);
+                const ad = getVertex(a, d);
+                const bd = getVertex(b, d);
+                const bc = getVertex(b, c);
+                addTriangle(ac, ad, bd, a, c);
+                addTriangle(ac, bd, bc, a, c);
+            }
+        }
+        return insideMask;
+    };
+
+    const finish = (): Isosurface => {
+        const surface = {
+            positions: Float32Array.from(positions),
+            normals: Float32Array.from(normals),
+            indices: Uint32Array.from(indices),
+        };
+        if (hasMissingNormal) {
+            // Where the gradient vanishes, fall back on the triangles around the vertex
+            const faceNormals = computeVertexNormals(surface.positions, surface.indices);
+            for (let v = 0; v < surface.normals.length; v += 3) {
+                if (surface.normals[v] === 0 && surface.normals[v + 1] === 0 && surface.normals[v + 2] === 0) {
+                    surface.normals.set(faceNormals.subarray(v, v + 3), v);
+                }
+            }
+        }
+        return surface;
+    };
+
+    return { addCell, finish };
+}
+
+/**
+ * Extracts the surface where the grid values cross `level`. The inside is where
+ * sign * value > level; normals follow the field's gradient towards the outside, using
+ * options.gradient where given and central differences of the grid otherwise.
+ * @param values Laid out like data.grid, e.g. data.grid or data.psiGrid.
+ */
+export function extractIsosurface(
+    data: OrbitalData,
+    values: ArrayLike<number>,
+    level: number,
+    options: IsosurfaceOptions = {}
+): Isosurface {
+    const [nx, ny, nz] = data.dims;
+    if (values.length !== nx * ny * nz) {
+        throw new Error("Grid values do not match the grid's dimensions.");
+    }
+    const polygonizer = createPolygonizer(
+        { dims: data.dims, origin: getGridOrigin(data), spacing: getGridSpacing(data), valueAt: index => values[index] },
+        level,
+        options
+    );
+    for (let i = 0; i < nx - 1; i++) {
+        for (let j = 0; j < ny - 1; j++) {
+            for (let k = 0; k < nz - 1; k++) {
+                polygonizer.addCell((i * ny + j) * nz + k);
+            }
+        }
+        options.onSlab?.();
+    }
+    return polygonizer.finish();
+}
+
+/**
+ * Extracts ψ = +c and ψ = -c as separate surfaces of a real ψ, each closed around its lobes,
+ * so that every vertex takes the sign of the surface it lies on rather than a sign sampled
+ * near a node.
+ * @param psiValues Real ψ, laid out like data.grid.
+ * @param gradient Of ψ, for the normals; central differences of the grid otherwise.
+ */
+export function extractSignedSurfaces(
+    data: OrbitalData,
+    psiValues: ArrayLike<number>,
+    c: number,
+    options: Omit<IsosurfaceOptions, 'sign'> = {}
+): MeshData {
+    if (!(c > 0)) {
+        throw new Error("The level of signed surfaces must be positive.");
+    }
+    const surfaces = ([1, -1] as const).map(sign => extractIsosurface(data, psiValues, c, { ...options, sign }));
+    return joinSurfaces(surfaces, [1, -1], [0, Math.PI]);
+}
+
+/**
+ * Joins surfaces into one mesh, giving every vertex of surfaces[i] the sign signs[i] and
+ * phase phases[i].
+ */
+export function joinSurfaces(surfaces: Isosurface[], signs: number[], phases: number[]): MeshData {
+    const vertexCount = surfaces.reduce((count, surface) => count + surface.positions.length / 3, 0);
+    const triangleCount = surfaces.reduce((count, surface) => count + surface.indices.length / 3, 0);
+    const mesh: MeshData = {
+        positions: new Float32Array(vertexCount * 3),
+        normals: new Float32Array(vertexCount * 3),
+        indices: new Uint32Array(triangleCount * 3),
+        psiSigns: new Int8Array(vertexCount),
+        psiPhases: new Float32Array(vertexCount),
+    };
+    let vertexOffset = 0;
+    let indexOffset = 0;
+    surfaces.forEach((surface, i) => {
+        const count = surface.positions.length / 3;
+        mesh.positions.set(surface.positions, vertexOffset * 3);
+        mesh.normals.set(surface.normals, vertexOffset * 3);
+        mesh.indices.set(surface.indices.map(index => index + vertexOffset), indexOffset);
+        mesh.psiSigns.fill(signs[i] >= 0 ? 1 : -1, vertexOffset, vertexOffset + count);
+        mesh.psiPhases.fill(phases[i], vertexOffset, vertexOffset + count);
+        vertexOffset += count;
+        indexOffset += surface.indices.length;
+    });
+    return mesh;
+}
@@ -0,0 +1,90 @@
+import { MeshData } from './types/orbital';
+
+// Isosurface meshes as flat typed arrays, the form the worker sends them in and three.js draws
+// them from. Vertex i is positions[3i..3i+2]; triangle t is indices[3t..3t+2].
+
+/**
+ * Packs vertices and triangles given as nested arrays into a mesh with per-vertex normals
+ * computed from its triangles.
+ * @param psiSigns Sign of ψ at each vertex, +1 or -1.
+ * @param psiPhases arg(ψ) at each vertex.
+ */
+export function createMeshData(
+    positions: number[][],
+    cells: number[][],
+    psiSigns: ArrayLike<number>,
+    psiPhases: ArrayLike<number>
+): MeshData {
+    if (psiSigns.length !== positions.length || psiPhases.length !== positions.length) {
+        throw new Error("Mesh needs one ψ sign and phase per vertex.");
+    }
+    const flatPositions = new Float32Array(positions.length * 3);
+    positions.forEach((position, i) => flatPositions.set(position, i * 3));
+    const indices = new Uint32Array(cells.length * 3);
+    cells.forEach((cell, t) => indices.set(cell, t * 3));
+    return {
+        positions: flatPositions,
+        normals: computeVertexNormals(flatPositions, indices),
+        indices,
+        psiSigns: Int8Array.from(psiSigns, sign => (sign >= 0 ? 1 : -1)),
+        psiPhases: Float32Array.from(psiPhases),
+    };
+}
+
+/**
+ * Per-vertex unit normals: the area-weighted mean of the normals of the triangles around each
+ * vertex, facing the way the triangles wind (as THREE.BufferGeometry.computeVertexNormals does).
+ * A vertex on no triangle gets a zero normal.
+ */
+export function computeVertexNormals(positions: Float32Array, indices: Uint32Array): Float32Array {
+    const normals = new Float32Array(positions.length);
+    for (let t = 0; t < indices.length; t += 3) {
+        const [a, b, c] = [indices[t] * 3, indices[t + 1] * 3, indices[t + 2] * 3];
+        const e1 = [0, 1, 2].map(axis => positions[b + axis] - positions[a + axis]);
+        const e2 = [0, 1, 2].map(axis => positions[c + axis] - positions[a + axis]);
+        // Twice the triangle's area along its normal, so larger triangles weigh more
+        const cross = [
+            e1[1] * e2[2] - e1[2] * e2[1],
+            e1[2] * e2[0] - e1[0] * e2[2],
+            e1[0] * e2[1] - e1[1] * e2[0],
+        ];
+        [a, b, c].forEach(vertex => cross.forEach((component, axis) => {
+            normals[vertex + axis] += component;
+        }));
+    }
+    for (let i = 0; i < normals.length; i += 3) {
+        const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+        if (length > 0) {
+            normals[i] /= length;
+            normals[i + 1] /= length;
+            normals[i + 2] /= length;
+        }
+    }
+    return normals;
+}
+
+export function getVertexCount(mesh: MeshData): number {
+    return mesh.positions.length / 3;
+}
+
+export function getTriangleCount(mesh: MeshData): number {
+    return mesh.indices.length / 3;
+}
+
+/**
+ * Position of vertex i as [x, y, z].
+ */
+export function getVertex(mesh: MeshData, i: number): number[] {
+    return [mesh.positions[i * 3], mesh.positions[i * 3 + 1], mesh.positions[i * 3 + 2]];
+}
+
+/**
+ * The buffers behind a mesh's arrays, to transfer them to another thread instead of copying.
+ * The mesh can no longer be read on the sending side afterwards.
+ */
+export function getMeshTransferables(mesh: MeshData): ArrayBuffer[] {
+    const buffers = [mesh.positions, mesh.normals, mesh.indices, mesh.psiSigns, mesh.psiPhases]
+        .map(array => array.buffer)
+        .filter((buffer): buffer is ArrayBuffer => buffer instanceof ArrayBuffer);
+    return [...new Set(buffers)]; // Transferring one buffer twice is an error
+}
@@ -0,0 +1,604 @@
+import { MeshData, OrbitalParams, RGBColor } from './types/orbital';
+import { getOrbitalComponents } from './orbital_superposition';
+import { getTriangleCount, getVertex, getVertexCount } from './mesh_data';
+
+// Writers (and matching readers) for exporting the isosurface mesh to 3D printing and
+// modelling tools: binary glTF, binary/ASCII STL, OBJ and PLY. Everything here is pure;
+// the caller decides how to save the returned bytes or text.
+
+export type MeshExportFormat = 'glb' | 'stl' | 'stl-ascii' | 'obj' | 'ply';
+
+/**
+ * One closed surface to export, with vertices shared between its triangles.
+ */
+export interface MeshBody {
+    name: string;
+    positions: number[][];
+    cells: number[][];
+    psiSigns: number[]; // Sign of ψ per vertex, written as a vertex colour where the format allows it
+}
+
+/**
+ * A mesh read back from an exported file. Formats without colours give colors = null.
+ */
+export interface ImportedMesh {
+    name: string;
+    positions: number[][];
+    cells: number[][];
+    colors: RGBColor[] | null;
+}
+
+export interface MeshExportOptions {
+    separateLobes?: boolean; // Export the ψ > 0 and ψ < 0 lobes as two bodies; defaults to false
+}
+
+export interface MeshExportFile {
+    data: ArrayBuffer | string;
+    mimeType: string;
+    extension: string;
+}
+
+export const meshExportFormatLabels: Record<MeshExportFormat, string> = {
+    glb: 'glTF binary (.glb)',
+    stl: 'STL binary (.stl)',
+    'stl-ascii': 'STL ASCII (.stl)',
+    obj: 'Wavefront OBJ (.obj)',
+    ply: 'PLY (.ply)',
+};
+
+// Same sign colours as the isosurface in the viewer
+export const positiveLobeColor: RGBColor = [1, 0, 0];
+export const negativeLobeColor: RGBColor = [0, 0, 1];
+
+// Meshes may repeat a vertex once per triangle around it; positions closer than this are merged
+const WELD_TOLERANCE = 1e-6;
+
+const STL_HEADER_BYTES = 80;
+const STL_TRIANGLE_BYTES = 50;
+
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_CHUNK_JSON = 0x4e4f534a; // "JSON"
+const GLB_CHUNK_BIN = 0x004e4942; // "BIN\0"
+const GL_FLOAT = 5126;
+const GL_UNSIGNED_INT = 5125;
+const GL_ARRAY_BUFFER = 34962;
+const GL_ELEMENT_ARRAY_BUFFER = 34963;
+
+const signColor = (sign: number): RGBColor => (sign >= 0 ? positiveLobeColor : negativeLobeColor);
+const formatNumber = (value: number) => String(Number(value.toPrecision(7)));
+const colorToByte = (component: number) => Math.round(Math.max(0, Math.min(1, component)) * 255);
+
+function triangleNormal(a: number[], b: number[], c: number[]): number[] {
+    const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const normal = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+    const length = Math.hypot(normal[0], normal[1], normal[2]);
+    return length > 0 ? normal.map(component => component / length) : [0, 0, 0];
+}
+
+// UTF-8 without TextEncoder, which jsdom does not provide
+function encodeUtf8(text: string): Uint8Array {
+    const escaped = encodeURIComponent(text);
+    const bytes: number[] = [];
+    for (let i = 0; i < escaped.length; i++) {
+        if (escaped[i] === '%') {
+            bytes.push(parseInt(escaped.slice(i + 1, i + 3), 16));
+            i += 2;
+        } else {
+            bytes.push(escaped.charCodeAt(i));
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+    let escaped = '';
+    bytes.forEach(byte => {
+        escaped += `%${byte.toString(16).padStart(2, '0')}`;
+    });
+    return decodeURIComponent(escaped);
+}
+
+/**
+ * Merges vertices closer than `tolerance` and drops the triangles that collapse as a result.
+ * @returns The welded mesh and, for each input vertex, the index of the vertex it became.
+ */
+export function weldVertices(
+    positions: number[][],
+    cells: number[][],
+    tolerance: number = WELD_TOLERANCE
+): { positions: number[][]; cells: number[][]; indexMap: number[] } {
+    const keyToIndex = new Map<string, number>();
+    const welded: number[][] = [];
+    const indexMap = positions.map(position => {
+        const key = position.map(component => Math.round(component / tolerance)).join(',');
+        let index = keyToIndex.get(key);
+        if (index === undefined) {
+            index = welded.length;
+            keyToIndex.set(key, index);
+            welded.push(position);
+        }
+        return index;
+    });
+    const weldedCells = cells
+        .map(cell => cell.map(index => indexMap[index]))
+        .filter(([a, b, c]) => a !== b && b !== c && c !== a);
+    return { positions: welded, cells: weldedCells, indexMap };
+}
+
+/**
+ * Counts the edges not shared by exactly two triangles. A closed (watertight) surface has none.
+ */
+export function countOpenEdges(cells: number[][]): number {
+    const edgeCounts = new Map<string, number>();
+    cells.forEach(cell => {
+        for (let k = 0; k < 3; k++) {
+            const a = cell[k];
+            const b = cell[(k + 1) % 3];
+            const key = a < b ? `${a},${b}` : `${b},${a}`;
+            edgeCounts.set(key, (edgeCounts.get(key) ?? 0) + 1);
+        }
+    });
+    let open = 0;
+    edgeCounts.forEach(count => {
+        if (count !== 2) open++;
+    });
+    return open;
+}
+
+/**
+ * Signed volume enclosed by the triangles (divergence theorem); positive when they wind outwards.
+ */
+export function signedVolume(positions: number[][], cells: number[][]): number {
+    return cells.reduce((volume, [a, b, c]) => {
+        const [p, q, r] = [positions[a], positions[b], positions[c]];
+        return volume + (
+            p[0] * (q[1] * r[2] - q[2] * r[1]) -
+            p[1] * (q[0] * r[2] - q[2] * r[0]) +
+            p[2] * (q[0] * r[1] - q[1] * r[0])
+        ) / 6;
+    }, 0);
+}
+
+// Welds a subset of the triangles into one body whose triangles wind outwards
+function buildBody(name: string, mesh: MeshData, cells: number[][]): MeshBody {
+    const used = new Map<number, number>();
+    const positions: number[][] = [];
+    const psiSigns: number[] = [];
+    const localCells = cells.map(cell => cell.map(index => {
+        let local = used.get(index);
+        if (local === undefined) {
+            local = positions.length;
+            used.set(index, local);
+            positions.push(getVertex(mesh, index));
+            psiSigns.push(mesh.psiSigns[index]);
+        }
+        return local;
+    }));
+
+    const welded = weldVertices(positions, localCells);
+    const weldedSigns: number[] = new Array(welded.positions.length);
+    welded.indexMap.forEach((target, source) => {
+        if (weldedSigns[target] === undefined) {
+            weldedSigns[target] = psiSigns[source];
+        }
+    });
+    // Meshes from elsewhere may wind their triangles inwards
+    const weldedCells = signedVolume(welded.positions, welded.cells) < 0
+        ? welded.cells.map(([a, b, c]) => [a, c, b])
+        : welded.cells;
+    return { name, positions: welded.positions, cells: weldedCells, psiSigns: weldedSigns };
+}
+
+/**
+ * Turns the worker's mesh into bodies ready to export: shared vertices, outward winding and,
+ * with separateLobes, one body per sign of ψ. Each triangle goes to the sign of the majority of
+ * its vertices. The lobes of a real orbital never cross a nodal surface, so each body is
+ * watertight as long as the box does not clip the isosurface.
+ */
+export function getExportBodies(mesh: MeshData, separateLobes: boolean = false): MeshBody[] {
+    const triangles = Array.from({ length: getTriangleCount(mesh) }, (_, t) => Array.from(mesh.indices.subarray(t * 3, t * 3 + 3)));
+    if (!separateLobes) {
+        return [buildBody('orbital', mesh, triangles)];
+    }
+    const positive: number[][] = [];
+    const negative: number[][] = [];
+    triangles.forEach(cell => {
+        const signSum = cell.reduce((sum, index) => sum + (mesh.psiSigns[index] >= 0 ? 1 : -1), 0);
+        (signSum > 0 ? positive : negative).push(cell);
+    });
+    return [
+        { name: 'positive_lobes', cells: positive },
+        { name: 'negative_lobes', cells: negative },
+    ]
+        .filter(({ cells }) => cells.length > 0)
+        .map(({ name, cells }) => buildBody(name, mesh, cells));
+}
+
+/**
+ * Writes binary STL. STL has no bodies or colours, so every body's triangles go into one solid.
+ */
+export function writeSTLBinary(bodies: MeshBody[]): ArrayBuffer {
+    const triangleCount = bodies.reduce((count, body) => count + body.cells.length, 0);
+    const buffer = new ArrayBuffer(STL_HEADER_BYTES + 4 + triangleCount * STL_TRIANGLE_BYTES);
+    const view = new DataView(buffer);
+    const header = encodeUtf8('electron-orbital-viewer binary STL');
+    new Uint8Array(buffer, 0, header.length).set(header);
+    view.setUint32(STL_HEADER_BYTES, triangleCount, true);
+
+    let offset = STL_HEADER_BYTES + 4;
+    bodies.forEach(({ positions, cells }) => {
+        cells.forEach(cell => {
+            const vertices = cell.map(index => positions[index]);
+            [triangleNormal(vertices[0], vertices[1], vertices[2]), ...vertices].forEach(vector => {
+                vector.forEach(component => {
+                    view.setFloat32(offset, component, true);
+                    offset += 4;
+                });
+            });
+            view.setUint16(offset, 0, true); // Attribute byte count
+            offset += 2;
+        });
+    });
+    return buffer;
+}
+
+/**
+ * Writes ASCII STL with one solid per body.
+ */
+export function writeSTLAscii(bodies: MeshBody[]): string {
+    const lines: string[] = [];
+    bodies.forEach(({ name, positions, cells }) => {
+        lines.push(`solid ${name}`);
+        cells.forEach(cell => {
+            const vertices = cell.map(index => positions[index]);
+            lines.push(`  facet normal ${triangleNormal(vertices[0], vertices[1], vertices[2]).map(formatNumber).join(' ')}`);
+            lines.push('    outer loop');
+            vertices.forEach(vertex => lines.push(`      vertex ${vertex.map(formatNumber).join(' ')}`));
+            lines.push('    endloop');
+            lines.push('  endfacet');
+        });
+        lines.push(`endsolid ${name}`);
+    });
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes OBJ with one object per body. Vertex colours use the widely supported
+ * "v x y z r g b" extension (read by Blender and MeshLab).
+ */
+export function writeOBJ(bodies: MeshBody[]): string {
+    const lines: string[] = ['# electron-orbital-viewer'];
+    let vertexOffset = 1; // OBJ indices are 1-based and global across objects
+    bodies.forEach(({ name, positions, cells, psiSigns }) => {
+        lines.push(`o ${name}`);
+        positions.forEach((position, index) => {
+            lines.push(`v ${[...position, ...signColor(psiSigns[index])].map(formatNumber).join(' ')}`);
+        });
+        cells.forEach(cell => lines.push(`f ${cell.map(index => index + vertexOffset).join(' ')}`));
+        vertexOffset += positions.length;
+    });
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes ASCII PLY with per-vertex colours. PLY holds a single mesh, so bodies are concatenated.
+ */
+export function writePLY(bodies: MeshBody[]): string {
+    const vertexCount = bodies.reduce((count, body) => count + body.positions.length, 0);
+    const faceCount = bodies.reduce((count, body) => count + body.cells.length, 0);
+    const lines: string[] = [
+        'ply',
+        'format ascii 1.0',
+        'comment electron-orbital-viewer',
+        `element vertex ${vertexCount}`,
+        'property float x',
+        'property float y',
+        'property float z',
+        'property uchar red',
+        'property uchar green',
+        'property uchar blue',
+        `element face ${faceCount}`,
+        'property list uchar int vertex_indices',
+        'end_header',
+    ];
+    bodies.forEach(({ positions, psiSigns }) => {
+        positions.forEach((position, index) => {
+            lines.push(`${position.map(formatNumber).join(' ')} ${signColor(psiSigns[index]).map(colorToByte).join(' ')}`);
+        });
+    });
+    let vertexOffset = 0;
+    bodies.forEach(({ positions, cells }) => {
+        cells.forEach(cell => lines.push(`3 ${cell.map(index => index + vertexOffset).join(' ')}`));
+        vertexOffset += positions.length;
+    });
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes binary glTF 2.0 (.glb) with one node per body and the ψ sign as COLOR_0.
+ */
+export function writeGLB(bodies: MeshBody[]): ArrayBuffer {
+    const bufferViews: object[] = [];
+    const accessors: object[] = [];
+    const binaryParts: ArrayBuffer[] = [];
+    let byteOffset = 0;
+
+    // Adds one tightly packed buffer view with a single accessor, returning the accessor index
+    const addAccessor = (data: Float32Array | Uint32Array, accessor: Record<string, unknown>, target: number) => {
+        bufferViews.push({ buffer: 0, byteOffset, byteLength: data.byteLength, target });
+        accessors.push({ bufferView: bufferViews.length - 1, ...accessor });
+        binaryParts.push(data.buffer as ArrayBuffer);
+        byteOffset += data.byteLength; // Float32 and Uint32 data keep every view 4-byte aligned
+        return accessors.length - 1;
+    };
+
+    const meshes = bodies.map(({ name, positions, cells, psiSigns }) => {
+        // glTF requires the bounds of POSITION; a loop avoids spreading large arrays into Math.min
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        positions.forEach(position => position.forEach((component, axis) => {
+            min[axis] = Math.min(min[axis], component);
+            max[axis] = Math.max(max[axis], component);
+        }));
+        const position = addAccessor(
+            new Float32Array(positions.flat()),
+            { componentType: GL_FLOAT, count: positions.length, type: 'VEC3', min, max },
+            GL_ARRAY_BUFFER
+        );
+        const color = addAccessor(
+            new Float32Array(psiSigns.flatMap(signColor)),
+            { componentType: GL_FLOAT, count: psiSigns.length, type: 'VEC3' },
+            GL_ARRAY_BUFFER
+        );
+        const indices = addAccessor(
+            new Uint32Array(cells.flat()),
+            { componentType: GL_UNSIGNED_INT, count: cells.length * 3, type: 'SCALAR' },
+            GL_ELEMENT_ARRAY_BUFFER
+        );
+        return { name, primitives: [{ attributes: { POSITION: position, COLOR_0: color }, indices, material: 0, mode: 4 }] };
+    });
+
+    const json = {
+        asset: { version: '2.0', generator: 'electron-orbital-viewer' },
+        scene: 0,
+        scenes: [{ nodes: bodies.map((_, index) => index) }],
+        nodes: bodies.map(({ name }, index) => ({ name, mesh: index })),
+        meshes,
+        materials: [{
+            name: 'orbital',
+            pbrMetallicRoughness: { baseColorFactor: [1, 1, 1, 1], metallicFactor: 0, roughnessFactor: 0.5 },
+            doubleSided: true,
+        }],
+        buffers: [{ byteLength: byteOffset }],
+        bufferViews,
+        accessors,
+    };
+
+    // Both chunks are padded to 4 bytes, JSON with spaces and binary data with zeros
+    const jsonBytes = encodeUtf8(JSON.stringify(json));
+    const jsonLength = Math.ceil(jsonBytes.length / 4) * 4;
+    const binLength = Math.ceil(byteOffset / 4) * 4;
+    const totalLength = 12 + 8 + jsonLength + 8 + binLength;
+
+    const buffer = new ArrayBuffer(totalLength);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    view.setUint32(0, GLB_MAGIC, true);
+    view.setUint32(4, 2, true);
+    view.setUint32(8, totalLength, true);
+
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, GLB_CHUNK_JSON, true);
+    bytes.fill(0x20, 20, 20 + jsonLength);
+    bytes.set(jsonBytes, 20);
+
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, GLB_CHUNK_BIN, true);
+    let partOffset = binStart + 8;
+    binaryParts.forEach(part => {
+        bytes.set(new Uint8Array(part), partOffset);
+        partOffset += part.byteLength;
+    });
+    return buffer;
+}
+
+/**
+ * Base file name (without extension) for an exported orbital, e.g. "orbital-n3-l2-m0".
+ */
+export function getExportFileName(params: OrbitalParams): string {
+    const components = getOrbitalComponents(params);
+    const stem = components.length === 1
+        ? `orbital-n${components[0].n}-l${components[0].l}-m${components[0].ml}`
+        : 'orbital-superposition';
+    return params.Z === 1 ? stem : `${stem}-Z${params.Z}`;
+}
+
+/**
+ * Exports the worker's mesh in the given format.
+ */
+export function exportMesh(mesh: MeshData, format: MeshExportFormat, options: MeshExportOptions = {}): MeshExportFile {
+    if (!getVertexCount(mesh) || !getTriangleCount(mesh)) {
+        throw new Error("Cannot export an empty mesh.");
+    }
+    const bodies = getExportBodies(mesh, options.separateLobes ?? false);
+    switch (format) {
+        case 'glb':
+            return { data: writeGLB(bodies), mimeType: 'model/gltf-binary', extension: 'glb' };
+        case 'stl':
+            return { data: writeSTLBinary(bodies), mimeType: 'model/stl', extension: 'stl' };
+        case 'stl-ascii':
+            return { data: writeSTLAscii(bodies), mimeType: 'model/stl', extension: 'stl' };
+        case 'obj':
+            return { data: writeOBJ(bodies), mimeType: 'model/obj', extension: 'obj' };
+        case 'ply':
+            return { data: writePLY(bodies), mimeType: 'application/x-ply', extension: 'ply' };
+        default:
+            throw new Error(`Unknown mesh export format: ${format}`);
+    }
+}
+
+/**
+ * Reads binary STL. Triangles come back unshared (three vertices each), as STL stores them.
+ */
+export function readSTLBinary(buffer: ArrayBuffer): ImportedMesh {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < STL_HEADER_BYTES + 4) {
+        throw new Error("Binary STL is shorter than its header.");
+    }
+    const triangleCount = view.getUint32(STL_HEADER_BYTES, true);
+    if (buffer.byteLength < STL_HEADER_BYTES + 4 + triangleCount * STL_TRIANGLE_BYTES) {
+        throw new Error("Binary STL is truncated.");
+    }
+    const positions: number[][] = [];
+    const cells: number[][] = [];
+    for (let t = 0; t < triangleCount; t++) {
+        const base = STL_HEADER_BYTES + 4 + t * STL_TRIANGLE_BYTES + 12; // Skip the facet normal
+        for (let v = 0; v < 3; v++) {
+            positions.push([0, 1, 2].map(axis => view.getFloat32(base + v * 12 + axis * 4, true)));
+        }
+        cells.push([3 * t, 3 * t + 1, 3 * t + 2]);
+    }
+    return { name: 'stl', positions, cells, colors: null };
+}
+
+/**
+ * Reads ASCII STL, one mesh per solid, with unshared triangles.
+ */
+export function readSTLAscii(text: string): ImportedMesh[] {
+    const meshes: ImportedMesh[] = [];
+    let current: ImportedMesh | null = null;
+    text.split('\n').forEach(rawLine => {
+        const [keyword, ...rest] = rawLine.trim().split(/\s+/);
+        if (keyword === 'solid') {
+            current = { name: rest.join(' '), positions: [], cells: [], colors: null };
+            meshes.push(current);
+        } else if (keyword === 'vertex') {
+            if (!current) {
+                throw new Error("STL vertex outside a solid.");
+            }
+            current.positions.push(rest.map(Number));
+            const count = current.positions.length;
+            if (count % 3 === 0) {
+                current.cells.push([count - 3, count - 2, count - 1]);
+            }
+        }
+    });
+    return meshes;
+}
+
+/**
+ * Reads OBJ objects with triangular faces and optional "v x y z r g b" colours.
+ */
+export function readOBJ(text: string): ImportedMesh[] {
+    const meshes: ImportedMesh[] = [];
+    const allPositions: number[][] = [];
+    const allColors: RGBColor[] = [];
+    let current: (ImportedMesh & { globalToLocal: Map<number, number> }) | null = null;
+
+    text.split('\n').forEach(rawLine => {
+        const [keyword, ...rest] = rawLine.trim().split(/\s+/);
+        if (keyword === 'o') {
+            current = { name: rest.join(' '), positions: [], cells: [], colors: [], globalToLocal: new Map() };
+            meshes.push(current);
+        } else if (keyword === 'v') {
+            const values = rest.map(Number);
+            allPositions.push(values.slice(0, 3));
+            allColors.push(values.length >= 6 ? [values[3], values[4], values[5]] : [1, 1, 1]);
+        } else if (keyword === 'f') {
+            if (!current) {
+                current = { name: 'obj', positions: [], cells: [], colors: [], globalToLocal: new Map() };
+                meshes.push(current);
+            }
+            const mesh = current;
+            mesh.cells.push(rest.map(token => {
+                const global = parseInt(token.split('/')[0], 10) - 1;
+                let local = mesh.globalToLocal.get(global);
+                if (local === undefined) {
+                    local = mesh.positions.length;
+                    mesh.globalToLocal.set(global, local);
+                    mesh.positions.push(allPositions[global]);
+                    mesh.colors!.push(allColors[global]);
+                }
+                return local;
+            }));
+        }
+    });
+    return meshes.map(({ name, positions, cells, colors }) => ({ name, positions, cells, colors }));
+}
+
+/**
+ * Reads the ASCII PLY written by writePLY (vertex x y z red green blue, triangular faces).
+ */
+export function readPLY(text: string): ImportedMesh {
+    const lines = text.split('\n').map(line => line.trim());
+    const headerEnd = lines.indexOf('end_header');
+    if (lines[0] !== 'ply' || headerEnd < 0) {
+        throw new Error("Not a PLY file.");
+    }
+    const countOf = (element: string) => {
+        const line = lines.find(candidate => candidate.startsWith(`element ${element} `));
+        return line ? parseInt(line.split(' ')[2], 10) : 0;
+    };
+    const vertexCount = countOf('vertex');
+    const faceCount = countOf('face');
+
+    const positions: number[][] = [];
+    const colors: RGBColor[] = [];
+    for (let i = 0; i < vertexCount; i++) {
+        const values = lines[headerEnd + 1 + i].split(/\s+/).map(Number);
+        positions.push(values.slice(0, 3));
+        colors.push([values[3] / 255, values[4] / 255, values[5] / 255]);
+    }
+    const cells: number[][] = [];
+    for (let i = 0; i < faceCount; i++) {
+        const [count, ...indices] = lines[headerEnd + 1 + vertexCount + i].split(/\s+/).map(Number);
+        cells.push(indices.slice(0, count));
+    }
+    return { name: 'ply', positions, cells, colors };
+}
+
+/**
+ * Reads the binary glTF written by writeGLB, one mesh per node.
+ */
+export function readGLB(buffer: ArrayBuffer): ImportedMesh[] {
+    const view = new DataView(buffer);
+    if (view.getUint32(0, true) !== GLB_MAGIC || view.getUint32(4, true) !== 2) {
+        throw new Error("Not a glTF 2.0 binary file.");
+    }
+    const jsonLength = view.getUint32(12, true);
+    if (view.getUint32(16, true) !== GLB_CHUNK_JSON) {
+        throw new Error("glTF binary file does not start with a JSON chunk.");
+    }
+    const json = JSON.parse(decodeUtf8(new Uint8Array(buffer, 20, jsonLength)));
+    const binStart = 20 + jsonLength + 8;
+
+    const readAccessor = (index: number): number[] => {
+        const accessor = json.accessors[index];
+        const bufferView = json.bufferViews[accessor.bufferView];
+        const components = accessor.type === 'VEC3' ? 3 : 1;
+        const start = binStart + (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+        const values: number[] = [];
+        for (let i = 0; i < accessor.count * components; i++) {
+            values.push(accessor.componentType === GL_FLOAT
+                ? view.getFloat32(start + i * 4, true)
+                : view.getUint32(start + i * 4, true));
+        }
+        return values;
+    };
+    const group = (values: number[], size: number) =>
+        Array.from({ length: values.length / size }, (_, i) => values.slice(i * size, i * size + size));
+
+    return json.nodes.map((node: { name: string; mesh: number }) => {
+        const primitive = json.meshes[node.mesh].primitives[0];
+        return {
+            name: node.name,
+            positions: group(readAccessor(primitive.attributes.POSITION), 3),
+            cells: group(readAccessor(primitive.indices), 3),
+            colors: primitive.attributes.COLOR_0 === undefined
+                ? null
+                : group(readAccessor(primitive.attributes.COLOR_0), 3) as RGBColor[],
+        };
+    });
+}
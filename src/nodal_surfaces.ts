@@ -0,0 +1,94 @@
+import { OrbitalBasis, OrbitalParams } from './types/orbital';
+import { associatedLegendrePolynomial } from './quantum_functions';
+import { getOrbitalComponents } from './orbital_superposition';
+import { findRadialNodes } from './radial_analysis';
+
+// Nodal surfaces of a single hydrogenic state ψ = R_nl(r) Y(θ, φ):
+// - radial nodes are spheres at the roots of the Laguerre factor of R_nl,
+// - angular nodes of the real harmonic are |ml| planes through the z-axis (zeros of cos(mφ) or sin(mφ))
+//   and l - |ml| cones of constant θ (roots of P_l^|ml|(cos θ)), l angular nodes in total.
+
+export interface NodalPlane {
+    phi: number; // Azimuth in [0, π) of a half-plane; the plane also contains phi + π and the z-axis
+}
+
+export interface NodalCone {
+    theta: number; // Polar angle in (0, π); θ = π/2 is the xy-plane
+}
+
+export interface NodalSurfaces {
+    radialSpheres: number[]; // Radii in Bohr radii, ascending
+    planes: NodalPlane[];
+    cones: NodalCone[];
+}
+
+// Scan points per unit l² when bracketing Legendre roots, which crowd towards x = ±1 as l grows
+const LEGENDRE_SCAN_DENSITY = 20;
+const BISECTION_ITERATIONS = 60;
+
+/**
+ * Finds the roots of P_l^m(x) in the open interval (-1, 1), ascending.
+ * There are l - m of them; the zeros at x = ±1 for m > 0 are excluded.
+ */
+export function findLegendreRoots(l: number, m: number): number[] {
+    if (!Number.isInteger(l) || l < 0 || !Number.isInteger(m) || m < 0 || m > l) {
+        throw new Error("Legendre roots need integers 0 <= m <= l.");
+    }
+    const samples = 2 * LEGENDRE_SCAN_DENSITY * (l + 1) * (l + 1); // Even, so x = 0 is never a scan point
+    const xAt = (i: number) => -1 + ((i + 0.5) * 2) / samples;
+
+    const roots: number[] = [];
+    let previousValue = associatedLegendrePolynomial(l, m, xAt(0));
+    for (let i = 1; i < samples && roots.length < l - m; i++) {
+        const value = associatedLegendrePolynomial(l, m, xAt(i));
+        if (Math.sign(value) !== Math.sign(previousValue)) {
+            let lo = xAt(i - 1);
+            let hi = xAt(i);
+            const loSign = Math.sign(previousValue);
+            for (let j = 0; j < BISECTION_ITERATIONS; j++) {
+                const mid = (lo + hi) / 2;
+                if (Math.sign(associatedLegendrePolynomial(l, m, mid)) === loSign) lo = mid; else hi = mid;
+            }
+            roots.push((lo + hi) / 2);
+        }
+        previousValue = value;
+    }
+    return roots;
+}
+
+/**
+ * Finds the angular nodes of the (l, ml) harmonic.
+ * In the complex basis |Y_l^m| does not depend on φ, so only the cones remain.
+ */
+export function findAngularNodes(l: number, ml: number, basis: OrbitalBasis = 'real'): Pick<NodalSurfaces, 'planes' | 'cones'> {
+    const m = Math.abs(ml);
+    const cones = findLegendreRoots(l, m)
+        .map(x => ({ theta: Math.acos(x) }))
+        .sort((a, b) => a.theta - b.theta);
+
+    if (basis === 'complex' || m === 0) {
+        return { planes: [], cones };
+    }
+
+    // cos(mφ) = 0 at φ = (k + 1/2)π/m (ml > 0); sin(mφ) = 0 at φ = kπ/m (ml < 0)
+    const offset = ml > 0 ? 0.5 : 0;
+    const planes = Array.from({ length: m }, (_, k) => ({ phi: ((k + offset) * Math.PI) / m }));
+    return { planes, cones };
+}
+
+/**
+ * Finds every nodal surface of the orbital described by params.
+ * @returns null for a superposition of several states, whose nodal surfaces are not
+ *          unions of spheres, planes and cones.
+ */
+export function findNodalSurfaces(params: OrbitalParams): NodalSurfaces | null {
+    const components = getOrbitalComponents(params);
+    if (components.length !== 1) {
+        return null;
+    }
+    const { n, l, ml } = components[0];
+    return {
+        radialSpheres: findRadialNodes(n, l, params.Z),
+        ...findAngularNodes(l, ml, params.basis ?? 'real'),
+    };
+}
@@ -0,0 +1,98 @@
+import { OrbitalComponent, OrbitalParams } from './types/orbital';
+import { radialWaveFunction } from './quantum_functions';
+import { getOrbitalComponents } from './orbital_superposition';
+
+// Picks the grid half-width (rMax) from the radial probability distribution r²R²(r),
+// so that the box fits any (n, l, Z) instead of relying on a hand-tuned table.
+
+export const DEFAULT_RADIAL_FRACTION = 0.999;
+
+// Integration step in units of 1/Z; fine enough to resolve the innermost radial lobes
+const RADIAL_STEP = 0.05;
+
+/**
+ * A radius far beyond the outermost radial lobe (⟨r⟩ = (3n² - l(l+1)) / 2Z), past which
+ * r²R² is negligible for every l; used as the upper end of radial integrals and root scans.
+ */
+export function radialIntegrationLimit(n: number, Z: number = 1): number {
+    return (10 * n * n + 20) / Z;
+}
+
+/**
+ * Finds the radius R such that ∫₀ᴿ r²R_nl(r)² dr = fraction, by Simpson integration.
+ * Hydrogenic orbitals scale as 1/Z, and so does the result.
+ *
+ * @param n - Principal quantum number.
+ * @param l - Azimuthal quantum number.
+ * @param Z - Nuclear charge.
+ * @param fraction - Probability to enclose, in (0, 1).
+ * @returns The radius in Bohr radii.
+ */
+export function estimateRMax(n: number, l: number, Z: number = 1, fraction: number = DEFAULT_RADIAL_FRACTION): number {
+    if (!(fraction > 0 && fraction < 1)) {
+        throw new Error("Radial fraction must be in (0, 1).");
+    }
+    if (Z <= 0) {
+        throw new Error("Nuclear charge (Z) must be positive.");
+    }
+
+    const h = RADIAL_STEP / Z;
+    const radialDensity = (r: number) => {
+        const R = radialWaveFunction(n, l, r, Z);
+        return r * r * R * R;
+    };
+    const limit = radialIntegrationLimit(n, Z);
+
+    let cumulative = 0;
+    for (let r = 0; r < limit; r += 2 * h) {
+        const interval = (h / 3) * (radialDensity(r) + 4 * radialDensity(r + h) + radialDensity(r + 2 * h));
+        if (cumulative + interval >= fraction) {
+            // Interpolate within the last Simpson interval
+            return r + (2 * h * (fraction - cumulative)) / interval;
+        }
+        cumulative += interval;
+    }
+    return limit;
+}
+
+/**
+ * Largest estimateRMax over the components of a superposition.
+ */
+export function estimateSuperpositionRMax(
+    components: OrbitalComponent[],
+    Z: number = 1,
+    fraction: number = DEFAULT_RADIAL_FRACTION
+): number {
+    if (components.length === 0) {
+        throw new Error("A superposition needs at least one component.");
+    }
+    return Math.max(...components.map(({ n, l }) => estimateRMax(n, l, Z, fraction)));
+}
+
+/**
+ * Rounds up to two significant figures, so that automatic box sizes read cleanly in the UI.
+ */
+export function roundUpToSignificantFigures(value: number, figures: number = 2): number {
+    if (value <= 0) {
+        return value;
+    }
+    const scale = Math.pow(10, Math.floor(Math.log10(value)) - figures + 1);
+    return Number((Math.ceil(value / scale - 1e-9) * scale).toPrecision(figures));
+}
+
+/**
+ * The automatic rMax for the orbital (or superposition) described by params.
+ */
+export function getAutoRMax(params: Pick<OrbitalParams, 'n' | 'l' | 'ml' | 'Z' | 'components'>): number {
+    return roundUpToSignificantFigures(estimateSuperpositionRMax(getOrbitalComponents(params), params.Z));
+}
+
+/**
+ * The rMax actually used for params: the user's value, or the automatic one when it is missing or invalid.
+ */
+export function resolveRMax(params: OrbitalParams): number {
+    if (isNaN(params.rMax) || params.rMax <= 0) {
+        return getAutoRMax(params);
+    }
+    return params.rMax;
+}
@@ -0,0 +1,87 @@
+import { OrbitalLayer, OrbitalParams, RGBColor } from './types/orbital';
+import { validateComponent } from './orbital_superposition';
+import { getAutoRMax } from './orbital_bounds';
+import { subshellLabel } from './quantum_functions';
+
+// Extra orbitals overlaid in one scene, e.g. the three 2p or the five 3d orbitals together.
+// Each layer is its own isosurface job; only the (n, l, ml, Z), iso-level and grid resolution
+// change its geometry, so colours, opacity and visibility are restyled without recomputing.
+
+export type LayerOrbital = Pick<OrbitalLayer, 'n' | 'l' | 'ml' | 'Z' | 'isoLevel'>;
+export type LayerStyle = Pick<OrbitalLayer, 'positiveColor' | 'negativeColor' | 'opacity' | 'visible'>;
+
+// (ψ > 0, ψ < 0) colour pairs handed out in turn, so that neighbouring layers stay distinguishable
+export const layerColorPairs: [RGBColor, RGBColor][] = [
+    [[1, 0, 0], [0, 0, 1]],
+    [[1, 0.55, 0], [0, 0.75, 0.85]],
+    [[0.85, 0, 0.85], [0, 0.7, 0]],
+    [[1, 0.85, 0], [0.45, 0.2, 0.85]],
+    [[1, 0.45, 0.6], [0.2, 0.55, 0.3]],
+    [[0.65, 0.35, 0.1], [0.5, 0.75, 1]],
+    [[0.9, 0.9, 0.9], [0.4, 0.4, 0.4]],
+];
+
+export const DEFAULT_LAYER_OPACITY = 0.8;
+export const DEFAULT_LAYER_RESOLUTION = 64; // Until the pane has an orbital of its own
+
+/**
+ * Style of the index-th layer in a scene: the next colour pair, shown and slightly see-through.
+ */
+export function getLayerStyle(index: number): LayerStyle {
+    const [positiveColor, negativeColor] = layerColorPairs[index % layerColorPairs.length];
+    return { positiveColor, negativeColor, opacity: DEFAULT_LAYER_OPACITY, visible: true };
+}
+
+/**
+ * Every m_l of the (n, l) subshell, all drawn at the same iso-level.
+ * @throws Error when (n, l) break the quantum-number rules.
+ */
+export function getSubshellOrbitals(n: number, l: number, Z: number, isoLevel: number): LayerOrbital[] {
+    const error = validateComponent({ n, l, ml: 0, coefficient: 1 });
+    if (error) {
+        throw new Error(error);
+    }
+    return Array.from({ length: 2 * l + 1 }, (_, i) => ({ n, l, ml: i - l, Z, isoLevel }));
+}
+
+/**
+ * The isosurface job of a layer. Layers use the real basis, whose orbitals are the textbook
+ * shapes, and a box sized for their own radial extent.
+ */
+export function getLayerParams(layer: LayerOrbital, resolution: number): OrbitalParams {
+    const { n, l, ml, Z, isoLevel } = layer;
+    return { n, l, ml, Z, resolution, rMax: getAutoRMax({ n, l, ml, Z }), isoLevel, basis: 'real' };
+}
+
+/**
+ * Identifies a layer's geometry; the surface only needs recomputing when this changes.
+ */
+export function getLayerGeometryKey(layer: LayerOrbital, resolution: number): string {
+    return [layer.n, layer.l, layer.ml, layer.Z, layer.isoLevel, resolution].join(',');
+}
+
+/**
+ * Names a layer for the list, e.g. "2p m=-1" or "3d m=2, Z=2".
+ */
+export function formatLayerName(layer: LayerOrbital): string {
+    return `${subshellLabel(layer.n, layer.l)} m=${layer.ml}${layer.Z === 1 ? '' : `, Z=${layer.Z}`}`;
+}
+
+/**
+ * Converts a colour to the "#rrggbb" form used by colour inputs.
+ */
+export function colorToHex(color: RGBColor): string {
+    return `#${color.map(c => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Reads a "#rrggbb" colour.
+ * @throws Error when the text is not in that form.
+ */
+export function hexToColor(hex: string): RGBColor {
+    const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+    if (!match) {
+        throw new Error(`"${hex}" is not a #rrggbb colour.`);
+    }
+    return [1, 2, 3].map(i => parseInt(match[i], 16) / 255) as RGBColor;
+}
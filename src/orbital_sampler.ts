@@ -0,0 +1,134 @@
+import { OrbitalDataPoint, OrbitalParams, PointCloudData } from './types/orbital';
+import { getSuperpositionPotentialFunction } from './quantum_functions';
+import { getOrbitalComponents } from './orbital_superposition';
+
+export const DEFAULT_POINT_COUNT = 20000;
+export const DEFAULT_SAMPLE_SEED = 1;
+
+export interface SamplerOptions {
+    count: number; // Number of points to return
+    seed: number; // Seed for the pseudo-random generator; the same seed gives the same points
+    rMax: number; // Half-width of the sampling box in Bohr radii
+    stepSize?: number; // Standard deviation of a local Metropolis step (defaults to rMax / 10)
+    jumpProbability?: number; // Chance of proposing a uniform point in the box instead of a local step
+    burnIn?: number; // Steps discarded before the first sample
+    thinning?: number; // Steps taken between recorded samples
+}
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32) returning floats in [0, 1).
+ * @param seed - Any integer; only its low 32 bits are used.
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Draws a standard normal variate with the Box-Muller transform.
+ */
+export function gaussianRandom(random: () => number): number {
+    const u = 1 - random(); // In (0, 1], so the logarithm is finite
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Draws points distributed as |ψ|² with the Metropolis algorithm.
+ *
+ * Proposals are a mixture of local Gaussian steps and, with probability `jumpProbability`,
+ * uniform points anywhere in the box. Both kernels are symmetric, so the plain Metropolis
+ * acceptance ratio applies, and the uniform jumps let the chain cross nodal surfaces
+ * between lobes that local steps rarely cross.
+ *
+ * @param orbitalPotentialFunction - Evaluates the orbital at (x, y, z); built with an isoLevel of 0.
+ * @returns Positions together with the sign and phase of ψ at each point.
+ */
+export function metropolisSample(
+    orbitalPotentialFunction: (x: number, y: number, z: number) => OrbitalDataPoint,
+    options: SamplerOptions
+): PointCloudData {
+    const {
+        count,
+        seed,
+        rMax,
+        stepSize = rMax / 10,
+        jumpProbability = 0.1,
+        burnIn = 1000,
+        thinning = 5
+    } = options;
+
+    if (count < 0 || !Number.isInteger(count)) {
+        throw new Error("Sample count must be a non-negative integer.");
+    }
+    if (rMax <= 0) {
+        throw new Error("rMax must be a positive number.");
+    }
+
+    const random = createSeededRandom(seed);
+    const uniformInBox = () => (2 * random() - 1) * rMax;
+
+    // Start from a point where the density is non-zero
+    let current: [number, number, number] = [0, 0, 0];
+    let currentPoint = orbitalPotentialFunction(...current);
+    for (let attempt = 0; attempt < 1000 && currentPoint.probabilityDensity <= 0; attempt++) {
+        current = [uniformInBox(), uniformInBox(), uniformInBox()];
+        currentPoint = orbitalPotentialFunction(...current);
+    }
+
+    const positions: number[][] = [];
+    const psiSigns: number[] = [];
+    const psiPhases: number[] = [];
+
+    const totalSteps = burnIn + count * thinning;
+    for (let step = 1; step <= totalSteps; step++) {
+        let proposal: [number, number, number];
+        if (random() < jumpProbability) {
+            proposal = [uniformInBox(), uniformInBox(), uniformInBox()];
+        } else {
+            proposal = [
+                current[0] + stepSize * gaussianRandom(random),
+                current[1] + stepSize * gaussianRandom(random),
+                current[2] + stepSize * gaussianRandom(random)
+            ];
+        }
+
+        const insideBox = proposal.every(coordinate => Math.abs(coordinate) <= rMax);
+        if (insideBox) {
+            const proposalPoint = orbitalPotentialFunction(...proposal);
+            const acceptance = currentPoint.probabilityDensity > 0
+                ? proposalPoint.probabilityDensity / currentPoint.probabilityDensity
+                : 1;
+            if (random() < acceptance) {
+                current = proposal;
+                currentPoint = proposalPoint;
+            }
+        }
+
+        if (step > burnIn && (step - burnIn) % thinning === 0) {
+            positions.push([...current]);
+            psiSigns.push(currentPoint.waveFunctionValue >= 0 ? 1 : -1);
+            psiPhases.push(currentPoint.phase);
+        }
+    }
+
+    return { positions, psiSigns, psiPhases };
+}
+
+/**
+ * Samples the orbital (or superposition) described by params as an "electron cloud"
+ * of `pointCount` points, seeded by `sampleSeed`.
+ */
+export function sampleOrbitalPoints(params: OrbitalParams): PointCloudData {
+    const { Z, rMax, basis = 'real', time = 0, pointCount = DEFAULT_POINT_COUNT, sampleSeed = DEFAULT_SAMPLE_SEED } = params;
+    const orbitalPotentialFunction = getSuperpositionPotentialFunction(
+        getOrbitalComponents(params), Z, 0, basis, time, params.condonShortleyPhase ?? true
+    );
+    return metropolisSample(orbitalPotentialFunction, { count: pointCount, seed: sampleSeed, rMax });
+}
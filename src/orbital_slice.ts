@@ -0,0 +1,236 @@
+import { OrbitalDataPoint, OrbitalParams, SlicePlane, SliceQuantity } from './types/orbital';
+import { getSuperpositionPotentialFunction } from './quantum_functions';
+import { getOrbitalComponents } from './orbital_superposition';
+
+// 2D cross-sections of the orbital: sampling on a plane, a diverging colour map and
+// marching-squares contour lines. Nothing here touches the DOM or WebGL.
+
+type Vector3 = [number, number, number];
+
+export type SlicePlanePreset = 'xy' | 'xz' | 'yz';
+
+// Normals are chosen so that getPlaneBasis returns the two named axes, in order, as (u, v)
+export const slicePlanePresets: Record<SlicePlanePreset, Vector3> = {
+    xy: [0, 0, 1],
+    xz: [0, -1, 0],
+    yz: [1, 0, 0],
+};
+
+export interface SliceData {
+    values: Float32Array; // Row-major: values[j * resolution + i] at origin + (i * step - extent) u + (j * step - extent) v
+    resolution: number; // Samples along each in-plane axis
+    extent: number; // Half-width of the sampled square in Bohr radii
+    minValue: number;
+    maxValue: number;
+    u: Vector3; // In-plane axis along i
+    v: Vector3; // In-plane axis along j
+    origin: Vector3; // Closest point of the plane to the nucleus
+}
+
+// A contour segment in grid coordinates (i, j), where integer coordinates are sample positions
+export type ContourSegment = [[number, number], [number, number]];
+
+const dot = (a: Vector3, b: Vector3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const cross = (a: Vector3, b: Vector3): Vector3 => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+];
+
+export function normalizeVector(vector: Vector3): Vector3 {
+    const length = Math.sqrt(dot(vector, vector));
+    if (!(length > 0)) {
+        throw new Error("Slice plane normal must be a non-zero vector.");
+    }
+    return [vector[0] / length, vector[1] / length, vector[2] / length];
+}
+
+/**
+ * Builds an orthonormal in-plane basis (u, v) with u × v = normal.
+ * u is the world axis least aligned with the normal, projected into the plane.
+ */
+export function getPlaneBasis(normal: Vector3): { u: Vector3; v: Vector3 } {
+    const n = normalizeVector(normal);
+    const axes: Vector3[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+    let axis = axes[0];
+    axes.forEach(candidate => {
+        if (Math.abs(dot(candidate, n)) < Math.abs(dot(axis, n)) - 1e-12) {
+            axis = candidate;
+        }
+    });
+    const along = dot(axis, n);
+    const u = normalizeVector([axis[0] - along * n[0], axis[1] - along * n[1], axis[2] - along * n[2]]);
+    return { u, v: cross(n, u) };
+}
+
+/**
+ * Samples ψ or |ψ|² on a resolution × resolution square of half-width `extent`
+ * centred on the point of the plane closest to the nucleus.
+ * @param orbitalPotentialFunction - Built with an isoLevel of 0, so that it returns the raw density.
+ */
+export function sampleSlice(
+    orbitalPotentialFunction: (x: number, y: number, z: number) => OrbitalDataPoint,
+    plane: SlicePlane,
+    extent: number,
+    resolution: number,
+    quantity: SliceQuantity
+): SliceData {
+    if (resolution < 2 || !Number.isInteger(resolution)) {
+        throw new Error("Slice resolution must be an integer of at least 2.");
+    }
+    if (extent <= 0) {
+        throw new Error("Slice extent must be positive.");
+    }
+
+    const n = normalizeVector(plane.normal);
+    const { u, v } = getPlaneBasis(n);
+    const origin: Vector3 = [n[0] * plane.offset, n[1] * plane.offset, n[2] * plane.offset];
+    const step = (2 * extent) / (resolution - 1);
+
+    const values = new Float32Array(resolution * resolution);
+    let minValue = Infinity;
+    let maxValue = -Infinity;
+    for (let j = 0; j < resolution; j++) {
+        const b = j * step - extent;
+        for (let i = 0; i < resolution; i++) {
+            const a = i * step - extent;
+            const point = orbitalPotentialFunction(
+                origin[0] + a * u[0] + b * v[0],
+                origin[1] + a * u[1] + b * v[1],
+                origin[2] + a * u[2] + b * v[2]
+            );
+            const value = quantity === 'psi' ? point.waveFunctionValue : point.probabilityDensity;
+            values[j * resolution + i] = value;
+            minValue = Math.min(minValue, value);
+            maxValue = Math.max(maxValue, value);
+        }
+    }
+    return { values, resolution, extent, minValue, maxValue, u, v, origin };
+}
+
+/**
+ * Samples the orbital (or superposition) described by params on a slice plane.
+ */
+export function sampleOrbitalSlice(
+    params: OrbitalParams,
+    plane: SlicePlane,
+    extent: number,
+    resolution: number,
+    quantity: SliceQuantity
+): SliceData {
+    const { Z, basis = 'real', time = 0, condonShortleyPhase = true } = params;
+    const orbitalPotentialFunction = getSuperpositionPotentialFunction(
+        getOrbitalComponents(params), Z, 0, basis, time, condonShortleyPhase
+    );
+    return sampleSlice(orbitalPotentialFunction, plane, extent, resolution, quantity);
+}
+
+/**
+ * Diverging colour map: blue for negative, white at zero, red for positive,
+ * matching the sign colouring of the isosurface.
+ * @returns [r, g, b], each in 0..255.
+ */
+export function divergingColor(value: number, maxAbs: number): [number, number, number] {
+    const t = maxAbs > 0 ? Math.max(-1, Math.min(1, value / maxAbs)) : 0;
+    const fade = Math.round(255 * (1 - Math.abs(t)));
+    return t >= 0 ? [255, fade, fade] : [fade, fade, 255];
+}
+
+/**
+ * Packs the slice into RGBA pixels (row j = 0 at the bottom of the image, as v points up).
+ */
+export function sliceToImageData(slice: SliceData): Uint8ClampedArray {
+    const { values, resolution } = slice;
+    const maxAbs = Math.max(Math.abs(slice.minValue), Math.abs(slice.maxValue));
+    const pixels = new Uint8ClampedArray(resolution * resolution * 4);
+    for (let j = 0; j < resolution; j++) {
+        const row = resolution - 1 - j;
+        for (let i = 0; i < resolution; i++) {
+            const [r, g, b] = divergingColor(values[j * resolution + i], maxAbs);
+            const pixel = (row * resolution + i) * 4;
+            pixels[pixel] = r;
+            pixels[pixel + 1] = g;
+            pixels[pixel + 2] = b;
+            pixels[pixel + 3] = 255;
+        }
+    }
+    return pixels;
+}
+
+/**
+ * Extracts the contour line at `level` with marching squares.
+ * Saddle cells are resolved by the average of their four corners.
+ */
+export function marchingSquares(values: ArrayLike<number>, resolution: number, level: number): ContourSegment[] {
+    const segments: ContourSegment[] = [];
+    const at = (i: number, j: number) => values[j * resolution + i];
+    // Crossing point on the edge between two corners, by linear interpolation
+    const lerp = (p: [number, number], q: [number, number], a: number, b: number): [number, number] => {
+        const t = a === b ? 0.5 : (level - a) / (b - a);
+        return [p[0] + t * (q[0] - p[0]), p[1] + t * (q[1] - p[1])];
+    };
+
+    for (let j = 0; j < resolution - 1; j++) {
+        for (let i = 0; i < resolution - 1; i++) {
+            // Corners counter-clockwise from the bottom left
+            const corners: [number, number][] = [[i, j], [i + 1, j], [i + 1, j + 1], [i, j + 1]];
+            const cornerValues = corners.map(([ci, cj]) => at(ci, cj));
+            const above = cornerValues.map(value => value >= level);
+
+            // Edge k joins corner k and corner k + 1
+            const crossings: [number, number][] = [];
+            const crossedEdges: number[] = [];
+            for (let k = 0; k < 4; k++) {
+                const next = (k + 1) % 4;
+                if (above[k] !== above[next]) {
+                    crossings.push(lerp(corners[k], corners[next], cornerValues[k], cornerValues[next]));
+                    crossedEdges.push(k);
+                }
+            }
+
+            if (crossings.length === 2) {
+                segments.push([crossings[0], crossings[1]]);
+            } else if (crossings.length === 4) {
+                // Saddle: pair each crossing with a neighbour so that the centre stays on its own side
+                const centreAbove = cornerValues.reduce((sum, value) => sum + value, 0) / 4 >= level;
+                if (centreAbove === above[0]) {
+                    segments.push([crossings[0], crossings[1]], [crossings[2], crossings[3]]);
+                } else {
+                    segments.push([crossings[3], crossings[0]], [crossings[1], crossings[2]]);
+                }
+            }
+        }
+    }
+    return segments;
+}
+
+/**
+ * Parses a comma-separated list of contour levels given as fractions of the largest |value|.
+ * @returns The fractions, or null if the text is not a list of numbers in (0, 1].
+ */
+export function parseContourLevels(text: string): number[] | null {
+    const parts = text.split(',').map(part => part.trim()).filter(part => part !== '');
+    if (parts.length === 0) {
+        return null;
+    }
+    const levels = parts.map(Number);
+    if (levels.some(level => !(level > 0 && level <= 1))) {
+        return null;
+    }
+    return levels;
+}
+
+/**
+ * Turns contour fractions into absolute levels for a slice. Signed quantities get the
+ * levels on both sides of zero, plus the nodal line at zero.
+ */
+export function getContourLevels(slice: SliceData, fractions: number[], quantity: SliceQuantity): number[] {
+    const maxAbs = Math.max(Math.abs(slice.minValue), Math.abs(slice.maxValue));
+    if (maxAbs === 0) {
+        return [];
+    }
+    if (quantity === 'density') {
+        return fractions.map(f => f * maxAbs);
+    }
+    return [...fractions.map(f => -f * maxAbs), 0, ...fractions.map(f => f * maxAbs)];
+}
@@ -0,0 +1,178 @@
+import { OrbitalComponent, OrbitalParams } from './types/orbital';
+import { hydrogenicEnergy } from './quantum_functions';
+
+// Note on the real basis used by the presets below (see realSphericalHarmonic):
+// p: ml = 1 → px, ml = -1 → py, ml = 0 → pz
+// d: ml = 0 → dz², ml = 1 → dxz, ml = -1 → dyz, ml = 2 → dx²-y², ml = -2 → dxy
+//
+// Hydrogenic radial functions change sign at each radial node, so R_nl(r) ends with sign (-1)^(n-l-1)
+// (e.g. 2s and 3p are negative beyond their node). Coefficients carry that sign so that the
+// outer lobes reinforce in the direction each preset claims to point.
+
+export interface HybridOrbitalPreset {
+    id: string;
+    label: string;
+    description: string;
+    components: OrbitalComponent[];
+}
+
+/**
+ * One representative hybrid of each common hybridisation scheme.
+ * The remaining hybrids of a set are rotations of the one listed here.
+ */
+export const hybridOrbitalPresets: HybridOrbitalPreset[] = [
+    {
+        id: 'sp',
+        label: 'sp',
+        description: 'Linear, pointing along +z',
+        components: [
+            { n: 2, l: 0, ml: 0, coefficient: -Math.SQRT1_2 }, // 2s
+            { n: 2, l: 1, ml: 0, coefficient: Math.SQRT1_2 },  // 2pz
+        ]
+    },
+    {
+        id: 'sp2',
+        label: 'sp²',
+        description: 'Trigonal planar, pointing along +x',
+        components: [
+            { n: 2, l: 0, ml: 0, coefficient: -Math.sqrt(1 / 3) }, // 2s
+            { n: 2, l: 1, ml: 1, coefficient: Math.sqrt(2 / 3) },  // 2px
+        ]
+    },
+    {
+        id: 'sp3',
+        label: 'sp³',
+        description: 'Tetrahedral, pointing along (1, 1, 1)',
+        components: [
+            { n: 2, l: 0, ml: 0, coefficient: -0.5 }, // 2s
+            { n: 2, l: 1, ml: 1, coefficient: 0.5 },  // 2px
+            { n: 2, l: 1, ml: -1, coefficient: 0.5 }, // 2py
+            { n: 2, l: 1, ml: 0, coefficient: 0.5 },  // 2pz
+        ]
+    },
+    {
+        id: 'sp3d',
+        label: 'sp³d',
+        description: 'Trigonal bipyramidal axial hybrid, pointing along +z',
+        components: [
+            { n: 3, l: 1, ml: 0, coefficient: -Math.SQRT1_2 }, // 3pz
+            { n: 3, l: 2, ml: 0, coefficient: Math.SQRT1_2 },  // 3dz²
+        ]
+    },
+    {
+        id: 'sp3d2',
+        label: 'sp³d²',
+        description: 'Octahedral, pointing along +z',
+        components: [
+            { n: 3, l: 0, ml: 0, coefficient: Math.sqrt(1 / 6) }, // 3s
+            { n: 3, l: 1, ml: 0, coefficient: -Math.SQRT1_2 },    // 3pz
+            { n: 3, l: 2, ml: 0, coefficient: Math.sqrt(1 / 3) }, // 3dz²
+        ]
+    },
+];
+
+export function getHybridOrbitalPreset(id: string): HybridOrbitalPreset | null {
+    const preset = hybridOrbitalPresets.find(p => p.id === id);
+    if (preset) {
+        return { ...preset, components: preset.components.map(c => ({ ...c })) }; // Return a copy
+    }
+    return null;
+}
+
+/**
+ * Returns the basis states that make up the orbital described by params:
+ * the explicit superposition if one is given, otherwise the single (n, l, ml) state.
+ */
+export function getOrbitalComponents(params: Pick<OrbitalParams, 'n' | 'l' | 'ml' | 'components'>): OrbitalComponent[] {
+    if (params.components && params.components.length > 0) {
+        return params.components;
+    }
+    return [{ n: params.n, l: params.l, ml: params.ml, coefficient: 1 }];
+}
+
+/**
+ * Checks a single component against the quantum-number rules.
+ * @returns An error message, or null if the component is valid.
+ */
+export function validateComponent(component: OrbitalComponent): string | null {
+    const { n, l, ml, coefficient } = component;
+    if (!Number.isInteger(n) || n < 1) {
+        return "n must be a positive integer.";
+    }
+    if (!Number.isInteger(l) || l < 0 || l > n - 1) {
+        return "l must be an integer between 0 and n-1.";
+    }
+    if (!Number.isInteger(ml) || Math.abs(ml) > l) {
+        return "m_l must be an integer between -l and l.";
+    }
+    if (!Number.isFinite(coefficient)) {
+        return "Coefficient must be a number.";
+    }
+    return null;
+}
+
+/**
+ * Calculates ⟨ψ|ψ⟩ = Σ|cᵢ|² for a superposition of orthonormal hydrogenic states.
+ * Repeated (n, l, ml) entries are the same basis state, so their coefficients are summed first.
+ */
+export function superpositionNorm(components: OrbitalComponent[]): number {
+    const merged: Map<string, number> = new Map();
+    for (const { n, l, ml, coefficient } of components) {
+        const key = `${n},${l},${ml}`;
+        merged.set(key, (merged.get(key) ?? 0) + coefficient);
+    }
+
+    let norm = 0;
+    merged.forEach(coefficient => {
+        norm += coefficient * coefficient;
+    });
+    return norm;
+}
+
+export function isNormalized(components: OrbitalComponent[], tolerance: number = 1e-3): boolean {
+    return Math.abs(superpositionNorm(components) - 1) <= tolerance;
+}
+
+/**
+ * Rescales the coefficients so that Σ|cᵢ|² = 1.
+ */
+export function normalizeComponents(components: OrbitalComponent[]): OrbitalComponent[] {
+    const norm = superpositionNorm(components);
+    if (norm === 0) {
+        throw new Error("Cannot normalise a superposition whose coefficients are all zero.");
+    }
+    const scale = 1 / Math.sqrt(norm);
+    return components.map(c => ({ ...c, coefficient: c.coefficient * scale }));
+}
+
+/**
+ * Calculates the period of the slowest beat in the density of a superposition,
+ * T = 2π / min|E_i - E_j| over pairs of distinct energy levels (atomic units of time).
+ * For two distinct levels this is exactly the period of |ψ(t)|². For three or more it is the
+ * longest beat; the full recurrence time can be a multiple of it.
+ * @returns The beat period, or null for a stationary state (all components share one energy).
+ */
+export function getBeatPeriod(components: OrbitalComponent[], Z: number = 1): number | null {
+    const energies = Array.from(new Set(
+        components.filter(c => c.coefficient !== 0).map(c => c.n)
+    )).map(n => hydrogenicEnergy(n, Z));
+
+    let minGap = Infinity;
+    for (let i = 0; i < energies.length; i++) {
+        for (let j = i + 1; j < energies.length; j++) {
+            minGap = Math.min(minGap, Math.abs(energies[i] - energies[j]));
+        }
+    }
+    return Number.isFinite(minGap) ? (2 * Math.PI) / minGap : null;
+}
+
+/**
+ * Splits one period into evenly spaced frame times [0, T/N, ..., (N-1)T/N].
+ * The frame at T is omitted because it repeats the frame at 0.
+ */
+export function getAnimationFrameTimes(period: number, frameCount: number): number[] {
+    if (period <= 0 || frameCount < 1 || !Number.isInteger(frameCount)) {
+        throw new Error("Animation needs a positive period and a positive integer frame count.");
+    }
+    return Array.from({ length: frameCount }, (_, i) => (i * period) / frameCount);
+}
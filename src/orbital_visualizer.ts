@@ -1,367 +1,1327 @@
-import * as THREE from 'three';
-import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
-import { MeshData, OrbitalParams } from './types/orbital';
-
-// Add export to make it available to OrbitalViewer
-export interface VisualizerContext {
-    scene: THREE.Scene;
-    camera: THREE.PerspectiveCamera;
-    renderer: THREE.WebGLRenderer;
-    controls: OrbitControls;
-    currentOrbitalGroup: THREE.Group | null;
-    currentAxesHelper: THREE.AxesHelper | null;
-    animationFrameId?: number;
-    isDisposed?: boolean;  // Add this flag
-}
-
-interface WorkerSuccessMessage {
-    type: 'success';
-    meshData: MeshData;
-}
-
-interface WorkerErrorMessage {
-    type: 'error';
-    message: string;
-}
-
-type WorkerMessage = WorkerSuccessMessage | WorkerErrorMessage;
-
-// --- Optimized Parameters Storage (with more predictions) ---
-const optimizedOrbitalParameters: Record<string, { rMax: number; isoLevel: number }> = {
-    // Example: "n_0"
-    "1_0": { rMax: 10, isoLevel: 0.001 },      // 1s
-    "2_0": { rMax: 15, isoLevel: 0.0005 },     // 2s
-    "2_1": { rMax: 15, isoLevel: 0.0005 },     // 2p
-    "3_0": { rMax: 20, isoLevel: 0.00001 },    // 3s
-    "3_1": { rMax: 20, isoLevel: 0.00001 },    // 3p
-    "3_2": { rMax: 20, isoLevel: 0.00001 },    // 3d
-    "4_0": { rMax: 35, isoLevel: 0.000004 },   // 4s
-    "4_1": { rMax: 35, isoLevel: 0.000004 },   // 4p
-    "4_2": { rMax: 35, isoLevel: 0.000004 },   // 4d
-    "4_3": { rMax: 35, isoLevel: 0.000004 },   // 4f
-    "5_0": { rMax: 50, isoLevel: 0.0000025 },  // 5s
-    "5_1": { rMax: 50, isoLevel: 0.0000025 },  // 5p
-    "5_2": { rMax: 50, isoLevel: 0.0000025 },  // 5d
-    "5_3": { rMax: 50, isoLevel: 0.0000025 },  // 5f
-    "5_4": { rMax: 50, isoLevel: 0.0000025 },  // 5g
-    "6_0": { rMax: 70, isoLevel: 0.000001 },   // 6s
-    "6_1": { rMax: 70, isoLevel: 0.000001 },   // 6p
-    "6_2": { rMax: 70, isoLevel: 0.000001 },   // 6d
-    "6_3": { rMax: 70, isoLevel: 0.000001 },   // 6f
-    "6_4": { rMax: 70, isoLevel: 0.000001 },   // 6g
-    "6_5": { rMax: 70, isoLevel: 0.000001 },   // 6h
-    "7_0": { rMax: 90, isoLevel: 0.0000007 },  // 
-    "7_1": { rMax: 90, isoLevel: 0.0000007 },  // 
-    "7_2": { rMax: 90, isoLevel: 0.0000007 },  //
-    "7_3": { rMax: 90, isoLevel: 0.0000007 },  //
-    "7_4": { rMax: 90, isoLevel: 0.0000007 },  //
-    "7_5": { rMax: 90, isoLevel: 0.0000007 },  //
-    "7_6": { rMax: 90, isoLevel: 0.0000007 },  //
-    "8_0": { rMax: 120, isoLevel: 0.0000001 }, // 
-    "8_1": { rMax: 140, isoLevel: 0.0000001 }, // 
-    "8_2": { rMax: 130, isoLevel: 0.0000001 }, //
-    "8_3": { rMax: 140, isoLevel: 0.0000001 }, //
-    "8_4": { rMax: 140, isoLevel: 0.0000001 }, //
-    "8_5": { rMax: 140, isoLevel: 0.0000001 }, //
-    "8_6": { rMax: 140, isoLevel: 0.0000001 }, //
-    "8_7": { rMax: 140, isoLevel: 0.0000001 }, //
-    "9_0": { rMax: 200, isoLevel: 0.00000001 }, //
-    "9_1": { rMax: 200, isoLevel: 0.00000001 }, //
-    "9_2": { rMax: 200, isoLevel: 0.00000001 }, //
-    "9_3": { rMax: 200, isoLevel: 0.00000001 }, //
-    "9_4": { rMax: 200, isoLevel: 0.00000001 }, //
-    "9_5": { rMax: 200, isoLevel: 0.00000001 }, //
-    "9_6": { rMax: 200, isoLevel: 0.00000001 }, //
-    "9_7": { rMax: 200, isoLevel: 0.00000001 }, //
-    "9_8": { rMax: 200, isoLevel: 0.00000001 }, //
-};
-
-
-export function getOptimizedParameters(n: number, l: number): { rMax: number; isoLevel: number } | null {
-    const key = `${n}_${l}`;
-    const params = optimizedOrbitalParameters[key];
-    if (params) {
-        return { ...params }; // Return a copy
-    }
-    // Per your request, the fallback logic has been removed.
-    // The function now expects the key to be present in optimizedOrbitalParameters.
-    return null; // Explicitly return null if the key is not found.
-}
-
-export function initVisualizer(container: HTMLElement, initialCameraZ: number = 12): VisualizerContext {
-    const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x050505);
-
-    const camera = new THREE.PerspectiveCamera(75, container.clientWidth / container.clientHeight, 0.1, 1000);
-    camera.position.z = initialCameraZ;
-
-    const renderer = new THREE.WebGLRenderer({ antialias: true });
-    renderer.setSize(container.clientWidth, container.clientHeight);
-    container.appendChild(renderer.domElement);
-
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
-    scene.add(ambientLight);
-
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(5, 5, 5).normalize(); // Adjusted light position
-    scene.add(directionalLight);
-
-    const controls = new OrbitControls(camera, renderer.domElement);
-    controls.enableDamping = true;
-    controls.dampingFactor = 0.05;
-    controls.target.set(0, 0, 0);
-    controls.minDistance = 0.1; // Adjusted min distance
-    // controls.maxDistance = 100; // Added max distance
-
-    const context: VisualizerContext = {
-        scene,
-        camera,
-        renderer,
-        controls,
-        currentOrbitalGroup: null,
-        currentAxesHelper: null,
-        isDisposed: false  // Initialize the flag
-    };
-    
-    startAnimationLoop(context);
-    return context;
-}
-
-
-export function cleanupVisualizer(context: VisualizerContext | null) {
-    if (context) {
-        context.isDisposed = true;  // Set flag first
-        if (context.animationFrameId) {
-            cancelAnimationFrame(context.animationFrameId);
-            context.animationFrameId = undefined;
-        }
-        clearCurrentOrbital(context, context.scene); // Ensure orbital is cleared
-        if (context.currentAxesHelper) {
-            context.scene.remove(context.currentAxesHelper);
-            context.currentAxesHelper.dispose();
-            context.currentAxesHelper = null;
-        }
-        if (context.controls) {
-            context.controls.dispose();
-        }
-        if (context.renderer) {
-            context.renderer.domElement.remove();
-            context.renderer.dispose();
-        }
-        // The calling component will nullify its reference to the context
-        console.log("Visualizer cleaned up.");
-    }
-}
-
-
-export async function updateOrbitalInScene(context: VisualizerContext | null, params: OrbitalParams, showAxes: boolean = true): Promise<void> {
-    if (!context) return;
-
-    return new Promise((resolve, reject) => {
-        console.log('Visualizer: Starting worker calculation');
-        
-        const worker = new Worker(new URL('./workers/orbitalWorker.ts', import.meta.url), { 
-            type: 'module' 
-        });
-
-        // Get optimized/default parameters to use as fallbacks
-        const optimizedDefaults = getOptimizedParameters(params.n, params.l)!;
-
-        let workerRMax = params.rMax;
-        if (isNaN(workerRMax) || workerRMax <= 0) {
-            workerRMax = optimizedDefaults.rMax;
-        }
-
-        let workerIsoLevel = params.isoLevel;
-        if (isNaN(workerIsoLevel)) {
-            workerIsoLevel = optimizedDefaults.isoLevel;
-        }
-
-        // Update or remove axes helper based on showAxes and the rMax to be used
-        if (showAxes) {
-            addAxesHelper(context, workerRMax);
-        } else {
-            removeAxesHelper(context); // Ensure axes are removed if showAxes is false
-        }
-
-        // Simple cleanup function
-        const cleanup = () => {
-            worker.terminate();
-        };
-
-
-        worker.onmessage = (e: MessageEvent<WorkerMessage>) => {
-            try {
-                if (e.data.type === 'success') {
-                    console.log('Visualizer: Received mesh data from worker');
-                    updateSceneWithMeshData(context, e.data.meshData, params);
-                    resolve();
-                } else {
-                    console.error('Visualizer: Worker error:', e.data.message);
-                    reject(new Error(e.data.message));
-                }
-            } catch (error) {
-                console.error('Visualizer: Error processing mesh data:', error);
-                reject(error);
-            } finally {
-                cleanup();
-            }
-        };
-
-        worker.onerror = (error) => {
-            console.error('Visualizer: Worker error:', error);
-            cleanup();
-            reject(error);
-        };
-
-        // Send calculation request to worker
-        worker.postMessage({ 
-            type: 'calculate',
-            // Send original params for n, l, ml, Z, resolution
-            // but use the sanitized/defaulted rMax and isoLevel
-            params: { ...params, rMax: workerRMax, isoLevel: workerIsoLevel }
-        });
-    });
-}
-
-
-// --- Helper Functions ---
-function clearCurrentOrbital(context: VisualizerContext, scene: THREE.Scene) {
-    if (!context) return;
-    
-    console.log('Clearing orbital...', {
-        hasGroup: !!context.currentOrbitalGroup,
-        childCount: context.currentOrbitalGroup?.children.length
-    });
-    
-    if (context.currentOrbitalGroup) {
-        // Dispose of all children first
-        context.currentOrbitalGroup.traverse((child) => {
-            if (child instanceof THREE.Mesh) {
-                if (child.geometry) {
-                    child.geometry.dispose();
-                }
-                if (child.material) {
-                    if (Array.isArray(child.material)) {
-                        child.material.forEach(mat => mat.dispose());
-                    } else {
-                        child.material.dispose();
-                    }
-                }
-            }
-        });
-
-        // Remove from scene
-        scene.remove(context.currentOrbitalGroup);
-        context.currentOrbitalGroup = null;
-        
-        // Force scene update
-        scene.updateMatrixWorld(true);
-    }
-}
-
-function startAnimationLoop(context: VisualizerContext) {
-    if (!context) return;
-    const { renderer, scene, camera, controls } = context;
-    
-    function animate() {
-        if (!context || context.isDisposed) {
-            return;
-        }
-        
-        controls.update();
-        renderer.render(scene, camera);
-        context.animationFrameId = requestAnimationFrame(animate);
-    }
-    
-    // Start the animation
-    context.animationFrameId = requestAnimationFrame(animate);
-}
-
-// Modified updateSceneWithMeshData to include better error handling
-function updateSceneWithMeshData(context: VisualizerContext, meshData: MeshData, params: OrbitalParams) {
-    if (!context || context.isDisposed) {
-        console.warn('Visualizer: Cannot update scene - context is disposed or null');
-        return;
-    }
-
-    try {
-        clearCurrentOrbital(context, context.scene);
-
-        const geometry = new THREE.BufferGeometry();
-        const positions = new Float32Array(meshData.positions.flat());
-        const colors = new Float32Array(meshData.positions.length * 3); // RGB for each vertex
-
-        // Assign colors based on ψ sign
-        meshData.psiSigns.forEach((sign, index) => {
-            const colorIndex = index * 3;
-            if (sign === 1) {
-                colors[colorIndex] = 1; // Red
-                colors[colorIndex + 1] = 0;
-                colors[colorIndex + 2] = 0;
-            } else {
-                colors[colorIndex] = 0; // Blue
-                colors[colorIndex + 1] = 0;
-                colors[colorIndex + 2] = 1;
-            }
-        });
-
-        geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-        geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
-        geometry.setIndex(meshData.cells.flat());
-        geometry.computeVertexNormals();
-
-        const material = new THREE.MeshStandardMaterial({
-            vertexColors: true,     // Wireframe lines will use vertex colors
-            side: THREE.DoubleSide,
-            transparent: true,      // Can be true if you want transparent wireframe (e.g., for fading)
-            opacity: 1.0,           // Or lower if transparent wireframe is desired
-            wireframe: true
-        });
-
-        const mesh = new THREE.Mesh(geometry, material);
-        const group = new THREE.Group();
-        group.add(mesh);
-
-        context.scene.add(group);
-        context.currentOrbitalGroup = group;
-    } catch (error) {
-        console.error('Visualizer: Error creating mesh:', error);
-        throw error;
-    }
-}
-
-function addAxesHelper(context: VisualizerContext, size: number) {
-    if (!context) return;
-    
-    // Remove existing axes if any
-    removeAxesHelper(context);
-    
-    // Create and add new axes
-    const axesHelper = new THREE.AxesHelper(size);
-    context.scene.add(axesHelper);
-    context.currentAxesHelper = axesHelper;
-}
-
-function removeAxesHelper(context: VisualizerContext) {
-    if (!context || !context.currentAxesHelper) return;
-    
-    context.scene.remove(context.currentAxesHelper);
-    context.currentAxesHelper.dispose();
-    context.currentAxesHelper = null;
-}
-
-export function handleResize(context: VisualizerContext, width: number, height: number) {
-    if (!context) return;
-    
-    const { camera, renderer } = context;
-    
-    // Update camera aspect ratio
-    if (camera instanceof THREE.PerspectiveCamera) {
-        camera.aspect = width / height;
-        camera.updateProjectionMatrix();
-    }
-    
-    // Update renderer size
-    renderer.setSize(width, height);
-}
+import * as THREE from 'three';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import {
+    AnimationFrameData,
+    CameraPose,
+    CubeAtom,
+    ImportedCube,
+    MeshData,
+    OrbitalBasis,
+    OrbitalData,
+    OrbitalLayer,
+    OrbitalParams,
+    PointCloudData,
+    SlicePlane,
+    SurfaceInfo
+} from './types/orbital';
+import { getAnimationFrameTimes, getBeatPeriod, getOrbitalComponents } from './orbital_superposition';
+import { buildVolumeTextureData, defaultTransferFunction } from './volume_rendering';
+import { estimateRMax, resolveRMax, roundUpToSignificantFigures } from './orbital_bounds';
+import { radialWaveFunction } from './quantum_functions';
+import { findNodalSurfaces, NodalSurfaces } from './nodal_surfaces';
+import { getGridOrigin, getGridSpacing } from './cube_import';
+import { getLayerGeometryKey, getLayerParams } from './orbital_layers';
+import { chainJobs, createWorkerPool, isJobCancelled, JobOptions, WorkerJob, WorkerPool } from './worker_pool';
+import { sampleGridInSlabs } from './parallel_grid';
+import { createWorkerRequest, expectWorkerResult, getRequestTransferables, WorkerRequestBody, WorkerResult } from './worker_protocol';
+
+// Precomputed time-evolution frames, each a hidden child of currentOrbitalGroup
+interface OrbitalAnimation {
+    frames: { time: number; mesh: THREE.Mesh; meshData: MeshData }[];
+    period: number; // Beat period in atomic units of time
+    time: number;
+    isPlaying: boolean;
+    visibleFrameIndex: number;
+    lastTimestamp?: number;
+    onTimeChange?: (time: number) => void;
+}
+
+// Slice plane drawn in the scene; it also clips the orbital to reveal its inside
+interface SlicePlaneState {
+    slice: SlicePlane;
+    rMax: number;
+    clippingPlane: THREE.Plane; // Keeps the half-space n·p <= offset
+    helper: THREE.Group;
+    onOffsetChange?: (offset: number) => void;
+    dragGrab?: number; // Offset along the normal between the grabbed point and the plane while dragging
+}
+
+// An overlaid orbital layer; group is null while its worker job runs
+interface LayerEntry {
+    key: string; // Geometry the group was computed for, see getLayerGeometryKey
+    group: THREE.Group | null;
+    job: WorkerJob<WorkerResult> | null; // Computing the group
+}
+
+// Add export to make it available to OrbitalViewer
+export interface VisualizerContext {
+    scene: THREE.Scene;
+    camera: THREE.PerspectiveCamera;
+    renderer: THREE.WebGLRenderer;
+    controls: OrbitControls;
+    currentOrbitalGroup: THREE.Group | null;
+    currentMeshData: MeshData | null; // Isosurface on screen, kept for export; null in volume and points modes
+    currentAxesHelper: THREE.AxesHelper | null;
+    currentNodalOverlay: THREE.Group | null;
+    currentAtoms: THREE.Group | null; // Nuclei of an imported cube file
+    currentLayers: Map<string, LayerEntry>; // By layer id
+    currentSlicePlane: SlicePlaneState | null;
+    detachSlicePlaneDragging?: () => void;
+    currentAnimation: OrbitalAnimation | null;
+    currentJob: WorkerJob<unknown> | null; // Computing the orbital or imported grid to show next
+    animationFrameId?: number;
+    isDisposed?: boolean;  // Add this flag
+}
+
+// Wall-clock seconds it takes to play one beat period
+const SECONDS_PER_PERIOD = 4;
+
+// Share of an isosurface's progress bar given to sampling its grid, the rest going to extraction
+const GRID_PROGRESS_SHARE = 0.5;
+
+let workerPool: WorkerPool | null = null;
+
+// Shared by every pane; started on first use, so that importing this module starts no workers
+function getWorkerPool(): WorkerPool {
+    if (!workerPool) {
+        workerPool = createWorkerPool(() => new Worker(new URL('./workers/orbitalWorker.ts', import.meta.url), {
+            type: 'module'
+        }));
+    }
+    return workerPool;
+}
+
+function runWorkerJob(request: WorkerRequestBody, options?: JobOptions): WorkerJob<WorkerResult> {
+    return getWorkerPool().run<WorkerResult>(createWorkerRequest(request), { ...options, transfer: getRequestTransferables(request) });
+}
+
+/**
+ * Samples the orbital's grid with one slab job per worker of the pool (see parallel_grid.ts).
+ */
+function runGridJob(params: OrbitalParams, options: JobOptions = {}): WorkerJob<OrbitalData> {
+    return sampleGridInSlabs(
+        (slab, target, onProgress) => {
+            const job = runWorkerJob({ type: 'sampleSlab', params, ...slab, target }, { ...options, onProgress });
+            return { ...job, result: job.result.then(result => expectWorkerResult(result, 'slab')) };
+        },
+        params.resolution,
+        params.rMax,
+        { slabCount: getWorkerPool().size, onProgress: options.onProgress }
+    );
+}
+
+/**
+ * Runs the job computing what a pane shows next, cancelling the one it supersedes before
+ * starting it, so that a stale result can never replace a newer one.
+ */
+async function runSceneJob<T>(context: VisualizerContext, start: () => WorkerJob<T>): Promise<T> {
+    context.currentJob?.cancel();
+    const job = start();
+    context.currentJob = job;
+    try {
+        return await job.result;
+    } finally {
+        if (context.currentJob === job) {
+            context.currentJob = null;
+        }
+    }
+}
+
+// Ray-marching shaders for the volume rendering mode. The box geometry spans [-0.5, 0.5]^3 in
+// object space and the RGBA texture already holds the transfer function output.
+const volumeVertexShader = /* glsl */ `
+    out vec3 vOrigin;
+    out vec3 vDirection;
+
+    void main() {
+        vOrigin = vec3(inverse(modelMatrix) * vec4(cameraPosition, 1.0)).xyz;
+        vDirection = position - vOrigin;
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    }
+`;
+
+const volumeFragmentShader = /* glsl */ `
+    precision highp float;
+    precision highp sampler3D;
+
+    uniform sampler3D map;
+    uniform float steps;
+    uniform float voxelSize;
+
+    in vec3 vOrigin;
+    in vec3 vDirection;
+    out vec4 color;
+
+    vec2 hitBox(vec3 origin, vec3 direction) {
+        vec3 invDirection = 1.0 / direction;
+        vec3 tMinTmp = (vec3(-0.5) - origin) * invDirection;
+        vec3 tMaxTmp = (vec3(0.5) - origin) * invDirection;
+        vec3 tMin = min(tMinTmp, tMaxTmp);
+        vec3 tMax = max(tMinTmp, tMaxTmp);
+        return vec2(max(tMin.x, max(tMin.y, tMin.z)), min(tMax.x, min(tMax.y, tMax.z)));
+    }
+
+    void main() {
+        vec3 rayDirection = normalize(vDirection);
+        vec2 bounds = hitBox(vOrigin, rayDirection);
+        if (bounds.x > bounds.y) discard;
+        bounds.x = max(bounds.x, 0.0);
+
+        float delta = 1.0 / steps;
+        vec4 accumulated = vec4(0.0);
+        for (float t = bounds.x; t < bounds.y; t += delta) {
+            vec4 texel = texture(map, vOrigin + t * rayDirection + 0.5);
+            // Texel opacity is per voxel; rescale it to the step length so the total opacity
+            // does not depend on how finely the ray is sampled
+            float alpha = 1.0 - pow(1.0 - texel.a, delta / voxelSize);
+            accumulated.rgb += (1.0 - accumulated.a) * alpha * texel.rgb;
+            accumulated.a += (1.0 - accumulated.a) * alpha;
+            if (accumulated.a >= 0.95) break;
+        }
+
+        if (accumulated.a == 0.0) discard;
+        color = accumulated;
+    }
+`;
+
+// --- Hand-tuned iso-levels for Z = 1, used when drawing a raw iso-level instead of an enclosed probability ---
+const optimizedIsoLevels: Record<string, number> = {
+    // Example: "n_l"
+    "1_0": 0.001, // 1s
+    "2_0": 0.0005, // 2s
+    "2_1": 0.0005, // 2p
+    "3_0": 0.00001, // 3s
+    "3_1": 0.00001, // 3p
+    "3_2": 0.00001, // 3d
+    "4_0": 0.000004, // 4s
+    "4_1": 0.000004, // 4p
+    "4_2": 0.000004, // 4d
+    "4_3": 0.000004, // 4f
+    "5_0": 0.0000025, // 5s
+    "5_1": 0.0000025, // 5p
+    "5_2": 0.0000025, // 5d
+    "5_3": 0.0000025, // 5f
+    "5_4": 0.0000025, // 5g
+    "6_0": 0.000001, // 6s
+    "6_1": 0.000001, // 6p
+    "6_2": 0.000001, // 6d
+    "6_3": 0.000001, // 6f
+    "6_4": 0.000001, // 6g
+    "6_5": 0.000001, // 6h
+    "7_0": 0.0000007,
+    "7_1": 0.0000007,
+    "7_2": 0.0000007,
+    "7_3": 0.0000007,
+    "7_4": 0.0000007,
+    "7_5": 0.0000007,
+    "7_6": 0.0000007,
+    "8_0": 0.0000001,
+    "8_1": 0.0000001,
+    "8_2": 0.0000001,
+    "8_3": 0.0000001,
+    "8_4": 0.0000001,
+    "8_5": 0.0000001,
+    "8_6": 0.0000001,
+    "8_7": 0.0000001,
+    "9_0": 0.00000001,
+    "9_1": 0.00000001,
+    "9_2": 0.00000001,
+    "9_3": 0.00000001,
+    "9_4": 0.00000001,
+    "9_5": 0.00000001,
+    "9_6": 0.00000001,
+    "9_7": 0.00000001,
+    "9_8": 0.00000001,
+};
+
+
+/**
+ * Default rMax and iso-level for a hydrogenic (n, l) state with nuclear charge Z.
+ * rMax encloses 99.9% of the radial probability (see orbital_bounds.ts). The iso-level
+ * comes from the hand-tuned table scaled by Z³, as densities scale with Z³; outside the
+ * table it falls back to 1% of the peak spherically averaged density R²/4π.
+ */
+export function getOptimizedParameters(n: number, l: number, Z: number = 1): { rMax: number; isoLevel: number } {
+    const rMax = roundUpToSignificantFigures(estimateRMax(n, l, Z));
+    const tabulated = optimizedIsoLevels[`${n}_${l}`];
+    if (tabulated !== undefined) {
+        return { rMax, isoLevel: tabulated * Z * Z * Z };
+    }
+
+    let peakDensity = 0;
+    for (let i = 0; i <= 200; i++) {
+        const R = radialWaveFunction(n, l, (i / 200) * rMax, Z);
+        peakDensity = Math.max(peakDensity, (R * R) / (4 * Math.PI));
+    }
+    return { rMax, isoLevel: 0.01 * peakDensity };
+}
+
+export function initVisualizer(container: HTMLElement, initialCameraZ: number = 12): VisualizerContext {
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x050505);
+
+    const camera = new THREE.PerspectiveCamera(75, container.clientWidth / container.clientHeight, 0.1, 10000); // Far enough for the boxes of n = 30
+    camera.position.z = initialCameraZ;
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setSize(container.clientWidth, container.clientHeight);
+    renderer.localClippingEnabled = true; // Per-material clipping by the slice plane
+    container.appendChild(renderer.domElement);
+
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
+    scene.add(ambientLight);
+
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+    directionalLight.position.set(5, 5, 5).normalize(); // Adjusted light position
+    scene.add(directionalLight);
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+    controls.dampingFactor = 0.05;
+    controls.target.set(0, 0, 0);
+    controls.minDistance = 0.1; // Adjusted min distance
+    // controls.maxDistance = 100; // Added max distance
+
+    const context: VisualizerContext = {
+        scene,
+        camera,
+        renderer,
+        controls,
+        currentOrbitalGroup: null,
+        currentAxesHelper: null,
+        currentNodalOverlay: null,
+        currentAtoms: null,
+        currentLayers: new Map(),
+        currentSlicePlane: null,
+        currentMeshData: null,
+        currentAnimation: null,
+        currentJob: null,
+        isDisposed: false  // Initialize the flag
+    };
+    context.detachSlicePlaneDragging = attachSlicePlaneDragging(context);
+    
+    startAnimationLoop(context);
+    return context;
+}
+
+
+export function cleanupVisualizer(context: VisualizerContext | null) {
+    if (context) {
+        context.isDisposed = true;  // Set flag first
+        context.currentJob?.cancel();
+        if (context.animationFrameId) {
+            cancelAnimationFrame(context.animationFrameId);
+            context.animationFrameId = undefined;
+        }
+        clearCurrentOrbital(context, context.scene); // Ensure orbital is cleared
+        if (context.currentAxesHelper) {
+            context.scene.remove(context.currentAxesHelper);
+            context.currentAxesHelper.dispose();
+            context.currentAxesHelper = null;
+        }
+        removeNodalOverlay(context);
+        removeAtoms(context);
+        removeLayers(context);
+        removeSlicePlane(context);
+        context.detachSlicePlaneDragging?.();
+        if (context.controls) {
+            context.controls.dispose();
+        }
+        if (context.renderer) {
+            context.renderer.domElement.remove();
+            context.renderer.dispose();
+        }
+        // The calling component will nullify its reference to the context
+        console.log("Visualizer cleaned up.");
+    }
+}
+
+
+/**
+ * Computes the orbital in a worker and replaces the current one in the scene.
+ * A newer call on the same context cancels this one, whose promise then rejects (see isJobCancelled).
+ * @param onProgress Called with the fraction of the calculation done.
+ * @returns The isosurface that was drawn, or null in the volume and points modes.
+ */
+export async function updateOrbitalInScene(
+    context: VisualizerContext | null,
+    params: OrbitalParams,
+    showAxes: boolean = true,
+    onProgress?: (progress: number) => void
+): Promise<SurfaceInfo | null> {
+    if (!context) return null;
+
+    // Leaving an imported grid: drop its nuclei and orbit the origin again
+    removeAtoms(context);
+    context.controls.target.set(0, 0, 0);
+
+    console.log('Visualizer: Starting worker calculation');
+
+    // Stationary states (a single energy level) have nothing to animate
+    const beatPeriod = getBeatPeriod(getOrbitalComponents(params), params.Z);
+
+    const workerRMax = resolveRMax(params);
+
+    let workerIsoLevel = params.isoLevel;
+    if (isNaN(workerIsoLevel) && params.enclosedProbability === undefined) {
+        workerIsoLevel = getOptimizedParameters(params.n, params.l, params.Z).isoLevel;
+    }
+
+    // Update or remove axes helper based on showAxes and the rMax to be used
+    if (showAxes) {
+        addAxesHelper(context, workerRMax);
+    } else {
+        removeAxesHelper(context); // Ensure axes are removed if showAxes is false
+    }
+
+    // Send original params for n, l, ml, Z, resolution
+    // but use the sanitized/defaulted rMax and isoLevel
+    const workerParams: OrbitalParams = { ...params, rMax: workerRMax, isoLevel: workerIsoLevel };
+    const frameCount = params.frameCount ?? 0;
+    const options: JobOptions = { priority: 'high', onProgress };
+
+    if (params.renderMode === 'volume') {
+        const volumeData = await runSceneJob(context, () => runGridJob(workerParams, options));
+        if (context.isDisposed) {
+            return null;
+        }
+        console.log('Visualizer: Received volume data from workers');
+        updateSceneWithVolumeData(context, volumeData, params);
+        return null;
+    }
+
+    let start: () => WorkerJob<WorkerResult>;
+    if (params.renderMode === 'points') {
+        start = () => runWorkerJob({ type: 'calculatePoints', params: workerParams }, options);
+    } else if (frameCount > 1 && beatPeriod !== null) {
+        const times = getAnimationFrameTimes(beatPeriod, frameCount);
+        start = () => runWorkerJob({ type: 'calculateFrames', params: workerParams, times }, options);
+    } else if (params.extraction === 'adaptive') {
+        // The octree is built where the surface is, so the worker samples it as it goes
+        start = () => runWorkerJob({ type: 'calculate', params: workerParams }, options);
+    } else {
+        // The grid is sampled by every worker at once; one of them then extracts the surface
+        start = () => chainJobs(
+            runGridJob(workerParams, { ...options, onProgress: progress => onProgress?.(progress * GRID_PROGRESS_SHARE) }),
+            grid => runWorkerJob({ type: 'calculate', params: workerParams, grid }, {
+                ...options,
+                onProgress: progress => onProgress?.(GRID_PROGRESS_SHARE + progress * (1 - GRID_PROGRESS_SHARE))
+            })
+        );
+    }
+
+    const result = await runSceneJob(context, start);
+    if (context.isDisposed) {
+        return null;
+    }
+    const reply = expectWorkerResult(result, 'success', 'frames', 'points');
+    try {
+        if (reply.type === 'success') {
+            console.log('Visualizer: Received mesh data from worker');
+            updateSceneWithMeshData(context, reply.meshData, params.basis);
+            return reply.surfaceInfo;
+        } else if (reply.type === 'points') {
+            console.log('Visualizer: Received point cloud from worker', reply.pointCloud.positions.length);
+            updateSceneWithPointCloud(context, reply.pointCloud, params);
+            return null;
+        }
+        console.log('Visualizer: Received animation frames from worker', reply.frames.length);
+        updateSceneWithAnimationFrames(context, reply.frames, params, beatPeriod!);
+        return reply.surfaceInfo;
+    } catch (error) {
+        console.error('Visualizer: Error processing mesh data:', error);
+        throw error;
+    }
+}
+
+
+/**
+ * Draws the isosurfaces of an imported cube grid (at ±isoLevel for an orbital) and its
+ * nuclei, computed in the worker like the analytic orbitals.
+ * @returns The surface drawn and the fraction of Σ|ψ|² (or of the density) it encloses.
+ */
+export async function updateImportedCubeInScene(
+    context: VisualizerContext | null,
+    cube: ImportedCube,
+    isoLevel: number,
+    showAxes: boolean = true,
+    onProgress?: (progress: number) => void
+): Promise<SurfaceInfo | null> {
+    if (!context) return null;
+
+    const origin = getGridOrigin(cube.data);
+    const spacing = getGridSpacing(cube.data);
+    const halfExtents = spacing.map((step, axis) => (step * (cube.data.dims[axis] - 1)) / 2);
+    const center = origin.map((c, axis) => c + halfExtents[axis]);
+
+    if (showAxes) {
+        addAxesHelper(context, Math.max(...halfExtents));
+    } else {
+        removeAxesHelper(context);
+    }
+    updateAtoms(context, cube.atoms);
+    context.controls.target.set(center[0], center[1], center[2]);
+
+    const result = await runSceneJob(context, () => runWorkerJob(
+        { type: 'calculateImported', grid: cube.data, isoLevel, signed: cube.signed },
+        { priority: 'high', onProgress }
+    ));
+    if (context.isDisposed) {
+        return null;
+    }
+    const reply = expectWorkerResult(result, 'success');
+    console.log('Visualizer: Received imported mesh data from worker');
+    updateSceneWithMeshData(context, reply.meshData);
+    return reply.surfaceInfo;
+}
+
+/**
+ * Draws the overlaid orbital layers over the current orbital. Each layer whose geometry changed
+ * is recomputed by its own worker job, cancelling the job of its previous geometry; the others
+ * are only restyled.
+ * @param resolution Grid resolution of every layer's isosurface.
+ * @returns Once every new surface is drawn. A layer that fails is left out and logged.
+ */
+export async function updateLayersInScene(
+    context: VisualizerContext | null,
+    layers: OrbitalLayer[],
+    resolution: number
+): Promise<void> {
+    if (!context) return;
+
+    const ids = new Set(layers.map(layer => layer.id));
+    context.currentLayers.forEach((entry, id) => {
+        if (!ids.has(id)) {
+            removeLayerEntry(context, entry);
+            context.currentLayers.delete(id);
+        }
+    });
+
+    await Promise.all(layers.map(async layer => {
+        const key = getLayerGeometryKey(layer, resolution);
+        const existing = context.currentLayers.get(layer.id);
+        if (existing?.key === key) {
+            if (existing.group) {
+                styleLayerGroup(existing.group, layer);
+            }
+            return;
+        }
+        if (existing) {
+            removeLayerEntry(context, existing);
+        }
+        const job = runWorkerJob({ type: 'calculate', params: getLayerParams(layer, resolution) });
+        const entry: LayerEntry = { key, group: null, job };
+        context.currentLayers.set(layer.id, entry);
+
+        try {
+            const result = await job.result;
+            entry.job = null;
+            const reply = expectWorkerResult(result, 'success');
+            // The layer may have been removed or changed while its job ran
+            if (context.isDisposed || context.currentLayers.get(layer.id) !== entry) return;
+            entry.group = createLayerGroup(reply.meshData, layer);
+            context.scene.add(entry.group);
+            applySlicePlaneClipping(context);
+        } catch (error) {
+            if (isJobCancelled(error)) return;
+            console.error(`Visualizer: Could not compute layer ${layer.id}:`, error);
+            if (context.currentLayers.get(layer.id) === entry) {
+                context.currentLayers.delete(layer.id);
+            }
+        }
+    }));
+}
+
+/**
+ * Samples ψ and |ψ|² on the orbital's grid in the workers, without touching the scene.
+ * Used for exporting volume data in any render mode.
+ */
+export async function calculateOrbitalGrid(params: OrbitalParams, options: JobOptions = {}): Promise<OrbitalData> {
+    return runGridJob({ ...params, rMax: resolveRMax(params) }, { priority: 'low', ...options }).result;
+}
+
+/**
+ * Shows the precomputed frame closest to `time` (atomic units), wrapping around the beat period.
+ * Does nothing when the current orbital has no animation frames.
+ */
+export function setAnimationTime(context: VisualizerContext | null, time: number) {
+    if (!context || !context.currentAnimation) return;
+    const animation = context.currentAnimation;
+    animation.time = ((time % animation.period) + animation.period) % animation.period;
+    showAnimationFrame(context, animation);
+}
+
+/**
+ * Starts or pauses playback of the precomputed frames in the render loop.
+ * @param onTimeChange Called whenever playback moves on to another frame.
+ */
+export function setAnimationPlaying(
+    context: VisualizerContext | null,
+    isPlaying: boolean,
+    onTimeChange?: (time: number) => void
+) {
+    if (!context || !context.currentAnimation) return;
+    context.currentAnimation.isPlaying = isPlaying;
+    context.currentAnimation.onTimeChange = onTimeChange;
+    context.currentAnimation.lastTimestamp = undefined;
+}
+
+/**
+ * Where the camera is and what it orbits.
+ */
+export function getCameraPose(context: VisualizerContext): CameraPose {
+    const { position } = context.camera;
+    const { target } = context.controls;
+    return { position: [position.x, position.y, position.z], target: [target.x, target.y, target.z] };
+}
+
+/**
+ * Moves the camera, e.g. to the pose saved in a link.
+ */
+export function setCameraPose(context: VisualizerContext | null, pose: CameraPose) {
+    if (!context) return;
+    context.camera.position.set(...pose.position);
+    context.controls.target.set(...pose.target);
+    context.controls.update();
+}
+
+/**
+ * Calls `listener` with the new pose whenever the user finishes moving the camera.
+ * @returns A function that removes the listener.
+ */
+export function addCameraChangeListener(context: VisualizerContext, listener: (pose: CameraPose) => void): () => void {
+    const onEnd = () => listener(getCameraPose(context));
+    context.controls.addEventListener('end', onEnd);
+    return () => context.controls.removeEventListener('end', onEnd);
+}
+
+/**
+ * Visualizers whose cameras move together while `enabled` is set, for side-by-side panes.
+ */
+export interface CameraLink {
+    contexts: Set<VisualizerContext>;
+    enabled: boolean;
+    isSyncing: boolean; // Set while copying a pose, so the copies do not echo back
+}
+
+export function createCameraLink(): CameraLink {
+    return { contexts: new Set(), enabled: false, isSyncing: false };
+}
+
+/**
+ * Adds a visualizer to a camera link: whenever its camera moves, the others copy its pose.
+ * @returns A function that takes it out of the link again.
+ */
+export function joinCameraLink(link: CameraLink, context: VisualizerContext): () => void {
+    const onChange = () => {
+        if (!link.enabled || link.isSyncing) return;
+        link.isSyncing = true;
+        try {
+            link.contexts.forEach(other => {
+                if (other === context || other.isDisposed) return;
+                other.camera.position.copy(context.camera.position);
+                other.camera.quaternion.copy(context.camera.quaternion);
+                other.controls.target.copy(context.controls.target);
+                other.controls.update();
+            });
+        } finally {
+            link.isSyncing = false;
+        }
+    };
+    link.contexts.add(context);
+    context.controls.addEventListener('change', onChange);
+    return () => {
+        context.controls.removeEventListener('change', onChange);
+        link.contexts.delete(context);
+    };
+}
+
+/**
+ * The isosurface currently on screen (the visible frame when animating), or null when
+ * nothing is shown or the orbital is drawn as a volume or point cloud.
+ */
+export function getCurrentMeshData(context: VisualizerContext | null): MeshData | null {
+    return context?.currentMeshData ?? null;
+}
+
+// --- Helper Functions ---
+function showAnimationFrame(context: VisualizerContext, animation: OrbitalAnimation) {
+    const frameCount = animation.frames.length;
+    const index = Math.round((animation.time / animation.period) * frameCount) % frameCount;
+    if (index === animation.visibleFrameIndex) return;
+
+    animation.frames[animation.visibleFrameIndex].mesh.visible = false;
+    animation.frames[index].mesh.visible = true;
+    animation.visibleFrameIndex = index;
+    context.currentMeshData = animation.frames[index].meshData;
+    animation.onTimeChange?.(animation.frames[index].time);
+}
+
+function advanceAnimation(context: VisualizerContext, timestamp: number) {
+    const animation = context.currentAnimation;
+    if (!animation || !animation.isPlaying) return;
+
+    if (animation.lastTimestamp !== undefined) {
+        const elapsedSeconds = (timestamp - animation.lastTimestamp) / 1000;
+        animation.time = (animation.time + elapsedSeconds * (animation.period / SECONDS_PER_PERIOD)) % animation.period;
+        showAnimationFrame(context, animation);
+    }
+    animation.lastTimestamp = timestamp;
+}
+
+function createLayerGroup(meshData: MeshData, layer: OrbitalLayer): THREE.Group {
+    const geometry = new THREE.BufferGeometry();
+    setMeshGeometry(geometry, meshData);
+    geometry.userData.psiSigns = meshData.psiSigns;
+
+    const material = new THREE.MeshStandardMaterial({
+        vertexColors: true,
+        side: THREE.DoubleSide,
+        transparent: true,
+        wireframe: true // Like the main orbital
+    });
+
+    const group = new THREE.Group();
+    group.add(new THREE.Mesh(geometry, material));
+    styleLayerGroup(group, layer);
+    return group;
+}
+
+// Applies a layer's colour pair, opacity and visibility without touching its geometry
+function styleLayerGroup(group: THREE.Group, layer: OrbitalLayer) {
+    const mesh = group.children[0] as THREE.Mesh<THREE.BufferGeometry, THREE.MeshStandardMaterial>;
+    const psiSigns: Int8Array = mesh.geometry.userData.psiSigns;
+    const colors = new Float32Array(psiSigns.length * 3);
+    psiSigns.forEach((sign, index) => {
+        colors.set(sign === 1 ? layer.positiveColor : layer.negativeColor, index * 3);
+    });
+    mesh.geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    mesh.material.opacity = layer.opacity;
+    mesh.material.depthWrite = layer.opacity >= 1; // Let the layers behind show through
+    group.visible = layer.visible;
+}
+
+function removeLayerEntry(context: VisualizerContext, entry: LayerEntry) {
+    entry.job?.cancel();
+    entry.job = null;
+    if (entry.group) {
+        context.scene.remove(entry.group);
+        disposeObject(entry.group);
+        entry.group = null;
+    }
+}
+
+function removeLayers(context: VisualizerContext) {
+    context.currentLayers.forEach(entry => removeLayerEntry(context, entry));
+    context.currentLayers.clear();
+}
+
+// Frees the geometries, materials and textures of every mesh and point cloud below object
+function disposeObject(object: THREE.Object3D) {
+    object.traverse((child) => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.Points) {
+            if (child.geometry) {
+                child.geometry.dispose();
+            }
+            if (child.material) {
+                if (Array.isArray(child.material)) {
+                    child.material.forEach(mat => mat.dispose());
+                } else {
+                    disposeMaterialTextures(child.material);
+                    child.material.dispose();
+                }
+            }
+        }
+    });
+}
+
+function clearCurrentOrbital(context: VisualizerContext, scene: THREE.Scene) {
+    if (!context) return;
+
+    context.currentAnimation = null;
+    context.currentMeshData = null;
+    
+    console.log('Clearing orbital...', {
+        hasGroup: !!context.currentOrbitalGroup,
+        childCount: context.currentOrbitalGroup?.children.length
+    });
+    
+    if (context.currentOrbitalGroup) {
+        // Dispose of all children first
+        disposeObject(context.currentOrbitalGroup);
+
+        // Remove from scene
+        scene.remove(context.currentOrbitalGroup);
+        context.currentOrbitalGroup = null;
+        
+        // Force scene update
+        scene.updateMatrixWorld(true);
+    }
+}
+
+function disposeMaterialTextures(material: THREE.Material) {
+    if (material instanceof THREE.ShaderMaterial) {
+        Object.values(material.uniforms).forEach(uniform => {
+            if (uniform.value instanceof THREE.Texture) {
+                uniform.value.dispose();
+            }
+        });
+    }
+}
+
+function startAnimationLoop(context: VisualizerContext) {
+    if (!context) return;
+    const { renderer, scene, camera, controls } = context;
+    
+    function animate(timestamp: number) {
+        if (!context || context.isDisposed) {
+            return;
+        }
+        
+        advanceAnimation(context, timestamp);
+        controls.update();
+        renderer.render(scene, camera);
+        context.animationFrameId = requestAnimationFrame(animate);
+    }
+    
+    // Start the animation
+    context.animationFrameId = requestAnimationFrame(animate);
+}
+
+/**
+ * Builds per-vertex RGB colours: red/blue by the sign of ψ in the real basis,
+ * or a hue from the phase of ψ in the complex basis.
+ */
+function createVertexColors(psiSigns: Int8Array | number[], psiPhases: Float32Array | number[], basis: OrbitalBasis = 'real'): Float32Array {
+    const colors = new Float32Array(psiSigns.length * 3); // RGB for each vertex
+
+    if (basis === 'complex') {
+        // Assign colors from the complex phase of ψ (hue wheel)
+        const phaseColor = new THREE.Color();
+        psiPhases.forEach((phase, index) => {
+            phaseToColor(phase, phaseColor);
+            phaseColor.toArray(colors, index * 3);
+        });
+    } else {
+        // Assign colors based on ψ sign
+        psiSigns.forEach((sign, index) => {
+            const colorIndex = index * 3;
+            if (sign === 1) {
+                colors[colorIndex] = 1; // Red
+                colors[colorIndex + 1] = 0;
+                colors[colorIndex + 2] = 0;
+            } else {
+                colors[colorIndex] = 0; // Blue
+                colors[colorIndex + 1] = 0;
+                colors[colorIndex + 2] = 1;
+            }
+        });
+    }
+    return colors;
+}
+
+// Uses the worker's arrays as they are; nothing is copied or recomputed on the main thread
+function setMeshGeometry(geometry: THREE.BufferGeometry, meshData: MeshData) {
+    geometry.setAttribute('position', new THREE.BufferAttribute(meshData.positions, 3));
+    geometry.setAttribute('normal', new THREE.BufferAttribute(meshData.normals, 3));
+    geometry.setIndex(new THREE.BufferAttribute(meshData.indices, 1));
+}
+
+function createOrbitalMesh(meshData: MeshData, basis: OrbitalBasis = 'real'): THREE.Mesh {
+    const geometry = new THREE.BufferGeometry();
+    const colors = createVertexColors(meshData.psiSigns, meshData.psiPhases, basis);
+
+    setMeshGeometry(geometry, meshData);
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+
+    const material = new THREE.MeshStandardMaterial({
+        vertexColors: true,     // Wireframe lines will use vertex colors
+        side: THREE.DoubleSide,
+        transparent: true,      // Can be true if you want transparent wireframe (e.g., for fading)
+        opacity: 1.0,           // Or lower if transparent wireframe is desired
+        wireframe: true
+    });
+
+    return new THREE.Mesh(geometry, material);
+}
+
+// Modified updateSceneWithMeshData to include better error handling
+function updateSceneWithMeshData(context: VisualizerContext, meshData: MeshData, basis: OrbitalBasis = 'real') {
+    if (!context || context.isDisposed) {
+        console.warn('Visualizer: Cannot update scene - context is disposed or null');
+        return;
+    }
+
+    try {
+        clearCurrentOrbital(context, context.scene);
+
+        const mesh = createOrbitalMesh(meshData, basis);
+        const group = new THREE.Group();
+        group.add(mesh);
+
+        context.scene.add(group);
+        context.currentOrbitalGroup = group;
+        context.currentMeshData = meshData;
+        applySlicePlaneClipping(context);
+    } catch (error) {
+        console.error('Visualizer: Error creating mesh:', error);
+        throw error;
+    }
+}
+
+function updateSceneWithAnimationFrames(
+    context: VisualizerContext,
+    frames: AnimationFrameData[],
+    params: OrbitalParams,
+    period: number
+) {
+    if (!context || context.isDisposed) {
+        console.warn('Visualizer: Cannot update scene - context is disposed or null');
+        return;
+    }
+
+    try {
+        clearCurrentOrbital(context, context.scene);
+
+        const group = new THREE.Group();
+        const animationFrames = frames.map(({ time, meshData }) => {
+            const mesh = createOrbitalMesh(meshData, params.basis);
+            mesh.visible = false;
+            group.add(mesh);
+            return { time, mesh, meshData };
+        });
+        animationFrames[0].mesh.visible = true;
+
+        context.scene.add(group);
+        context.currentOrbitalGroup = group;
+        context.currentMeshData = frames[0].meshData;
+        applySlicePlaneClipping(context);
+        context.currentAnimation = {
+            frames: animationFrames,
+            period,
+            time: 0,
+            isPlaying: false,
+            visibleFrameIndex: 0
+        };
+        setAnimationTime(context, params.time ?? 0);
+    } catch (error) {
+        console.error('Visualizer: Error creating animation frames:', error);
+        throw error;
+    }
+}
+
+function createVolumeMesh(volumeData: OrbitalData, params: OrbitalParams): THREE.Mesh {
+    const { dims, minVal, maxVal } = volumeData;
+    const texels = buildVolumeTextureData(volumeData, params.transferFunction ?? defaultTransferFunction);
+
+    const texture = new THREE.Data3DTexture(texels, dims[0], dims[1], dims[2]);
+    texture.format = THREE.RGBAFormat;
+    texture.type = THREE.UnsignedByteType;
+    texture.minFilter = THREE.LinearFilter;
+    texture.magFilter = THREE.LinearFilter;
+    texture.unpackAlignment = 1;
+    texture.needsUpdate = true;
+
+    const material = new THREE.ShaderMaterial({
+        glslVersion: THREE.GLSL3,
+        uniforms: {
+            map: { value: texture },
+            steps: { value: Math.max(...dims) },
+            voxelSize: { value: 1 / (Math.max(...dims) - 1) } // Grid spacing in the unit box
+        },
+        vertexShader: volumeVertexShader,
+        fragmentShader: volumeFragmentShader,
+        side: THREE.BackSide, // Back faces, so the ray still starts when the camera is inside the box
+        transparent: true,
+        depthWrite: false
+    });
+
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), material);
+    mesh.scale.setScalar(maxVal - minVal); // Unit box → [-rMax, rMax]^3
+    return mesh;
+}
+
+function updateSceneWithVolumeData(context: VisualizerContext, volumeData: OrbitalData, params: OrbitalParams) {
+    if (!context || context.isDisposed) {
+        console.warn('Visualizer: Cannot update scene - context is disposed or null');
+        return;
+    }
+
+    try {
+        clearCurrentOrbital(context, context.scene);
+
+        const group = new THREE.Group();
+        group.add(createVolumeMesh(volumeData, params));
+
+        context.scene.add(group);
+        context.currentOrbitalGroup = group;
+        applySlicePlaneClipping(context);
+    } catch (error) {
+        console.error('Visualizer: Error creating volume:', error);
+        throw error;
+    }
+}
+
+function createPointCloud(pointCloud: PointCloudData, params: OrbitalParams): THREE.Points {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(pointCloud.positions.flat(), 3));
+    geometry.setAttribute('color', new THREE.Float32BufferAttribute(
+        createVertexColors(pointCloud.psiSigns, pointCloud.psiPhases, params.basis), 3
+    ));
+
+    const material = new THREE.PointsMaterial({
+        vertexColors: true,
+        size: params.rMax / 150, // World units, so the cloud looks the same at every rMax
+        sizeAttenuation: true,
+        transparent: true,
+        opacity: 0.6,
+        depthWrite: false
+    });
+
+    return new THREE.Points(geometry, material);
+}
+
+function updateSceneWithPointCloud(context: VisualizerContext, pointCloud: PointCloudData, params: OrbitalParams) {
+    if (!context || context.isDisposed) {
+        console.warn('Visualizer: Cannot update scene - context is disposed or null');
+        return;
+    }
+
+    try {
+        clearCurrentOrbital(context, context.scene);
+
+        const group = new THREE.Group();
+        group.add(createPointCloud(pointCloud, params));
+
+        context.scene.add(group);
+        context.currentOrbitalGroup = group;
+        applySlicePlaneClipping(context);
+    } catch (error) {
+        console.error('Visualizer: Error creating point cloud:', error);
+        throw error;
+    }
+}
+
+/**
+ * Maps a complex phase arg(ψ) in radians onto the hue wheel:
+ * 0 → red, π/2 → yellow-green, ±π → cyan, -π/2 → violet.
+ */
+function phaseToColor(phase: number, target: THREE.Color): THREE.Color {
+    const turn = phase / (2 * Math.PI);
+    const hue = turn - Math.floor(turn); // Wrap into [0, 1)
+    return target.setHSL(hue, 1, 0.5);
+}
+
+function addAxesHelper(context: VisualizerContext, size: number) {
+    if (!context) return;
+    
+    // Remove existing axes if any
+    removeAxesHelper(context);
+    
+    // Create and add new axes
+    const axesHelper = new THREE.AxesHelper(size);
+    context.scene.add(axesHelper);
+    context.currentAxesHelper = axesHelper;
+}
+
+/**
+ * Shows translucent nodal spheres, planes and cones of the orbital described by params,
+ * sized to the same box as the orbital. Superpositions have no such overlay.
+ */
+export function updateNodalOverlay(context: VisualizerContext | null, params: OrbitalParams | null, visible: boolean) {
+    if (!context) return;
+
+    removeNodalOverlay(context);
+    if (!visible || !params) return;
+
+    const surfaces = findNodalSurfaces(params);
+    if (!surfaces) return;
+
+    const overlay = createNodalOverlay(surfaces, resolveRMax(params));
+    context.scene.add(overlay);
+    context.currentNodalOverlay = overlay;
+}
+
+function createNodalOverlay(surfaces: NodalSurfaces, rMax: number): THREE.Group {
+    const group = new THREE.Group();
+    const angularMaterial = new THREE.MeshBasicMaterial({
+        color: 0xcccccc,
+        transparent: true,
+        opacity: 0.15,
+        side: THREE.DoubleSide,
+        depthWrite: false
+    });
+    const radialMaterial = new THREE.MeshBasicMaterial({
+        color: 0xffd54f,
+        transparent: true,
+        opacity: 0.12,
+        side: THREE.DoubleSide,
+        depthWrite: false
+    });
+
+    surfaces.radialSpheres.forEach(radius => {
+        group.add(new THREE.Mesh(new THREE.SphereGeometry(radius, 48, 24), radialMaterial));
+    });
+
+    surfaces.planes.forEach(({ phi }) => {
+        // PlaneGeometry lies in xy; stand it up in xz, then turn it to contain (cos φ, sin φ, 0)
+        const geometry = new THREE.PlaneGeometry(2 * rMax, 2 * rMax);
+        geometry.rotateX(Math.PI / 2);
+        geometry.rotateZ(phi);
+        group.add(new THREE.Mesh(geometry, angularMaterial));
+    });
+
+    surfaces.cones.forEach(({ theta }) => {
+        // Lathe the generator from the apex at the origin out to radius rMax around y, then turn y into z
+        const geometry = new THREE.LatheGeometry(
+            [new THREE.Vector2(0, 0), new THREE.Vector2(rMax * Math.sin(theta), rMax * Math.cos(theta))],
+            64
+        );
+        geometry.rotateX(Math.PI / 2);
+        group.add(new THREE.Mesh(geometry, angularMaterial));
+    });
+
+    return group;
+}
+
+// Approximate CPK colours and radii (Bohr) of the nuclei most common in cube files
+const atomStyles: Record<number, { color: number; radius: number }> = {
+    1: { color: 0xffffff, radius: 0.3 },
+    6: { color: 0x909090, radius: 0.5 },
+    7: { color: 0x3050f8, radius: 0.5 },
+    8: { color: 0xff0d0d, radius: 0.5 },
+    9: { color: 0x90e050, radius: 0.45 },
+    15: { color: 0xff8000, radius: 0.6 },
+    16: { color: 0xffff30, radius: 0.6 },
+    17: { color: 0x1ff01f, radius: 0.6 },
+};
+const defaultAtomStyle = { color: 0xff1493, radius: 0.55 };
+
+/**
+ * Draws the nuclei of an imported cube file as spheres, replacing any drawn before.
+ */
+function updateAtoms(context: VisualizerContext, atoms: CubeAtom[]) {
+    removeAtoms(context);
+    if (atoms.length === 0) return;
+
+    const group = new THREE.Group();
+    atoms.forEach(({ atomicNumber, position }) => {
+        const { color, radius } = atomStyles[atomicNumber] ?? defaultAtomStyle;
+        const sphere = new THREE.Mesh(
+            new THREE.SphereGeometry(radius, 24, 16),
+            new THREE.MeshStandardMaterial({ color, roughness: 0.4 })
+        );
+        sphere.position.set(position[0], position[1], position[2]);
+        group.add(sphere);
+    });
+    context.scene.add(group);
+    context.currentAtoms = group;
+}
+
+function removeAtoms(context: VisualizerContext) {
+    if (!context || !context.currentAtoms) return;
+
+    context.currentAtoms.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+            child.geometry.dispose();
+            (child.material as THREE.Material).dispose();
+        }
+    });
+    context.scene.remove(context.currentAtoms);
+    context.currentAtoms = null;
+}
+
+function removeNodalOverlay(context: VisualizerContext) {
+    if (!context || !context.currentNodalOverlay) return;
+
+    const materials = new Set<THREE.Material>();
+    context.currentNodalOverlay.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+            child.geometry.dispose();
+            materials.add(child.material as THREE.Material);
+        }
+    });
+    materials.forEach(material => material.dispose());
+    context.scene.remove(context.currentNodalOverlay);
+    context.currentNodalOverlay = null;
+}
+
+/**
+ * Shows the slice plane in the scene and clips the orbital on its positive side, or removes
+ * both when `slice` is null. Dragging the plane moves it along its normal and reports the
+ * new offset through onOffsetChange.
+ */
+export function updateSlicePlane(
+    context: VisualizerContext | null,
+    slice: SlicePlane | null,
+    rMax: number,
+    onOffsetChange?: (offset: number) => void
+) {
+    if (!context) return;
+
+    const current = context.currentSlicePlane;
+    if (slice && current && current.rMax === rMax && current.slice.normal.every((c, i) => c === slice.normal[i])) {
+        // Same plane orientation: just move it, so that dragging does not rebuild the geometry
+        current.onOffsetChange = onOffsetChange;
+        setSlicePlaneOffset(current, slice.offset);
+        return;
+    }
+
+    removeSlicePlane(context);
+    if (slice) {
+        const normal = new THREE.Vector3(...slice.normal).normalize();
+        const helper = new THREE.Group();
+        const geometry = new THREE.PlaneGeometry(2 * rMax, 2 * rMax);
+        helper.add(new THREE.Mesh(geometry, new THREE.MeshBasicMaterial({
+            color: 0x4fc3f7,
+            transparent: true,
+            opacity: 0.15,
+            side: THREE.DoubleSide,
+            depthWrite: false
+        })));
+        helper.add(new THREE.LineSegments(new THREE.EdgesGeometry(geometry), new THREE.LineBasicMaterial({ color: 0x4fc3f7 })));
+        helper.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal);
+        context.scene.add(helper);
+
+        context.currentSlicePlane = {
+            slice: { ...slice },
+            rMax,
+            clippingPlane: new THREE.Plane(normal.clone().negate(), slice.offset),
+            helper,
+            onOffsetChange
+        };
+        setSlicePlaneOffset(context.currentSlicePlane, slice.offset);
+    }
+    applySlicePlaneClipping(context);
+}
+
+function setSlicePlaneOffset(state: SlicePlaneState, offset: number) {
+    const normal = new THREE.Vector3(...state.slice.normal).normalize();
+    state.slice.offset = offset;
+    state.clippingPlane.constant = offset;
+    state.helper.position.copy(normal.multiplyScalar(offset));
+}
+
+function removeSlicePlane(context: VisualizerContext) {
+    if (!context || !context.currentSlicePlane) return;
+
+    context.currentSlicePlane.helper.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+            child.geometry.dispose();
+            (child.material as THREE.Material).dispose();
+        }
+    });
+    context.scene.remove(context.currentSlicePlane.helper);
+    context.currentSlicePlane = null;
+}
+
+// Clips every material of the current orbital and its layers by the slice plane, if there is one
+function applySlicePlaneClipping(context: VisualizerContext) {
+    const clippingPlanes = context.currentSlicePlane ? [context.currentSlicePlane.clippingPlane] : [];
+    const groups = [context.currentOrbitalGroup, ...Array.from(context.currentLayers.values(), entry => entry.group)];
+    groups.forEach(group => group?.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.Points) {
+            const material = child.material as THREE.Material;
+            // The volume ray-marcher has no clipping support in its shader
+            if (!(material instanceof THREE.ShaderMaterial)) {
+                material.clippingPlanes = clippingPlanes;
+                material.needsUpdate = true;
+            }
+        }
+    }));
+}
+
+/**
+ * Lets the user drag the slice plane along its normal. Listeners run in the capture phase,
+ * so OrbitControls can be disabled before it starts rotating the camera.
+ * @returns A function that removes the listeners.
+ */
+function attachSlicePlaneDragging(context: VisualizerContext): () => void {
+    const { camera, controls, renderer } = context;
+    const element = renderer.domElement;
+    const raycaster = new THREE.Raycaster();
+
+    const setRayFromEvent = (e: PointerEvent) => {
+        const rect = element.getBoundingClientRect();
+        const pointer = new THREE.Vector2(
+            ((e.clientX - rect.left) / rect.width) * 2 - 1,
+            -((e.clientY - rect.top) / rect.height) * 2 + 1
+        );
+        raycaster.setFromCamera(pointer, camera);
+    };
+
+    // Parameter t of the point t·n on the normal axis closest to the pointer ray
+    const axisParameter = (normal: THREE.Vector3): number | null => {
+        const { origin, direction } = raycaster.ray;
+        const b = normal.dot(direction);
+        const denominator = 1 - b * b;
+        if (denominator < 1e-6) {
+            return null; // Looking straight along the normal
+        }
+        return (normal.dot(origin) - b * direction.dot(origin)) / denominator;
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+        const state = context.currentSlicePlane;
+        if (!state) return;
+        setRayFromEvent(e);
+        if (raycaster.intersectObject(state.helper, true).length === 0) return;
+
+        const t = axisParameter(new THREE.Vector3(...state.slice.normal).normalize());
+        if (t === null) return;
+        state.dragGrab = t - state.slice.offset;
+        controls.enabled = false;
+        element.setPointerCapture(e.pointerId);
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+        const state = context.currentSlicePlane;
+        if (!state || state.dragGrab === undefined) return;
+        setRayFromEvent(e);
+        const t = axisParameter(new THREE.Vector3(...state.slice.normal).normalize());
+        if (t === null) return;
+        const offset = Math.max(-state.rMax, Math.min(state.rMax, t - state.dragGrab));
+        setSlicePlaneOffset(state, offset);
+        state.onOffsetChange?.(offset);
+    };
+
+    const onPointerUp = (e: PointerEvent) => {
+        const state = context.currentSlicePlane;
+        if (!state || state.dragGrab === undefined) return;
+        state.dragGrab = undefined;
+        controls.enabled = true;
+        element.releasePointerCapture(e.pointerId);
+    };
+
+    element.addEventListener('pointerdown', onPointerDown, { capture: true });
+    element.addEventListener('pointermove', onPointerMove, { capture: true });
+    element.addEventListener('pointerup', onPointerUp, { capture: true });
+    return () => {
+        element.removeEventListener('pointerdown', onPointerDown, { capture: true });
+        element.removeEventListener('pointermove', onPointerMove, { capture: true });
+        element.removeEventListener('pointerup', onPointerUp, { capture: true });
+    };
+}
+
+function removeAxesHelper(context: VisualizerContext) {
+    if (!context || !context.currentAxesHelper) return;
+    
+    context.scene.remove(context.currentAxesHelper);
+    context.currentAxesHelper.dispose();
+    context.currentAxesHelper = null;
+}
+
+export function handleResize(context: VisualizerContext, width: number, height: number) {
+    if (!context) return;
+    
+    const { camera, renderer } = context;
+    
+    // Update camera aspect ratio
+    if (camera instanceof THREE.PerspectiveCamera) {
+        camera.aspect = width / height;
+        camera.updateProjectionMatrix();
+    }
+    
+    // Update renderer size
+    renderer.setSize(width, height);
+}
@@ -0,0 +1,199 @@
+import { OrbitalData, OrbitalParams } from './types/orbital';
+import { getSuperpositionPotentialFunction, sampleOrbitalGridSlab } from './quantum_functions';
+import { ComputeBackend, jsComputeBackend } from './compute_backend';
+import { getOrbitalComponents } from './orbital_superposition';
+import { combineJobs, WorkerJob } from './worker_pool';
+
+// Samples an orbital's grid in slabs of constant x spread over several workers, then assembles
+// them into exactly the grid sampleOrbitalGrid builds in one go. When the page is cross-origin
+// isolated the workers write straight into SharedArrayBuffers; otherwise each slab is sent back
+// and copied into place.
+
+// The x indices xStart <= xIdx < xEnd of a grid
+export interface GridSlab {
+    xStart: number;
+    xEnd: number;
+}
+
+// |ψ|² and Re(ψ) of some slabs, laid out like the full grid
+export interface SlabArrays {
+    grid: Float32Array;
+    psiGrid: Float32Array;
+}
+
+export interface SlabResult {
+    maxDensity: number;
+    arrays: SlabArrays | null; // Null when the slab was written to shared memory
+}
+
+/**
+ * Starts the job sampling one slab, writing it into `target` when that is given.
+ */
+export type SlabJobRunner = (
+    slab: GridSlab,
+    target: SlabArrays | null,
+    onProgress: (progress: number) => void
+) => WorkerJob<SlabResult>;
+
+export interface ParallelGridOptions {
+    slabCount: number; // Typically one per worker
+    shared?: boolean; // Write into shared memory; defaults to canShareGridMemory()
+    onProgress?: (progress: number) => void;
+}
+
+/**
+ * Splits the x indices of a grid into at most `slabCount` slabs of nearly equal size.
+ */
+export function splitGridIntoSlabs(resolution: number, slabCount: number): GridSlab[] {
+    const count = Math.max(1, Math.min(resolution, Math.floor(slabCount)));
+    return Array.from({ length: count }, (_, i) => ({
+        xStart: Math.floor((i * resolution) / count),
+        xEnd: Math.floor(((i + 1) * resolution) / count),
+    }));
+}
+
+/**
+ * Whether workers can write into memory shared with the page, which browsers only allow
+ * once the page is cross-origin isolated.
+ */
+export function canShareGridMemory(): boolean {
+    return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+}
+
+// A single orbital at time 0 is sampled by the compute backend, which with the JS backend is
+// what generateOrbitalData does, bit for bit
+function sampleSlabArrays(
+    params: OrbitalParams,
+    slab: GridSlab,
+    arrays: SlabArrays,
+    backend: ComputeBackend,
+    onSlab?: () => void
+): number {
+    const { Z, resolution, rMax, basis = 'real', time = 0, condonShortleyPhase = true } = params;
+    const { xStart, xEnd } = slab;
+    if (!params.components?.length && time === 0) {
+        return backend.sampleOrbitalSlab(params, xStart, xEnd, arrays.grid, arrays.psiGrid, onSlab);
+    }
+    const orbitalPotentialFunction = getSuperpositionPotentialFunction(
+        getOrbitalComponents(params), Z, 0, basis, time, condonShortleyPhase
+    );
+    return sampleOrbitalGridSlab(orbitalPotentialFunction, resolution, rMax, xStart, xEnd, arrays.grid, arrays.psiGrid, onSlab);
+}
+
+function allocateGridArray(length: number, shared: boolean): Float32Array {
+    return shared
+        ? new Float32Array(new SharedArrayBuffer(length * Float32Array.BYTES_PER_ELEMENT))
+        : new Float32Array(length);
+}
+
+/**
+ * Samples one slab of the orbital's grid, the work a worker does for each slab job.
+ * @param target Where to write the slab; without it the slab is returned in new arrays.
+ * @param onSlab Called after each x index of the slab is sampled.
+ * @param backend Samples single orbitals (see compute_backend.ts).
+ */
+export function sampleOrbitalSlab(
+    params: OrbitalParams,
+    slab: GridSlab,
+    target: SlabArrays | null,
+    onSlab?: () => void,
+    backend: ComputeBackend = jsComputeBackend
+): SlabResult {
+    const { resolution } = params;
+    const length = (slab.xEnd - slab.xStart) * resolution * resolution;
+    const arrays = target ?? { grid: new Float32Array(length), psiGrid: new Float32Array(length) };
+    if (arrays.grid.length !== length || arrays.psiGrid.length !== length) {
+        throw new Error("Slab arrays do not match the slab's size.");
+    }
+    const maxDensity = sampleSlabArrays(params, slab, arrays, backend, onSlab);
+    return { maxDensity, arrays: target ? null : arrays };
+}
+
+/**
+ * Samples the orbital's whole grid in this thread, as one slab, at params.time.
+ * @param backend Samples single orbitals (see compute_backend.ts).
+ * @param onSlab Called after each x index is sampled.
+ */
+export function sampleOrbitalGridWith(
+    params: OrbitalParams,
+    backend: ComputeBackend = jsComputeBackend,
+    onSlab?: () => void
+): OrbitalData {
+    const { resolution, rMax } = params;
+    if (resolution <= 0 || !Number.isInteger(resolution)) {
+        throw new Error("Resolution must be a positive integer.");
+    }
+    if (rMax <= 0) {
+        throw new Error("rMax must be a positive number.");
+    }
+    const { maxDensity, arrays } = sampleOrbitalSlab(params, { xStart: 0, xEnd: resolution }, null, onSlab, backend);
+    return {
+        grid: arrays!.grid,
+        psiGrid: arrays!.psiGrid,
+        dims: [resolution, resolution, resolution],
+        maxDensity,
+        minVal: -rMax,
+        maxVal: rMax,
+    };
+}
+
+/**
+ * Samples a resolution³ grid from -rMax to rMax as one job per slab, all running side by side.
+ * @returns A job whose result is the assembled grid; cancelling it cancels every slab.
+ */
+export function sampleGridInSlabs(
+    runSlab: SlabJobRunner,
+    resolution: number,
+    rMax: number,
+    options: ParallelGridOptions
+): WorkerJob<OrbitalData> {
+    if (resolution <= 0 || !Number.isInteger(resolution)) {
+        throw new Error("Resolution must be a positive integer.");
+    }
+    if (rMax <= 0) {
+        throw new Error("rMax must be a positive number.");
+    }
+
+    const shared = options.shared ?? canShareGridMemory();
+    const slabLength = resolution * resolution; // Samples in one x index
+    const length = resolution * slabLength;
+    const full: SlabArrays | null = shared
+        ? { grid: allocateGridArray(length, true), psiGrid: allocateGridArray(length, true) }
+        : null;
+
+    const slabs = splitGridIntoSlabs(resolution, options.slabCount);
+    const slabProgress = slabs.map(() => 0);
+    const jobs = slabs.map((slab, i) => {
+        const start = slab.xStart * slabLength;
+        const end = slab.xEnd * slabLength;
+        const target = full && { grid: full.grid.subarray(start, end), psiGrid: full.psiGrid.subarray(start, end) };
+        return runSlab(slab, target, progress => {
+            slabProgress[i] = progress;
+            const done = slabs.reduce((sum, { xStart, xEnd }, j) => sum + slabProgress[j] * (xEnd - xStart), 0);
+            options.onProgress?.(done / resolution);
+        });
+    });
+
+    const combined = combineJobs(jobs);
+    return {
+        ...combined,
+        result: combined.result.then(results => {
+            const grid = full?.grid ?? allocateGridArray(length, false);
+            const psiGrid = full?.psiGrid ?? allocateGridArray(length, false);
+            results.forEach(({ arrays }, i) => {
+                if (arrays) {
+                    grid.set(arrays.grid, slabs[i].xStart * slabLength);
+                    psiGrid.set(arrays.psiGrid, slabs[i].xStart * slabLength);
+                }
+            });
+            return {
+                grid,
+                psiGrid,
+                dims: [resolution, resolution, resolution],
+                maxDensity: results.reduce((max, { maxDensity }) => Math.max(max, maxDensity), 0),
+                minVal: -rMax,
+                maxVal: rMax,
+            };
+        }),
+    };
+}
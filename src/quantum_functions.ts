@@ -1,459 +1,1110 @@
-import { OrbitalDataPoint } from './types/orbital';
-
-const factorialCache: Map<number, number> = new Map();
-const pochhammerCache: Map<string, number> = new Map();
-const laguerreCache: Map<string, number> = new Map();
-const legendreCache: Map<string, number> = new Map();
-const sphericalHarmonicCache: Map<string, number> = new Map();
-const atomicOrbitalCache: Map<string, OrbitalDataPoint> = new Map();
-
-// Note on units:
-// Throughout these functions, the distance 'r' is assumed to be provided in atomic units,
-// specifically in multiples of the Bohr radius (a0).
-// This simplifies the formulas as a0 is effectively treated as 1.
-// The nuclear charge 'Z' is also a dimensionless integer.
-
-/**
- * Calculates the factorial of a non-negative integer with memoization.
- * @param n - The integer.
- * @returns The factorial of n.
- */
-export function factorial(n: number): number {
-    if (n < 0) {
-        throw new Error("Factorial is not defined for negative numbers.");
-    }
-    if (n === 0 || n === 1) {
-        return 1;
-    }
-    if (factorialCache.has(n)) {
-        // Map.get can return undefined, but .has ensures it exists
-        return factorialCache.get(n)!;
-    }
-
-    let result = 1;
-    for (let i = 2; i <= n; i++) {
-        result *= i;
-    }
-    factorialCache.set(n, result);
-    return result;
-}
-
-/**
- * Calculates the Pochhammer symbol (rising factorial) with memoization.
- * (x)_n = x * (x + 1) * ... * (x + n - 1)
- * (x)_0 = 1
- * @param x - The base value.
- * @param n - The number of terms.
- * @returns The Pochhammer symbol value.
- */
-export function pochhammer(x: number, n: number): number {
-    if (n < 0) {
-        throw new Error("Pochhammer symbol is not defined for negative n.");
-    }
-    if (n === 0) {
-        return 1;
-    }
-    const cacheKey = `${x},${n}`;
-    if (pochhammerCache.has(cacheKey)) {
-        return pochhammerCache.get(cacheKey)!;
-    }
-
-    let result = 1;
-    for (let i = 0; i < n; i++) {
-        result *= (x + i);
-    }
-    pochhammerCache.set(cacheKey, result);
-    return result;
-}
-
-/**
- * Calculates the binomial coefficient "n choose k".
- * C(n, k) = n! / (k! * (n - k)!)
- * @param N - The total number of items.
- * @param K - The number of items to choose.
- * @returns The binomial coefficient.
- */
-export function binomialCoefficient(N: number, K: number): number {
-    if (K === 0) { // Explicitly handle K=0: C(N, 0) is always 1, even for negative N
-        return 1;
-    }
-    if (K < 0 || K > N) {
-        return 0; // Standard definition for other cases where K is out of typical range
-    }
-    if (K > N / 2) {
-        K = N - K; // Optimization: C(n, k) = C(n, n-k)
-    }
-
-    // C(N, K) = (N * (N-1) * ... * (N-K+1)) / K!
-    let res = 1;
-    for (let i = 1; i <= K; i++) {
-        res = res * (N - i + 1) / i;
-    }
-    return res;
-}
-
-/**
- * Calculates the generalized Laguerre polynomial L_n^(alpha)(x).
- * Uses the sum formula: L_n^(alpha)(x) = sum_{k=0 to n} ( (-1)^k * C(n + alpha, n - k) * (x^k / k!) )
- *
- * @param n - The degree of the polynomial.
- * @param alpha - The order of the polynomial.
- * @param x - The value at which to evaluate the polynomial.
- * @returns The value of the generalized Laguerre polynomial.
- */
-export function laguerrePolynomial(n: number, alpha: number, x: number): number {
-    if (n < 0) {
-        throw new Error("Laguerre polynomial degree (n) cannot be negative.");
-    }
-    // No specific constraints on alpha or x beyond standard numbers for this formula.
-
-    const cacheKey = `${n},${alpha},${x}`;
-    if (laguerreCache.has(cacheKey)) {
-        return laguerreCache.get(cacheKey)!;
-    }
-
-    let sum = 0;
-    for (let k = 0; k <= n; k++) {
-        // For n=0, k=0: C(alpha, 0)
-        // This is where the fix in binomialCoefficient is crucial.
-        const term = Math.pow(-1, k) *
-                     binomialCoefficient(n + alpha, n - k) *
-                     Math.pow(x, k) /
-                     factorial(k);
-        sum += term;
-    }
-
-    laguerreCache.set(cacheKey, sum);
-    return sum;
-}
-
-/**
- * Calculates the radial wave function R_nl(r) for a hydrogen-like atom.
- * 'r' is expected to be in units of Bohr radii (atomic units).
- * @param n - Principal quantum number.
- * @param l - Azimuthal (angular momentum) quantum number.
- * @param r - Distance from the nucleus in Bohr radii.
- * @param Z - Nuclear charge (defaults to 1 for Hydrogen).
- * @returns The value of the radial wave function.
- */
-export function radialWaveFunction(n: number, l: number, r: number, Z: number = 1): number {
-    // Validate quantum numbers
-    if (n < 1 || !Number.isInteger(n)) {
-        throw new Error("Principal quantum number (n) must be a positive integer.");
-    }
-    if (l < 0 || l > n - 1 || !Number.isInteger(l)) {
-        throw new Error("Azimuthal quantum number (l) must be an integer between 0 and n-1.");
-    }
-    if (r < 0) {
-        throw new Error("Distance (r) cannot be negative.");
-    }
-    if (Z < 1 || !Number.isInteger(Z)) {
-        throw new Error("Nuclear charge (Z) must be a positive integer.");
-    }
-
-    // A term often appears: rho = 2Zr / (n * a0)
-    // Since r is in Bohr radii, and we effectively set a0=1,
-    // rho_prime = 2 * Z * r / n
-    const rho = (2 * Z * r) / n;
-
-    // The normalization constant (the square root part)
-    const normalizationFactor = Math.sqrt(
-        (Math.pow((2 * Z) / n, 3) * factorial(n - l - 1)) /
-        (2 * n * factorial(n + l))
-    );
-
-    // The (rho)^l term
-    const rPowerTerm = Math.pow(rho, l);
-
-    // The exponential term e^(-rho/2) (original formula uses -Zr/na0, which is -rho/2)
-    const expTerm = Math.exp(-rho / 2);
-
-    // The Laguerre polynomial term
-    // n_prime = n - l - 1
-    // alpha_prime = 2l + 1
-    // x_prime = rho (which is 2Zr/na0)
-    const laguerreTerm = laguerrePolynomial(n - l - 1, 2 * l + 1, rho);
-
-    // Combine all parts
-    return normalizationFactor * rPowerTerm * expTerm * laguerreTerm;
-}
-
-/**
- * Calculates the Associated Legendre Polynomial P_l^m(x).
- * Uses a recursive definition with memoization for efficiency.
- * x = cos(theta), so -1 <= x <= 1.
- * @param l - The degree of the polynomial.
- * @param m - The order of the polynomial (abs value corresponds to |m_l|). Must be non-negative.
- * @param x - The value at which to evaluate the polynomial (cos(theta)).
- * @returns The value of P_l^m(x).
- */
-export function associatedLegendrePolynomial(l: number, m: number, x: number): number {
-    if (l < 0 || !Number.isInteger(l)) { // Validate l first
-        throw new Error("Associated Legendre Polynomial 'l' parameter must be a non-negative integer.");
-    }
-    if (m < 0 || !Number.isInteger(m)) { // Validate m is non-negative integer
-        throw new Error("Associated Legendre Polynomial 'm' parameter must be a non-negative integer.");
-    }
-    if (Math.abs(x) > 1 + 1e-9) { // Allow for slight floating point inaccuracies
-        // Clamp x to the valid range if it's very slightly outside due to floating point math
-        x = Math.max(-1, Math.min(1, x));
-        // console.warn(`Associated Legendre Polynomial 'x' parameter was slightly out of [-1, 1] range and clamped. Original: ${originalX}, Clamped: ${x}`);
-    }
-    if (m > l) { // Then apply mathematical rule for m > l
-        return 0;
-    }
-
-    const cacheKey = `${l},${m},${x}`;
-    if (legendreCache.has(cacheKey)) {
-        return legendreCache.get(cacheKey)!;
-    }
-
-    let val;
-
-    if (m === l) {
-        let doubleFactorial = 1;
-        for (let i = 2 * m - 1; i >= 1; i -= 2) {
-            doubleFactorial *= i;
-        }
-        // The Math.pow(-1, m) term is often omitted for real spherical harmonics
-        // as its sign is incorporated into the definition of Y_lm for m < 0.
-        // For P_l^m itself, some definitions include it. We'll omit it here
-        // to align with common real spherical harmonic formulations.
-        val = doubleFactorial * Math.pow(1 - x * x, m / 2);
-    } else if (m === l - 1) {
-        val = x * (2 * m + 1) * associatedLegendrePolynomial(m, m, x); // P_m^m(x)
-    } else {
-        val = (x * (2 * l - 1) * associatedLegendrePolynomial(l - 1, m, x) -
-               (l + m - 1) * associatedLegendrePolynomial(l - 2, m, x)) /
-              (l - m);
-    }
-
-    legendreCache.set(cacheKey, val);
-    return val;
-}
-
-/**
- * Calculates the Real Spherical Harmonic Y_lm_l(theta, phi).
- * This function handles the common real forms used for orbital visualization.
- * Theta and phi are in radians.
- * @param l - The angular momentum quantum number (non-negative integer).
- * @param ml - The magnetic quantum number (integer, -l <= ml <= l).
- * @param theta - The polar angle in radians (0 to PI).
- * @param phi - The azimuthal angle in radians (0 to 2*PI).
- * @returns The value of the real spherical harmonic.
- */
-export function realSphericalHarmonic(l: number, ml: number, theta: number, phi: number): number {
-    // Validate quantum numbers and angles
-    if (l < 0 || !Number.isInteger(l)) {
-        throw new Error("Spherical Harmonic 'l' parameter must be a non-negative integer.");
-    }
-    if (!Number.isInteger(ml) || Math.abs(ml) > l) {
-        throw new Error("Spherical Harmonic 'ml' parameter must be an integer between -l and l (inclusive).");
-    }
-    if (theta < -1e-9 || theta > Math.PI + 1e-9) { // Allow for slight floating point inaccuracies
-        // Clamp theta to the valid range
-        theta = Math.max(0, Math.min(Math.PI, theta));
-        // console.warn(`Spherical Harmonic 'theta' parameter was slightly out of [0, PI] range and clamped. Original: ${originalTheta}, Clamped: ${theta}`);
-    }
-    // No explicit check for phi range (0 to 2PI) as trigonometric functions handle periodicity,
-    // but typically phi is normalized to [0, 2PI) for consistent input.
-
-    const cacheKey = `${l},${ml},${theta},${phi}`;
-    if (sphericalHarmonicCache.has(cacheKey)) {
-        return sphericalHarmonicCache.get(cacheKey)!;
-    }
-
-    const abs_ml = Math.abs(ml);
-    const cosTheta = Math.cos(theta);
-
-    // Normalization factor, common to all forms
-    const normalizationFactor = Math.sqrt(
-        ((2 * l + 1) / (4 * Math.PI)) *
-        (factorial(l - abs_ml) / factorial(l + abs_ml))
-    );
-
-    // Associated Legendre Polynomial part
-    const legendrePart = associatedLegendrePolynomial(l, abs_ml, cosTheta);
-
-    let result;
-    if (ml === 0) {
-        // Y_l0 (real and complex forms are identical)
-        result = normalizationFactor * legendrePart;
-    } else if (ml > 0) {
-        // Real part (e.g., px, dxy)
-        result = normalizationFactor * legendrePart * Math.cos(ml * phi) * Math.sqrt(2);
-    } else { // ml < 0
-        // Imaginary part (e.g., py, dyz)
-        // Note: some definitions use (-1)^m factor here, but for real orbitals,
-        // it's common to use sin(abs_ml * phi)
-        result = normalizationFactor * legendrePart * Math.sin(abs_ml * phi) * Math.sqrt(2);
-    }
-
-    sphericalHarmonicCache.set(cacheKey, result);
-    return result;
-}
-
-/**
- * Calculates the probability density of finding an electron at a given point
- * in space for a hydrogen-like atom (magnitude squared of the wave function).
- * Psi(r, theta, phi)^2 = [R_nl(r) * Y_lm_l(theta, phi)]^2
- * 'r' is expected to be in units of Bohr radii (atomic units).
- * Theta and phi are in radians.
- * @param n - Principal quantum number.
- * @param l - Azimuthal (angular momentum) quantum number.
- * @param ml - Magnetic quantum number.
- * @param r - Distance from the nucleus in Bohr radii.
- * @param theta - Polar angle in radians (0 to PI).
- * @param phi - Azimuthal angle in radians (0 to 2*PI).
- * @param Z - Nuclear charge (defaults to 1 for Hydrogen).
- * @returns The probability density (magnitude squared of the wave function).
- */
-export function atomicOrbitalProbabilityDensity(
-    n: number,
-    l: number,
-    ml: number,
-    r: number,
-    theta: number,
-    phi: number,
-    Z: number = 1
-): OrbitalDataPoint {
-    if (r < 0) {
-        throw new Error("Distance (r) cannot be negative for atomic orbital probability density.");
-    }
-
-    const cacheKey = `${n},${l},${ml},${r},${theta},${phi},${Z}`;
-    if (atomicOrbitalCache.has(cacheKey)) {
-        return atomicOrbitalCache.get(cacheKey)!;
-    }
-
-    const radialPart = radialWaveFunction(n, l, r, Z);
-    const angularPart = realSphericalHarmonic(l, ml, theta, phi);
-
-    const waveFunctionValue = radialPart * angularPart;
-    const probabilityDensity = waveFunctionValue * waveFunctionValue;
-
-    const dataPoint: OrbitalDataPoint = { waveFunctionValue, probabilityDensity };
-    atomicOrbitalCache.set(cacheKey, dataPoint);
-    return dataPoint;
-}
-
-interface OrbitalData {
-    grid: Float32Array;
-    dims: [number, number, number];
-    maxDensity: number;
-    minVal: number; // Starting coordinate of the cube (e.g., -rMax)
-    maxVal: number; // Ending coordinate of the cube (e.g., +rMax)
-}
-
-/**
- * Generates 3D volumetric data for an atomic orbital's probability density.
- * The data is generated on a Cartesian grid and returned as a flat array representing a 3D grid.
- *
- * @param n - Principal quantum number.
- * @param l - Azimuthal (angular momentum) quantum number.
- * @param ml - Magnetic quantum number.
- * @param Z - Nuclear charge (defaults to 1 for Hydrogen).
- * @param resolution - Number of steps along each Cartesian axis (e.g., if 50, grid is 50x50x50).
- * @param rMax - Maximum radial distance (in Bohr radii) to sample, defining the half-width of the cube.
- * The cube will extend from -rMax to +rMax along each axis.
- */
-export function generateOrbitalData(
-    n: number,
-    l: number,
-    ml: number,
-    Z: number = 1,
-    resolution: number = 50,
-    rMax: number = 15
-): OrbitalData {
-    if (resolution <= 0 || !Number.isInteger(resolution)) {
-        throw new Error("Resolution must be a positive integer.");
-    }
-    if (rMax <= 0) {
-        throw new Error("rMax must be a positive number.");
-    }
-
-    const dims: [number, number, number] = [resolution, resolution, resolution];
-    const grid = new Float32Array(dims[0] * dims[1] * dims[2]);
-    let maxDensity = 0;
-
-    const step = (rMax * 2) / (resolution - 1); // Size of each step along an axis
-    const startCoord = -rMax; // Starting coordinate (e.g., -rMax)
-
-    // Use getOrbitalPotentialFunction to calculate density values
-    const orbitalPotentialFunction = getOrbitalPotentialFunction(n, l, ml, Z, 0); // isoLevel is 0 for raw density
-
-    for (let xIdx = 0; xIdx < dims[0]; xIdx++) {
-        const x = startCoord + xIdx * step;
-        for (let yIdx = 0; yIdx < dims[1]; yIdx++) {
-            const y = startCoord + yIdx * step;
-            for (let zIdx = 0; zIdx < dims[2]; zIdx++) {
-                const z = startCoord + zIdx * step;
-
-                const { probabilityDensity } = orbitalPotentialFunction(x, y, z); // Extract density
-                const index = xIdx * dims[1] * dims[2] + yIdx * dims[2] + zIdx;
-                grid[index] = probabilityDensity;
-
-                if (probabilityDensity > maxDensity) {
-                    maxDensity = probabilityDensity;
-                }
-            }
-        }
-    }
-
-    return {
-        grid: grid,
-        dims: dims,
-        maxDensity: maxDensity,
-        minVal: startCoord,
-        maxVal: rMax
-    };
-}
-
-/**
- * Returns a potential function (df) for marching-cubes-fast, which evaluates
- * the atomic orbital probability density (adjusted for isosurface) at a given 3D world coordinate (x, y, z).
- *
- * @param n The principal quantum number.
- * @param l The azimuthal quantum number.
- * @param ml The magnetic quantum number.
- * @param Z The atomic number.
- * @param isoLevel The isosurface level. The function will return (density - isoLevel).
- * @returns A function (df) that takes (x, y, z)
- * and returns the orbital probability density minus the isoLevel at that point.
- */
-export function getOrbitalPotentialFunction(
-    n: number,
-    l: number,
-    ml: number,
-    Z: number,
-    isoLevel: number
-): (x: number, y: number, z: number) => OrbitalDataPoint {
-    return (x, y, z) => {
-        const r = Math.sqrt(x * x + y * y + z * z);
-        const theta = Math.acos(Math.min(1, Math.max(-1, r === 0 ? 0 : z / r)));
-        const phi = Math.atan2(y, x);
-
-        let dataPoint: OrbitalDataPoint;
-        if (r === 0) {
-            dataPoint = atomicOrbitalProbabilityDensity(n, l, ml, 0, 0, 0, Z);
-        } else {
-            dataPoint = atomicOrbitalProbabilityDensity(n, l, ml, r, theta, phi, Z);
-        }
-
-        return {
-            waveFunctionValue: dataPoint.waveFunctionValue,
-            probabilityDensity: dataPoint.probabilityDensity - isoLevel
-        };
-    };
-}
-
-// Optional: function to clear all caches for testing purposes or specific scenarios
-export const __clearAllCaches__ = (): void => {
-    factorialCache.clear();
-    pochhammerCache.clear();
-    laguerreCache.clear();
-    legendreCache.clear();
-    sphericalHarmonicCache.clear();
-    atomicOrbitalCache.clear();
-    console.log("All quantum_functions caches cleared.");
-};
+import { ComplexNumber, OrbitalBasis, OrbitalComponent, OrbitalData, OrbitalDataPoint } from './types/orbital';
+
+const factorialCache: Map<number, number> = new Map();
+// The caches below hold constants per quantum state, never values per point, so that sampling
+// a grid leaves them the same size however many points it evaluates
+const logFactorialCache: number[] = [0];
+const radialNormalizationCache: Map<string, number> = new Map();
+const legendreCoefficientCache: Map<string, Float64Array> = new Map();
+
+// Note on units:
+// Throughout these functions, the distance 'r' is assumed to be provided in atomic units,
+// specifically in multiples of the Bohr radius (a0).
+// This simplifies the formulas as a0 is effectively treated as 1.
+// The nuclear charge 'Z' is also a dimensionless integer.
+
+/**
+ * Calculates the factorial of a non-negative integer with memoization.
+ * @param n - The integer.
+ * @returns The factorial of n.
+ */
+export function factorial(n: number): number {
+    if (n < 0) {
+        throw new Error("Factorial is not defined for negative numbers.");
+    }
+    if (n === 0 || n === 1) {
+        return 1;
+    }
+    if (factorialCache.has(n)) {
+        // Map.get can return undefined, but .has ensures it exists
+        return factorialCache.get(n)!;
+    }
+
+    let result = 1;
+    for (let i = 2; i <= n; i++) {
+        result *= i;
+    }
+    factorialCache.set(n, result);
+    return result;
+}
+
+/**
+ * Calculates ln(n!) for a non-negative integer, which stays finite where factorial(n) overflows
+ * (n > 170).
+ * @param n - The integer.
+ * @returns The natural logarithm of n!.
+ */
+export function logFactorial(n: number): number {
+    if (n < 0 || !Number.isInteger(n)) {
+        throw new Error("Log-factorial is only defined for non-negative integers.");
+    }
+    for (let k = logFactorialCache.length; k <= n; k++) {
+        logFactorialCache[k] = logFactorialCache[k - 1] + Math.log(k);
+    }
+    return logFactorialCache[n];
+}
+
+/**
+ * Calculates the Pochhammer symbol (rising factorial).
+ * (x)_n = x * (x + 1) * ... * (x + n - 1)
+ * (x)_0 = 1
+ * @param x - The base value.
+ * @param n - The number of terms.
+ * @returns The Pochhammer symbol value.
+ */
+export function pochhammer(x: number, n: number): number {
+    if (n < 0) {
+        throw new Error("Pochhammer symbol is not defined for negative n.");
+    }
+    if (n === 0) {
+        return 1;
+    }
+    let result = 1;
+    for (let i = 0; i < n; i++) {
+        result *= (x + i);
+    }
+    return result;
+}
+
+/**
+ * Calculates the binomial coefficient "n choose k".
+ * C(n, k) = n! / (k! * (n - k)!)
+ * @param N - The total number of items.
+ * @param K - The number of items to choose.
+ * @returns The binomial coefficient.
+ */
+export function binomialCoefficient(N: number, K: number): number {
+    if (K === 0) { // Explicitly handle K=0: C(N, 0) is always 1, even for negative N
+        return 1;
+    }
+    if (K < 0 || K > N) {
+        return 0; // Standard definition for other cases where K is out of typical range
+    }
+    if (K > N / 2) {
+        K = N - K; // Optimization: C(n, k) = C(n, n-k)
+    }
+
+    // C(N, K) = (N * (N-1) * ... * (N-K+1)) / K!
+    let res = 1;
+    for (let i = 1; i <= K; i++) {
+        res = res * (N - i + 1) / i;
+    }
+    return res;
+}
+
+/**
+ * Calculates the generalized Laguerre polynomial L_n^(alpha)(x).
+ * Uses the three-term recurrence
+ * (k + 1) L_{k+1}^(alpha)(x) = (2k + 1 + alpha - x) L_k^(alpha)(x) - (k + alpha) L_{k-1}^(alpha)(x),
+ * which stays accurate at high degree, where the explicit sum of alternating terms cancels
+ * catastrophically.
+ *
+ * @param n - The degree of the polynomial.
+ * @param alpha - The order of the polynomial.
+ * @param x - The value at which to evaluate the polynomial.
+ * @returns The value of the generalized Laguerre polynomial.
+ */
+export function laguerrePolynomial(n: number, alpha: number, x: number): number {
+    if (n < 0) {
+        throw new Error("Laguerre polynomial degree (n) cannot be negative.");
+    }
+    if (n === 0) {
+        return 1;
+    }
+
+    let previous = 1; // L_0
+    let current = 1 + alpha - x; // L_1
+    for (let k = 1; k < n; k++) {
+        const next = ((2 * k + 1 + alpha - x) * current - (k + alpha) * previous) / (k + 1);
+        previous = current;
+        current = next;
+    }
+    return current;
+}
+
+/**
+ * ln of the normalization constant of R_nl, sqrt((2Z/n)^3 (n-l-1)! / (2n (n+l)!)), cached per (n, l, Z).
+ */
+function getRadialLogNormalization(n: number, l: number, Z: number): number {
+    const cacheKey = `${n},${l},${Z}`;
+    let logNormalization = radialNormalizationCache.get(cacheKey);
+    if (logNormalization === undefined) {
+        logNormalization = 1.5 * Math.log((2 * Z) / n) +
+            0.5 * (logFactorial(n - l - 1) - Math.log(2 * n) - logFactorial(n + l));
+        radialNormalizationCache.set(cacheKey, logNormalization);
+    }
+    return logNormalization;
+}
+
+/**
+ * Calculates the radial wave function R_nl(r) for a hydrogen-like atom.
+ * 'r' is expected to be in units of Bohr radii (atomic units).
+ * @param n - Principal quantum number.
+ * @param l - Azimuthal (angular momentum) quantum number.
+ * @param r - Distance from the nucleus in Bohr radii.
+ * @param Z - Nuclear charge (defaults to 1 for Hydrogen).
+ * @returns The value of the radial wave function.
+ */
+export function radialWaveFunction(n: number, l: number, r: number, Z: number = 1): number {
+    // Validate quantum numbers
+    if (n < 1 || !Number.isInteger(n)) {
+        throw new Error("Principal quantum number (n) must be a positive integer.");
+    }
+    if (l < 0 || l > n - 1 || !Number.isInteger(l)) {
+        throw new Error("Azimuthal quantum number (l) must be an integer between 0 and n-1.");
+    }
+    if (r < 0) {
+        throw new Error("Distance (r) cannot be negative.");
+    }
+    if (Z < 1 || !Number.isInteger(Z)) {
+        throw new Error("Nuclear charge (Z) must be a positive integer.");
+    }
+
+    // A term often appears: rho = 2Zr / (n * a0)
+    // Since r is in Bohr radii, and we effectively set a0=1,
+    // rho_prime = 2 * Z * r / n
+    const rho = (2 * Z * r) / n;
+
+    // N * rho^l * e^(-rho/2) in log space: for large n + l or rho the factors overflow or
+    // underflow on their own long before their product does
+    const logEnvelope = getRadialLogNormalization(n, l, Z) + (l > 0 ? l * Math.log(rho) : 0) - rho / 2;
+    const envelope = Math.exp(logEnvelope);
+    if (envelope === 0) {
+        return 0; // Far out, where the polynomial might overflow instead
+    }
+
+    // The Laguerre polynomial term
+    // n_prime = n - l - 1
+    // alpha_prime = 2l + 1
+    // x_prime = rho (which is 2Zr/na0)
+    return envelope * laguerrePolynomial(n - l - 1, 2 * l + 1, rho);
+}
+
+/**
+ * Calculates the Associated Legendre Polynomial P_l^m(x).
+ * Steps up in degree from P_m^m with the three-term recurrence
+ * (l - m) P_l^m = x (2l - 1) P_{l-1}^m - (l + m - 1) P_{l-2}^m.
+ * x = cos(theta), so -1 <= x <= 1.
+ * P_l^m grows like (2l)! / l!, so spherical harmonics use normalizedAssociatedLegendre instead.
+ * @param l - The degree of the polynomial.
+ * @param m - The order of the polynomial (abs value corresponds to |m_l|). Must be non-negative.
+ * @param x - The value at which to evaluate the polynomial (cos(theta)).
+ * @returns The value of P_l^m(x).
+ */
+export function associatedLegendrePolynomial(l: number, m: number, x: number): number {
+    if (l < 0 || !Number.isInteger(l)) { // Validate l first
+        throw new Error("Associated Legendre Polynomial 'l' parameter must be a non-negative integer.");
+    }
+    if (m < 0 || !Number.isInteger(m)) { // Validate m is non-negative integer
+        throw new Error("Associated Legendre Polynomial 'm' parameter must be a non-negative integer.");
+    }
+    // Clamp x to the valid range if it's slightly outside due to floating point math
+    x = Math.max(-1, Math.min(1, x));
+    if (m > l) { // Then apply mathematical rule for m > l
+        return 0;
+    }
+
+    let doubleFactorial = 1;
+    for (let i = 2 * m - 1; i >= 1; i -= 2) {
+        doubleFactorial *= i;
+    }
+    // The Math.pow(-1, m) term is often omitted for real spherical harmonics
+    // as its sign is incorporated into the definition of Y_lm for m < 0.
+    // For P_l^m itself, some definitions include it. We'll omit it here
+    // to align with common real spherical harmonic formulations.
+    let previous = doubleFactorial * Math.pow(1 - x * x, m / 2); // P_m^m
+    if (l === m) {
+        return previous;
+    }
+    let current = x * (2 * m + 1) * previous; // P_{m+1}^m
+    for (let k = m + 2; k <= l; k++) {
+        const next = (x * (2 * k - 1) * current - (k + m - 1) * previous) / (k - m);
+        previous = current;
+        current = next;
+    }
+    return current;
+}
+
+/**
+ * The coefficients of the normalized recurrence for order m up to degree l, cached per (l, m):
+ * the constant of P̄_m^m, then a_k and b_k for each k = m + 2 ... l.
+ */
+function getLegendreCoefficients(l: number, m: number): Float64Array {
+    const cacheKey = `${l},${m}`;
+    let coefficients = legendreCoefficientCache.get(cacheKey);
+    if (coefficients === undefined) {
+        coefficients = new Float64Array(1 + 2 * Math.max(0, l - m - 1));
+        let diagonal = 1 / Math.sqrt(4 * Math.PI); // P̄_0^0
+        for (let k = 1; k <= m; k++) {
+            diagonal *= Math.sqrt((2 * k + 1) / (2 * k));
+        }
+        coefficients[0] = diagonal;
+        for (let k = m + 2; k <= l; k++) {
+            const i = 1 + 2 * (k - m - 2);
+            coefficients[i] = Math.sqrt((4 * k * k - 1) / (k * k - m * m));
+            coefficients[i + 1] = Math.sqrt(((k - 1) * (k - 1) - m * m) / (4 * (k - 1) * (k - 1) - 1));
+        }
+        legendreCoefficientCache.set(cacheKey, coefficients);
+    }
+    return coefficients;
+}
+
+/**
+ * Calculates the normalized Associated Legendre function
+ * P̄_l^m(x) = sqrt((2l + 1) / (4 pi) * (l - m)! / (l + m)!) * P_l^m(x), without the Condon-Shortley phase,
+ * so that Y_l^m = P̄_l^|m|(cos theta) e^(i m phi). Unlike P_l^m it stays of order one for every l,
+ * and the recurrence
+ * P̄_m^m = sqrt((2m + 1) / 2m) sqrt(1 - x^2) P̄_{m-1}^{m-1},
+ * P̄_{m+1}^m = sqrt(2m + 3) x P̄_m^m,
+ * P̄_l^m = a_l (x P̄_{l-1}^m - b_l P̄_{l-2}^m), a_l = sqrt((4l² - 1) / (l² - m²)), b_l = 1 / a_{l-1},
+ * never forms the factorials.
+ * @param l - The degree (non-negative integer).
+ * @param m - The order, 0 <= m (pass |m_l|).
+ * @param x - cos(theta), clamped to [-1, 1].
+ * @returns The value of P̄_l^m(x).
+ */
+export function normalizedAssociatedLegendre(l: number, m: number, x: number): number {
+    if (l < 0 || !Number.isInteger(l)) {
+        throw new Error("Associated Legendre Polynomial 'l' parameter must be a non-negative integer.");
+    }
+    if (m < 0 || !Number.isInteger(m)) {
+        throw new Error("Associated Legendre Polynomial 'm' parameter must be a non-negative integer.");
+    }
+    x = Math.max(-1, Math.min(1, x));
+    if (m > l) {
+        return 0;
+    }
+
+    const coefficients = getLegendreCoefficients(l, m);
+    let previous = coefficients[0] * Math.pow(1 - x * x, m / 2); // P̄_m^m
+    if (l === m) {
+        return previous;
+    }
+    let current = Math.sqrt(2 * m + 3) * x * previous; // P̄_{m+1}^m
+    for (let k = m + 2; k <= l; k++) {
+        const i = 1 + 2 * (k - m - 2);
+        const next = coefficients[i] * (x * current - coefficients[i + 1] * previous);
+        previous = current;
+        current = next;
+    }
+    return current;
+}
+
+/**
+ * Calculates the Real Spherical Harmonic Y_lm_l(theta, phi).
+ * This function handles the common real forms used for orbital visualization.
+ * Theta and phi are in radians.
+ * @param l - The angular momentum quantum number (non-negative integer).
+ * @param ml - The magnetic quantum number (integer, -l <= ml <= l).
+ * @param theta - The polar angle in radians (0 to PI).
+ * @param phi - The azimuthal angle in radians (0 to 2*PI).
+ * @returns The value of the real spherical harmonic.
+ */
+export function realSphericalHarmonic(l: number, ml: number, theta: number, phi: number): number {
+    // Validate quantum numbers and angles
+    if (l < 0 || !Number.isInteger(l)) {
+        throw new Error("Spherical Harmonic 'l' parameter must be a non-negative integer.");
+    }
+    if (!Number.isInteger(ml) || Math.abs(ml) > l) {
+        throw new Error("Spherical Harmonic 'ml' parameter must be an integer between -l and l (inclusive).");
+    }
+    if (theta < -1e-9 || theta > Math.PI + 1e-9) { // Allow for slight floating point inaccuracies
+        // Clamp theta to the valid range
+        theta = Math.max(0, Math.min(Math.PI, theta));
+        // console.warn(`Spherical Harmonic 'theta' parameter was slightly out of [0, PI] range and clamped. Original: ${originalTheta}, Clamped: ${theta}`);
+    }
+    // No explicit check for phi range (0 to 2PI) as trigonometric functions handle periodicity,
+    // but typically phi is normalized to [0, 2PI) for consistent input.
+
+    const abs_ml = Math.abs(ml);
+
+    // Associated Legendre part, with the normalization common to all forms
+    const legendrePart = normalizedAssociatedLegendre(l, abs_ml, Math.cos(theta));
+
+    if (ml === 0) {
+        // Y_l0 (real and complex forms are identical)
+        return legendrePart;
+    } else if (ml > 0) {
+        // Real part (e.g., px, dxy)
+        return legendrePart * Math.cos(ml * phi) * Math.sqrt(2);
+    } else { // ml < 0
+        // Imaginary part (e.g., py, dyz)
+        // Note: some definitions use (-1)^m factor here, but for real orbitals,
+        // it's common to use sin(abs_ml * phi)
+        return legendrePart * Math.sin(abs_ml * phi) * Math.sqrt(2);
+    }
+}
+
+/**
+ * Calculates the Complex Spherical Harmonic Y_l^m_l(theta, phi) = N * P_l^|m_l|(cos theta) * e^(i * m_l * phi).
+ * These are the eigenfunctions of L_z, i.e. the angular part of the |n,l,m_l⟩ eigenstates.
+ * Theta and phi are in radians.
+ *
+ * Condon-Shortley phase: `normalizedAssociatedLegendre` omits the (-1)^m factor, so it is applied here.
+ * With `condonShortleyPhase` enabled (the physics convention), Y_l^m carries (-1)^m for m > 0 and
+ * Y_l^-m = (-1)^m * conj(Y_l^m) holds. With it disabled, every Y_l^m is N * P_l^|m| * e^(i*m*phi).
+ * The choice only changes the global phase of a single state, never |Y_l^m|^2.
+ *
+ * @param l - The angular momentum quantum number (non-negative integer).
+ * @param ml - The magnetic quantum number (integer, -l <= ml <= l).
+ * @param theta - The polar angle in radians (0 to PI).
+ * @param phi - The azimuthal angle in radians (0 to 2*PI).
+ * @param condonShortleyPhase - Whether to include the Condon-Shortley phase (defaults to true).
+ * @returns The complex value of the spherical harmonic.
+ */
+export function complexSphericalHarmonic(
+    l: number,
+    ml: number,
+    theta: number,
+    phi: number,
+    condonShortleyPhase: boolean = true
+): ComplexNumber {
+    if (l < 0 || !Number.isInteger(l)) {
+        throw new Error("Spherical Harmonic 'l' parameter must be a non-negative integer.");
+    }
+    if (!Number.isInteger(ml) || Math.abs(ml) > l) {
+        throw new Error("Spherical Harmonic 'ml' parameter must be an integer between -l and l (inclusive).");
+    }
+    if (theta < -1e-9 || theta > Math.PI + 1e-9) { // Allow for slight floating point inaccuracies
+        theta = Math.max(0, Math.min(Math.PI, theta));
+    }
+
+    const legendrePart = normalizedAssociatedLegendre(l, Math.abs(ml), Math.cos(theta));
+
+    // (-1)^m only for positive m; for negative m it cancels against the (-1)^|m| of the conjugation rule
+    const phaseSign = condonShortleyPhase && ml > 0 && ml % 2 === 1 ? -1 : 1;
+    const magnitude = phaseSign * legendrePart;
+
+    return {
+        re: magnitude * Math.cos(ml * phi),
+        im: magnitude * Math.sin(ml * phi)
+    };
+}
+
+/**
+ * Calculates the probability density of finding an electron at a given point
+ * in space for a hydrogen-like atom (magnitude squared of the wave function).
+ * Psi(r, theta, phi)^2 = [R_nl(r) * Y_lm_l(theta, phi)]^2
+ * 'r' is expected to be in units of Bohr radii (atomic units).
+ * Theta and phi are in radians.
+ * @param n - Principal quantum number.
+ * @param l - Azimuthal (angular momentum) quantum number.
+ * @param ml - Magnetic quantum number.
+ * @param r - Distance from the nucleus in Bohr radii.
+ * @param theta - Polar angle in radians (0 to PI).
+ * @param phi - Azimuthal angle in radians (0 to 2*PI).
+ * @param Z - Nuclear charge (defaults to 1 for Hydrogen).
+ * @param basis - 'real' for real spherical harmonics, 'complex' for the m_l eigenstates (defaults to 'real').
+ * @param condonShortleyPhase - Whether the complex harmonic includes the Condon-Shortley phase, as in
+ * complexSphericalHarmonic (defaults to true); the real basis does not use it.
+ * @returns The probability density (magnitude squared of the wave function).
+ */
+export function atomicOrbitalProbabilityDensity(
+    n: number,
+    l: number,
+    ml: number,
+    r: number,
+    theta: number,
+    phi: number,
+    Z: number = 1,
+    basis: OrbitalBasis = 'real',
+    condonShortleyPhase: boolean = true
+): OrbitalDataPoint {
+    if (r < 0) {
+        throw new Error("Distance (r) cannot be negative for atomic orbital probability density.");
+    }
+
+    const radialPart = radialWaveFunction(n, l, r, Z);
+
+    let realPart: number;
+    let imaginaryPart: number;
+    if (basis === 'complex') {
+        const angularPart = complexSphericalHarmonic(l, ml, theta, phi, condonShortleyPhase);
+        realPart = radialPart * angularPart.re;
+        imaginaryPart = radialPart * angularPart.im;
+    } else {
+        realPart = radialPart * realSphericalHarmonic(l, ml, theta, phi);
+        imaginaryPart = 0;
+    }
+
+    const probabilityDensity = realPart * realPart + imaginaryPart * imaginaryPart;
+
+    return {
+        waveFunctionValue: realPart,
+        probabilityDensity,
+        realPart,
+        imaginaryPart,
+        phase: Math.atan2(imaginaryPart, realPart)
+    };
+}
+
+/**
+ * An orbital compiled by compileOrbital for evaluation at many points.
+ */
+export interface CompiledOrbital {
+    n: number;
+    l: number;
+    ml: number;
+    Z: number;
+    basis: OrbitalBasis;
+    /**
+     * Evaluates ψ at a world coordinate (x, y, z), in Bohr radii.
+     * @param out Receives Re(ψ) in out[0] and Im(ψ) in out[1], so that no object is allocated per point.
+     * @returns |ψ|².
+     */
+    evaluate: (x: number, y: number, z: number, out: Float64Array) => number;
+    /**
+     * Evaluates ψ and its analytic gradient at (x, y, z).
+     * @param out Receives Re(ψ) and Im(ψ) in out[0..1], ∇Re(ψ) in out[2..4] and ∇Im(ψ) in out[5..7].
+     * @returns |ψ|².
+     */
+    evaluateGradient: (x: number, y: number, z: number, out: Float64Array) => number;
+}
+
+/**
+ * What compileOrbital precomputes for a state, for evaluators of the same recurrences outside
+ * this module (see compute_backend.ts).
+ */
+export interface OrbitalCoefficients {
+    l: number;
+    m: number; // |ml|
+    decay: number; // Z / n, so that rho / 2 = decay * r
+    logConstant: number; // ln of the radial normalisation times (2Z/n)^l and the angular normalisation
+    alpha: number; // 2l + 1
+    laguerreA: Float64Array; // Laguerre recurrence at k = 1 ... n - l - 2 (index 0 unused); length n - l - 1
+    laguerreB: Float64Array;
+    laguerreScale: Float64Array;
+    legendre: Float64Array; // Π_m^m, then a_k and b_k for k = m + 2 ... l (see normalizedAssociatedLegendre)
+    firstStep: number; // Π_{m+1}^m = firstStep * z * Π_m^m
+    realWeight: number; // Of Re (x + iy)^m
+    imaginaryWeight: number; // Of Im (x + iy)^m
+    complex: boolean; // Whether Re and Im of (x + iy)^m go to separate parts of ψ
+}
+
+/**
+ * Precomputes the coefficients of ψ_nlm for compileOrbital.
+ * @param condonShortleyPhase Whether the complex basis includes the Condon-Shortley phase (see
+ * complexSphericalHarmonic).
+ * @throws Error for invalid quantum numbers or Z, as radialWaveFunction and the spherical harmonics do.
+ */
+export function getOrbitalCoefficients(
+    n: number,
+    l: number,
+    ml: number,
+    Z: number = 1,
+    basis: OrbitalBasis = 'real',
+    condonShortleyPhase: boolean = true
+): OrbitalCoefficients {
+    if (n < 1 || !Number.isInteger(n)) {
+        throw new Error("Principal quantum number (n) must be a positive integer.");
+    }
+    if (l < 0 || l > n - 1 || !Number.isInteger(l)) {
+        throw new Error("Azimuthal quantum number (l) must be an integer between 0 and n-1.");
+    }
+    if (!Number.isInteger(ml) || Math.abs(ml) > l) {
+        throw new Error("Spherical Harmonic 'ml' parameter must be an integer between -l and l (inclusive).");
+    }
+    if (Z < 1 || !Number.isInteger(Z)) {
+        throw new Error("Nuclear charge (Z) must be a positive integer.");
+    }
+
+    const m = Math.abs(ml);
+    const decay = Z / n;
+
+    // Laguerre recurrence (see laguerrePolynomial), k = 1 ... degree - 1
+    const degree = n - l - 1;
+    const alpha = 2 * l + 1;
+    const laguerreA = new Float64Array(degree);
+    const laguerreB = new Float64Array(degree);
+    const laguerreScale = new Float64Array(degree);
+    for (let k = 1; k < degree; k++) {
+        laguerreA[k] = 2 * k + 1 + alpha;
+        laguerreB[k] = k + alpha;
+        laguerreScale[k] = 1 / (k + 1);
+    }
+
+    // Radial normalisation times (2Z/n)^l, which turns r^l into rho^l; and the angular factors
+    let logConstant = getRadialLogNormalization(n, l, Z) + l * Math.log(2 * decay);
+    let realWeight: number;
+    let imaginaryWeight: number;
+    if (basis === 'complex') {
+        // e^(i ml phi) sin^m θ r^m = (x + iy)^m for ml >= 0 and its conjugate for ml < 0
+        const phaseSign = condonShortleyPhase && ml > 0 && ml % 2 === 1 ? -1 : 1; // As complexSphericalHarmonic
+        realWeight = phaseSign;
+        imaginaryWeight = ml < 0 ? -1 : phaseSign;
+    } else {
+        // cos(ml phi) or sin(|ml| phi), times sqrt(2) for ml != 0, as realSphericalHarmonic
+        realWeight = ml >= 0 ? 1 : 0;
+        imaginaryWeight = ml < 0 ? 1 : 0;
+        if (ml !== 0) {
+            logConstant += 0.5 * Math.LN2;
+        }
+    }
+
+    return {
+        l,
+        m,
+        decay,
+        logConstant,
+        alpha,
+        laguerreA,
+        laguerreB,
+        laguerreScale,
+        // Legendre recurrence (see normalizedAssociatedLegendre) with r² in place of 1
+        legendre: getLegendreCoefficients(l, m),
+        firstStep: Math.sqrt(2 * m + 3),
+        realWeight,
+        imaginaryWeight,
+        complex: basis === 'complex',
+    };
+}
+
+/**
+ * Compiles ψ_nlm into an evaluator that works directly in Cartesian coordinates, for sampling
+ * grids. Everything that depends only on the state is computed once (getOrbitalCoefficients):
+ * the normalisation, the Laguerre recurrence coefficients, and the coefficients of the solid
+ * harmonic r^l Y_lm, which is a polynomial in x, y and z. Per point that leaves
+ * ψ = e^(ln C - Zr/n) L_{n-l-1}^(2l+1)(2Zr/n) Π_l^|m|(z, r²) (x ± iy)^|m|,
+ * with Π_l^m = r^(l-m) P̄_l^m(z/r) / sin^m θ from the same recurrence as normalizedAssociatedLegendre,
+ * and no trigonometric functions, no square root beyond r, and no caches.
+ * It agrees with atomicOrbitalProbabilityDensity, including the basis and phase conventions.
+ * @throws Error for invalid quantum numbers or Z, as radialWaveFunction and the spherical harmonics do.
+ */
+export function compileOrbital(
+    n: number,
+    l: number,
+    ml: number,
+    Z: number = 1,
+    basis: OrbitalBasis = 'real',
+    condonShortleyPhase: boolean = true
+): CompiledOrbital {
+    const {
+        m, decay, logConstant, alpha, laguerreA, laguerreB, laguerreScale, legendre, firstStep, realWeight, imaginaryWeight, complex
+    } = getOrbitalCoefficients(n, l, ml, Z, basis, condonShortleyPhase);
+    const degree = laguerreA.length;
+
+    const evaluate = (x: number, y: number, z: number, out: Float64Array): number => {
+        const r2 = x * x + y * y + z * z;
+        const r = Math.sqrt(r2);
+        const envelope = Math.exp(logConstant - decay * r);
+        if (envelope === 0) {
+            out[0] = 0;
+            out[1] = 0;
+            return 0;
+        }
+
+        const rho = 2 * decay * r;
+        let laguerre = 1;
+        if (degree > 0) {
+            let previous = 1;
+            laguerre = 1 + alpha - rho;
+            for (let k = 1; k < degree; k++) {
+                const next = ((laguerreA[k] - rho) * laguerre - laguerreB[k] * previous) * laguerreScale[k];
+                previous = laguerre;
+                laguerre = next;
+            }
+        }
+
+        let polar = legendre[0]; // Π_m^m
+        if (l > m) {
+            let previous = polar;
+            polar = firstStep * z * previous;
+            for (let k = m + 2; k <= l; k++) {
+                const i = 1 + 2 * (k - m - 2);
+                const next = legendre[i] * (z * polar - legendre[i + 1] * r2 * previous);
+                previous = polar;
+                polar = next;
+            }
+        }
+
+        // (x + iy)^m
+        let azimuthalRe = 1;
+        let azimuthalIm = 0;
+        for (let k = 0; k < m; k++) {
+            const re = azimuthalRe * x - azimuthalIm * y;
+            azimuthalIm = azimuthalRe * y + azimuthalIm * x;
+            azimuthalRe = re;
+        }
+
+        const radialAndPolar = envelope * laguerre * polar;
+        let realPart: number;
+        let imaginaryPart: number;
+        if (complex) {
+            realPart = radialAndPolar * realWeight * azimuthalRe;
+            imaginaryPart = radialAndPolar * imaginaryWeight * azimuthalIm;
+        } else {
+            realPart = radialAndPolar * (realWeight * azimuthalRe + imaginaryWeight * azimuthalIm);
+            imaginaryPart = 0;
+        }
+        out[0] = realPart;
+        out[1] = imaginaryPart;
+        return realPart * realPart + imaginaryPart * imaginaryPart;
+    };
+
+    // The same factors as evaluate, each carried with its derivatives through its recurrence:
+    // ∇ψ = ∇(e^(...) L) Π A + e^(...) L ∇Π A + e^(...) L Π ∇A, with A the azimuthal factor
+    const evaluateGradient = (x: number, y: number, z: number, out: Float64Array): number => {
+        const r2 = x * x + y * y + z * z;
+        const r = Math.sqrt(r2);
+        const envelope = Math.exp(logConstant - decay * r);
+        if (envelope === 0) {
+            out.fill(0, 0, 8);
+            return 0;
+        }
+
+        // L and dL/dρ
+        const rho = 2 * decay * r;
+        let laguerre = 1;
+        let laguerreSlope = 0;
+        if (degree > 0) {
+            let previous = 1;
+            let previousSlope = 0;
+            laguerre = 1 + alpha - rho;
+            laguerreSlope = -1;
+            for (let k = 1; k < degree; k++) {
+                const next = ((laguerreA[k] - rho) * laguerre - laguerreB[k] * previous) * laguerreScale[k];
+                const nextSlope = ((laguerreA[k] - rho) * laguerreSlope - laguerre - laguerreB[k] * previousSlope) * laguerreScale[k];
+                previous = laguerre;
+                previousSlope = laguerreSlope;
+                laguerre = next;
+                laguerreSlope = nextSlope;
+            }
+        }
+        const radial = envelope * laguerre;
+        // d(e^(...) L)/dr along r̂; the cusp of s states at the nucleus gets no direction
+        const radialSlope = r > 0 ? (envelope * decay * (2 * laguerreSlope - laguerre)) / r : 0;
+
+        // Π and its partial derivatives in z and in s = r², as a polynomial in both
+        let polar = legendre[0];
+        let polarZ = 0;
+        let polarS = 0;
+        if (l > m) {
+            let previous = polar;
+            let previousZ = 0;
+            let previousS = 0;
+            polar = firstStep * z * previous;
+            polarZ = firstStep * previous;
+            for (let k = m + 2; k <= l; k++) {
+                const i = 1 + 2 * (k - m - 2);
+                const next = legendre[i] * (z * polar - legendre[i + 1] * r2 * previous);
+                const nextZ = legendre[i] * (polar + z * polarZ - legendre[i + 1] * r2 * previousZ);
+                const nextS = legendre[i] * (z * polarS - legendre[i + 1] * (previous + r2 * previousS));
+                previous = polar;
+                previousZ = polarZ;
+                previousS = polarS;
+                polar = next;
+                polarZ = nextZ;
+                polarS = nextS;
+            }
+        }
+
+        // (x + iy)^(m-1), then (x + iy)^m; d/dx (x + iy)^m = m (x + iy)^(m-1) and d/dy = i m (x + iy)^(m-1)
+        let lowerRe = 1;
+        let lowerIm = 0;
+        for (let k = 1; k < m; k++) {
+            const re = lowerRe * x - lowerIm * y;
+            lowerIm = lowerRe * y + lowerIm * x;
+            lowerRe = re;
+        }
+        const azimuthalRe = m > 0 ? lowerRe * x - lowerIm * y : 1;
+        const azimuthalIm = m > 0 ? lowerRe * y + lowerIm * x : 0;
+
+        // ∇(e^(...) L Π) = (radialSlope Π + 2 e^(...) L Π_s) (x, y, z) + e^(...) L Π_z ẑ
+        const radialAndPolar = radial * polar;
+        const alongPosition = radialSlope * polar + 2 * radial * polarS;
+        const gradX = alongPosition * x;
+        const gradY = alongPosition * y;
+        const gradZ = alongPosition * z + radial * polarZ;
+
+        // Re and Im of (x + iy)^m with their x and y derivatives, the z derivatives being 0
+        const reDx = m * lowerRe;
+        const reDy = -m * lowerIm;
+        const imDx = m * lowerIm;
+        const imDy = m * lowerRe;
+        const parts = (weightRe: number, weightIm: number, offset: number): number => {
+            const angular = weightRe * azimuthalRe + weightIm * azimuthalIm;
+            out[offset] = gradX * angular + radialAndPolar * (weightRe * reDx + weightIm * imDx);
+            out[offset + 1] = gradY * angular + radialAndPolar * (weightRe * reDy + weightIm * imDy);
+            out[offset + 2] = gradZ * angular;
+            return radialAndPolar * angular;
+        };
+        if (complex) {
+            out[0] = parts(realWeight, 0, 2);
+            out[1] = parts(0, imaginaryWeight, 5);
+        } else {
+            out[0] = parts(realWeight, imaginaryWeight, 2);
+            out[1] = 0;
+            out.fill(0, 5, 8);
+        }
+        return out[0] * out[0] + out[1] * out[1];
+    };
+
+    return { n, l, ml, Z, basis, evaluate, evaluateGradient };
+}
+
+/**
+ * Generates 3D volumetric data for an atomic orbital's probability density.
+ * The data is generated on a Cartesian grid and returned as a flat array representing a 3D grid.
+ *
+ * @param n - Principal quantum number.
+ * @param l - Azimuthal (angular momentum) quantum number.
+ * @param ml - Magnetic quantum number.
+ * @param Z - Nuclear charge (defaults to 1 for Hydrogen).
+ * @param resolution - Number of steps along each Cartesian axis (e.g., if 50, grid is 50x50x50).
+ * @param rMax - Maximum radial distance (in Bohr radii) to sample, defining the half-width of the cube.
+ * The cube will extend from -rMax to +rMax along each axis.
+ * @param basis - Angular basis, 'real' or 'complex' (defaults to 'real').
+ */
+export function generateOrbitalData(
+    n: number,
+    l: number,
+    ml: number,
+    Z: number = 1,
+    resolution: number = 50,
+    rMax: number = 15,
+    basis: OrbitalBasis = 'real'
+): OrbitalData {
+    return sampleCompiledOrbitalGrid(compileOrbital(n, l, ml, Z, basis), resolution, rMax);
+}
+
+/**
+ * Samples a potential function on a cubic Cartesian grid from -rMax to +rMax along each axis.
+ * The potential function should be built with an isoLevel of 0 so that it returns the raw density.
+ * Grid values are stored x-major: index = xIdx * dims[1] * dims[2] + yIdx * dims[2] + zIdx.
+ *
+ * @param orbitalPotentialFunction - Evaluates the orbital at a world coordinate (x, y, z).
+ * @param resolution - Number of steps along each Cartesian axis.
+ * @param rMax - Half-width of the cube in Bohr radii.
+ * @param onSlab - Called after each slab of constant x is sampled, e.g. to report progress.
+ * @returns The density grid together with the matching grid of Re(ψ).
+ */
+export function sampleOrbitalGrid(
+    orbitalPotentialFunction: (x: number, y: number, z: number) => OrbitalDataPoint,
+    resolution: number,
+    rMax: number,
+    onSlab?: () => void
+): OrbitalData {
+    return sampleWholeGrid(resolution, rMax, (grid, psiGrid) =>
+        sampleOrbitalGridSlab(orbitalPotentialFunction, resolution, rMax, 0, resolution, grid, psiGrid, onSlab));
+}
+
+/**
+ * Samples a compiled orbital on the grid sampleOrbitalGrid would use, without building a data
+ * point per sample.
+ * @param onSlab - Called after each slab of constant x is sampled, e.g. to report progress.
+ * @returns The density grid together with the matching grid of Re(ψ).
+ */
+export function sampleCompiledOrbitalGrid(
+    orbital: CompiledOrbital,
+    resolution: number,
+    rMax: number,
+    onSlab?: () => void
+): OrbitalData {
+    return sampleWholeGrid(resolution, rMax, (grid, psiGrid) =>
+        sampleCompiledOrbitalGridSlab(orbital, resolution, rMax, 0, resolution, grid, psiGrid, onSlab));
+}
+
+// Allocates a resolution³ grid and fills it with sampleSlabs, which returns the largest density
+function sampleWholeGrid(
+    resolution: number,
+    rMax: number,
+    sampleSlabs: (grid: Float32Array, psiGrid: Float32Array) => number
+): OrbitalData {
+    if (resolution <= 0 || !Number.isInteger(resolution)) {
+        throw new Error("Resolution must be a positive integer.");
+    }
+    if (rMax <= 0) {
+        throw new Error("rMax must be a positive number.");
+    }
+
+    const dims: [number, number, number] = [resolution, resolution, resolution];
+    const grid = new Float32Array(dims[0] * dims[1] * dims[2]);
+    const psiGrid = new Float32Array(dims[0] * dims[1] * dims[2]);
+    const maxDensity = sampleSlabs(grid, psiGrid);
+
+    return {
+        grid: grid,
+        psiGrid: psiGrid,
+        dims: dims,
+        maxDensity: maxDensity,
+        minVal: -rMax,
+        maxVal: rMax
+    };
+}
+
+/**
+ * Samples the slabs xStart <= xIdx < xEnd of the grid sampleOrbitalGrid would build, at exactly
+ * the same points, so that slabs sampled separately assemble into the same grid.
+ *
+ * @param grid - Receives |ψ|² for the slabs only: index = (xIdx - xStart) * resolution² + yIdx * resolution + zIdx.
+ * @param psiGrid - Receives Re(ψ), laid out like grid.
+ * @param onSlab - Called after each slab of constant x is sampled.
+ * @returns The largest density in the slabs.
+ */
+export function sampleOrbitalGridSlab(
+    orbitalPotentialFunction: (x: number, y: number, z: number) => OrbitalDataPoint,
+    resolution: number,
+    rMax: number,
+    xStart: number,
+    xEnd: number,
+    grid: Float32Array,
+    psiGrid: Float32Array,
+    onSlab?: () => void
+): number {
+    let maxDensity = 0;
+
+    const step = (rMax * 2) / (resolution - 1); // Size of each step along an axis
+    const startCoord = -rMax; // Starting coordinate (e.g., -rMax)
+
+    for (let xIdx = xStart; xIdx < xEnd; xIdx++) {
+        const x = startCoord + xIdx * step;
+        for (let yIdx = 0; yIdx < resolution; yIdx++) {
+            const y = startCoord + yIdx * step;
+            for (let zIdx = 0; zIdx < resolution; zIdx++) {
+                const z = startCoord + zIdx * step;
+
+                const { probabilityDensity, waveFunctionValue } = orbitalPotentialFunction(x, y, z); // Extract density
+                const index = ((xIdx - xStart) * resolution + yIdx) * resolution + zIdx;
+                grid[index] = probabilityDensity;
+                psiGrid[index] = waveFunctionValue;
+
+                if (probabilityDensity > maxDensity) {
+                    maxDensity = probabilityDensity;
+                }
+            }
+        }
+        onSlab?.();
+    }
+    return maxDensity;
+}
+
+/**
+ * Samples the slabs xStart <= xIdx < xEnd of a compiled orbital's grid, at the points and in the
+ * layout of sampleOrbitalGridSlab, with the same results bit for bit as sampling the orbital's
+ * potential function (getOrbitalPotentialFunction).
+ * @returns The largest density in the slabs.
+ */
+export function sampleCompiledOrbitalGridSlab(
+    orbital: CompiledOrbital,
+    resolution: number,
+    rMax: number,
+    xStart: number,
+    xEnd: number,
+    grid: Float32Array,
+    psiGrid: Float32Array,
+    onSlab?: () => void
+): number {
+    let maxDensity = 0;
+    const parts = new Float64Array(2);
+    const step = (rMax * 2) / (resolution - 1);
+    const startCoord = -rMax;
+
+    for (let xIdx = xStart; xIdx < xEnd; xIdx++) {
+        const x = startCoord + xIdx * step;
+        for (let yIdx = 0; yIdx < resolution; yIdx++) {
+            const y = startCoord + yIdx * step;
+            let index = ((xIdx - xStart) * resolution + yIdx) * resolution;
+            for (let zIdx = 0; zIdx < resolution; zIdx++, index++) {
+                const density = orbital.evaluate(x, y, startCoord + zIdx * step, parts);
+                grid[index] = density;
+                psiGrid[index] = parts[0];
+                if (density > maxDensity) {
+                    maxDensity = density;
+                }
+            }
+        }
+        onSlab?.();
+    }
+    return maxDensity;
+}
+
+/**
+ * Returns a potential function (df), which evaluates
+ * the atomic orbital probability density (adjusted for isosurface) at a given 3D world coordinate (x, y, z).
+ *
+ * @param n The principal quantum number.
+ * @param l The azimuthal quantum number.
+ * @param ml The magnetic quantum number.
+ * @param Z The atomic number.
+ * @param isoLevel The isosurface level. The function will return (density - isoLevel).
+ * @param basis The angular basis, 'real' or 'complex' (defaults to 'real').
+ * @returns A function (df) that takes (x, y, z)
+ * and returns the orbital probability density minus the isoLevel at that point.
+ */
+export function getOrbitalPotentialFunction(
+    n: number,
+    l: number,
+    ml: number,
+    Z: number,
+    isoLevel: number,
+    basis: OrbitalBasis = 'real'
+): (x: number, y: number, z: number) => OrbitalDataPoint {
+    const orbital = compileOrbital(n, l, ml, Z, basis);
+    const parts = new Float64Array(2);
+    return (x, y, z) => {
+        const density = orbital.evaluate(x, y, z, parts);
+        const realPart = parts[0];
+        const imaginaryPart = parts[1];
+        return {
+            waveFunctionValue: realPart,
+            probabilityDensity: density - isoLevel,
+            realPart,
+            imaginaryPart,
+            phase: Math.atan2(imaginaryPart, realPart)
+        };
+    };
+}
+
+/**
+ * Calculates the energy of a hydrogen-like level, E_n = -Z^2 / (2 n^2).
+ * The result is in Hartree (atomic units), so E_1 = -0.5 for hydrogen.
+ * @param n - Principal quantum number.
+ * @param Z - Nuclear charge (defaults to 1 for Hydrogen).
+ * @returns The energy of level n in Hartree.
+ */
+export function hydrogenicEnergy(n: number, Z: number = 1): number {
+    if (n < 1 || !Number.isInteger(n)) {
+        throw new Error("Principal quantum number (n) must be a positive integer.");
+    }
+    return -(Z * Z) / (2 * n * n);
+}
+
+const spectroscopicLetters = 'spdfghiklmnoqrtuv';
+
+/**
+ * Names a subshell in spectroscopic notation, e.g. "3d" for n = 3, l = 2.
+ * @param n - Principal quantum number.
+ * @param l - Azimuthal quantum number; spelled out as "(l=…)" beyond the known letters.
+ */
+export function subshellLabel(n: number, l: number): string {
+    return `${n}${spectroscopicLetters[l] ?? `(l=${l})`}`;
+}
+
+// Each component's compiled orbital with its coefficient at `time`, c e^(-i E_n t), in parts
+function compileComponents(
+    components: OrbitalComponent[],
+    Z: number,
+    basis: OrbitalBasis,
+    time: number,
+    condonShortleyPhase: boolean
+) {
+    if (components.length === 0) {
+        throw new Error("A superposition needs at least one component.");
+    }
+    return components.map(({ n, l, ml, coefficient }) => {
+        const energyPhase = -hydrogenicEnergy(n, Z) * time;
+        return {
+            coefficientRe: coefficient * Math.cos(energyPhase),
+            coefficientIm: coefficient * Math.sin(energyPhase),
+            orbital: compileOrbital(n, l, ml, Z, basis, condonShortleyPhase)
+        };
+    });
+}
+
+/**
+ * Returns a potential function (df) for a linear combination of hydrogen-like states,
+ * psi = sum_i c_i * psi_{n_i l_i m_i}, all sharing the same nuclear charge Z.
+ * The coefficients are used as given; normalisation is the caller's responsibility.
+ *
+ * At time t each component evolves as e^(-i E_n t), with E_n from `hydrogenicEnergy` and t in
+ * atomic units of time (hbar / E_h, about 24.19 as). Components with different n therefore beat
+ * against each other and the density oscillates at the differences of their energies.
+ *
+ * @param components The weighted basis states (n, l, ml, coefficient) of the superposition.
+ * @param Z The atomic number.
+ * @param isoLevel The isosurface level. The function will return (density - isoLevel).
+ * @param basis The angular basis of every component, 'real' or 'complex' (defaults to 'real').
+ * @param time The time in atomic units (defaults to 0).
+ * @param condonShortleyPhase Whether complex components include the Condon-Shortley phase (defaults
+ * to true). It sets the relative signs of components with odd positive ml, so it changes the density.
+ * @returns A function (df) that takes (x, y, z)
+ * and returns the superposition's probability density minus the isoLevel at that point.
+ */
+export function getSuperpositionPotentialFunction(
+    components: OrbitalComponent[],
+    Z: number,
+    isoLevel: number,
+    basis: OrbitalBasis = 'real',
+    time: number = 0,
+    condonShortleyPhase: boolean = true
+): (x: number, y: number, z: number) => OrbitalDataPoint {
+    const componentFunctions = compileComponents(components, Z, basis, time, condonShortleyPhase);
+    const parts = new Float64Array(2);
+
+    return (x, y, z) => {
+        let realPart = 0;
+        let imaginaryPart = 0;
+        for (const { coefficientRe, coefficientIm, orbital } of componentFunctions) {
+            orbital.evaluate(x, y, z, parts);
+            realPart += coefficientRe * parts[0] - coefficientIm * parts[1];
+            imaginaryPart += coefficientRe * parts[1] + coefficientIm * parts[0];
+        }
+
+        return {
+            waveFunctionValue: realPart,
+            probabilityDensity: realPart * realPart + imaginaryPart * imaginaryPart - isoLevel,
+            realPart,
+            imaginaryPart,
+            phase: Math.atan2(imaginaryPart, realPart)
+        };
+    };
+}
+
+/**
+ * Returns the analytic gradient of the superposition getSuperpositionPotentialFunction evaluates,
+ * summed from the components' CompiledOrbital.evaluateGradient, e.g. for isosurface normals.
+ * @returns A function that writes Re(ψ) and Im(ψ) to out[0..1], ∇Re(ψ) to out[2..4] and ∇Im(ψ)
+ * to out[5..7], and returns |ψ|².
+ */
+export function getSuperpositionGradientFunction(
+    components: OrbitalComponent[],
+    Z: number,
+    basis: OrbitalBasis = 'real',
+    time: number = 0,
+    condonShortleyPhase: boolean = true
+): (x: number, y: number, z: number, out: Float64Array) => number {
+    const componentFunctions = compileComponents(components, Z, basis, time, condonShortleyPhase);
+    const parts = new Float64Array(8);
+
+    return (x, y, z, out) => {
+        out.fill(0, 0, 8);
+        for (const { coefficientRe, coefficientIm, orbital } of componentFunctions) {
+            orbital.evaluateGradient(x, y, z, parts);
+            // ψ and each component of ∇ψ are complex, their real parts in out[i], imaginary in out[i + 3]
+            out[0] += coefficientRe * parts[0] - coefficientIm * parts[1];
+            out[1] += coefficientRe * parts[1] + coefficientIm * parts[0];
+            for (let i = 2; i < 5; i++) {
+                out[i] += coefficientRe * parts[i] - coefficientIm * parts[i + 3];
+                out[i + 3] += coefficientRe * parts[i + 3] + coefficientIm * parts[i];
+            }
+        }
+        return out[0] * out[0] + out[1] * out[1];
+    };
+}
+
+// Optional: function to clear all caches for testing purposes or specific scenarios
+export const __clearAllCaches__ = (): void => {
+    factorialCache.clear();
+    logFactorialCache.length = 1;
+    radialNormalizationCache.clear();
+    legendreCoefficientCache.clear();
+    console.log("All quantum_functions caches cleared.");
+};
+
+// Optional: the number of entries in each cache, for tests that check they stay bounded
+export const __getCacheSizes__ = (): Record<string, number> => ({
+    factorial: factorialCache.size,
+    logFactorial: logFactorialCache.length,
+    radialNormalization: radialNormalizationCache.size,
+    legendreCoefficients: legendreCoefficientCache.size
+});
@@ -0,0 +1,169 @@
+import { radialWaveFunction } from './quantum_functions';
+import { estimateRMax, radialIntegrationLimit } from './orbital_bounds';
+
+// Numerical radial analysis of hydrogenic orbitals, with the closed-form values to check against.
+
+export interface RadialCurves {
+    r: number[]; // Radii in Bohr radii
+    R: number[]; // R_nl(r)
+    R2: number[]; // R_nl(r)²
+    P: number[]; // Radial distribution r²R_nl(r)²
+}
+
+export interface ExpectationComparison {
+    numeric: number;
+    analytic: number;
+}
+
+export interface RadialAnalysis {
+    nodes: number[]; // Radial node positions, ascending; n - l - 1 of them
+    mostProbableRadius: number; // Position of the global maximum of r²R²
+    expectation: {
+        r: ExpectationComparison;
+        r2: ExpectationComparison;
+        inverseR: ExpectationComparison;
+    };
+}
+
+// Step of root scans and Simpson integrals in units of n/Z, since radial lobes widen as n grows
+const ANALYSIS_STEP = 0.01;
+const BISECTION_ITERATIONS = 60;
+
+/**
+ * Samples R, R² and r²R² at `samples` evenly spaced radii in [0, rEnd].
+ * @param rEnd - Defaults to the radius enclosing 99.9% of the probability.
+ */
+export function sampleRadialCurves(n: number, l: number, Z: number = 1, rEnd?: number, samples: number = 400): RadialCurves {
+    if (samples < 2 || !Number.isInteger(samples)) {
+        throw new Error("Radial curves need at least two samples.");
+    }
+    const end = rEnd ?? estimateRMax(n, l, Z);
+    const curves: RadialCurves = { r: [], R: [], R2: [], P: [] };
+    for (let i = 0; i < samples; i++) {
+        const r = (i * end) / (samples - 1);
+        const R = radialWaveFunction(n, l, r, Z);
+        curves.r.push(r);
+        curves.R.push(R);
+        curves.R2.push(R * R);
+        curves.P.push(r * r * R * R);
+    }
+    return curves;
+}
+
+/**
+ * Finds the radial nodes, i.e. the roots of the Laguerre factor L_{n-l-1}^{2l+1}(2Zr/n),
+ * by scanning R_nl for sign changes and refining each bracket by bisection.
+ * The node at r = 0 for l > 0 is not a radial node and is excluded.
+ */
+export function findRadialNodes(n: number, l: number, Z: number = 1): number[] {
+    const h = (ANALYSIS_STEP * n) / Z;
+    const limit = radialIntegrationLimit(n, Z);
+    const nodes: number[] = [];
+
+    let previousR = h;
+    let previousValue = radialWaveFunction(n, l, previousR, Z);
+    for (let r = 2 * h; r <= limit && nodes.length < n - l - 1; r += h) {
+        const value = radialWaveFunction(n, l, r, Z);
+        if (Math.sign(value) !== Math.sign(previousValue)) {
+            let lo = previousR;
+            let hi = r;
+            const loSign = Math.sign(previousValue);
+            for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+                const mid = (lo + hi) / 2;
+                if (Math.sign(radialWaveFunction(n, l, mid, Z)) === loSign) lo = mid; else hi = mid;
+            }
+            nodes.push((lo + hi) / 2);
+        }
+        previousR = r;
+        previousValue = value;
+    }
+    return nodes;
+}
+
+/**
+ * Finds the global maximum of the radial distribution r²R² by a grid scan
+ * refined with a golden-section search around the best grid point.
+ */
+export function findMostProbableRadius(n: number, l: number, Z: number = 1): number {
+    const h = (ANALYSIS_STEP * n) / Z;
+    const limit = radialIntegrationLimit(n, Z);
+    const radialDensity = (r: number) => {
+        const R = radialWaveFunction(n, l, r, Z);
+        return r * r * R * R;
+    };
+
+    let best = h;
+    let bestValue = radialDensity(h);
+    for (let r = 2 * h; r <= limit; r += h) {
+        const value = radialDensity(r);
+        if (value > bestValue) {
+            best = r;
+            bestValue = value;
+        }
+    }
+
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let lo = Math.max(0, best - h);
+    let hi = best + h;
+    for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+        const a = hi - ratio * (hi - lo);
+        const b = lo + ratio * (hi - lo);
+        if (radialDensity(a) > radialDensity(b)) hi = b; else lo = a;
+    }
+    return (lo + hi) / 2;
+}
+
+/**
+ * Computes ⟨rᵏ⟩ = ∫₀^∞ rᵏ r²R_nl(r)² dr by composite Simpson integration.
+ * @param k - Power of r; must be greater than -(2l + 3) for the integral to converge.
+ */
+export function radialExpectationValue(n: number, l: number, Z: number, k: number): number {
+    if (k <= -(2 * l + 3)) {
+        throw new Error("⟨r^k⟩ diverges for k <= -(2l + 3).");
+    }
+    const h = (ANALYSIS_STEP * n) / Z;
+    const limit = radialIntegrationLimit(n, Z);
+    const integrand = (r: number) => {
+        if (r === 0) {
+            return 0; // r^(k+2) R² → 0 at the origin whenever the integral converges
+        }
+        const R = radialWaveFunction(n, l, r, Z);
+        return Math.pow(r, k + 2) * R * R;
+    };
+
+    const intervals = 2 * Math.ceil(limit / (2 * h)); // Simpson needs an even count
+    let sum = integrand(0) + integrand(intervals * h);
+    for (let i = 1; i < intervals; i++) {
+        sum += (i % 2 === 1 ? 4 : 2) * integrand(i * h);
+    }
+    return (h / 3) * sum;
+}
+
+/**
+ * Closed-form hydrogenic expectation values:
+ * ⟨r⟩ = (3n² - l(l+1)) / 2Z, ⟨r²⟩ = n²(5n² + 1 - 3l(l+1)) / 2Z², ⟨1/r⟩ = Z / n².
+ */
+export function analyticRadialExpectationValues(n: number, l: number, Z: number = 1): { r: number; r2: number; inverseR: number } {
+    const ll = l * (l + 1);
+    return {
+        r: (3 * n * n - ll) / (2 * Z),
+        r2: (n * n * (5 * n * n + 1 - 3 * ll)) / (2 * Z * Z),
+        inverseR: Z / (n * n),
+    };
+}
+
+/**
+ * Runs the full radial analysis for one (n, l, Z) state.
+ */
+export function analyzeRadialFunction(n: number, l: number, Z: number = 1): RadialAnalysis {
+    const analytic = analyticRadialExpectationValues(n, l, Z);
+    return {
+        nodes: findRadialNodes(n, l, Z),
+        mostProbableRadius: findMostProbableRadius(n, l, Z),
+        expectation: {
+            r: { numeric: radialExpectationValue(n, l, Z, 1), analytic: analytic.r },
+            r2: { numeric: radialExpectationValue(n, l, Z, 2), analytic: analytic.r2 },
+            inverseR: { numeric: radialExpectationValue(n, l, Z, -1), analytic: analytic.inverseR },
+        },
+    };
+}
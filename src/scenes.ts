@@ -0,0 +1,139 @@
+import { Scene } from './types/orbital';
+import { decodeUrlState } from './url_state';
+
+// Saved scenes as they are kept in localStorage and in exported JSON files:
+//   { "version": 1, "scenes": [{ "id": "...", "name": "...", "view": "n=3&l=2&..." }] }
+// Anything read back is migrated to the current schema and validated before it reaches the store.
+
+export const SCENES_SCHEMA_VERSION = 1;
+export const SCENES_STORAGE_KEY = 'electron-orbital-viewer.scenes';
+
+export interface SceneCollectionFile {
+    version: number;
+    scenes: Scene[];
+}
+
+/**
+ * Upgrades a collection from the version it is keyed by to the next one.
+ * Add an entry here whenever the schema changes, and bump SCENES_SCHEMA_VERSION.
+ */
+export type SceneMigration = (collection: Record<string, unknown>) => Record<string, unknown>;
+export const sceneMigrations: Record<number, SceneMigration> = {};
+
+/**
+ * Brings a parsed collection up to SCENES_SCHEMA_VERSION.
+ * @throws Error when the version is missing, unknown or newer than this app.
+ */
+export function migrateSceneCollection(
+    data: unknown,
+    migrations: Record<number, SceneMigration> = sceneMigrations,
+    targetVersion: number = SCENES_SCHEMA_VERSION
+): Record<string, unknown> {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new Error("Scene file must hold a JSON object.");
+    }
+    let collection = data as Record<string, unknown>;
+    let version = collection.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error("Scene file has no valid schema version.");
+    }
+    if (version > targetVersion) {
+        throw new Error(`Scene file version ${version} is newer than this app supports (${targetVersion}).`);
+    }
+    while (version < targetVersion) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            throw new Error(`No migration from scene file version ${version}.`);
+        }
+        collection = { ...migrate(collection), version: version + 1 };
+        version++;
+    }
+    return collection;
+}
+
+/**
+ * Migrates and validates a parsed collection. Every view must be a valid link, so that
+ * opening a scene can never put the app into a state the controls cannot produce.
+ * @throws Error naming the first invalid scene.
+ */
+export function parseSceneCollection(data: unknown, migrations: Record<number, SceneMigration> = sceneMigrations): Scene[] {
+    const collection = migrateSceneCollection(data, migrations);
+    if (!Array.isArray(collection.scenes)) {
+        throw new Error("Scene file must list its scenes in a \"scenes\" array.");
+    }
+    const ids = new Set<string>();
+    return collection.scenes.map((entry: unknown, i: number) => {
+        const scene = entry as Partial<Record<keyof Scene, unknown>> | null;
+        const label = `Scene ${i + 1}`;
+        if (typeof scene !== 'object' || scene === null) {
+            throw new Error(`${label} is not an object.`);
+        }
+        if (typeof scene.id !== 'string' || scene.id === '' || ids.has(scene.id)) {
+            throw new Error(`${label} needs a unique id.`);
+        }
+        if (typeof scene.name !== 'string' || scene.name.trim() === '') {
+            throw new Error(`${label} needs a name.`);
+        }
+        if (typeof scene.view !== 'string') {
+            throw new Error(`${label} ("${scene.name}") has no view.`);
+        }
+        try {
+            if (!decodeUrlState(scene.view)) {
+                throw new Error("It does not describe an orbital.");
+            }
+        } catch (error) {
+            throw new Error(`${label} ("${scene.name}") is invalid: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        ids.add(scene.id);
+        return { id: scene.id, name: scene.name.trim(), view: scene.view };
+    });
+}
+
+/**
+ * Writes scenes as a versioned JSON collection, for localStorage and for export.
+ */
+export function serializeSceneCollection(scenes: Scene[]): string {
+    const file: SceneCollectionFile = { version: SCENES_SCHEMA_VERSION, scenes };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Reads an exported scene file.
+ * @throws Error when it is not JSON or not a valid collection.
+ */
+export function readSceneFile(text: string): Scene[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error("Scene file is not valid JSON.");
+    }
+    return parseSceneCollection(data);
+}
+
+/**
+ * Loads the saved scenes. A corrupt entry is moved aside under `${SCENES_STORAGE_KEY}.corrupt`
+ * rather than deleted, and the app starts with no scenes.
+ */
+export function loadScenes(storage: Storage | null): Scene[] {
+    const text = storage?.getItem(SCENES_STORAGE_KEY);
+    if (!storage || !text) {
+        return [];
+    }
+    try {
+        return readSceneFile(text);
+    } catch (error) {
+        console.warn('Scenes: Ignoring corrupt saved scenes', error);
+        storage.setItem(`${SCENES_STORAGE_KEY}.corrupt`, text);
+        storage.removeItem(SCENES_STORAGE_KEY);
+        return [];
+    }
+}
+
+export function saveScenes(storage: Storage | null, scenes: Scene[]) {
+    try {
+        storage?.setItem(SCENES_STORAGE_KEY, serializeSceneCollection(scenes));
+    } catch (error) {
+        console.warn('Scenes: Could not save scenes', error); // E.g. storage full or disabled
+    }
+}
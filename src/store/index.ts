@@ -1,11 +1,36 @@
-import { configureStore } from '@reduxjs/toolkit';
-import orbitalReducer from './orbitalSlice';
-
-export const store = configureStore({
-  reducer: {
-    orbital: orbitalReducer
-  }
-});
-
-export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
+import { configureStore } from '@reduxjs/toolkit';
+import orbitalReducer from './orbitalSlice';
+import scenesReducer from './scenesSlice';
+import { loadScenes, saveScenes } from '../scenes';
+
+// localStorage can be missing or throw (e.g. disabled cookies), in which case scenes are not kept
+const getStorage = (): Storage | null => {
+  try {
+    return window.localStorage;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const store = configureStore({
+  reducer: {
+    orbital: orbitalReducer,
+    scenes: scenesReducer
+  },
+  preloadedState: {
+    scenes: { scenes: loadScenes(getStorage()) }
+  }
+});
+
+// Persist the scenes whenever they change
+let savedScenes = store.getState().scenes.scenes;
+store.subscribe(() => {
+  const { scenes } = store.getState().scenes;
+  if (scenes !== savedScenes) {
+    savedScenes = scenes;
+    saveScenes(getStorage(), scenes);
+  }
+});
+
+export type RootState = ReturnType<typeof store.getState>;
+export type AppDispatch = typeof store.dispatch;
@@ -0,0 +1,193 @@
+import orbitalReducer, {
+  startOrbitalCalculation,
+  startImportedCubeCalculation,
+  finishOrbitalCalculation,
+  failOrbitalCalculation,
+  setCalculationProgress,
+  setSurfaceInfo,
+  setViewportCount,
+  setActiveViewport,
+  addLayers,
+  updateLayer,
+  removeLayer,
+  setShowNodalSurfaces,
+  setSlicePlane,
+  setSliceOffset,
+  setAnimationTime,
+  setAnimationPlaying,
+  selectCurrentParams,
+  selectIsLoading,
+  selectCalculationProgress
+} from './orbitalSlice';
+import { OrbitalParams } from '../types/orbital';
+
+const baseParams: OrbitalParams = { n: 2, l: 1, ml: 0, Z: 1, resolution: 32, rMax: 15, isoLevel: 0.0005 };
+const dipoleParams: OrbitalParams = {
+  ...baseParams,
+  components: [
+    { n: 1, l: 0, ml: 0, coefficient: Math.SQRT1_2 },
+    { n: 2, l: 1, ml: 0, coefficient: Math.SQRT1_2 },
+  ],
+};
+
+describe('orbitalSlice', () => {
+  it('starts and finishes a calculation', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    expect(state.viewports[0].isLoading).toBe(true);
+    expect(state.viewports[0].params).toEqual(baseParams);
+    state = orbitalReducer(state, finishOrbitalCalculation());
+    expect(state.viewports[0].isLoading).toBe(false);
+  });
+
+  it('stores the reported surface until new params are submitted', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    state = orbitalReducer(state, setSurfaceInfo({ isoLevel: 1e-4, enclosedFraction: 0.9 }));
+    expect(state.viewports[0].surfaceInfo).toEqual({ isoLevel: 1e-4, enclosedFraction: 0.9 });
+    state = orbitalReducer(state, startOrbitalCalculation(baseParams));
+    expect(state.viewports[0].surfaceInfo).toBeNull();
+  });
+
+  it('tracks the progress of each pane until it finishes', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    expect(state.viewports[0].progress).toBeNull();
+    expect(selectCalculationProgress({ orbital: state })).toBeNull(); // Indeterminate until the first report
+    state = orbitalReducer(state, setViewportCount(2));
+    state = orbitalReducer(state, setCalculationProgress(0.5, 0));
+    state = orbitalReducer(state, setCalculationProgress(0.9, 1));
+    expect(selectCalculationProgress({ orbital: state })).toBeCloseTo(0.7);
+
+    state = orbitalReducer(state, finishOrbitalCalculation(1));
+    state = orbitalReducer(state, setCalculationProgress(1, 1));
+    expect(state.viewports[1].progress).toBeNull();
+    expect(selectCalculationProgress({ orbital: state })).toBe(0.5);
+  });
+
+  it('records why a calculation failed until the next one starts', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    state = orbitalReducer(state, failOrbitalCalculation('Calculation timed out after 120 s.'));
+    expect(state.viewports[0]).toMatchObject({ isLoading: false, progress: null, error: 'Calculation timed out after 120 s.' });
+    expect(selectCalculationProgress({ orbital: state })).toBeNull();
+    state = orbitalReducer(state, startOrbitalCalculation(baseParams));
+    expect(state.viewports[0].error).toBeNull();
+  });
+
+  it('tracks the surface of an imported cube file without replacing the params', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    state = orbitalReducer(state, finishOrbitalCalculation());
+    state = orbitalReducer(state, startImportedCubeCalculation(0));
+    expect(state.viewports[0]).toMatchObject({ params: baseParams, isLoading: true, progress: null, surfaceInfo: null });
+    state = orbitalReducer(state, setCalculationProgress(0.25, 0));
+    expect(state.viewports[0].progress).toBe(0.25);
+    state = orbitalReducer(state, failOrbitalCalculation('No surface at iso-value 1; try a smaller value.', 0));
+    expect(state.viewports[0]).toMatchObject({ isLoading: false, error: 'No surface at iso-value 1; try a smaller value.' });
+    state = orbitalReducer(state, startImportedCubeCalculation(0));
+    expect(state.viewports[0].error).toBeNull();
+  });
+
+  it('toggles the nodal overlay independently of the calculation', () => {
+    let state = orbitalReducer(undefined, setShowNodalSurfaces(true));
+    state = orbitalReducer(state, startOrbitalCalculation(baseParams));
+    expect(state.showNodalSurfaces).toBe(true);
+  });
+
+  it('moves the slice plane only while one is shown', () => {
+    let state = orbitalReducer(undefined, setSliceOffset(2));
+    expect(state.slicePlane).toBeNull();
+    state = orbitalReducer(state, setSlicePlane({ normal: [0, 0, 1], offset: 0 }));
+    state = orbitalReducer(state, setSliceOffset(2));
+    expect(state.slicePlane).toEqual({ normal: [0, 0, 1], offset: 2 });
+    state = orbitalReducer(state, setSlicePlane(null));
+    expect(state.slicePlane).toBeNull();
+  });
+
+  it('has no timeline for a stationary state', () => {
+    const state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    expect(state.animation.period).toBeNull();
+  });
+
+  it('carries the time parameter and beat period of a superposition', () => {
+    const state = orbitalReducer(undefined, startOrbitalCalculation({ ...dipoleParams, time: 3 }));
+    expect(state.animation.time).toBe(3);
+    expect(state.animation.period).toBeCloseTo((2 * Math.PI) / 0.375, 9);
+    expect(state.animation.hasFrames).toBe(false);
+  });
+
+  it('only plays when frames were precomputed', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(dipoleParams));
+    state = orbitalReducer(state, setAnimationPlaying(true));
+    expect(state.animation.isPlaying).toBe(false);
+
+    state = orbitalReducer(state, startOrbitalCalculation({ ...dipoleParams, frameCount: 24 }));
+    state = orbitalReducer(state, setAnimationPlaying(true));
+    expect(state.animation.isPlaying).toBe(true);
+    state = orbitalReducer(state, setAnimationTime(4.2));
+    expect(state.animation.time).toBe(4.2);
+  });
+
+  it('has no frames outside the isosurface mode', () => {
+    const state = orbitalReducer(undefined, startOrbitalCalculation({ ...dipoleParams, frameCount: 24, renderMode: 'points' }));
+    expect(state.animation.hasFrames).toBe(false);
+  });
+
+  it('stops playback when new params are submitted', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation({ ...dipoleParams, frameCount: 24 }));
+    state = orbitalReducer(state, setAnimationPlaying(true));
+    state = orbitalReducer(state, startOrbitalCalculation({ ...dipoleParams, frameCount: 24 }));
+    expect(state.animation.isPlaying).toBe(false);
+  });
+
+  it('adds panes as copies of the active one and edits the active pane', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    state = orbitalReducer(state, finishOrbitalCalculation());
+    state = orbitalReducer(state, setViewportCount(3));
+    expect(state.viewports.map(v => v.params)).toEqual([baseParams, baseParams, baseParams]);
+    expect(selectIsLoading({ orbital: state })).toBe(true);
+
+    state = orbitalReducer(state, setActiveViewport(2));
+    state = orbitalReducer(state, startOrbitalCalculation(dipoleParams));
+    expect(state.viewports[0].params).toEqual(baseParams);
+    expect(selectCurrentParams({ orbital: state })).toEqual(dipoleParams);
+    expect(state.animation.period).not.toBeNull();
+
+    state = orbitalReducer(state, setActiveViewport(0));
+    expect(state.animation.period).toBeNull();
+  });
+
+  it('finishes and describes each pane separately', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    state = orbitalReducer(state, setViewportCount(2));
+    state = orbitalReducer(state, finishOrbitalCalculation(1));
+    state = orbitalReducer(state, setSurfaceInfo({ isoLevel: 1e-3, enclosedFraction: 0.5 }, 1));
+    expect(state.viewports[0]).toMatchObject({ isLoading: true, surfaceInfo: null });
+    expect(state.viewports[1]).toMatchObject({ isLoading: false, surfaceInfo: { isoLevel: 1e-3, enclosedFraction: 0.5 } });
+    state = orbitalReducer(state, finishOrbitalCalculation(0));
+    expect(selectIsLoading({ orbital: state })).toBe(false);
+  });
+
+  it('adds layers with successive colour pairs and keeps them across calculations', () => {
+    let state = orbitalReducer(undefined, startOrbitalCalculation(baseParams));
+    state = orbitalReducer(state, addLayers([
+      { n: 2, l: 1, ml: -1, Z: 1, isoLevel: 1e-3 },
+      { n: 2, l: 1, ml: 1, Z: 1, isoLevel: 1e-3 },
+    ]));
+    const [first, second] = state.viewports[0].layers;
+    expect(first.id).not.toBe(second.id);
+    expect(first.positiveColor).not.toEqual(second.positiveColor);
+
+    state = orbitalReducer(state, updateLayer({ id: second.id, changes: { opacity: 0.3, visible: false } }));
+    state = orbitalReducer(state, removeLayer(first.id));
+    state = orbitalReducer(state, startOrbitalCalculation(dipoleParams));
+    expect(state.viewports[0].layers).toEqual([{ ...second, opacity: 0.3, visible: false }]);
+  });
+
+  it('keeps the active pane within the pane count', () => {
+    let state = orbitalReducer(undefined, setViewportCount(9));
+    expect(state.viewports).toHaveLength(4);
+    state = orbitalReducer(state, setActiveViewport(3));
+    state = orbitalReducer(state, setViewportCount(2));
+    expect(state.viewports).toHaveLength(2);
+    expect(state.activeViewport).toBe(1);
+    state = orbitalReducer(state, setActiveViewport(5));
+    expect(state.activeViewport).toBe(1);
+  });
+});
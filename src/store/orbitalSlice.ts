@@ -1,29 +1,223 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { OrbitalParams } from '../types/orbital';
-
-interface OrbitalState {
-  currentParams: OrbitalParams | null;
-  isLoading: boolean;
-}
-
-const initialState: OrbitalState = {
-  currentParams: null,
-  isLoading: false
-};
-
-const orbitalSlice = createSlice({
-  name: 'orbital',
-  initialState,
-  reducers: {
-    startOrbitalCalculation: (state, action: PayloadAction<OrbitalParams>) => {
-      state.isLoading = true;
-      state.currentParams = action.payload;
-    },
-    finishOrbitalCalculation: (state) => {
-      state.isLoading = false;
-    }
-  }
-});
-
-export const { startOrbitalCalculation, finishOrbitalCalculation } = orbitalSlice.actions;
-export default orbitalSlice.reducer;
\ No newline at end of file
+import { createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
+import { OrbitalLayer, OrbitalParams, SlicePlane, SurfaceInfo } from '../types/orbital';
+import { getBeatPeriod, getOrbitalComponents } from '../orbital_superposition';
+import { getLayerStyle, LayerOrbital } from '../orbital_layers';
+
+// Panes shown side by side for comparing orbitals
+export const MAX_VIEWPORTS = 4;
+
+interface AnimationState {
+  time: number; // Evolution time in atomic units
+  period: number | null; // Beat period of the current superposition, null when stationary
+  hasFrames: boolean; // Whether frames were precomputed for playback
+  isPlaying: boolean;
+}
+
+interface ViewportState {
+  params: OrbitalParams | null;
+  isLoading: boolean;
+  progress: number | null; // Fraction of the calculation done, as the worker reports it; null when idle or before the first report
+  error: string | null; // Why the last calculation failed, e.g. a timeout
+  surfaceInfo: SurfaceInfo | null; // Isosurface drawn for params, once the worker reports it
+  layers: OrbitalLayer[]; // Drawn over the orbital, in the order they were added
+}
+
+interface OrbitalState {
+  viewports: ViewportState[]; // 1 to MAX_VIEWPORTS panes, each with its own orbital
+  activeViewport: number; // Pane edited by the controls and described by the panels and timeline
+  linkCameras: boolean; // Rotating one pane rotates all of them
+  animation: AnimationState; // Of the active pane
+  showNodalSurfaces: boolean; // Overlay the nodal spheres, planes and cones of the current state
+  slicePlane: SlicePlane | null; // Cross-section plane, also clipping the 3D view; null when off
+}
+
+const emptyViewport: ViewportState = { params: null, isLoading: false, progress: null, error: null, surfaceInfo: null, layers: [] };
+
+const getAnimationState = (params: OrbitalParams | null): AnimationState => ({
+  time: params?.time ?? 0,
+  period: params ? getBeatPeriod(getOrbitalComponents(params), params.Z) : null,
+  // Only the isosurface mode precomputes frames
+  hasFrames: !!params && (params.frameCount ?? 0) > 1 && (params.renderMode ?? 'isosurface') === 'isosurface',
+  isPlaying: false
+});
+
+const initialState: OrbitalState = {
+  viewports: [emptyViewport],
+  activeViewport: 0,
+  linkCameras: false,
+  animation: getAnimationState(null),
+  showNodalSurfaces: false,
+  slicePlane: null
+};
+
+const orbitalSlice = createSlice({
+  name: 'orbital',
+  initialState,
+  reducers: {
+    // Computes new params in the active pane
+    startOrbitalCalculation: (state, action: PayloadAction<OrbitalParams>) => {
+      const viewport = state.viewports[state.activeViewport];
+      viewport.params = action.payload;
+      viewport.isLoading = true;
+      viewport.progress = null; // Indeterminate until the worker reports, which single-shot jobs never do
+      viewport.error = null;
+      viewport.surfaceInfo = null;
+      state.animation = getAnimationState(action.payload);
+    },
+    // Extracting the surface of an imported cube file, which keeps the pane's params
+    startImportedCubeCalculation: {
+      reducer: (state, action: PayloadAction<number | undefined>) => {
+        const viewport = state.viewports[action.payload ?? state.activeViewport];
+        if (viewport) {
+          viewport.isLoading = true;
+          viewport.progress = null;
+          viewport.error = null;
+          viewport.surfaceInfo = null;
+        }
+      },
+      prepare: (viewport?: number) => ({ payload: viewport })
+    },
+    finishOrbitalCalculation: {
+      reducer: (state, action: PayloadAction<number | undefined>) => {
+        const viewport = state.viewports[action.payload ?? state.activeViewport];
+        if (viewport) {
+          viewport.isLoading = false;
+          viewport.progress = null;
+        }
+      },
+      prepare: (viewport?: number) => ({ payload: viewport })
+    },
+    failOrbitalCalculation: {
+      reducer: (state, action: PayloadAction<{ error: string; viewport?: number }>) => {
+        const viewport = state.viewports[action.payload.viewport ?? state.activeViewport];
+        if (viewport) {
+          viewport.isLoading = false;
+          viewport.progress = null;
+          viewport.error = action.payload.error;
+        }
+      },
+      prepare: (error: string, viewport?: number) => ({ payload: { error, viewport } })
+    },
+    setCalculationProgress: {
+      reducer: (state, action: PayloadAction<{ progress: number; viewport?: number }>) => {
+        const viewport = state.viewports[action.payload.viewport ?? state.activeViewport];
+        // Late progress from a job that has already finished is dropped
+        if (viewport?.isLoading) {
+          viewport.progress = Math.max(0, Math.min(1, action.payload.progress));
+        }
+      },
+      prepare: (progress: number, viewport?: number) => ({ payload: { progress, viewport } })
+    },
+    setSurfaceInfo: {
+      reducer: (state, action: PayloadAction<{ surfaceInfo: SurfaceInfo | null; viewport?: number }>) => {
+        const viewport = state.viewports[action.payload.viewport ?? state.activeViewport];
+        if (viewport) {
+          viewport.surfaceInfo = action.payload.surfaceInfo;
+        }
+      },
+      prepare: (surfaceInfo: SurfaceInfo | null, viewport?: number) => ({ payload: { surfaceInfo, viewport } })
+    },
+    // New panes start as copies of the active one, ready to be edited
+    setViewportCount: (state, action: PayloadAction<number>) => {
+      const count = Math.max(1, Math.min(MAX_VIEWPORTS, Math.round(action.payload)));
+      const { params, layers } = state.viewports[state.activeViewport];
+      while (state.viewports.length < count) {
+        state.viewports.push({
+          params,
+          isLoading: params !== null,
+          progress: null,
+          error: null,
+          surfaceInfo: null,
+          layers
+        });
+      }
+      state.viewports.length = count;
+      if (state.activeViewport >= count) {
+        state.activeViewport = count - 1;
+        state.animation = getAnimationState(state.viewports[count - 1].params);
+      }
+    },
+    setActiveViewport: (state, action: PayloadAction<number>) => {
+      if (action.payload === state.activeViewport || !state.viewports[action.payload]) return;
+      state.activeViewport = action.payload;
+      state.animation = getAnimationState(state.viewports[action.payload].params);
+    },
+    // Adds layers to the active pane, each with the next colour pair
+    addLayers: {
+      reducer: (state, action: PayloadAction<(LayerOrbital & { id: string })[]>) => {
+        const { layers } = state.viewports[state.activeViewport];
+        action.payload.forEach(orbital => {
+          layers.push({ ...orbital, ...getLayerStyle(layers.length) });
+        });
+      },
+      prepare: (orbitals: LayerOrbital[]) => ({ payload: orbitals.map(orbital => ({ ...orbital, id: nanoid() })) })
+    },
+    updateLayer: (state, action: PayloadAction<{ id: string; changes: Partial<Omit<OrbitalLayer, 'id'>> }>) => {
+      const layer = state.viewports[state.activeViewport].layers.find(l => l.id === action.payload.id);
+      if (layer) {
+        Object.assign(layer, action.payload.changes);
+      }
+    },
+    removeLayer: (state, action: PayloadAction<string>) => {
+      const viewport = state.viewports[state.activeViewport];
+      viewport.layers = viewport.layers.filter(l => l.id !== action.payload);
+    },
+    setLinkCameras: (state, action: PayloadAction<boolean>) => {
+      state.linkCameras = action.payload;
+    },
+    setShowNodalSurfaces: (state, action: PayloadAction<boolean>) => {
+      state.showNodalSurfaces = action.payload;
+    },
+    setSlicePlane: (state, action: PayloadAction<SlicePlane | null>) => {
+      state.slicePlane = action.payload;
+    },
+    setSliceOffset: (state, action: PayloadAction<number>) => {
+      if (state.slicePlane) {
+        state.slicePlane.offset = action.payload;
+      }
+    },
+    setAnimationTime: (state, action: PayloadAction<number>) => {
+      state.animation.time = action.payload;
+    },
+    setAnimationPlaying: (state, action: PayloadAction<boolean>) => {
+      state.animation.isPlaying = action.payload && state.animation.hasFrames;
+    }
+  }
+});
+
+type OrbitalRootState = { orbital: OrbitalState };
+
+export const selectActiveViewport = (state: OrbitalRootState) => state.orbital.viewports[state.orbital.activeViewport];
+// Params of the active pane
+export const selectCurrentParams = (state: OrbitalRootState) => selectActiveViewport(state).params;
+// Busy while any pane is still being computed
+export const selectIsLoading = (state: OrbitalRootState) => state.orbital.viewports.some(viewport => viewport.isLoading);
+// Mean progress of the panes being computed, or null when none is or none has reported yet
+export const selectCalculationProgress = (state: OrbitalRootState): number | null => {
+  const loading = state.orbital.viewports.filter(viewport => viewport.isLoading);
+  if (loading.every(viewport => viewport.progress === null)) {
+    return null;
+  }
+  return loading.reduce((sum, viewport) => sum + (viewport.progress ?? 0), 0) / loading.length;
+};
+
+export const {
+  startOrbitalCalculation,
+  startImportedCubeCalculation,
+  finishOrbitalCalculation,
+  failOrbitalCalculation,
+  setCalculationProgress,
+  setSurfaceInfo,
+  setViewportCount,
+  setActiveViewport,
+  addLayers,
+  updateLayer,
+  removeLayer,
+  setLinkCameras,
+  setShowNodalSurfaces,
+  setSlicePlane,
+  setSliceOffset,
+  setAnimationTime,
+  setAnimationPlaying
+} = orbitalSlice.actions;
+export default orbitalSlice.reducer;
@@ -0,0 +1,49 @@
+import scenesReducer, {
+  saveScene,
+  renameScene,
+  deleteScene,
+  moveScene,
+  importScenes
+} from './scenesSlice';
+
+const view = 'n=2&l=1&ml=0&Z=1&res=32&rMax=15&iso=0.0005';
+
+const withScenes = (...names: string[]) =>
+  names.reduce((state, name) => scenesReducer(state, saveScene(name, view)), scenesReducer(undefined, { type: 'init' }));
+
+describe('scenesSlice', () => {
+  it('saves scenes under trimmed names with unique ids', () => {
+    const state = withScenes('  2p_z ', '2p_z');
+    expect(state.scenes.map(s => s.name)).toEqual(['2p_z', '2p_z']);
+    expect(state.scenes[0].view).toBe(view);
+    expect(state.scenes[0].id).not.toBe(state.scenes[1].id);
+  });
+
+  it('renames scenes, ignoring blank names', () => {
+    let state = withScenes('a');
+    const { id } = state.scenes[0];
+    state = scenesReducer(state, renameScene({ id, name: ' b ' }));
+    expect(state.scenes[0].name).toBe('b');
+    state = scenesReducer(state, renameScene({ id, name: '   ' }));
+    expect(state.scenes[0].name).toBe('b');
+  });
+
+  it('deletes and reorders scenes', () => {
+    let state = withScenes('a', 'b', 'c');
+    const [a, b] = state.scenes;
+    state = scenesReducer(state, moveScene({ id: a.id, toIndex: 2 }));
+    expect(state.scenes.map(s => s.name)).toEqual(['b', 'c', 'a']);
+    state = scenesReducer(state, moveScene({ id: a.id, toIndex: -5 }));
+    expect(state.scenes.map(s => s.name)).toEqual(['a', 'b', 'c']);
+    state = scenesReducer(state, deleteScene(b.id));
+    expect(state.scenes.map(s => s.name)).toEqual(['a', 'c']);
+  });
+
+  it('appends imported scenes with fresh ids', () => {
+    let state = withScenes('a');
+    const existing = state.scenes[0];
+    state = scenesReducer(state, importScenes([existing, { ...existing, name: 'b' }]));
+    expect(state.scenes.map(s => s.name)).toEqual(['a', 'a', 'b']);
+    expect(new Set(state.scenes.map(s => s.id)).size).toBe(3);
+  });
+});
@@ -0,0 +1,56 @@
+import { createSlice, nanoid, PayloadAction } from '@reduxjs/toolkit';
+import { Scene } from '../types/orbital';
+
+interface ScenesState {
+  scenes: Scene[]; // In the order they are listed
+}
+
+const initialState: ScenesState = {
+  scenes: []
+};
+
+const scenesSlice = createSlice({
+  name: 'scenes',
+  initialState,
+  reducers: {
+    saveScene: {
+      reducer: (state, action: PayloadAction<Scene>) => {
+        state.scenes.push(action.payload);
+      },
+      prepare: (name: string, view: string) => ({ payload: { id: nanoid(), name: name.trim(), view } })
+    },
+    renameScene: (state, action: PayloadAction<{ id: string; name: string }>) => {
+      const scene = state.scenes.find(s => s.id === action.payload.id);
+      const name = action.payload.name.trim();
+      if (scene && name !== '') {
+        scene.name = name;
+      }
+    },
+    deleteScene: (state, action: PayloadAction<string>) => {
+      state.scenes = state.scenes.filter(s => s.id !== action.payload);
+    },
+    moveScene: (state, action: PayloadAction<{ id: string; toIndex: number }>) => {
+      const from = state.scenes.findIndex(s => s.id === action.payload.id);
+      if (from < 0) return;
+      const to = Math.max(0, Math.min(state.scenes.length - 1, action.payload.toIndex));
+      const [scene] = state.scenes.splice(from, 1);
+      state.scenes.splice(to, 0, scene);
+    },
+    // Imported scenes are appended with fresh ids, so importing the same file twice keeps both copies
+    importScenes: {
+      reducer: (state, action: PayloadAction<Scene[]>) => {
+        state.scenes.push(...action.payload);
+      },
+      prepare: (scenes: Scene[]) => ({ payload: scenes.map(scene => ({ ...scene, id: nanoid() })) })
+    }
+  }
+});
+
+export const {
+  saveScene,
+  renameScene,
+  deleteScene,
+  moveScene,
+  importScenes
+} = scenesSlice.actions;
+export default scenesSlice.reducer;
@@ -1,20 +1,188 @@
-export interface OrbitalParams {
-    n: number;
-    l: number;
-    ml: number;
-    Z: number;
-    resolution: number;
-    rMax: number;
-    isoLevel: number;
-}
-
-export type OrbitalDataPoint = {
-    waveFunctionValue: number; // Raw wavefunction value (ψ)
-    probabilityDensity: number; // Squared magnitude of the wavefunction (|ψ|^2)
-};
-// Add MeshData interface since it's used but not defined
-export interface MeshData {
-    positions: number[][];
-    cells: number[][];
-    psiSigns: number[]; // Include ψ signs in the mesh data
-}
+/**
+ * Angular basis used to build the orbital:
+ * - 'real': real spherical harmonics (px, py, dxy, ...), the textbook orbital shapes.
+ * - 'complex': complex spherical harmonics Y_l^m, the true m_l eigenstates |n,l,m⟩.
+ */
+export type OrbitalBasis = 'real' | 'complex';
+
+/**
+ * One weighted basis state c * |n, l, ml⟩ of a superposition.
+ */
+export interface OrbitalComponent {
+    n: number;
+    l: number;
+    ml: number;
+    coefficient: number;
+}
+
+/**
+ * How the orbital is drawn:
+ * - 'isosurface': triangle mesh of the surface at the iso-level (see isosurface.ts).
+ * - 'volume': ray-marched density grid through a transfer function.
+ * - 'points': Monte Carlo "electron cloud" of points drawn from |ψ|².
+ */
+export type RenderMode = 'isosurface' | 'volume' | 'points';
+
+/**
+ * How the isosurface is extracted:
+ * - 'uniform': from the resolution³ grid over the whole box.
+ * - 'adaptive': from an octree of at most resolution³ cells, refined towards the surface and
+ *   the nodes of ψ (see adaptive_isosurface.ts).
+ */
+export type ExtractionMode = 'uniform' | 'adaptive';
+
+/**
+ * What samples the grid of a single orbital in the workers (see compute_backend.ts):
+ * - 'js': compileOrbital's evaluator.
+ * - 'wasm': the WebAssembly SIMD kernel, or 'js' wherever the kernel cannot be loaded.
+ */
+export type ComputeBackendName = 'js' | 'wasm';
+
+export type RGBColor = [number, number, number]; // Components in [0, 1]
+
+export interface ColorStop {
+    position: number; // Normalised density in [0, 1]
+    color: RGBColor;
+    opacity: number; // In [0, 1]
+}
+
+/**
+ * Maps grid samples to colour and opacity for volume rendering.
+ */
+export interface TransferFunction {
+    stops: ColorStop[]; // Colour/opacity ramp, sorted by position
+    logScale: boolean; // Map log10(density) instead of density
+    logDecades: number; // Decades below the maximum density covered by the log scale
+    signAware: boolean; // Colour by the sign of ψ instead of the ramp colour
+    positiveColor: RGBColor;
+    negativeColor: RGBColor;
+    opacityScale: number; // Multiplies every opacity
+}
+
+export interface OrbitalParams {
+    n: number;
+    l: number;
+    ml: number;
+    Z: number;
+    resolution: number;
+    rMax: number;
+    isoLevel: number; // Ignored when enclosedProbability is set
+    enclosedProbability?: number; // Isosurface enclosing this fraction of the probability, in (0, 1]
+    basis?: OrbitalBasis; // Defaults to 'real'
+    condonShortleyPhase?: boolean; // Complex basis only: the (-1)^m of complexSphericalHarmonic; defaults to true
+    components?: OrbitalComponent[]; // When non-empty, ψ = Σ cᵢ ψ(nᵢ, lᵢ, mᵢ) replaces the single (n, l, ml) state
+    time?: number; // Evolution time in atomic units (ħ/Eₕ); defaults to 0
+    frameCount?: number; // Frames to precompute over one beat period for playback; 0 or undefined renders only `time`
+    renderMode?: RenderMode; // Defaults to 'isosurface'
+    extraction?: ExtractionMode; // Isosurface mode only; defaults to 'uniform'
+    computeBackend?: ComputeBackendName; // Defaults to 'wasm' (DEFAULT_COMPUTE_BACKEND)
+    transferFunction?: TransferFunction; // Volume mode only; defaults to defaultTransferFunction
+    pointCount?: number; // Points mode only; defaults to DEFAULT_POINT_COUNT
+    sampleSeed?: number; // Points mode only; seeds the sampler so a given seed always gives the same cloud
+}
+
+/**
+ * An extra orbital drawn over the main one in the same scene, e.g. one of the three 2p
+ * orbitals. Layers are isosurfaces in the real basis, each computed by its own worker job.
+ */
+export interface OrbitalLayer {
+    id: string;
+    n: number;
+    l: number;
+    ml: number;
+    Z: number;
+    isoLevel: number; // Density on the surface
+    positiveColor: RGBColor; // Where ψ > 0
+    negativeColor: RGBColor; // Where ψ < 0
+    opacity: number; // In [0, 1]
+    visible: boolean;
+}
+
+export type ComplexNumber = {
+    re: number;
+    im: number;
+};
+
+export type OrbitalDataPoint = {
+    waveFunctionValue: number; // Raw wavefunction value (ψ); Re(ψ) in the complex basis
+    probabilityDensity: number; // Squared magnitude of the wavefunction (|ψ|^2)
+    realPart: number; // Re(ψ)
+    imaginaryPart: number; // Im(ψ), always 0 in the real basis
+    phase: number; // arg(ψ) in radians, in (-π, π]
+};
+// Volumetric samples on a cubic grid, stored x-major (see sampleOrbitalGrid)
+export interface OrbitalData {
+    grid: Float32Array; // |ψ|² at each grid point
+    psiGrid: Float32Array; // Re(ψ) at each grid point, for sign-aware colouring
+    dims: [number, number, number];
+    maxDensity: number;
+    minVal: number; // Starting coordinate of the cube (e.g., -rMax)
+    maxVal: number; // Ending coordinate of the cube (e.g., +rMax)
+    origin?: [number, number, number]; // Imported grids only: first grid point, when the box is not [minVal, maxVal]^3
+    spacing?: [number, number, number]; // Imported grids only: voxel size along each axis
+}
+
+// Nucleus listed in the header of an imported cube file
+export interface CubeAtom {
+    atomicNumber: number;
+    charge: number;
+    position: [number, number, number]; // Bohr
+}
+
+// Grid read from a Gaussian cube file, drawn instead of the analytic orbital
+export interface ImportedCube {
+    name: string; // File name
+    comments: [string, string];
+    data: OrbitalData; // psiGrid holds the file's values; grid holds their square when signed
+    atoms: CubeAtom[];
+    signed: boolean; // Values change sign (an orbital) rather than being a density
+}
+
+// Isosurface as flat typed arrays, transferred from the worker without copying (see mesh_data.ts)
+export interface MeshData {
+    positions: Float32Array; // x, y, z of each vertex
+    normals: Float32Array; // Unit normal of each vertex
+    indices: Uint32Array; // Three vertex indices per triangle
+    psiSigns: Int8Array; // Sign of ψ at each vertex, +1 or -1
+    psiPhases: Float32Array; // arg(ψ) per vertex, used for hue-wheel colouring in the complex basis
+}
+
+// A plane n·p = offset used for 2D cross-sections and for clipping the 3D view
+export interface SlicePlane {
+    normal: [number, number, number]; // Unit normal
+    offset: number; // Signed distance from the origin in Bohr radii
+}
+
+// Where the camera sits and what it orbits, in Bohr radii
+export interface CameraPose {
+    position: [number, number, number];
+    target: [number, number, number];
+}
+
+// A named view saved by the user, stored as the query string of its shareable link
+export interface Scene {
+    id: string;
+    name: string;
+    view: string; // Parameters, camera and display options; see url_state.ts
+}
+
+// Quantity plotted on a slice: ψ (Re ψ in the complex basis) or |ψ|²
+export type SliceQuantity = 'psi' | 'density';
+
+// The isosurface actually drawn, reported back from the worker
+export interface SurfaceInfo {
+    isoLevel: number; // Density on the surface
+    enclosedFraction: number; // Fraction of the probability in the box enclosed by the surface
+}
+
+// Monte Carlo samples of |ψ|², drawn by orbital_sampler.ts
+export interface PointCloudData {
+    positions: number[][];
+    psiSigns: number[]; // Sign of ψ at each point
+    psiPhases: number[]; // arg(ψ) at each point
+}
+
+export interface AnimationFrameData {
+    time: number; // Evolution time in atomic units
+    meshData: MeshData;
+}
@@ -0,0 +1,253 @@
+import {
+    CameraPose,
+    ColorStop,
+    ComputeBackendName,
+    ExtractionMode,
+    OrbitalBasis,
+    OrbitalComponent,
+    OrbitalParams,
+    RenderMode,
+    SlicePlane,
+    TransferFunction
+} from './types/orbital';
+import { validateComponent } from './orbital_superposition';
+import { transferFunctionRamps } from './volume_rendering';
+import { CELL_BUDGET_RESOLUTIONS } from './adaptive_isosurface';
+
+// Everything needed to reproduce a view, kept in the page's query string so that a link opens
+// the same orbital, camera and overlays. Names are short so that links stay readable:
+//   ?n=3&l=2&ml=0&Z=1&res=64&rMax=21.5&iso=0.001&enc=0.9&basis=real&nodal=1&cam=0,0,12,0,0,0
+
+/**
+ * A shareable view: the orbital plus the display options that are not part of OrbitalParams.
+ */
+export interface UrlState {
+    params: OrbitalParams;
+    showNodalSurfaces: boolean;
+    slicePlane: SlicePlane | null;
+    camera: CameraPose | null; // null keeps the default camera
+}
+
+// Limits of the matching inputs in Controls
+export const MAX_URL_N = 30;
+export const MAX_URL_Z = 118;
+const FRAME_COUNTS = [0, 24, 48, 96];
+const MIN_POINT_COUNT = 1000;
+const MAX_POINT_COUNT = 100000;
+const MAX_R_MAX = 5000;
+
+const renderModes: RenderMode[] = ['isosurface', 'volume', 'points'];
+const bases: OrbitalBasis[] = ['real', 'complex'];
+const extractionModes: ExtractionMode[] = ['uniform', 'adaptive'];
+const computeBackends: ComputeBackendName[] = ['js', 'wasm'];
+
+// Camera coordinates are rounded so that orbiting a little does not produce long links
+const CAMERA_DECIMALS = 3;
+
+const formatList = (values: number[]) => values.join(',');
+const roundCamera = (value: number) => Number(value.toFixed(CAMERA_DECIMALS));
+
+/**
+ * Serialises a view into a query string (without the leading '?').
+ * Optional parameters are only written when they are set.
+ */
+export function encodeUrlState(state: UrlState): string {
+    const { params } = state;
+    const query = new URLSearchParams();
+    query.set('n', String(params.n));
+    query.set('l', String(params.l));
+    query.set('ml', String(params.ml));
+    query.set('Z', String(params.Z));
+    query.set('res', String(params.resolution));
+    query.set('rMax', String(params.rMax));
+    query.set('iso', String(params.isoLevel));
+    if (params.enclosedProbability !== undefined) query.set('enc', String(params.enclosedProbability));
+    if (params.basis !== undefined) query.set('basis', params.basis);
+    if (params.condonShortleyPhase !== undefined) query.set('cs', params.condonShortleyPhase ? '1' : '0');
+    if (params.components && params.components.length > 0) {
+        query.set('psi', params.components.map(c => formatList([c.n, c.l, c.ml, c.coefficient])).join(';'));
+    }
+    if (params.time) query.set('t', String(params.time));
+    if (params.frameCount) query.set('frames', String(params.frameCount));
+    if (params.renderMode !== undefined) query.set('mode', params.renderMode);
+    if (params.extraction !== undefined) query.set('ext', params.extraction);
+    if (params.computeBackend !== undefined) query.set('backend', params.computeBackend);
+    if (params.transferFunction) {
+        // Named ramps are written by name; edited ones in full
+        const { stops, ...rest } = params.transferFunction;
+        const rampName = Object.keys(transferFunctionRamps).find(name => transferFunctionRamps[name] === stops);
+        query.set('tf', JSON.stringify({ ...rest, stops: rampName ?? stops }));
+    }
+    if (params.pointCount !== undefined) query.set('points', String(params.pointCount));
+    if (params.sampleSeed !== undefined) query.set('seed', String(params.sampleSeed));
+    if (state.showNodalSurfaces) query.set('nodal', '1');
+    if (state.slicePlane) query.set('slice', formatList([...state.slicePlane.normal, state.slicePlane.offset]));
+    if (state.camera) query.set('cam', formatList([...state.camera.position, ...state.camera.target].map(roundCamera)));
+    return query.toString();
+}
+
+/**
+ * Reads a view from a query string, checking the quantum-number rules and the input ranges.
+ * @returns null when the query string holds no orbital.
+ * @throws Error naming the first parameter that is missing or invalid.
+ */
+export function decodeUrlState(search: string): UrlState | null {
+    const query = new URLSearchParams(search);
+    if (!query.has('n')) {
+        return null;
+    }
+
+    const number = (key: string, isValid: (value: number) => boolean, rule: string): number => {
+        const text = query.get(key);
+        const value = text === null || text.trim() === '' ? NaN : Number(text);
+        if (!Number.isFinite(value) || !isValid(value)) {
+            throw new Error(`Link parameter "${key}" ${text === null ? 'is missing' : `is "${text}"`}; ${rule}.`);
+        }
+        return value;
+    };
+    const optionalNumber = (key: string, isValid: (value: number) => boolean, rule: string): number | undefined =>
+        query.has(key) ? number(key, isValid, rule) : undefined;
+    const list = (key: string, length: number): number[] => {
+        const values = (query.get(key) ?? '').split(',').map(Number);
+        if (values.length !== length || values.some(value => !Number.isFinite(value))) {
+            throw new Error(`Link parameter "${key}" must be ${length} comma-separated numbers.`);
+        }
+        return values;
+    };
+    const oneOf = <T extends string>(key: string, options: T[]): T | undefined => {
+        const text = query.get(key);
+        if (text === null) return undefined;
+        if (!(options as string[]).includes(text)) {
+            throw new Error(`Link parameter "${key}" is "${text}"; expected one of ${options.join(', ')}.`);
+        }
+        return text as T;
+    };
+
+    const n = number('n', v => Number.isInteger(v) && v >= 1 && v <= MAX_URL_N, `n must be an integer from 1 to ${MAX_URL_N}`);
+    const l = number('l', v => Number.isInteger(v) && v >= 0 && v <= n - 1, 'l must be an integer between 0 and n-1');
+    const ml = number('ml', v => Number.isInteger(v) && Math.abs(v) <= l, 'm_l must be an integer between -l and l');
+    const params: OrbitalParams = {
+        n,
+        l,
+        ml,
+        Z: number('Z', v => Number.isInteger(v) && v >= 1 && v <= MAX_URL_Z, `Z must be an integer from 1 to ${MAX_URL_Z}`),
+        resolution: number('res', v => CELL_BUDGET_RESOLUTIONS.includes(v), `res must be one of ${CELL_BUDGET_RESOLUTIONS.join(', ')}`),
+        rMax: number('rMax', v => v > 0 && v <= MAX_R_MAX, `rMax must be above 0 and at most ${MAX_R_MAX}`),
+        isoLevel: number('iso', v => v > 0, 'iso must be positive'),
+    };
+
+    const enclosedProbability = optionalNumber('enc', v => v > 0 && v < 1, 'enc must be in (0, 1)');
+    if (enclosedProbability !== undefined) params.enclosedProbability = enclosedProbability;
+    const basis = oneOf('basis', bases);
+    if (basis !== undefined) params.basis = basis;
+    const condonShortleyPhase = oneOf('cs', ['0', '1']);
+    if (condonShortleyPhase !== undefined) params.condonShortleyPhase = condonShortleyPhase === '1';
+    if (query.has('psi')) params.components = decodeComponents(query.get('psi') ?? '');
+    const time = optionalNumber('t', () => true, 't must be a number');
+    if (time !== undefined) params.time = time;
+    const frameCount = optionalNumber('frames', v => FRAME_COUNTS.includes(v), `frames must be one of ${FRAME_COUNTS.join(', ')}`);
+    if (frameCount !== undefined) params.frameCount = frameCount;
+    const renderMode = oneOf('mode', renderModes);
+    if (renderMode !== undefined) params.renderMode = renderMode;
+    const extraction = oneOf('ext', extractionModes);
+    if (extraction !== undefined) params.extraction = extraction;
+    const computeBackend = oneOf('backend', computeBackends);
+    if (computeBackend !== undefined) params.computeBackend = computeBackend;
+    if (query.has('tf')) params.transferFunction = decodeTransferFunction(query.get('tf') ?? '');
+    const pointCount = optionalNumber(
+        'points',
+        v => Number.isInteger(v) && v >= MIN_POINT_COUNT && v <= MAX_POINT_COUNT,
+        `points must be an integer from ${MIN_POINT_COUNT} to ${MAX_POINT_COUNT}`
+    );
+    if (pointCount !== undefined) params.pointCount = pointCount;
+    const sampleSeed = optionalNumber('seed', v => Number.isInteger(v) && v >= 0 && v < 2 ** 32, 'seed must be a 32-bit unsigned integer');
+    if (sampleSeed !== undefined) params.sampleSeed = sampleSeed;
+
+    let slicePlane: SlicePlane | null = null;
+    if (query.has('slice')) {
+        const [nx, ny, nz, offset] = list('slice', 4);
+        const length = Math.hypot(nx, ny, nz);
+        if (!(length > 0)) {
+            throw new Error('Link parameter "slice" must start with a non-zero normal.');
+        }
+        slicePlane = { normal: [nx / length, ny / length, nz / length], offset };
+    }
+
+    let camera: CameraPose | null = null;
+    if (query.has('cam')) {
+        const [px, py, pz, tx, ty, tz] = list('cam', 6);
+        camera = { position: [px, py, pz], target: [tx, ty, tz] };
+    }
+
+    return {
+        params,
+        showNodalSurfaces: query.get('nodal') === '1',
+        slicePlane,
+        camera,
+    };
+}
+
+// "n,l,ml,c;n,l,ml,c;..." with each component checked against the quantum-number rules
+function decodeComponents(text: string): OrbitalComponent[] {
+    return text.split(';').map((entry, i) => {
+        const values = entry.split(',').map(Number);
+        if (values.length !== 4) {
+            throw new Error(`Link parameter "psi" component ${i + 1} must be n,l,ml,coefficient.`);
+        }
+        const [n, l, ml, coefficient] = values;
+        const component = { n, l, ml, coefficient };
+        const error = validateComponent(component);
+        if (error) {
+            throw new Error(`Link parameter "psi" component ${i + 1}: ${error}`);
+        }
+        if (n > MAX_URL_N) {
+            throw new Error(`Link parameter "psi" component ${i + 1}: n must be at most ${MAX_URL_N}.`);
+        }
+        return component;
+    });
+}
+
+function decodeTransferFunction(text: string): TransferFunction {
+    const invalid = () => new Error('Link parameter "tf" is not a valid transfer function.');
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        throw invalid();
+    }
+    const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+    const isColor = (v: unknown) => Array.isArray(v) && v.length === 3 && v.every(isNumber);
+    const isStop = (v: unknown) => {
+        const stop = v as Partial<ColorStop> | null;
+        return typeof stop === 'object' && stop !== null && isNumber(stop.position) && isColor(stop.color) && isNumber(stop.opacity);
+    };
+
+    const tf = value as Record<string, unknown> | null;
+    if (typeof tf !== 'object' || tf === null) {
+        throw invalid();
+    }
+    // Named ramps are looked up among the table's own keys, so "constructor" is not a ramp
+    const stops = typeof tf.stops === 'string'
+        ? Object.prototype.hasOwnProperty.call(transferFunctionRamps, tf.stops) ? transferFunctionRamps[tf.stops] : undefined
+        : Array.isArray(tf.stops) && tf.stops.length >= 2 && tf.stops.every(isStop) ? (tf.stops as ColorStop[]) : undefined;
+    if (
+        !Array.isArray(stops) ||
+        typeof tf.logScale !== 'boolean' ||
+        !isNumber(tf.logDecades) ||
+        typeof tf.signAware !== 'boolean' ||
+        !isColor(tf.positiveColor) ||
+        !isColor(tf.negativeColor) ||
+        !isNumber(tf.opacityScale)
+    ) {
+        throw invalid();
+    }
+    return {
+        stops,
+        logScale: tf.logScale,
+        logDecades: tf.logDecades,
+        signAware: tf.signAware,
+        positiveColor: tf.positiveColor as TransferFunction['positiveColor'],
+        negativeColor: tf.negativeColor as TransferFunction['negativeColor'],
+        opacityScale: tf.opacityScale,
+    };
+}
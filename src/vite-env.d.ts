@@ -1,8 +1,8 @@
-/// <reference types="vite/client" />
-
-declare module '*.worker?worker' {
-  const workerConstructor: {
-    new (): Worker;
-  };
-  export default workerConstructor;
+/// <reference types="vite/client" />
+
+declare module '*.worker?worker' {
+  const workerConstructor: {
+    new (): Worker;
+  };
+  export default workerConstructor;
 }
\ No newline at end of file
@@ -0,0 +1,356 @@
+import { CubeAtom, OrbitalData, OrbitalParams } from './types/orbital';
+
+// Writers (and matching readers) for exporting sampled grids of ψ or |ψ|²: Gaussian cube for
+// VMD/Avogadro/Jmol, raw float32 with a JSON sidecar, and NRRD. Grids are x-major with z varying
+// fastest (see sampleOrbitalGrid), which is also the cube file order. Lengths are in Bohr radii.
+
+export type VolumeExportFormat = 'cube' | 'raw' | 'nrrd';
+
+// Grid exported: ψ (Re ψ in the complex basis) or |ψ|²
+export type VolumeQuantity = 'psi' | 'density';
+
+export interface VolumeExportFile {
+    data: ArrayBuffer | string;
+    mimeType: string;
+    extension: string;
+}
+
+/**
+ * A grid read back from a cube file.
+ */
+export interface CubeFile {
+    comments: [string, string];
+    origin: number[]; // Bohr
+    dims: [number, number, number];
+    axes: number[][]; // Voxel step vector per axis, in Bohr
+    atoms: CubeAtom[];
+    values: Float32Array; // Index (i * dims[1] + j) * dims[2] + k
+}
+
+/**
+ * Sidecar describing a raw float32 export.
+ */
+export interface RawVolumeHeader {
+    format: 'float32';
+    endian: 'little';
+    dims: [number, number, number];
+    order: 'z-fastest'; // Index (x * dims[1] + y) * dims[2] + z
+    origin: [number, number, number];
+    spacing: number; // Voxel size in Bohr, the same along every axis
+    units: 'bohr';
+    quantity: VolumeQuantity;
+    orbital: Pick<OrbitalParams, 'n' | 'l' | 'ml' | 'Z' | 'basis' | 'condonShortleyPhase' | 'components' | 'time'>;
+}
+
+/**
+ * A grid read back from an NRRD file, with the axes in file order (fastest first).
+ */
+export interface NrrdFile {
+    sizes: number[];
+    spaceDirections: number[][];
+    spaceOrigin: number[];
+    values: Float32Array;
+}
+
+export const volumeExportFormatLabels: Record<VolumeExportFormat, string> = {
+    cube: 'Gaussian cube (.cube)',
+    raw: 'Raw float32 + JSON header',
+    nrrd: 'NRRD (.nrrd)',
+};
+
+const CUBE_VALUES_PER_LINE = 6;
+const BOHR_PER_ANGSTROM = 1.8897261246;
+
+const gridSpacing = (data: OrbitalData) => (data.maxVal - data.minVal) / (data.dims[0] - 1);
+const gridValues = (data: OrbitalData, quantity: VolumeQuantity) => (quantity === 'psi' ? data.psiGrid : data.grid);
+
+// Fortran-style E13.5, e.g. " 1.23457E-03", which every cube reader accepts
+function formatCubeNumber(value: number): string {
+    const [mantissa, exponent] = value.toExponential(5).split('e');
+    const sign = exponent[0] === '-' ? '-' : '+';
+    return `${mantissa}E${sign}${exponent.replace(/^[+-]/, '').padStart(2, '0')}`.padStart(13);
+}
+
+const formatFixed = (value: number, width: number) => value.toFixed(6).padStart(width);
+
+function asciiBytes(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code > 0x7f) {
+            throw new Error("Volume headers must be ASCII.");
+        }
+        bytes[i] = code;
+    }
+    return bytes;
+}
+
+function float32LittleEndian(values: Float32Array): ArrayBuffer {
+    const buffer = new ArrayBuffer(values.length * 4);
+    const view = new DataView(buffer);
+    values.forEach((value, i) => view.setFloat32(i * 4, value, true));
+    return buffer;
+}
+
+// Short description of the orbital for file comments
+function describeOrbital(params: OrbitalParams): string {
+    const state = params.components && params.components.length > 0
+        ? params.components.map(c => `${c.coefficient}|${c.n},${c.l},${c.ml}>`).join(' + ')
+        : `n=${params.n} l=${params.l} ml=${params.ml}`;
+    const phase = params.basis === 'complex' && params.condonShortleyPhase === false ? ' no-CS-phase' : '';
+    return `${state} Z=${params.Z} basis=${params.basis ?? 'real'}${phase} t=${params.time ?? 0}`;
+}
+
+/**
+ * Writes a Gaussian cube file: two comment lines, the origin, three voxel vectors in Bohr
+ * (positive counts), one dummy nucleus of charge Z at the origin, then the values with z
+ * varying fastest, six per line and a new line after each z-column.
+ */
+export function writeCube(data: OrbitalData, quantity: VolumeQuantity, params: OrbitalParams): string {
+    const { dims, minVal } = data;
+    const spacing = gridSpacing(data);
+    const values = gridValues(data, quantity);
+
+    const lines: string[] = [
+        `electron-orbital-viewer ${quantity === 'psi' ? 'wavefunction psi' : 'probability density |psi|^2'}`,
+        describeOrbital(params),
+        `${'1'.padStart(5)}${formatFixed(minVal, 12)}${formatFixed(minVal, 12)}${formatFixed(minVal, 12)}`,
+        ...[0, 1, 2].map(axis => {
+            const step = [0, 0, 0];
+            step[axis] = spacing;
+            return `${String(dims[axis]).padStart(5)}${step.map(c => formatFixed(c, 12)).join('')}`;
+        }),
+        `${String(Math.round(params.Z)).padStart(5)}${formatFixed(params.Z, 12)}${formatFixed(0, 12)}${formatFixed(0, 12)}${formatFixed(0, 12)}`,
+    ];
+
+    for (let column = 0; column < dims[0] * dims[1]; column++) {
+        const start = column * dims[2];
+        for (let k = 0; k < dims[2]; k += CUBE_VALUES_PER_LINE) {
+            const end = Math.min(k + CUBE_VALUES_PER_LINE, dims[2]);
+            lines.push(Array.from(values.subarray(start + k, start + end), formatCubeNumber).join(''));
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Parses a Gaussian cube file. Axes given in Ångström (negative counts) are converted to Bohr.
+ * A negative atom count announces a line of orbital indices after the atoms; such files hold one
+ * value per orbital at each point, and only the first orbital is read.
+ */
+export function readCube(text: string): CubeFile {
+    const lines = text.split(/\r?\n/);
+    if (lines.length < 6) {
+        throw new Error("Cube file is too short: it needs two comment lines, the origin and three axes.");
+    }
+    // Parses the numbers on a line, naming the line (1-based) when it is malformed
+    const numbers = (lineIndex: number, minCount: number = 1) => {
+        const line = lines[lineIndex] ?? '';
+        const values = line.trim().split(/\s+/).map(Number);
+        if (line.trim() === '' || values.length < minCount || values.some(value => !Number.isFinite(value))) {
+            throw new Error(`Cube file line ${lineIndex + 1} is malformed: "${line.trim()}"`);
+        }
+        return values;
+    };
+
+    const [atomCountField, ...origin] = numbers(2, 4);
+    const atomCount = Math.abs(atomCountField);
+    if (!Number.isInteger(atomCountField)) {
+        throw new Error("Cube file line 3 must start with an integer atom count.");
+    }
+    const dims = [0, 0, 0] as [number, number, number];
+    const axes = [3, 4, 5].map((lineIndex, axis) => {
+        const [count, ...step] = numbers(lineIndex, 4);
+        if (!Number.isInteger(count) || count === 0) {
+            throw new Error(`Cube file line ${lineIndex + 1} must start with a non-zero integer point count.`);
+        }
+        dims[axis] = Math.abs(count);
+        return (count < 0 ? step.map(c => c * BOHR_PER_ANGSTROM) : step).slice(0, 3);
+    });
+    const inAngstrom = numbers(3)[0] < 0; // By convention the first count's sign sets the units of the atoms too
+
+    if (lines.length < 6 + atomCount) {
+        throw new Error(`Cube file lists ${atomCount} atoms but ends before them.`);
+    }
+    const atoms = Array.from({ length: atomCount }, (_, i) => {
+        const [atomicNumber, charge, ...position] = numbers(6 + i, 5);
+        return {
+            atomicNumber,
+            charge,
+            position: (inAngstrom ? position.map(c => c * BOHR_PER_ANGSTROM) : position).slice(0, 3) as [number, number, number],
+        };
+    });
+
+    let dataStart = 6 + atomCount;
+    let valuesPerPoint = 1;
+    if (atomCountField < 0) {
+        valuesPerPoint = Math.max(1, numbers(dataStart)[0]);
+        dataStart++;
+    }
+    const values = new Float32Array(dims[0] * dims[1] * dims[2]);
+    const needed = values.length * valuesPerPoint;
+    let read = 0;
+    for (let lineIndex = dataStart; lineIndex < lines.length && read < needed; lineIndex++) {
+        if (lines[lineIndex].trim() === '') continue;
+        numbers(lineIndex).forEach(value => {
+            if (read < needed && read % valuesPerPoint === 0) values[read / valuesPerPoint] = value;
+            read++;
+        });
+    }
+    if (read < needed) {
+        throw new Error(`Cube file has ${read} values but its ${dims.join(' × ')} grid needs ${needed}.`);
+    }
+
+    return {
+        comments: [lines[0], lines[1]],
+        origin: (inAngstrom ? origin.map(c => c * BOHR_PER_ANGSTROM) : origin).slice(0, 3), // Some writers append a value count
+        dims,
+        axes,
+        atoms,
+        values,
+    };
+}
+
+/**
+ * Writes the grid as little-endian float32 values with a JSON header describing it.
+ */
+export function writeRawVolume(
+    data: OrbitalData,
+    quantity: VolumeQuantity,
+    params: OrbitalParams
+): { header: RawVolumeHeader; data: ArrayBuffer } {
+    const { n, l, ml, Z, basis = 'real', condonShortleyPhase, components, time = 0 } = params;
+    return {
+        header: {
+            format: 'float32',
+            endian: 'little',
+            dims: data.dims,
+            order: 'z-fastest',
+            origin: [data.minVal, data.minVal, data.minVal],
+            spacing: gridSpacing(data),
+            units: 'bohr',
+            quantity,
+            orbital: { n, l, ml, Z, basis, condonShortleyPhase, components, time },
+        },
+        data: float32LittleEndian(gridValues(data, quantity)),
+    };
+}
+
+/**
+ * Reads raw float32 values described by a header from writeRawVolume.
+ */
+export function readRawVolume(header: RawVolumeHeader, buffer: ArrayBuffer): Float32Array {
+    const count = header.dims[0] * header.dims[1] * header.dims[2];
+    if (buffer.byteLength !== count * 4) {
+        throw new Error(`Raw volume has ${buffer.byteLength} bytes but its header needs ${count * 4}.`);
+    }
+    const view = new DataView(buffer);
+    return Float32Array.from({ length: count }, (_, i) => view.getFloat32(i * 4, header.endian === 'little'));
+}
+
+/**
+ * Writes an NRRD file with an attached header. NRRD lists the fastest axis first, so the
+ * axes are z, y, x.
+ */
+export function writeNrrd(data: OrbitalData, quantity: VolumeQuantity, params: OrbitalParams): ArrayBuffer {
+    const { dims, minVal } = data;
+    const spacing = gridSpacing(data);
+    const header = [
+        'NRRD0004',
+        '# Complete NRRD file format specification at: http://teem.sourceforge.net/nrrd/format.html',
+        `# electron-orbital-viewer ${quantity === 'psi' ? 'psi' : '|psi|^2'} ${describeOrbital(params)}`,
+        'type: float',
+        'dimension: 3',
+        'space dimension: 3',
+        `sizes: ${dims[2]} ${dims[1]} ${dims[0]}`,
+        `space directions: (0,0,${spacing}) (0,${spacing},0) (${spacing},0,0)`,
+        `space origin: (${minVal},${minVal},${minVal})`,
+        'space units: "bohr" "bohr" "bohr"',
+        'kinds: domain domain domain',
+        'endian: little',
+        'encoding: raw',
+        '',
+        '',
+    ].join('\n');
+
+    const headerBytes = asciiBytes(header);
+    const body = float32LittleEndian(gridValues(data, quantity));
+    const file = new Uint8Array(headerBytes.length + body.byteLength);
+    file.set(headerBytes, 0);
+    file.set(new Uint8Array(body), headerBytes.length);
+    return file.buffer;
+}
+
+/**
+ * Reads an NRRD file with an attached header, raw encoding and float samples, as written by writeNrrd.
+ */
+export function readNrrd(buffer: ArrayBuffer): NrrdFile {
+    const bytes = new Uint8Array(buffer);
+    let headerEnd = -1;
+    for (let i = 0; i < bytes.length - 1; i++) {
+        if (bytes[i] === 0x0a && bytes[i + 1] === 0x0a) {
+            headerEnd = i;
+            break;
+        }
+    }
+    if (headerEnd < 0) {
+        throw new Error("NRRD header is not terminated by a blank line.");
+    }
+    const header = String.fromCharCode(...bytes.subarray(0, headerEnd));
+    const lines = header.split('\n');
+    if (!lines[0].startsWith('NRRD')) {
+        throw new Error("Not an NRRD file.");
+    }
+
+    const fields = new Map<string, string>();
+    lines.slice(1).filter(line => !line.startsWith('#')).forEach(line => {
+        const separator = line.indexOf(': ');
+        if (separator > 0) fields.set(line.slice(0, separator), line.slice(separator + 2));
+    });
+    if (fields.get('type') !== 'float' || fields.get('encoding') !== 'raw') {
+        throw new Error("Only raw float NRRD files are supported.");
+    }
+    const vectors = (text: string | undefined) =>
+        Array.from((text ?? '').matchAll(/\(([^)]*)\)/g), match => match[1].split(',').map(Number));
+
+    const sizes = (fields.get('sizes') ?? '').split(/\s+/).map(Number);
+    const count = sizes.reduce((product, size) => product * size, 1);
+    const view = new DataView(buffer, headerEnd + 2);
+    if (view.byteLength < count * 4) {
+        throw new Error("NRRD data is truncated.");
+    }
+    const littleEndian = fields.get('endian') !== 'big';
+    return {
+        sizes,
+        spaceDirections: vectors(fields.get('space directions')),
+        spaceOrigin: vectors(fields.get('space origin'))[0] ?? [0, 0, 0],
+        values: Float32Array.from({ length: count }, (_, i) => view.getFloat32(i * 4, littleEndian)),
+    };
+}
+
+/**
+ * Exports a sampled grid in the given format. The raw format yields two files: the
+ * float32 data and its JSON header.
+ */
+export function exportVolume(
+    data: OrbitalData,
+    quantity: VolumeQuantity,
+    format: VolumeExportFormat,
+    params: OrbitalParams
+): VolumeExportFile[] {
+    switch (format) {
+        case 'cube':
+            return [{ data: writeCube(data, quantity, params), mimeType: 'chemical/x-cube', extension: 'cube' }];
+        case 'raw': {
+            const raw = writeRawVolume(data, quantity, params);
+            return [
+                { data: raw.data, mimeType: 'application/octet-stream', extension: 'raw' },
+                { data: JSON.stringify(raw.header, null, 2), mimeType: 'application/json', extension: 'json' },
+            ];
+        }
+        case 'nrrd':
+            return [{ data: writeNrrd(data, quantity, params), mimeType: 'application/octet-stream', extension: 'nrrd' }];
+        default:
+            throw new Error(`Unknown volume export format: ${format}`);
+    }
+}
@@ -0,0 +1,141 @@
+import { ColorStop, OrbitalData, RGBColor, TransferFunction } from './types/orbital';
+
+// Pure grid and transfer-function helpers for the volume rendering mode.
+// Nothing here touches WebGL; orbital_visualizer.ts uploads the result as a 3D texture.
+
+export const transferFunctionRamps: Record<string, ColorStop[]> = {
+    fire: [
+        { position: 0, color: [0, 0, 0], opacity: 0 },
+        { position: 0.3, color: [0.6, 0.05, 0], opacity: 0.05 },
+        { position: 0.6, color: [1, 0.5, 0], opacity: 0.3 },
+        { position: 1, color: [1, 1, 0.8], opacity: 0.8 },
+    ],
+    ice: [
+        { position: 0, color: [0, 0, 0.1], opacity: 0 },
+        { position: 0.4, color: [0, 0.3, 0.8], opacity: 0.08 },
+        { position: 1, color: [0.85, 1, 1], opacity: 0.8 },
+    ],
+    grey: [
+        { position: 0, color: [0, 0, 0], opacity: 0 },
+        { position: 1, color: [1, 1, 1], opacity: 0.8 },
+    ],
+};
+
+export const defaultTransferFunction: TransferFunction = {
+    stops: transferFunctionRamps.fire,
+    logScale: true,
+    logDecades: 3,
+    signAware: false,
+    positiveColor: [1, 0, 0], // Red, matching the isosurface sign colouring
+    negativeColor: [0, 0, 1], // Blue
+    opacityScale: 1,
+};
+
+/**
+ * Maps a density onto [0, 1] relative to the maximum density of the grid.
+ * With a log scale, densities `logDecades` decades below the maximum map to 0.
+ */
+export function normalizeDensity(density: number, maxDensity: number, transferFunction: TransferFunction): number {
+    if (maxDensity <= 0 || density <= 0) {
+        return 0;
+    }
+    const ratio = Math.min(1, density / maxDensity);
+    if (!transferFunction.logScale) {
+        return ratio;
+    }
+    if (transferFunction.logDecades <= 0) {
+        throw new Error("Transfer function logDecades must be positive.");
+    }
+    return Math.max(0, 1 + Math.log10(ratio) / transferFunction.logDecades);
+}
+
+/**
+ * Linearly interpolates the colour/opacity ramp at a normalised density.
+ * Values outside the first and last stop are clamped to those stops.
+ * @returns [r, g, b, a], each in [0, 1].
+ */
+export function sampleColorRamp(stops: ColorStop[], value: number): [number, number, number, number] {
+    if (stops.length === 0) {
+        throw new Error("Transfer function needs at least one colour stop.");
+    }
+    if (value <= stops[0].position) {
+        return [...stops[0].color, stops[0].opacity];
+    }
+    for (let i = 1; i < stops.length; i++) {
+        const upper = stops[i];
+        if (value <= upper.position) {
+            const lower = stops[i - 1];
+            const span = upper.position - lower.position;
+            const t = span > 0 ? (value - lower.position) / span : 1;
+            return [
+                lower.color[0] + t * (upper.color[0] - lower.color[0]),
+                lower.color[1] + t * (upper.color[1] - lower.color[1]),
+                lower.color[2] + t * (upper.color[2] - lower.color[2]),
+                lower.opacity + t * (upper.opacity - lower.opacity),
+            ];
+        }
+    }
+    const last = stops[stops.length - 1];
+    return [...last.color, last.opacity];
+}
+
+/**
+ * Evaluates the full transfer function for one grid sample.
+ * @param density - |ψ|² at the sample.
+ * @param psi - ψ at the sample; only its sign is used, and only when signAware is set.
+ * @returns [r, g, b, a], each in [0, 1].
+ */
+export function evaluateTransferFunction(
+    density: number,
+    psi: number,
+    maxDensity: number,
+    transferFunction: TransferFunction
+): [number, number, number, number] {
+    const value = normalizeDensity(density, maxDensity, transferFunction);
+    const [r, g, b, a] = sampleColorRamp(transferFunction.stops, value);
+    const opacity = Math.min(1, a * transferFunction.opacityScale);
+
+    if (transferFunction.signAware) {
+        const signColor: RGBColor = psi >= 0 ? transferFunction.positiveColor : transferFunction.negativeColor;
+        // Keep the ramp's brightness so that dense regions still stand out
+        const brightness = Math.max(r, g, b, 0.25);
+        return [signColor[0] * brightness, signColor[1] * brightness, signColor[2] * brightness, opacity];
+    }
+    return [r, g, b, opacity];
+}
+
+/**
+ * Converts an x-major grid index (see sampleOrbitalGrid) into the x-fastest
+ * index used by 3D textures: index = x + y * width + z * width * height.
+ */
+export function gridIndexToTextureIndex(
+    xIdx: number,
+    yIdx: number,
+    zIdx: number,
+    dims: [number, number, number]
+): number {
+    return xIdx + yIdx * dims[0] + zIdx * dims[0] * dims[1];
+}
+
+/**
+ * Applies the transfer function to every grid sample and packs the result as
+ * RGBA8 texels in 3D-texture order (x fastest).
+ */
+export function buildVolumeTextureData(data: OrbitalData, transferFunction: TransferFunction): Uint8Array {
+    const { grid, psiGrid, dims, maxDensity } = data;
+    const texels = new Uint8Array(dims[0] * dims[1] * dims[2] * 4);
+
+    for (let xIdx = 0; xIdx < dims[0]; xIdx++) {
+        for (let yIdx = 0; yIdx < dims[1]; yIdx++) {
+            for (let zIdx = 0; zIdx < dims[2]; zIdx++) {
+                const gridIndex = xIdx * dims[1] * dims[2] + yIdx * dims[2] + zIdx;
+                const rgba = evaluateTransferFunction(grid[gridIndex], psiGrid[gridIndex], maxDensity, transferFunction);
+                const texelIndex = gridIndexToTextureIndex(xIdx, yIdx, zIdx, dims) * 4;
+                for (let c = 0; c < 4; c++) {
+                    texels[texelIndex + c] = Math.round(rgba[c] * 255);
+                }
+            }
+        }
+    }
+    return texels;
+}
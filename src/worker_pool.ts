@@ -0,0 +1,242 @@
+// A fixed set of long-lived workers running orbital jobs one at a time each.
+// Every request is tagged with a job id that the worker echoes in its replies, so progress and
+// results always reach the job that asked for them. A worker cannot be interrupted mid-calculation,
+// so cancelling or timing out a running job terminates its worker, and a fresh one is started
+// the next time a job needs it.
+
+export type JobPriority = 'high' | 'normal' | 'low';
+
+// Queued jobs start in this order; jobs of equal priority start in the order they were submitted
+const priorityOrder: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export const DEFAULT_JOB_TIMEOUT_MS = 120000;
+export const MAX_POOL_SIZE = 4;
+
+/**
+ * The part of a Worker the pool uses, so that tests can supply a fake one.
+ */
+export interface PoolWorker {
+    postMessage(message: unknown, transfer?: Transferable[]): void;
+    terminate(): void;
+    onmessage: ((event: MessageEvent) => void) | null;
+    onerror: ((event: ErrorEvent) => void) | null;
+}
+
+// Sent by the worker while a job runs; any other reply carrying the job id ends the job
+export interface JobProgressMessage {
+    type: 'progress';
+    jobId: number;
+    progress: number; // Fraction done, in [0, 1]
+}
+
+export interface JobOptions {
+    priority?: JobPriority; // Defaults to 'normal'
+    timeoutMs?: number; // Counted from when the job starts running; defaults to DEFAULT_JOB_TIMEOUT_MS
+    onProgress?: (progress: number) => void;
+    transfer?: Transferable[]; // Moved to the worker with the request rather than copied
+}
+
+export interface WorkerJob<T> {
+    id: number;
+    result: Promise<T>; // The worker's final reply; rejects when the job is cancelled, times out or crashes its worker
+    cancel: () => void;
+}
+
+export interface WorkerPool {
+    size: number; // Most workers running at once
+    run<T>(request: object, options?: JobOptions): WorkerJob<T>;
+    dispose: () => void;
+}
+
+interface PendingJob {
+    id: number;
+    request: object;
+    priority: JobPriority;
+    timeoutMs: number;
+    onProgress?: (progress: number) => void;
+    transfer: Transferable[];
+    resolve: (reply: unknown) => void;
+    reject: (error: unknown) => void;
+    worker?: PoolWorker; // Set once the job runs
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+const CANCELLED_JOB_ERROR = 'JobCancelledError';
+
+/**
+ * Tells apart a job that was cancelled, e.g. because a newer one superseded it, from one that failed.
+ */
+export function isJobCancelled(error: unknown): boolean {
+    return error instanceof Error && error.name === CANCELLED_JOB_ERROR;
+}
+
+function createCancelledError(jobId: number): Error {
+    const cancelled = new Error(`Job ${jobId} was cancelled.`);
+    cancelled.name = CANCELLED_JOB_ERROR;
+    return cancelled;
+}
+
+/**
+ * Runs `next` on the result of `first` as one job: cancelling it cancels whichever of the two
+ * is running, and a failure of either fails it.
+ */
+export function chainJobs<A, B>(first: WorkerJob<A>, next: (result: A) => WorkerJob<B>): WorkerJob<B> {
+    let current: { cancel: () => void } = first;
+    let isCancelled = false;
+    const result = first.result.then(value => {
+        const job = next(value);
+        current = job;
+        if (isCancelled) {
+            job.cancel();
+        }
+        return job.result;
+    });
+    return {
+        id: first.id,
+        result,
+        cancel: () => {
+            isCancelled = true;
+            current.cancel();
+        },
+    };
+}
+
+/**
+ * Runs jobs side by side as one job whose result lists theirs in order. Cancelling it cancels
+ * them all, and when one fails the others are cancelled.
+ */
+export function combineJobs<T>(jobs: WorkerJob<T>[]): WorkerJob<T[]> {
+    const cancelAll = () => jobs.forEach(job => job.cancel());
+    const result = Promise.all(jobs.map(job => job.result)).catch(error => {
+        cancelAll();
+        throw error;
+    });
+    return { id: jobs[0]?.id ?? 0, result, cancel: cancelAll };
+}
+
+/**
+ * A pool size leaving one core to the page, between 1 and MAX_POOL_SIZE.
+ */
+export function getDefaultPoolSize(hardwareConcurrency: number | undefined = globalThis.navigator?.hardwareConcurrency): number {
+    return Math.max(1, Math.min(MAX_POOL_SIZE, (hardwareConcurrency ?? 2) - 1));
+}
+
+/**
+ * Creates a pool that starts up to `size` workers as jobs arrive and keeps them for later jobs.
+ * @param createWorker Starts one worker.
+ */
+export function createWorkerPool(createWorker: () => PoolWorker, size: number = getDefaultPoolSize()): WorkerPool {
+    if (!Number.isInteger(size) || size < 1) {
+        throw new Error("Worker pool size must be a positive integer.");
+    }
+
+    const idleWorkers: PoolWorker[] = [];
+    const running = new Map<number, PendingJob>();
+    let queue: PendingJob[] = [];
+    let workerCount = 0;
+    let nextJobId = 1;
+    let isDisposed = false;
+
+    // Frees the job's worker for the next job, or discards it when it may still be busy
+    const release = (job: PendingJob, keepWorker: boolean) => {
+        clearTimeout(job.timer);
+        running.delete(job.id);
+        if (!job.worker) return;
+        job.worker.onmessage = null;
+        job.worker.onerror = null;
+        if (keepWorker && !isDisposed) {
+            idleWorkers.push(job.worker);
+        } else {
+            job.worker.terminate();
+            workerCount--;
+        }
+    };
+
+    const start = (job: PendingJob, worker: PoolWorker) => {
+        job.worker = worker;
+        running.set(job.id, job);
+        worker.onmessage = (event: MessageEvent) => {
+            const reply = event.data as { type?: string; jobId?: number; progress?: number };
+            if (reply?.jobId !== job.id) return;
+            if (reply.type === 'progress') {
+                job.onProgress?.(reply.progress ?? 0);
+                return;
+            }
+            release(job, true);
+            job.resolve(reply);
+            startQueuedJobs();
+        };
+        worker.onerror = (event: ErrorEvent) => {
+            release(job, false);
+            job.reject(new Error(`Worker failed: ${event.message || 'unknown error'}`));
+            startQueuedJobs();
+        };
+        job.timer = setTimeout(() => {
+            release(job, false);
+            job.reject(new Error(`Calculation timed out after ${Math.round(job.timeoutMs / 1000)} s.`));
+            startQueuedJobs();
+        }, job.timeoutMs);
+        worker.postMessage({ ...job.request, jobId: job.id }, job.transfer);
+    };
+
+    const startQueuedJobs = () => {
+        while (!isDisposed && queue.length > 0 && (idleWorkers.length > 0 || workerCount < size)) {
+            let worker = idleWorkers.pop();
+            if (!worker) {
+                worker = createWorker();
+                workerCount++;
+            }
+            start(queue.shift()!, worker);
+        }
+    };
+
+    const cancel = (jobId: number) => {
+        const cancelled = createCancelledError(jobId);
+        const queued = queue.find(job => job.id === jobId);
+        if (queued) {
+            queue = queue.filter(job => job !== queued);
+            queued.reject(cancelled);
+            return;
+        }
+        const job = running.get(jobId);
+        if (job) {
+            release(job, false);
+            job.reject(cancelled);
+            startQueuedJobs();
+        }
+    };
+
+    return {
+        size,
+        run<T>(request: object, options: JobOptions = {}): WorkerJob<T> {
+            const id = nextJobId++;
+            const result = new Promise<T>((resolve, reject) => {
+                if (isDisposed) {
+                    reject(new Error("Worker pool has been disposed."));
+                    return;
+                }
+                const job: PendingJob = {
+                    id,
+                    request,
+                    priority: options.priority ?? 'normal',
+                    timeoutMs: options.timeoutMs ?? DEFAULT_JOB_TIMEOUT_MS,
+                    onProgress: options.onProgress,
+                    transfer: options.transfer ?? [],
+                    resolve: reply => resolve(reply as T),
+                    reject,
+                };
+                // After every queued job of the same or a higher priority
+                const index = queue.findIndex(other => priorityOrder[other.priority] > priorityOrder[job.priority]);
+                queue.splice(index < 0 ? queue.length : index, 0, job);
+                startQueuedJobs();
+            });
+            return { id, result, cancel: () => cancel(id) };
+        },
+        dispose() {
+            [...queue.map(job => job.id), ...running.keys()].forEach(cancel);
+            isDisposed = true;
+            idleWorkers.splice(0).forEach(worker => worker.terminate());
+            workerCount = 0;
+        },
+    };
+}
@@ -0,0 +1,156 @@
+import { AnimationFrameData, MeshData, OrbitalData, OrbitalParams, PointCloudData, SurfaceInfo } from './types/orbital';
+import { getMeshTransferables } from './mesh_data';
+import { SlabArrays, SlabResult } from './parallel_grid';
+
+// Messages between the visualizer and workers/orbitalWorker.ts. Meshes and density grids are
+// typed arrays whose buffers the worker transfers rather than copies, so a reply costs the same
+// however large it is; grid slabs sampled into shared memory are not sent back at all, and a
+// sampled grid goes on to the worker extracting its surface the same way.
+
+// Every message carries the protocol version; bump it whenever a message below changes shape, so
+// that a worker from another build answers with an error instead of misreading the request.
+
+export const WORKER_PROTOCOL_VERSION = 3; // 1 sent meshes as nested arrays; 2 sampled volumes in one job
+
+export interface CalculateRequest {
+    type: 'calculate';
+    params: OrbitalParams;
+    grid?: OrbitalData; // Sampled beforehand (see parallel_grid.ts); the surface is extracted from it
+}
+
+export interface CalculateFramesRequest {
+    type: 'calculateFrames';
+    params: OrbitalParams;
+    times: number[];
+}
+
+// Samples the slabs xStart <= xIdx < xEnd of the orbital's grid; see sampleOrbitalGridSlab
+export interface SampleSlabRequest {
+    type: 'sampleSlab';
+    params: OrbitalParams;
+    xStart: number;
+    xEnd: number;
+    target: SlabArrays | null; // Views of shared memory to write into, or null to send the slab back
+}
+
+export interface CalculatePointsRequest {
+    type: 'calculatePoints';
+    params: OrbitalParams;
+}
+
+export interface CalculateImportedRequest {
+    type: 'calculateImported';
+    grid: OrbitalData; // Imported cube grid
+    isoLevel: number; // In the units of the file's values
+    signed: boolean; // Extract the surfaces at +isoLevel and -isoLevel
+}
+
+export type WorkerRequestBody =
+    | CalculateRequest
+    | CalculateFramesRequest
+    | SampleSlabRequest
+    | CalculatePointsRequest
+    | CalculateImportedRequest;
+
+// As the worker receives it: the pool adds the job id (see worker_pool.ts)
+export type WorkerRequest = WorkerRequestBody & { version: number; jobId: number };
+
+// Every reply echoes the job id of its request
+interface WorkerReplyHeader {
+    version: number;
+    jobId: number;
+}
+
+export interface ProgressReply extends WorkerReplyHeader {
+    type: 'progress';
+    progress: number; // Fraction of the job done, in [0, 1]
+}
+
+export interface MeshReply extends WorkerReplyHeader {
+    type: 'success';
+    meshData: MeshData;
+    surfaceInfo: SurfaceInfo;
+}
+
+export interface FramesReply extends WorkerReplyHeader {
+    type: 'frames';
+    frames: AnimationFrameData[];
+    surfaceInfo: SurfaceInfo;
+}
+
+// arrays holds the sampled slab unless it was written to the request's target
+export interface SlabReply extends WorkerReplyHeader, SlabResult {
+    type: 'slab';
+}
+
+export interface PointsReply extends WorkerReplyHeader {
+    type: 'points';
+    pointCloud: PointCloudData;
+}
+
+export interface ErrorReply extends WorkerReplyHeader {
+    type: 'error';
+    message: string;
+}
+
+// The reply that ends a job
+export type WorkerResult = MeshReply | FramesReply | SlabReply | PointsReply | ErrorReply;
+
+export type WorkerReply = ProgressReply | WorkerResult;
+
+/**
+ * Stamps a request with the protocol version; the pool adds the job id.
+ */
+export function createWorkerRequest(body: WorkerRequestBody): Omit<WorkerRequest, 'jobId'> {
+    return { ...body, version: WORKER_PROTOCOL_VERSION };
+}
+
+/**
+ * The buffers to transfer with a request: those of a sampled grid not in shared memory, which
+ * the page has no further use for. Imported grids are copied, as the page keeps them.
+ */
+export function getRequestTransferables(request: WorkerRequestBody): ArrayBuffer[] {
+    if (request.type !== 'calculate' || !request.grid) {
+        return [];
+    }
+    const buffers = [request.grid.grid.buffer, request.grid.psiGrid.buffer]
+        .filter((buffer): buffer is ArrayBuffer => buffer instanceof ArrayBuffer);
+    return [...new Set(buffers)];
+}
+
+/**
+ * The buffers to transfer with a reply: every mesh, and the arrays of a slab not in shared memory.
+ */
+export function getReplyTransferables(reply: WorkerReply): ArrayBuffer[] {
+    let buffers: ArrayBuffer[] = [];
+    if (reply.type === 'success') {
+        buffers = getMeshTransferables(reply.meshData);
+    } else if (reply.type === 'frames') {
+        buffers = reply.frames.flatMap(frame => getMeshTransferables(frame.meshData));
+    } else if (reply.type === 'slab' && reply.arrays) {
+        buffers = [reply.arrays.grid.buffer, reply.arrays.psiGrid.buffer]
+            .filter((buffer): buffer is ArrayBuffer => buffer instanceof ArrayBuffer);
+    }
+    return [...new Set(buffers)];
+}
+
+/**
+ * Checks that a job's final reply is the expected kind.
+ * @throws Error carrying the worker's message when the job failed, or when the reply comes
+ * from another protocol version or is of another kind.
+ */
+export function expectWorkerResult<T extends Exclude<WorkerResult, ErrorReply>['type']>(
+    reply: WorkerResult,
+    ...types: T[]
+): Extract<WorkerResult, { type: T }> {
+    if (reply.version !== WORKER_PROTOCOL_VERSION) {
+        throw new Error(`Worker replied with protocol version ${reply.version}; expected ${WORKER_PROTOCOL_VERSION}.`);
+    }
+    if (reply.type === 'error') {
+        throw new Error(reply.message);
+    }
+    if (!(types as string[]).includes(reply.type)) {
+        throw new Error(`Unexpected worker reply: ${reply.type}`);
+    }
+    return reply as Extract<WorkerResult, { type: T }>;
+}
@@ -1,76 +1,291 @@
-import { MeshData, OrbitalParams } from '@/types/orbital';
-import { getOrbitalPotentialFunction } from '../quantum_functions';
-import { marchingCubes, MarchingCubesMeshData } from 'marching-cubes-fast';
-
-// Worker message types
-interface WorkerMessageData {
-    type: 'calculate';
-    params: OrbitalParams;
-}
-
-interface WorkerSuccessResponse {
-    type: 'success';
-    meshData: MeshData;
-}
-
-interface WorkerErrorResponse {
-    type: 'error';
-    error: string;
-}
-
-
-self.onmessage = (e: MessageEvent<WorkerMessageData>) => {
-    if (e.data.type === 'calculate') {
-        try {
-            console.log('Worker: Starting calculation', e.data.params);
-            const { n, l, ml, Z, resolution, rMax, isoLevel } = e.data.params;
-
-            // Validate parameters
-            if (resolution <= 0 || rMax <= 0 || isoLevel <= 0) {
-                throw new Error('Invalid parameters: resolution, rMax, and isoLevel must be positive');
-            }
-
-            const orbitalPotentialFunction = getOrbitalPotentialFunction(n, l, ml, Z, isoLevel);
-
-            console.log('Worker: Running marching cubes algorithm');
-            const meshData: MarchingCubesMeshData | null = marchingCubes(
-                resolution,
-                (x, y, z) => orbitalPotentialFunction(x, y, z).probabilityDensity, // Extract probabilityDensity
-                [[-rMax, -rMax, -rMax], [rMax, rMax, rMax]]
-            );
-
-            if (!meshData || !meshData.positions.length || !meshData.cells.length) {
-                throw new Error('Failed to generate mesh data');
-            }
-
-            // Calculate ψ signs for each vertex
-            const psiSigns = meshData.positions.map(([x, y, z]) => {
-                const { waveFunctionValue } = orbitalPotentialFunction(x, y, z);
-                return waveFunctionValue >= 0 ? 1 : -1; // 1 for positive, -1 for negative
-            });
-
-            console.log('Worker: Calculation complete', {
-                vertexCount: meshData.positions.length,
-                triangleCount: meshData.cells.length
-            });
-
-            const response: WorkerSuccessResponse = {
-                type: 'success',
-                meshData: {
-                    positions: meshData.positions,
-                    cells: meshData.cells,
-                    psiSigns // Include ψ signs in the response
-                }
-            };
-
-            self.postMessage(response);
-        } catch (error) {
-            console.error('Worker: Error during calculation:', error);
-            const response: WorkerErrorResponse = {
-                type: 'error',
-                error: error instanceof Error ? error.message : 'Unknown error'
-            };
-            self.postMessage(response);
-        }
-    }
-};
\ No newline at end of file
+import { ComputeBackendName, MeshData, OrbitalData, OrbitalDataPoint, OrbitalParams, SurfaceInfo } from '@/types/orbital';
+import { getSuperpositionGradientFunction, getSuperpositionPotentialFunction } from '../quantum_functions';
+import { getOrbitalComponents } from '../orbital_superposition';
+import { sampleOrbitalPoints } from '../orbital_sampler';
+import {
+    downsampleDensityGrid,
+    ENCLOSED_PROBABILITY_RESOLUTION,
+    enclosedProbabilityAtIsoLevel,
+    findIsoLevelForEnclosedProbability
+} from '../enclosed_probability';
+import { extractIsosurface, Isosurface, IsosurfaceOptions, joinSurfaces } from '../isosurface';
+import { ADAPTIVE_MAX_DEPTH, buildIsoOctree, extractOctreeSurface, getCellBudget } from '../adaptive_isosurface';
+import { getTriangleCount, getVertexCount } from '../mesh_data';
+import { sampleOrbitalGridWith, sampleOrbitalSlab } from '../parallel_grid';
+import { ComputeBackend, DEFAULT_COMPUTE_BACKEND, loadComputeBackend } from '../compute_backend';
+import {
+    getReplyTransferables,
+    WORKER_PROTOCOL_VERSION,
+    WorkerReply,
+    WorkerRequest
+} from '../worker_protocol';
+
+// Every request carries the job id the pool gave it (see worker_pool.ts), and every reply,
+// progress included, echoes it. Meshes and grids are transferred, not copied.
+function postReply(reply: WorkerReply) {
+    self.postMessage(reply, { transfer: getReplyTransferables(reply) });
+}
+
+type Progress = () => void; // Marks one more step of the job as done
+
+async function fetchOrbitalKernel(): Promise<ArrayBuffer> {
+    const response = await fetch(new URL('../wasm/orbital_kernel.wasm', import.meta.url));
+    if (!response.ok) {
+        throw new Error(`Fetching the orbital kernel failed with status ${response.status}.`);
+    }
+    return response.arrayBuffer();
+}
+
+// Backends that sample single-orbital grids, each loaded the first time a job asks for it
+// (see compute_backend.ts)
+const computeBackends = new Map<ComputeBackendName, Promise<ComputeBackend>>();
+
+function getComputeBackend(name: ComputeBackendName = DEFAULT_COMPUTE_BACKEND): Promise<ComputeBackend> {
+    let backend = computeBackends.get(name);
+    if (!backend) {
+        backend = loadComputeBackend(name, fetchOrbitalKernel);
+        computeBackends.set(name, backend);
+    }
+    return backend;
+}
+
+/**
+ * Counts the steps of a job, each slab of a sampled grid or each extracted surface, and posts
+ * the fraction done whenever it reaches another whole percent. Slabs are of constant x: grids
+ * are x-major, so those are the contiguous slabs that samplers and extractors loop over outermost.
+ */
+function createProgress(jobId: number, totalSteps: number): Progress {
+    let done = 0;
+    let lastPercent = -1;
+    return () => {
+        done++;
+        const percent = Math.floor((100 * Math.min(done, totalSteps)) / totalSteps);
+        if (percent !== lastPercent) {
+            lastPercent = percent;
+            postReply({ type: 'progress', version: WORKER_PROTOCOL_VERSION, jobId, progress: percent / 100 });
+        }
+    };
+}
+
+// Progress steps of resolveSurfaceInfo: one per slab of its density grid, unless it was given
+const surfaceInfoSteps = (params: OrbitalParams, sampled: boolean) =>
+    sampled ? 0 : Math.min(params.resolution, ENCLOSED_PROBABILITY_RESOLUTION);
+
+// ψ is real in the real basis until time mixes in the components' complex energy phases
+const isRealWaveFunction = (params: OrbitalParams, time: number) => (params.basis ?? 'real') === 'real' && time === 0;
+
+// Progress steps of calculateMeshData. Uniform: sampling the grid unless it was given, then one
+// per slab of cells of each surface. Adaptive: one per level of the octree, at most, then one
+// per surface.
+const meshSteps = (params: OrbitalParams, time: number, sampled: boolean) => {
+    const surfaceCount = isRealWaveFunction(params, time) ? 2 : 1;
+    if (params.extraction === 'adaptive') {
+        return ADAPTIVE_MAX_DEPTH + 1 + surfaceCount;
+    }
+    return (sampled ? 0 : params.resolution) + surfaceCount * (params.resolution - 1);
+};
+
+
+/**
+ * Picks the iso-level to extract at `time`: either the one enclosing params.enclosedProbability,
+ * or params.isoLevel together with the probability it encloses. The density comes from `grid`,
+ * at most ENCLOSED_PROBABILITY_RESOLUTION points a side of it, or is sampled that coarsely here.
+ */
+function resolveSurfaceInfo(
+    params: OrbitalParams,
+    time: number,
+    backend: ComputeBackend,
+    progress: Progress,
+    grid?: OrbitalData
+): SurfaceInfo {
+    const { enclosedProbability } = params;
+    const densityGrid = grid
+        ? downsampleDensityGrid(grid.grid, grid.dims[0])
+        : sampleOrbitalGridWith({ ...params, resolution: surfaceInfoSteps(params, false), time }, backend, progress).grid;
+
+    if (enclosedProbability !== undefined) {
+        return findIsoLevelForEnclosedProbability(densityGrid, enclosedProbability);
+    }
+    return { isoLevel: params.isoLevel, enclosedFraction: enclosedProbabilityAtIsoLevel(densityGrid, params.isoLevel) };
+}
+
+/**
+ * Extracts the isosurface at `isoLevel` from `grid`, from a grid sampled here when the density
+ * was not sampled beforehand (animation frames), or from an octree in the adaptive mode. A real
+ * ψ gets separate surfaces at ψ = ±sqrt(isoLevel), one per sign; a complex one gets
+ * |ψ|² = isoLevel, with the phase of ψ at each vertex. Normals come from the analytic gradient
+ * of ψ (getSuperpositionGradientFunction), not from differences of the samples.
+ */
+function calculateMeshData(
+    params: OrbitalParams,
+    time: number,
+    isoLevel: number,
+    backend: ComputeBackend,
+    progress: Progress,
+    grid?: OrbitalData
+): MeshData {
+    const { Z, resolution, rMax, basis = 'real', condonShortleyPhase = true } = params;
+
+    // Validate parameters
+    if (resolution <= 0 || rMax <= 0 || isoLevel <= 0) {
+        throw new Error('Invalid parameters: resolution, rMax, and isoLevel must be positive');
+    }
+
+    // A single (n, l, ml) state is evaluated as a one-component superposition
+    const components = getOrbitalComponents(params);
+    const orbitalPotentialFunction = getSuperpositionPotentialFunction(components, Z, 0, basis, time, condonShortleyPhase);
+
+    // Extracts the surface where |ψ|² or Re(ψ) crosses `level`, from the octree or the grid
+    let extract: (field: 'density' | 'psi', level: number, options: IsosurfaceOptions) => Isosurface;
+    if (params.extraction === 'adaptive') {
+        // The octree evaluates ψ at scattered points rather than on a grid, so no backend applies
+        const octree = buildIsoOctree(orbitalPotentialFunction, rMax, isoLevel, {
+            maxCells: getCellBudget(resolution),
+            onLevel: progress
+        });
+        console.log('Worker: Built octree', { depth: octree.depth, leafCount: octree.leafCount });
+        extract = (field, level, options) => {
+            const surface = extractOctreeSurface(octree, field, level, options);
+            progress();
+            return surface;
+        };
+    } else {
+        const data = grid ?? sampleOrbitalGridWith({ ...params, time }, backend, progress);
+        extract = (field, level, options) =>
+            extractIsosurface(data, field === 'psi' ? data.psiGrid : data.grid, level, { ...options, onSlab: progress });
+    }
+    // ψ and ∇ψ at a vertex (see getSuperpositionGradientFunction)
+    const gradientFunction = getSuperpositionGradientFunction(components, Z, basis, time, condonShortleyPhase);
+    const values = new Float64Array(8);
+
+    console.log('Worker: Extracting isosurface', { time });
+    let mesh: MeshData;
+    if (isRealWaveFunction(params, time)) {
+        const gradient = (x: number, y: number, z: number) => {
+            gradientFunction(x, y, z, values);
+            return [values[2], values[3], values[4]];
+        };
+        const signs: (1 | -1)[] = [1, -1];
+        const surfaces = signs.map(sign => extract('psi', Math.sqrt(isoLevel), { sign, gradient }));
+        mesh = joinSurfaces(surfaces, signs, [0, Math.PI]);
+    } else {
+        // ∇|ψ|² = 2 (Re ψ ∇Re ψ + Im ψ ∇Im ψ)
+        const gradient = (x: number, y: number, z: number) => {
+            gradientFunction(x, y, z, values);
+            return [0, 1, 2].map(axis => 2 * (values[0] * values[2 + axis] + values[1] * values[5 + axis]));
+        };
+        const surface = extract('density', isoLevel, { gradient });
+        mesh = colourByPhase(surface, orbitalPotentialFunction);
+    }
+
+    if (!getTriangleCount(mesh)) {
+        throw new Error('Failed to generate mesh data');
+    }
+    console.log('Worker: Calculation complete', {
+        vertexCount: getVertexCount(mesh),
+        triangleCount: getTriangleCount(mesh)
+    });
+    return mesh;
+}
+
+// Takes the sign of Re(ψ) and the phase of ψ at each vertex from the analytic function
+function colourByPhase(surface: Isosurface, orbitalPotentialFunction: (x: number, y: number, z: number) => OrbitalDataPoint): MeshData {
+    const mesh = joinSurfaces([surface], [1], [0]);
+    for (let v = 0; v < getVertexCount(mesh); v++) {
+        const [x, y, z] = mesh.positions.subarray(v * 3, v * 3 + 3);
+        const { waveFunctionValue, phase } = orbitalPotentialFunction(x, y, z);
+        mesh.psiSigns[v] = waveFunctionValue >= 0 ? 1 : -1; // 1 for positive, -1 for negative
+        mesh.psiPhases[v] = phase;
+    }
+    return mesh;
+}
+
+/**
+ * Extracts the surface of an imported grid at +isoLevel and, for a signed grid, at -isoLevel,
+ * with psiSigns marking which surface each vertex is on. Normals come from the grid itself.
+ */
+function calculateImportedMeshData(grid: OrbitalData, isoLevel: number, signed: boolean, progress: Progress): MeshData {
+    if (!(isoLevel > 0)) {
+        throw new Error('Invalid parameters: isoLevel must be positive');
+    }
+    const signs: (1 | -1)[] = signed ? [1, -1] : [1];
+    const surfaces = signs.map(sign => extractIsosurface(grid, grid.psiGrid, isoLevel, { sign, onSlab: progress }));
+    const mesh = joinSurfaces(surfaces, signs, signs.map(sign => (sign > 0 ? 0 : Math.PI)));
+
+    if (!getTriangleCount(mesh)) {
+        throw new Error(`No surface at iso-value ${isoLevel}; try a smaller value`);
+    }
+    return mesh;
+}
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+    const { jobId } = e.data;
+    const header = { version: WORKER_PROTOCOL_VERSION, jobId };
+    try {
+        console.log('Worker: Starting calculation', e.data.type, jobId);
+        if (e.data.version !== WORKER_PROTOCOL_VERSION) {
+            throw new Error(`Worker speaks protocol version ${WORKER_PROTOCOL_VERSION}, not ${e.data.version}; reload the page.`);
+        }
+        if (e.data.type === 'calculate') {
+            const { params, grid } = e.data;
+            const time = params.time ?? 0;
+            const backend = await getComputeBackend(params.computeBackend);
+            const progress = createProgress(jobId, surfaceInfoSteps(params, !!grid) + meshSteps(params, time, !!grid));
+            const surfaceInfo = resolveSurfaceInfo(params, time, backend, progress, grid);
+            postReply({
+                ...header,
+                type: 'success',
+                meshData: calculateMeshData(params, time, surfaceInfo.isoLevel, backend, progress, grid),
+                surfaceInfo
+            });
+        } else if (e.data.type === 'calculateFrames') {
+            const { params, times } = e.data;
+            const backend = await getComputeBackend(params.computeBackend);
+            const progress = createProgress(
+                jobId,
+                surfaceInfoSteps(params, false) + times.reduce((steps, time) => steps + meshSteps(params, time, false), 0)
+            );
+            // One iso-level for every frame, so the surfaces are comparable as the density moves
+            const surfaceInfo = resolveSurfaceInfo(params, params.time ?? 0, backend, progress);
+            postReply({
+                ...header,
+                type: 'frames',
+                frames: times.map(time => ({
+                    time,
+                    meshData: calculateMeshData(params, time, surfaceInfo.isoLevel, backend, progress)
+                })),
+                surfaceInfo
+            });
+        } else if (e.data.type === 'sampleSlab') {
+            const { params, xStart, xEnd, target } = e.data;
+            postReply({
+                ...header,
+                type: 'slab',
+                ...sampleOrbitalSlab(
+                    params,
+                    { xStart, xEnd },
+                    target,
+                    createProgress(jobId, xEnd - xStart),
+                    await getComputeBackend(params.computeBackend)
+                )
+            });
+        } else if (e.data.type === 'calculateImported') {
+            const { grid, isoLevel, signed } = e.data;
+            postReply({
+                ...header,
+                type: 'success',
+                meshData: calculateImportedMeshData(grid, isoLevel, signed, createProgress(jobId, (signed ? 2 : 1) * (grid.dims[0] - 1))),
+                surfaceInfo: {
+                    isoLevel,
+                    enclosedFraction: enclosedProbabilityAtIsoLevel(grid.grid, signed ? isoLevel * isoLevel : isoLevel)
+                }
+            });
+        } else if (e.data.type === 'calculatePoints') {
+            console.log('Worker: Sampling point cloud');
+            postReply({ ...header, type: 'points', pointCloud: sampleOrbitalPoints(e.data.params) });
+        }
+    } catch (error) {
+        console.error('Worker: Error during calculation:', error);
+        postReply({ ...header, type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+    }
+};
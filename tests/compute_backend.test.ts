@@ -0,0 +1,121 @@
+// tests/compute_backend.test.ts
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+    ComputeBackend,
+    createWasmComputeBackend,
+    jsComputeBackend,
+    loadComputeBackend,
+    OrbitalGridParams
+} from '../src/compute_backend';
+import { compileOrbital, sampleCompiledOrbitalGrid } from '../src/quantum_functions';
+
+describe('Compute Backend Module', () => {
+    // Built by `npm run build:wasm`, which `npm test` runs first
+    const kernel = () => readFileSync(resolve(__dirname, '../src/wasm/orbital_kernel.wasm'));
+
+    const sampleGrid = (backend: ComputeBackend, params: OrbitalGridParams) => {
+        const length = params.resolution ** 3;
+        const grid = new Float32Array(length);
+        const psiGrid = new Float32Array(length);
+        const maxDensity = backend.sampleOrbitalSlab(params, 0, params.resolution, grid, psiGrid);
+        return { grid, psiGrid, maxDensity };
+    };
+
+    // Largest difference relative to the largest value of the expected array
+    const relativeDifference = (actual: Float32Array, expected: Float32Array) => {
+        let difference = 0;
+        let scale = 0;
+        expected.forEach((value, i) => {
+            difference = Math.max(difference, Math.abs(actual[i] - value));
+            scale = Math.max(scale, Math.abs(value));
+        });
+        return difference / scale;
+    };
+
+    let wasmBackend: ComputeBackend;
+    beforeAll(async () => {
+        wasmBackend = await createWasmComputeBackend(kernel());
+    });
+
+    describe('jsComputeBackend', () => {
+        it('should sample the grid of the compiled orbital', () => {
+            const params: OrbitalGridParams = { n: 3, l: 2, ml: -1, Z: 1, basis: 'real', resolution: 12, rMax: 25 };
+            const expected = sampleCompiledOrbitalGrid(compileOrbital(3, 2, -1, 1, 'real'), 12, 25);
+            const { grid, psiGrid, maxDensity } = sampleGrid(jsComputeBackend, params);
+            expect(grid).toEqual(expected.grid);
+            expect(psiGrid).toEqual(expected.psiGrid);
+            expect(maxDensity).toBe(expected.maxDensity);
+        });
+    });
+
+    describe('createWasmComputeBackend function', () => {
+        it('should sample the same grids as the JS backend', () => {
+            const cases: OrbitalGridParams[] = [
+                { n: 1, l: 0, ml: 0, Z: 1, basis: 'real', resolution: 17, rMax: 6 },
+                { n: 3, l: 2, ml: -1, Z: 1, basis: 'real', resolution: 16, rMax: 25 },
+                { n: 4, l: 3, ml: 2, Z: 2, basis: 'complex', resolution: 15, rMax: 20 },
+                { n: 3, l: 2, ml: 1, Z: 1, basis: 'complex', condonShortleyPhase: false, resolution: 13, rMax: 25 },
+                { n: 25, l: 10, ml: 7, Z: 3, basis: 'complex', resolution: 14, rMax: 500 },
+                { n: 30, l: 29, ml: -17, Z: 1, basis: 'real', resolution: 16, rMax: 1400 },
+            ];
+            cases.forEach(params => {
+                const expected = sampleGrid(jsComputeBackend, params);
+                const actual = sampleGrid(wasmBackend, params);
+                expect(relativeDifference(actual.grid, expected.grid)).toBeLessThan(1e-6);
+                expect(relativeDifference(actual.psiGrid, expected.psiGrid)).toBeLessThan(1e-6);
+                expect(actual.maxDensity).toBeCloseTo(expected.maxDensity, 12);
+            });
+        });
+
+        it('should sample slabs that assemble into the whole grid, reporting each x index', () => {
+            const params: OrbitalGridParams = { n: 2, l: 1, ml: 1, Z: 1, basis: 'real', resolution: 10, rMax: 12 };
+            const whole = sampleGrid(wasmBackend, params);
+            const grid = new Float32Array(1000);
+            const psiGrid = new Float32Array(1000);
+            const onSlab = jest.fn();
+            // A larger grid in between grows the kernel's output arrays
+            wasmBackend.sampleOrbitalSlab(params, 0, 3, grid.subarray(0, 300), psiGrid.subarray(0, 300), onSlab);
+            sampleGrid(wasmBackend, { ...params, resolution: 40 });
+            wasmBackend.sampleOrbitalSlab(params, 3, 10, grid.subarray(300), psiGrid.subarray(300), onSlab);
+            expect(grid).toEqual(whole.grid);
+            expect(psiGrid).toEqual(whole.psiGrid);
+            expect(onSlab).toHaveBeenCalledTimes(10);
+        });
+
+        it('should reuse the coefficient arrays of earlier orbitals rather than grow memory', async () => {
+            const { instance } = await WebAssembly.instantiate(kernel(), { env: { abort: () => undefined } });
+            const { configure, memory } = instance.exports as unknown as {
+                configure: (...args: (number | boolean)[]) => void;
+                memory: WebAssembly.Memory;
+            };
+            configure(20, 0, 1, 0, 1, 1, 1, 0, false, 200, 100);
+            const byteLength = memory.buffer.byteLength;
+            for (let i = 0; i < 1000; i++) {
+                configure(20, 0, 1, 0, 1, 1, 1, 0, false, 100 + (i % 100), 50 + (i % 50));
+            }
+            expect(memory.buffer.byteLength).toBe(byteLength);
+        });
+
+        it('should reject bytes that are not a kernel', async () => {
+            await expect(createWasmComputeBackend(new Uint8Array([1, 2, 3]))).rejects.toThrow();
+        });
+    });
+
+    describe('loadComputeBackend function', () => {
+        it('should load the kernel for wasm and skip it for js', async () => {
+            const loadKernel = jest.fn(async () => kernel());
+            expect((await loadComputeBackend('wasm', loadKernel)).name).toBe('wasm');
+            expect(await loadComputeBackend('js', loadKernel)).toBe(jsComputeBackend);
+            expect(loadKernel).toHaveBeenCalledTimes(1);
+        });
+
+        it('should fall back on the JS backend when the kernel cannot be loaded', async () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            const backend = await loadComputeBackend('wasm', () => Promise.reject(new Error('404')));
+            expect(backend).toBe(jsComputeBackend);
+            expect(warn).toHaveBeenCalled();
+            warn.mockRestore();
+        });
+    });
+});
@@ -0,0 +1,119 @@
+// tests/cube_import.test.ts
+import {
+    getGridOrigin,
+    getGridSpacing,
+    cubeToOrbitalData,
+    parseCubeFile,
+    getImportedIsoLevel,
+    sampleGrid
+} from '../src/cube_import';
+import { CubeFile, writeCube } from '../src/volume_export';
+import { enclosedProbabilityAtIsoLevel } from '../src/enclosed_probability';
+import { __clearAllCaches__, generateOrbitalData } from '../src/quantum_functions';
+import { OrbitalData, OrbitalParams } from '../src/types/orbital';
+
+describe('Cube Import Module', () => {
+    const params: OrbitalParams = { n: 2, l: 1, ml: 0, Z: 1, resolution: 9, rMax: 8, isoLevel: 0.001 };
+    let data: OrbitalData;
+
+    // 3 × 2 × 2 box with different spacings, holding the linear field x + 2y + 3z
+    const linearCube = (axes: number[][] = [[0.5, 0, 0], [0, 1, 0], [0, 0, 2]]): CubeFile => {
+        const origin = [-1, 0, 1];
+        const values = new Float32Array(12);
+        for (let i = 0; i < 3; i++) {
+            for (let j = 0; j < 2; j++) {
+                for (let k = 0; k < 2; k++) {
+                    values[(i * 2 + j) * 2 + k] = (origin[0] + 0.5 * i) + 2 * (origin[1] + j) + 3 * (origin[2] + 2 * k);
+                }
+            }
+        }
+        return { comments: ['linear', 'field'], origin, dims: [3, 2, 2], axes, atoms: [], values };
+    };
+
+    beforeEach(() => {
+        data = generateOrbitalData(2, 1, 0, 1, 9, 8);
+    });
+
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('cubeToOrbitalData function', () => {
+        it('should read back an exported orbital as a signed grid', () => {
+            const cube = parseCubeFile(writeCube(data, 'psi', params), '2pz.cube');
+            expect(cube.signed).toBe(true);
+            expect(cube.atoms).toEqual([{ atomicNumber: 1, charge: 1, position: [0, 0, 0] }]);
+            expect(cube.data.dims).toEqual([9, 9, 9]);
+            expect(getGridOrigin(cube.data)).toEqual([-8, -8, -8]);
+            expect(getGridSpacing(cube.data)).toEqual([2, 2, 2]);
+            for (let i = 0; i < data.psiGrid.length; i += 37) {
+                expect(cube.data.psiGrid[i]).toBeCloseTo(data.psiGrid[i], 6);
+                expect(cube.data.grid[i]).toBeCloseTo(data.psiGrid[i] ** 2, 8);
+            }
+        });
+
+        it('should keep a density as it is', () => {
+            const cube = parseCubeFile(writeCube(data, 'density', params), 'density.cube');
+            expect(cube.signed).toBe(false);
+            expect(cube.data.maxDensity).toBeCloseTo(data.maxDensity, 8);
+            expect(Array.from(cube.data.grid)).toEqual(Array.from(cube.data.psiGrid));
+        });
+
+        it('should keep the origin and spacing of each axis', () => {
+            const { data: grid, signed } = cubeToOrbitalData(linearCube());
+            expect(signed).toBe(false); // All positive
+            expect(grid.origin).toEqual([-1, 0, 1]);
+            expect(grid.spacing).toEqual([0.5, 1, 2]);
+            expect(grid.minVal).toBe(-1);
+            expect(grid.maxVal).toBe(3);
+        });
+
+        it('should reject skewed axes, flat grids and all-negative values', () => {
+            expect(() => cubeToOrbitalData(linearCube([[0.5, 0.1, 0], [0, 1, 0], [0, 0, 2]]))).toThrow(/skewed or rotated/);
+            expect(() => cubeToOrbitalData(linearCube([[-0.5, 0, 0], [0, 1, 0], [0, 0, 2]]))).toThrow(/skewed or rotated/);
+            expect(() => cubeToOrbitalData({ ...linearCube(), dims: [3, 2, 1], values: new Float32Array(6) })).toThrow(/two points/);
+            const negative = linearCube();
+            negative.values = negative.values.map(value => -Math.abs(value) - 1);
+            expect(() => cubeToOrbitalData(negative)).toThrow(/all negative/);
+        });
+    });
+
+    describe('parseCubeFile function', () => {
+        it('should name the file and the offending line', () => {
+            const text = writeCube(data, 'psi', params).replace(/E-0/, 'X-0');
+            expect(() => parseCubeFile(text, 'broken.cube')).toThrow(/^Could not import broken\.cube: Cube file line \d+ is malformed/);
+            expect(() => parseCubeFile('too\nshort', 'short.cube')).toThrow(/^Could not import short\.cube: Cube file is too short/);
+        });
+    });
+
+    describe('getImportedIsoLevel function', () => {
+        it('should enclose the requested fraction, in the units of the file', () => {
+            const orbital = parseCubeFile(writeCube(data, 'psi', params), '2pz.cube');
+            const psiLevel = getImportedIsoLevel(orbital, 0.8);
+            expect(enclosedProbabilityAtIsoLevel(orbital.data.grid, psiLevel * psiLevel)).toBeCloseTo(0.8, 1);
+
+            const density = parseCubeFile(writeCube(data, 'density', params), 'density.cube');
+            expect(getImportedIsoLevel(density, 0.8) / (psiLevel * psiLevel)).toBeCloseTo(1, 4);
+        });
+    });
+
+    describe('sampleGrid function', () => {
+        const { data: grid } = cubeToOrbitalData(linearCube());
+        const field = (x: number, y: number, z: number) => x + 2 * y + 3 * z;
+
+        it('should return grid values at grid points', () => {
+            expect(sampleGrid(grid, grid.psiGrid, -1, 0, 1)).toBeCloseTo(field(-1, 0, 1), 5);
+            expect(sampleGrid(grid, grid.psiGrid, 0, 1, 3)).toBeCloseTo(field(0, 1, 3), 5);
+        });
+
+        it('should interpolate a linear field exactly between grid points', () => {
+            expect(sampleGrid(grid, grid.psiGrid, -0.75, 0.5, 2)).toBeCloseTo(field(-0.75, 0.5, 2), 5);
+            expect(sampleGrid(grid, grid.psiGrid, -0.1, 0.9, 2.7)).toBeCloseTo(field(-0.1, 0.9, 2.7), 5);
+        });
+
+        it('should be zero outside the grid', () => {
+            expect(sampleGrid(grid, grid.psiGrid, -1.01, 0, 1)).toBe(0);
+            expect(sampleGrid(grid, grid.psiGrid, 0, 0, 3.5)).toBe(0);
+        });
+    });
+});
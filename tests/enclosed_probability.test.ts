@@ -0,0 +1,113 @@
+// tests/enclosed_probability.test.ts
+import {
+    downsampleDensityGrid,
+    enclosedProbabilityAtIsoLevel,
+    findIsoLevelForEnclosedProbability
+} from '../src/enclosed_probability';
+import { __clearAllCaches__, generateOrbitalData } from '../src/quantum_functions';
+
+describe('Enclosed Probability Module', () => {
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('enclosedProbabilityAtIsoLevel function', () => {
+        it('should sum the densities at or above the iso-level', () => {
+            const grid = [4, 3, 2, 1];
+            expect(enclosedProbabilityAtIsoLevel(grid, 3)).toBeCloseTo(0.7, 12);
+            expect(enclosedProbabilityAtIsoLevel(grid, 0)).toBe(1);
+            expect(enclosedProbabilityAtIsoLevel(grid, 5)).toBe(0);
+        });
+
+        it('should reject an empty grid', () => {
+            expect(() => enclosedProbabilityAtIsoLevel([0, 0], 1)).toThrow();
+        });
+    });
+
+    describe('findIsoLevelForEnclosedProbability function', () => {
+        it('should invert the cumulative distribution', () => {
+            const grid = [1, 4, 2, 3];
+            expect(findIsoLevelForEnclosedProbability(grid, 0.4)).toEqual({ isoLevel: 4, enclosedFraction: 0.4 });
+            expect(findIsoLevelForEnclosedProbability(grid, 0.5)).toEqual({ isoLevel: 3, enclosedFraction: 0.7 });
+            expect(findIsoLevelForEnclosedProbability(grid, 1)).toEqual({ isoLevel: 1, enclosedFraction: 1 });
+        });
+
+        it('should stop at the smallest positive density when enclosing everything', () => {
+            // Summed in grid order the total is 0.6000000000000001; sorted, the densities sum to 0.6
+            const grid = [0.1, 0.2, 0.3, 0, 0];
+            expect(findIsoLevelForEnclosedProbability(grid, 1)).toEqual({ isoLevel: 0.1, enclosedFraction: 1 });
+        });
+
+        it('should not split samples tied at the iso-level', () => {
+            const result = findIsoLevelForEnclosedProbability([2, 2, 2, 2], 0.3);
+            expect(result).toEqual({ isoLevel: 2, enclosedFraction: 1 });
+        });
+
+        it('should reject fractions outside (0, 1]', () => {
+            expect(() => findIsoLevelForEnclosedProbability([1, 2], 0)).toThrow();
+            expect(() => findIsoLevelForEnclosedProbability([1, 2], 1.5)).toThrow();
+        });
+
+        it('should report an enclosed fraction consistent with the returned iso-level', () => {
+            const { grid } = generateOrbitalData(2, 1, 0, 1, 32, 20, 'real');
+            const result = findIsoLevelForEnclosedProbability(grid, 0.9);
+            expect(result.enclosedFraction).toBeGreaterThanOrEqual(0.9);
+            expect(result.enclosedFraction).toBeLessThan(0.91);
+            expect(enclosedProbabilityAtIsoLevel(grid, result.isoLevel)).toBeCloseTo(result.enclosedFraction, 9);
+        });
+
+        it('should give nested surfaces for increasing fractions', () => {
+            const { grid } = generateOrbitalData(3, 2, 0, 1, 24, 30, 'real');
+            const levels = [0.5, 0.75, 0.9, 0.99].map(f => findIsoLevelForEnclosedProbability(grid, f).isoLevel);
+            for (let i = 1; i < levels.length; i++) {
+                expect(levels[i]).toBeLessThan(levels[i - 1]);
+            }
+        });
+
+        it('should match the analytic 1s radius enclosing 90% of the probability', () => {
+            // P(r < R) = 1 - e^{-2R}(1 + 2R + 2R²) for 1s; = 0.9 at R ≈ 2.6612
+            const radius = 2.6612;
+            const { grid } = generateOrbitalData(1, 0, 0, 1, 64, 8, 'real');
+            const { isoLevel } = findIsoLevelForEnclosedProbability(grid, 0.9);
+            const expected = Math.exp(-2 * radius) / Math.PI; // |ψ_1s|² at R
+            expect(Math.abs(isoLevel - expected) / expected).toBeLessThan(0.05);
+        });
+
+        it('should scale the iso-level as Z³ for a hydrogenic orbital', () => {
+            // Densities scale as Z³ when the box shrinks as 1/Z, so the enclosing surface does too
+            const hydrogen = findIsoLevelForEnclosedProbability(generateOrbitalData(2, 0, 0, 1, 32, 20, 'real').grid, 0.9);
+            const helium = findIsoLevelForEnclosedProbability(generateOrbitalData(2, 0, 0, 2, 32, 10, 'real').grid, 0.9);
+            expect(helium.isoLevel / hydrogen.isoLevel).toBeCloseTo(8, 6);
+        });
+    });
+
+    describe('downsampleDensityGrid function', () => {
+        it('should return a grid no finer than the limit as it is', () => {
+            const grid = new Float32Array(27);
+            expect(downsampleDensityGrid(grid, 3, 3)).toBe(grid);
+        });
+
+        it('should keep every stride-th point along each axis', () => {
+            // 5³ grid whose density encodes its own grid index
+            const grid = Float32Array.from({ length: 125 }, (_, i) => i);
+            const downsampled = downsampleDensityGrid(grid, 5, 3);
+            expect(Array.from(downsampled)).toEqual([
+                0, 2, 4, 10, 12, 14, 20, 22, 24,
+                50, 52, 54, 60, 62, 64, 70, 72, 74,
+                100, 102, 104, 110, 112, 114, 120, 122, 124,
+            ]);
+        });
+
+        it('should reject a grid of another size', () => {
+            expect(() => downsampleDensityGrid(new Float32Array(10), 3)).toThrow("Density grid does not have resolution³ points.");
+        });
+
+        it('should find much the same iso-level as the full grid', () => {
+            const { grid } = generateOrbitalData(3, 1, 0, 1, 96, 25, 'real');
+            const full = findIsoLevelForEnclosedProbability(grid, 0.9);
+            const downsampled = findIsoLevelForEnclosedProbability(downsampleDensityGrid(grid, 96, 48), 0.9);
+            expect(Math.abs(downsampled.isoLevel - full.isoLevel) / full.isoLevel).toBeLessThan(0.05);
+            expect(enclosedProbabilityAtIsoLevel(grid, downsampled.isoLevel)).toBeCloseTo(0.9, 2);
+        });
+    });
+});
@@ -0,0 +1,158 @@
+// tests/isosurface.test.ts
+import { extractIsosurface, extractSignedSurfaces, Isosurface, joinSurfaces } from '../src/isosurface';
+import { generateOrbitalData } from '../src/quantum_functions';
+import { signedVolume } from '../src/mesh_export';
+import { OrbitalData } from '../src/types/orbital';
+
+describe('Isosurface Module', () => {
+    const triples = (array: Float32Array | Uint32Array) =>
+        Array.from({ length: array.length / 3 }, (_, i) => Array.from(array.slice(i * 3, i * 3 + 3)));
+
+    // V - E + F; 2 for each closed surface of genus 0
+    const eulerCharacteristic = ({ positions, indices }: Isosurface) => {
+        const edges = new Set<string>();
+        triples(indices).forEach(([a, b, c]) => [[a, b], [b, c], [c, a]].forEach(([p, q]) => edges.add(`${Math.min(p, q)},${Math.max(p, q)}`)));
+        return positions.length / 3 - edges.size + indices.length / 3;
+    };
+
+    // Closed and consistently wound: every directed edge once, each matched by its reverse
+    const expectClosedAndOriented = ({ indices }: Isosurface) => {
+        const directed = triples(indices).flatMap(([a, b, c]) => [`${a},${b}`, `${b},${c}`, `${c},${a}`]);
+        const edgeSet = new Set(directed);
+        expect(edgeSet.size).toBe(directed.length);
+        const unmatched = directed.filter(edge => !edgeSet.has(edge.split(',').reverse().join(',')));
+        expect(unmatched).toEqual([]);
+    };
+
+    const grid = (dims: [number, number, number], values: number[], spacing = 1): OrbitalData => ({
+        grid: Float32Array.from(values),
+        psiGrid: Float32Array.from(values),
+        dims,
+        maxDensity: Math.max(...values),
+        minVal: 0,
+        maxVal: spacing * (dims[0] - 1),
+    });
+
+    describe('extractIsosurface function', () => {
+        it('should wrap a single grid point in a closed surface of its 14 lattice neighbours', () => {
+            const values = new Array(27).fill(0);
+            values[13] = 1; // The centre of a 3 x 3 x 3 grid
+            const data = grid([3, 3, 3], values);
+            const surface = extractIsosurface(data, data.grid, 0.5);
+            expect(surface.positions.length / 3).toBe(14);
+            expect(surface.indices.length / 3).toBe(24);
+            expect(eulerCharacteristic(surface)).toBe(2);
+            expectClosedAndOriented(surface);
+            expect(signedVolume(triples(surface.positions), triples(surface.indices))).toBeGreaterThan(0);
+        });
+
+        it('should give the 1s density a closed, outward-wound sphere', () => {
+            const data = generateOrbitalData(1, 0, 0, 1, 24, 4);
+            const radius = 1.5;
+            const isoLevel = Math.exp(-2 * radius) / Math.PI; // |ψ_1s|² = e^(-2r) / π
+            const surface = extractIsosurface(data, data.grid, isoLevel);
+
+            expect(eulerCharacteristic(surface)).toBe(2);
+            expectClosedAndOriented(surface);
+            const volume = signedVolume(triples(surface.positions), triples(surface.indices));
+            expect(volume / ((4 / 3) * Math.PI * radius ** 3)).toBeCloseTo(1, 1);
+            const radii = triples(surface.positions).map(p => Math.hypot(...p));
+            expect(Math.max(...radii.map(r => Math.abs(r - radius)))).toBeLessThan(0.1);
+        });
+
+        it('should weld the vertices shared between triangles', () => {
+            const data = generateOrbitalData(1, 0, 0, 1, 16, 4);
+            const surface = extractIsosurface(data, data.grid, 0.01);
+            const distinct = new Set(triples(surface.positions).map(p => p.join(',')));
+            expect(distinct.size).toBe(surface.positions.length / 3);
+            expect(Math.max(...surface.indices)).toBe(surface.positions.length / 3 - 1);
+        });
+
+        it('should point the normals outwards along the gradient', () => {
+            const data = generateOrbitalData(1, 0, 0, 1, 20, 4);
+            const fromGrid = extractIsosurface(data, data.grid, 0.01);
+            // Exact gradient of e^(-2r) / π
+            const gradient = (x: number, y: number, z: number) => {
+                const r = Math.hypot(x, y, z);
+                return [x, y, z].map(c => (-2 * Math.exp(-2 * r) / Math.PI) * (c / r));
+            };
+            const analytic = extractIsosurface(data, data.grid, 0.01, { gradient });
+
+            const positions = triples(analytic.positions);
+            // Cosine of the angle between each normal and the radial direction
+            const radialCosines = (surface: Isosurface) => triples(surface.normals).map((normal, v) =>
+                normal.reduce((sum, c, axis) => sum + c * positions[v][axis], 0) / Math.hypot(...positions[v]));
+            expect(Math.min(...radialCosines(analytic))).toBeCloseTo(1, 5);
+            expect(Math.min(...radialCosines(fromGrid))).toBeGreaterThan(0.95);
+        });
+
+        it('should give a ring-shaped density a surface of genus one', () => {
+            // |ψ_2p,m=1|² in the complex basis is a torus around the z-axis
+            const data = generateOrbitalData(2, 1, 1, 1, 32, 8, 'complex');
+            const surface = extractIsosurface(data, data.grid, data.maxDensity / 2);
+            expect(eulerCharacteristic(surface)).toBe(0);
+            expectClosedAndOriented(surface);
+        });
+
+        it('should extract the negative side with sign -1', () => {
+            const data = generateOrbitalData(2, 1, 0, 1, 16, 12);
+            const surface = extractIsosurface(data, data.psiGrid, 0.05, { sign: -1 });
+            expect(triples(surface.positions).every(([, , z]) => z < 0)).toBe(true);
+            expect(signedVolume(triples(surface.positions), triples(surface.indices))).toBeGreaterThan(0);
+        });
+
+        it('should report each slab of cells and check the grid size', () => {
+            const data = generateOrbitalData(1, 0, 0, 1, 8, 4);
+            const onSlab = jest.fn();
+            extractIsosurface(data, data.grid, 0.01, { onSlab });
+            expect(onSlab).toHaveBeenCalledTimes(7);
+            expect(() => extractIsosurface(data, new Float32Array(10), 0.01)).toThrow();
+        });
+
+        it('should find nothing where the level is never crossed', () => {
+            const data = generateOrbitalData(1, 0, 0, 1, 8, 4);
+            expect(extractIsosurface(data, data.grid, 10).indices).toHaveLength(0);
+        });
+    });
+
+    describe('extractSignedSurfaces function', () => {
+        it('should close each lobe of 2p_z and colour it by its own sign', () => {
+            const data = generateOrbitalData(2, 1, 0, 1, 24, 12);
+            const mesh = extractSignedSurfaces(data, data.psiGrid, 0.05);
+            const positions = triples(mesh.positions);
+            expect(positions.every(([, , z], v) => Math.sign(z) === mesh.psiSigns[v])).toBe(true);
+            expect(Array.from(mesh.psiPhases).every((phase, v) => phase === (mesh.psiSigns[v] > 0 ? 0 : Math.fround(Math.PI)))).toBe(true);
+            expectClosedAndOriented(mesh);
+            expect(eulerCharacteristic(mesh)).toBe(4); // Two spheres
+        });
+
+        it('should keep 3d_z2 lobes apart from its ring of the other sign', () => {
+            const data = generateOrbitalData(3, 2, 0, 1, 32, 25);
+            const mesh = extractSignedSurfaces(data, data.psiGrid, 0.01);
+            // Two polar lobes (ψ > 0) and the torus round the equator (ψ < 0)
+            const positive = extractIsosurface(data, data.psiGrid, 0.01);
+            const negative = extractIsosurface(data, data.psiGrid, 0.01, { sign: -1 });
+            expect(eulerCharacteristic(positive)).toBe(4);
+            expect(eulerCharacteristic(negative)).toBe(0);
+            expect(mesh.psiSigns.filter(sign => sign === 1)).toHaveLength(positive.positions.length / 3);
+        });
+
+        it('should reject a level that is not positive', () => {
+            const data = generateOrbitalData(2, 1, 0, 1, 8, 12);
+            expect(() => extractSignedSurfaces(data, data.psiGrid, 0)).toThrow();
+        });
+    });
+
+    describe('joinSurfaces function', () => {
+        it('should offset the indices of later surfaces', () => {
+            const triangle: Isosurface = {
+                positions: new Float32Array(9),
+                normals: new Float32Array(9),
+                indices: Uint32Array.from([0, 1, 2]),
+            };
+            const mesh = joinSurfaces([triangle, triangle], [1, -1], [0, Math.PI]);
+            expect(Array.from(mesh.indices)).toEqual([0, 1, 2, 3, 4, 5]);
+            expect(Array.from(mesh.psiSigns)).toEqual([1, 1, 1, -1, -1, -1]);
+        });
+    });
+});
@@ -0,0 +1,72 @@
+// tests/mesh_data.test.ts
+import {
+    computeVertexNormals,
+    createMeshData,
+    getMeshTransferables,
+    getTriangleCount,
+    getVertex,
+    getVertexCount
+} from '../src/mesh_data';
+
+describe('Mesh Data Module', () => {
+    // Unit tetrahedron with outward winding
+    const positions = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]];
+    const cells = [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]];
+
+    describe('createMeshData function', () => {
+        it('should flatten vertices and triangles into typed arrays', () => {
+            const mesh = createMeshData(positions, cells, [1, 1, -1, -1], [0, 0, Math.PI, Math.PI]);
+            expect(mesh.positions).toBeInstanceOf(Float32Array);
+            expect(mesh.indices).toBeInstanceOf(Uint32Array);
+            expect(mesh.psiSigns).toBeInstanceOf(Int8Array);
+            expect(mesh.psiPhases).toBeInstanceOf(Float32Array);
+            expect(getVertexCount(mesh)).toBe(4);
+            expect(getTriangleCount(mesh)).toBe(4);
+            expect(getVertex(mesh, 3)).toEqual([0, 0, 1]);
+            expect(Array.from(mesh.indices.slice(9))).toEqual([1, 2, 3]);
+            expect(Array.from(mesh.psiSigns)).toEqual([1, 1, -1, -1]);
+        });
+
+        it('should point the normals of a closed surface outwards', () => {
+            const mesh = createMeshData(positions, cells, [1, 1, 1, 1], [0, 0, 0, 0]);
+            // The corner at the origin faces away from the other three
+            const normal = Array.from(mesh.normals.slice(0, 3));
+            normal.forEach(component => expect(component).toBeCloseTo(-1 / Math.sqrt(3), 6));
+            for (let i = 0; i < 4; i++) {
+                expect(Math.hypot(...Array.from(mesh.normals.slice(i * 3, i * 3 + 3)))).toBeCloseTo(1, 6);
+            }
+        });
+
+        it('should require a sign and phase for every vertex', () => {
+            expect(() => createMeshData(positions, cells, [1, 1, 1], [0, 0, 0, 0])).toThrow();
+            expect(() => createMeshData(positions, cells, [1, 1, 1, 1], [])).toThrow();
+        });
+    });
+
+    describe('computeVertexNormals function', () => {
+        it('should follow the winding of the triangles', () => {
+            const triangle = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]);
+            expect(Array.from(computeVertexNormals(triangle, new Uint32Array([0, 1, 2])))).toEqual([0, 0, 1, 0, 0, 1, 0, 0, 1]);
+            expect(Array.from(computeVertexNormals(triangle, new Uint32Array([0, 2, 1])).slice(0, 3))).toEqual([0, 0, -1]);
+        });
+
+        it('should leave vertices on no triangle with a zero normal', () => {
+            const normals = computeVertexNormals(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 5, 5, 5]), new Uint32Array([0, 1, 2]));
+            expect(Array.from(normals.slice(9))).toEqual([0, 0, 0]);
+        });
+    });
+
+    describe('getMeshTransferables function', () => {
+        it('should list each buffer once', () => {
+            const mesh = createMeshData(positions, cells, [1, 1, 1, 1], [0, 0, 0, 0]);
+            const buffers = getMeshTransferables(mesh);
+            expect(buffers).toHaveLength(5);
+            expect(buffers).toContain(mesh.positions.buffer);
+            expect(buffers).toContain(mesh.indices.buffer);
+
+            const shared = new Float32Array(24);
+            const views = { ...mesh, positions: shared.subarray(0, 12), normals: shared.subarray(12) };
+            expect(getMeshTransferables(views)).toHaveLength(4);
+        });
+    });
+});
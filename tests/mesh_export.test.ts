@@ -0,0 +1,195 @@
+// tests/mesh_export.test.ts
+import {
+    weldVertices,
+    countOpenEdges,
+    signedVolume,
+    getExportBodies,
+    writeSTLBinary,
+    writeSTLAscii,
+    writeOBJ,
+    writePLY,
+    writeGLB,
+    exportMesh,
+    getExportFileName,
+    readSTLBinary,
+    readSTLAscii,
+    readOBJ,
+    readPLY,
+    readGLB,
+    positiveLobeColor,
+    negativeLobeColor,
+    MeshBody
+} from '../src/mesh_export';
+import { __clearAllCaches__, generateOrbitalData } from '../src/quantum_functions';
+import { extractSignedSurfaces } from '../src/isosurface';
+import { createMeshData, getVertexCount } from '../src/mesh_data';
+import { MeshData } from '../src/types/orbital';
+
+describe('Mesh Export Module', () => {
+    const FLOAT_DIGITS = 5;
+
+    // Unit tetrahedron with outward winding, one vertex per corner
+    const tetrahedron: MeshBody = {
+        name: 'tetrahedron',
+        positions: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]],
+        cells: [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]],
+        psiSigns: [1, 1, -1, -1],
+    };
+    const shifted: MeshBody = {
+        ...tetrahedron,
+        name: 'shifted',
+        positions: tetrahedron.positions.map(([x, y, z]) => [x + 2.5, y - 0.125, z]),
+        psiSigns: [-1, -1, -1, -1],
+    };
+
+    const triples = (array: Float32Array | Uint32Array) =>
+        Array.from({ length: array.length / 3 }, (_, i) => Array.from(array.slice(i * 3, i * 3 + 3)));
+
+    // Isosurface of 2p_z at |ψ|² = 0.001, unwelded and wound inwards: every triangle has its own
+    // copies of its vertices, as meshes from other extractors come
+    const build2pzMesh = (): MeshData => {
+        const data = generateOrbitalData(2, 1, 0, 1, 16, 15);
+        const mesh = extractSignedSurfaces(data, data.psiGrid, Math.sqrt(0.001));
+        const positions = triples(mesh.positions);
+        const cells = triples(mesh.indices);
+        const corners = cells.flatMap(([a, b, c]) => [a, c, b]);
+        return createMeshData(
+            corners.map(v => positions[v]),
+            cells.map((_, t) => [t * 3, t * 3 + 1, t * 3 + 2]),
+            corners.map(v => mesh.psiSigns[v]),
+            corners.map(v => mesh.psiPhases[v])
+        );
+    };
+
+    const expectPositionsClose = (actual: number[][], expected: number[][]) => {
+        expect(actual).toHaveLength(expected.length);
+        actual.forEach((position, i) => position.forEach((c, axis) => expect(c).toBeCloseTo(expected[i][axis], FLOAT_DIGITS)));
+    };
+    // Readers may number vertices differently, so compare the triangles corner by corner
+    const expectTrianglesClose = (actual: { positions: number[][]; cells: number[][] }, expected: MeshBody[]) => {
+        const corners = (positions: number[][], cells: number[][]) => cells.flatMap(cell => cell.map(index => positions[index]));
+        expectPositionsClose(
+            corners(actual.positions, actual.cells),
+            expected.flatMap(body => corners(body.positions, body.cells))
+        );
+    };
+
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('mesh helpers', () => {
+        it('should weld coincident vertices and drop collapsed triangles', () => {
+            const positions = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [1e-9, 0, 0], [0, 1, 0]];
+            const cells = [[0, 1, 2], [3, 4, 1], [0, 3, 2]];
+            const welded = weldVertices(positions, cells);
+            expect(welded.positions).toHaveLength(3);
+            expect(welded.indexMap).toEqual([0, 1, 2, 0, 2]);
+            expect(welded.cells).toEqual([[0, 1, 2], [0, 2, 1]]); // [0, 3, 2] collapses to [0, 0, 2]
+        });
+
+        it('should count open edges and the signed volume', () => {
+            expect(countOpenEdges(tetrahedron.cells)).toBe(0);
+            expect(countOpenEdges(tetrahedron.cells.slice(1))).toBe(3);
+            expect(signedVolume(tetrahedron.positions, tetrahedron.cells)).toBeCloseTo(1 / 6, 12);
+        });
+
+        it('should export a closed, outward-facing orbital surface', () => {
+            const mesh = build2pzMesh();
+            expect(signedVolume(triples(mesh.positions), triples(mesh.indices))).toBeLessThan(0);
+            const [body] = getExportBodies(mesh);
+            expect(body.positions.length).toBeLessThan(getVertexCount(mesh));
+            expect(countOpenEdges(body.cells)).toBe(0);
+            expect(signedVolume(body.positions, body.cells)).toBeGreaterThan(0);
+        });
+
+        it('should split the lobes into separate watertight bodies', () => {
+            const bodies = getExportBodies(build2pzMesh(), true);
+            expect(bodies.map(body => body.name)).toEqual(['positive_lobes', 'negative_lobes']);
+            bodies.forEach(body => {
+                expect(countOpenEdges(body.cells)).toBe(0);
+                expect(signedVolume(body.positions, body.cells)).toBeGreaterThan(0);
+            });
+            expect(bodies[0].positions.every(([, , z]) => z > 0)).toBe(true);
+            expect(bodies[0].psiSigns.every(sign => sign === 1)).toBe(true);
+            expect(bodies[1].positions.every(([, , z]) => z < 0)).toBe(true);
+            expect(bodies[1].psiSigns.every(sign => sign === -1)).toBe(true);
+        });
+    });
+
+    describe('round trips', () => {
+        it('should round-trip binary STL', () => {
+            const buffer = writeSTLBinary([tetrahedron, shifted]);
+            expect(buffer.byteLength).toBe(84 + 8 * 50);
+            const read = readSTLBinary(buffer);
+            expect(read.cells).toHaveLength(8);
+            expectTrianglesClose(read, [tetrahedron, shifted]);
+            expect(countOpenEdges(weldVertices(read.positions, read.cells).cells)).toBe(0);
+            expect(() => readSTLBinary(buffer.slice(0, 200))).toThrow();
+        });
+
+        it('should round-trip ASCII STL with one solid per body', () => {
+            const text = writeSTLAscii([tetrahedron, shifted]);
+            expect(text).toContain('facet normal 0 0 -1');
+            const read = readSTLAscii(text);
+            expect(read.map(mesh => mesh.name)).toEqual(['tetrahedron', 'shifted']);
+            expectTrianglesClose(read[1], [shifted]);
+        });
+
+        it('should round-trip OBJ with vertex colours', () => {
+            const read = readOBJ(writeOBJ([tetrahedron, shifted]));
+            expect(read.map(mesh => mesh.name)).toEqual(['tetrahedron', 'shifted']);
+            expectTrianglesClose(read[1], [shifted]);
+            // Vertices come back in face order: 0, 2, 1, 3
+            expect(read[0].colors).toEqual([positiveLobeColor, negativeLobeColor, positiveLobeColor, negativeLobeColor]);
+        });
+
+        it('should round-trip PLY with vertex colours', () => {
+            const read = readPLY(writePLY([tetrahedron, shifted]));
+            expectPositionsClose(read.positions, [...tetrahedron.positions, ...shifted.positions]);
+            expect(read.cells).toEqual([...tetrahedron.cells, ...shifted.cells.map(cell => cell.map(i => i + 4))]);
+            expect(read.colors![0]).toEqual(positiveLobeColor);
+            expect(read.colors![2]).toEqual(negativeLobeColor);
+            expect(() => readPLY('solid nope')).toThrow();
+        });
+
+        it('should round-trip binary glTF', () => {
+            const buffer = writeGLB([tetrahedron, shifted]);
+            expect(buffer.byteLength % 4).toBe(0);
+            const view = new DataView(buffer);
+            expect(view.getUint32(8, true)).toBe(buffer.byteLength);
+            const read = readGLB(buffer);
+            expect(read.map(mesh => mesh.name)).toEqual(['tetrahedron', 'shifted']);
+            expectPositionsClose(read[1].positions, shifted.positions);
+            expect(read[1].cells).toEqual(shifted.cells);
+            expect(read[0].colors).toEqual([positiveLobeColor, positiveLobeColor, negativeLobeColor, negativeLobeColor]);
+            expect(() => readGLB(new ArrayBuffer(24))).toThrow();
+        });
+    });
+
+    describe('exportMesh function', () => {
+        const mesh: MeshData = createMeshData(tetrahedron.positions, tetrahedron.cells, tetrahedron.psiSigns, [0, 0, 0, 0]);
+
+        it('should pick the writer, MIME type and extension from the format', () => {
+            expect(exportMesh(mesh, 'glb')).toMatchObject({ mimeType: 'model/gltf-binary', extension: 'glb' });
+            expect(exportMesh(mesh, 'stl').data).toBeInstanceOf(ArrayBuffer);
+            expect(typeof exportMesh(mesh, 'stl-ascii').data).toBe('string');
+            expect(exportMesh(mesh, 'obj').extension).toBe('obj');
+            expect(exportMesh(mesh, 'ply').extension).toBe('ply');
+        });
+
+        it('should name files after the orbital', () => {
+            const params = { n: 3, l: 2, ml: -1, Z: 1, resolution: 32, rMax: 20, isoLevel: 0.001 };
+            expect(getExportFileName(params)).toBe('orbital-n3-l2-m-1');
+            expect(getExportFileName({ ...params, Z: 2 })).toBe('orbital-n3-l2-m-1-Z2');
+            expect(getExportFileName({
+                ...params,
+                components: [{ n: 1, l: 0, ml: 0, coefficient: 1 }, { n: 2, l: 1, ml: 0, coefficient: 1 }],
+            })).toBe('orbital-superposition');
+        });
+
+        it('should reject an empty mesh', () => {
+            expect(() => exportMesh(createMeshData([], [], [], []), 'obj')).toThrow();
+        });
+    });
+});
@@ -0,0 +1,130 @@
+// tests/nodal_surfaces.test.ts
+import {
+    findLegendreRoots,
+    findAngularNodes,
+    findNodalSurfaces
+} from '../src/nodal_surfaces';
+import {
+    __clearAllCaches__,
+    associatedLegendrePolynomial,
+    radialWaveFunction,
+    realSphericalHarmonic
+} from '../src/quantum_functions';
+import { OrbitalParams } from '../src/types/orbital';
+
+describe('Nodal Surfaces Module', () => {
+    const EPSILON = 1e-9;
+
+    // Every (n, l, ml) up to n = 6
+    const states: [number, number, number][] = [];
+    for (let n = 1; n <= 6; n++) {
+        for (let l = 0; l < n; l++) {
+            for (let ml = -l; ml <= l; ml++) {
+                states.push([n, l, ml]);
+            }
+        }
+    }
+
+    const paramsFor = (n: number, l: number, ml: number, Z: number = 1): OrbitalParams =>
+        ({ n, l, ml, Z, resolution: 32, rMax: 20, isoLevel: 0.001 });
+
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('findLegendreRoots function', () => {
+        it('should find l - m roots inside (-1, 1)', () => {
+            for (let l = 0; l <= 8; l++) {
+                for (let m = 0; m <= l; m++) {
+                    const roots = findLegendreRoots(l, m);
+                    expect(roots).toHaveLength(l - m);
+                    roots.forEach(x => {
+                        expect(Math.abs(x)).toBeLessThan(1);
+                        expect(Math.abs(associatedLegendrePolynomial(l, m, x))).toBeLessThan(1e-6);
+                    });
+                }
+            }
+        });
+
+        it('should match the closed-form roots of P_2 and P_3', () => {
+            const [a, b] = findLegendreRoots(2, 0);
+            expect(a).toBeCloseTo(-1 / Math.sqrt(3), 12);
+            expect(b).toBeCloseTo(1 / Math.sqrt(3), 12);
+            const roots3 = findLegendreRoots(3, 0);
+            expect(roots3[0]).toBeCloseTo(-Math.sqrt(3 / 5), 12);
+            expect(roots3[1]).toBeCloseTo(0, 12);
+            expect(roots3[2]).toBeCloseTo(Math.sqrt(3 / 5), 12);
+        });
+
+        it('should reject invalid orders', () => {
+            expect(() => findLegendreRoots(2, 3)).toThrow();
+            expect(() => findLegendreRoots(-1, 0)).toThrow();
+        });
+    });
+
+    describe('findAngularNodes function', () => {
+        it('should place the p and d nodal planes', () => {
+            // pz: the xy-plane, as a θ = π/2 cone
+            expect(findAngularNodes(1, 0)).toEqual({ planes: [], cones: [{ theta: expect.closeTo(Math.PI / 2, 12) }] });
+            // px: the yz-plane (φ = π/2); py: the xz-plane (φ = 0)
+            expect(findAngularNodes(1, 1).planes).toEqual([{ phi: Math.PI / 2 }]);
+            expect(findAngularNodes(1, -1).planes).toEqual([{ phi: 0 }]);
+            // dxy: the xz- and yz-planes
+            expect(findAngularNodes(2, -2).planes.map(p => p.phi)).toEqual([0, Math.PI / 2]);
+            // dz²: two cones at cos²θ = 1/3
+            expect(findAngularNodes(2, 0).cones.map(c => c.theta)).toEqual([
+                expect.closeTo(Math.acos(1 / Math.sqrt(3)), 12),
+                expect.closeTo(Math.acos(-1 / Math.sqrt(3)), 12),
+            ]);
+        });
+
+        it('should keep only the cones in the complex basis', () => {
+            const nodes = findAngularNodes(3, 2, 'complex');
+            expect(nodes.planes).toHaveLength(0);
+            expect(nodes.cones).toHaveLength(1);
+        });
+
+        it('should lie on zeros of the real harmonic', () => {
+            states.forEach(([, l, ml]) => {
+                const { planes, cones } = findAngularNodes(l, ml);
+                planes.forEach(({ phi }) => {
+                    [0.3, 1.2, 2.5].forEach(theta => {
+                        expect(Math.abs(realSphericalHarmonic(l, ml, theta, phi))).toBeLessThan(EPSILON);
+                        expect(Math.abs(realSphericalHarmonic(l, ml, theta, phi + Math.PI))).toBeLessThan(EPSILON);
+                    });
+                });
+                cones.forEach(({ theta }) => {
+                    [0.1, 1.7, 4].forEach(phi => {
+                        expect(Math.abs(realSphericalHarmonic(l, ml, theta, phi))).toBeLessThan(1e-6);
+                    });
+                });
+            });
+        });
+    });
+
+    describe('findNodalSurfaces function', () => {
+        it.each(states)('should find n-l-1 radial and l angular nodes for n=%i, l=%i, ml=%i', (n, l, ml) => {
+            const surfaces = findNodalSurfaces(paramsFor(n, l, ml))!;
+            expect(surfaces.radialSpheres).toHaveLength(n - l - 1);
+            expect(surfaces.planes.length + surfaces.cones.length).toBe(l);
+            expect(surfaces.planes).toHaveLength(Math.abs(ml));
+            expect(surfaces.cones).toHaveLength(l - Math.abs(ml));
+        });
+
+        it('should shrink the radial spheres as 1/Z', () => {
+            const hydrogen = findNodalSurfaces(paramsFor(3, 0, 0, 1))!;
+            const lithium = findNodalSurfaces(paramsFor(3, 0, 0, 3))!;
+            lithium.radialSpheres.forEach((radius, i) => {
+                expect(radius * 3).toBeCloseTo(hydrogen.radialSpheres[i], 9);
+                expect(Math.abs(radialWaveFunction(3, 0, radius, 3))).toBeLessThan(1e-9);
+            });
+        });
+
+        it('should return null for a superposition', () => {
+            expect(findNodalSurfaces({
+                ...paramsFor(2, 1, 0),
+                components: [{ n: 2, l: 0, ml: 0, coefficient: 1 }, { n: 2, l: 1, ml: 0, coefficient: 1 }]
+            })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,107 @@
+// tests/orbital_bounds.test.ts
+import {
+    estimateRMax,
+    estimateSuperpositionRMax,
+    roundUpToSignificantFigures,
+    getAutoRMax
+} from '../src/orbital_bounds';
+import { __clearAllCaches__ } from '../src/quantum_functions';
+
+describe('Orbital Bounds Module', () => {
+    const REL_TOLERANCE = 1e-3;
+
+    // Solves P(R) = fraction by bisection for a closed-form cumulative distribution
+    const solveRadius = (cumulative: (r: number) => number, fraction: number) => {
+        let lo = 0;
+        let hi = 1000;
+        for (let i = 0; i < 100; i++) {
+            const mid = (lo + hi) / 2;
+            if (cumulative(mid) < fraction) lo = mid; else hi = mid;
+        }
+        return (lo + hi) / 2;
+    };
+
+    // ∫₀ᴿ r²R² dr for 1s and 2p, from the incomplete gamma function with x = 2ZR and x = ZR
+    const cumulative1s = (Z: number) => (R: number) => {
+        const x = 2 * Z * R;
+        return 1 - Math.exp(-x) * (1 + x + x * x / 2);
+    };
+    const cumulative2p = (Z: number) => (R: number) => {
+        const x = Z * R;
+        return 1 - Math.exp(-x) * (1 + x + x ** 2 / 2 + x ** 3 / 6 + x ** 4 / 24);
+    };
+
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('estimateRMax function', () => {
+        it.each([1, 2, 3, 6, 26])('should match the closed-form 1s radius for Z = %i', (Z) => {
+            const expected = solveRadius(cumulative1s(Z), 0.999);
+            expect(Math.abs(estimateRMax(1, 0, Z) - expected) / expected).toBeLessThan(REL_TOLERANCE);
+        });
+
+        it.each([1, 2, 5])('should match the closed-form 2p radius for Z = %i', (Z) => {
+            const expected = solveRadius(cumulative2p(Z), 0.999);
+            expect(Math.abs(estimateRMax(2, 1, Z) - expected) / expected).toBeLessThan(REL_TOLERANCE);
+        });
+
+        it('should scale as 1/Z', () => {
+            const hydrogen = estimateRMax(3, 2, 1);
+            [2, 4, 10].forEach(Z => {
+                expect(estimateRMax(3, 2, Z) * Z).toBeCloseTo(hydrogen, 6);
+            });
+        });
+
+        it('should honour the requested fraction', () => {
+            expect(estimateRMax(1, 0, 1, 0.5)).toBeCloseTo(solveRadius(cumulative1s(1), 0.5), 2);
+            expect(estimateRMax(2, 0, 1, 0.9)).toBeLessThan(estimateRMax(2, 0, 1, 0.999));
+        });
+
+        it('should grow with n, including beyond n = 9', () => {
+            const radii = [1, 3, 6, 9, 10, 12].map(n => estimateRMax(n, 0));
+            for (let i = 1; i < radii.length; i++) {
+                expect(radii[i]).toBeGreaterThan(radii[i - 1]);
+            }
+            expect(Number.isFinite(radii[radii.length - 1])).toBe(true);
+        });
+
+        it('should reject invalid arguments', () => {
+            expect(() => estimateRMax(1, 0, 1, 1)).toThrow();
+            expect(() => estimateRMax(1, 0, 0)).toThrow();
+            expect(() => estimateRMax(1, 1)).toThrow();
+        });
+    });
+
+    describe('estimateSuperpositionRMax function', () => {
+        it('should take the largest component', () => {
+            const components = [
+                { n: 1, l: 0, ml: 0, coefficient: Math.SQRT1_2 },
+                { n: 3, l: 1, ml: 0, coefficient: Math.SQRT1_2 },
+            ];
+            expect(estimateSuperpositionRMax(components, 2)).toBe(estimateRMax(3, 1, 2));
+            expect(() => estimateSuperpositionRMax([])).toThrow();
+        });
+    });
+
+    describe('roundUpToSignificantFigures function', () => {
+        it('should round up to two significant figures', () => {
+            expect(roundUpToSignificantFigures(5.61)).toBe(5.7);
+            expect(roundUpToSignificantFigures(355.05)).toBe(360);
+            expect(roundUpToSignificantFigures(0.1234)).toBe(0.13);
+            expect(roundUpToSignificantFigures(20)).toBe(20);
+        });
+    });
+
+    describe('getAutoRMax function', () => {
+        it('should use the components of a superposition when given', () => {
+            const single = getAutoRMax({ n: 1, l: 0, ml: 0, Z: 1 });
+            const mixed = getAutoRMax({
+                n: 1, l: 0, ml: 0, Z: 1,
+                components: [{ n: 1, l: 0, ml: 0, coefficient: 1 }, { n: 4, l: 3, ml: 0, coefficient: 1 }]
+            });
+            expect(single).toBe(5.7);
+            expect(mixed).toBeGreaterThan(single);
+        });
+    });
+});
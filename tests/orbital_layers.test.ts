@@ -0,0 +1,72 @@
+// tests/orbital_layers.test.ts
+import {
+    colorToHex,
+    formatLayerName,
+    getLayerGeometryKey,
+    getLayerParams,
+    getLayerStyle,
+    getSubshellOrbitals,
+    hexToColor,
+    layerColorPairs,
+} from '../src/orbital_layers';
+import { getAutoRMax } from '../src/orbital_bounds';
+
+describe('Orbital Layers Module', () => {
+    const layer = { n: 3, l: 2, ml: -2, Z: 1, isoLevel: 0.0005 };
+
+    describe('getSubshellOrbitals function', () => {
+        it('should list every m_l of the subshell at one iso-level', () => {
+            const orbitals = getSubshellOrbitals(2, 1, 1, 0.002);
+            expect(orbitals.map(o => o.ml)).toEqual([-1, 0, 1]);
+            expect(orbitals.every(o => o.n === 2 && o.l === 1 && o.isoLevel === 0.002)).toBe(true);
+            expect(getSubshellOrbitals(3, 2, 1, 0.001)).toHaveLength(5);
+        });
+
+        it('should reject subshells that do not exist', () => {
+            expect(() => getSubshellOrbitals(2, 2, 1, 0.001)).toThrow(/l must be/);
+        });
+    });
+
+    describe('getLayerStyle function', () => {
+        it('should hand out the colour pairs in turn', () => {
+            expect(getLayerStyle(0)).toMatchObject({ positiveColor: [1, 0, 0], negativeColor: [0, 0, 1], visible: true });
+            expect(getLayerStyle(1).positiveColor).not.toEqual(getLayerStyle(0).positiveColor);
+            expect(getLayerStyle(layerColorPairs.length)).toEqual(getLayerStyle(0));
+        });
+    });
+
+    describe('getLayerParams function', () => {
+        it('should draw the layer in the real basis in a box fitted to it', () => {
+            expect(getLayerParams(layer, 64)).toEqual({
+                n: 3, l: 2, ml: -2, Z: 1, resolution: 64, rMax: getAutoRMax(layer), isoLevel: 0.0005, basis: 'real',
+            });
+        });
+    });
+
+    describe('getLayerGeometryKey function', () => {
+        it('should only change with the geometry', () => {
+            const key = getLayerGeometryKey(layer, 64);
+            expect(getLayerGeometryKey({ ...layer, ml: 2 }, 64)).not.toBe(key);
+            expect(getLayerGeometryKey(layer, 32)).not.toBe(key);
+            expect(getLayerGeometryKey({ ...layer, ...getLayerStyle(3) } as typeof layer, 64)).toBe(key);
+        });
+    });
+
+    describe('formatLayerName function', () => {
+        it('should name the subshell and m_l, and Z when it is not hydrogen', () => {
+            expect(formatLayerName(layer)).toBe('3d m=-2');
+            expect(formatLayerName({ ...layer, Z: 2 })).toBe('3d m=-2, Z=2');
+        });
+    });
+
+    describe('colour conversion', () => {
+        it('should round-trip #rrggbb colours', () => {
+            expect(colorToHex([1, 0.5, 0])).toBe('#ff8000');
+            expect(colorToHex(hexToColor('#12abEF'))).toBe('#12abef');
+        });
+
+        it('should reject other colour forms', () => {
+            expect(() => hexToColor('red')).toThrow(/not a #rrggbb colour/);
+        });
+    });
+});
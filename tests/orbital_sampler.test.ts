@@ -0,0 +1,115 @@
+// tests/orbital_sampler.test.ts
+import {
+    createSeededRandom,
+    gaussianRandom,
+    metropolisSample,
+    sampleOrbitalPoints
+} from '../src/orbital_sampler';
+import { __clearAllCaches__, getOrbitalPotentialFunction } from '../src/quantum_functions';
+import { OrbitalParams, PointCloudData } from '../src/types/orbital';
+
+describe('Orbital Sampler Module', () => {
+    const baseParams: OrbitalParams = { n: 1, l: 0, ml: 0, Z: 1, resolution: 32, rMax: 12, isoLevel: 0.01 };
+
+    // Analytic hydrogenic expectation value ⟨r⟩ = (3n² - l(l+1)) / (2Z)
+    const analyticMeanRadius = (n: number, l: number, Z: number) => (3 * n * n - l * (l + 1)) / (2 * Z);
+
+    const meanOf = (cloud: PointCloudData, f: (p: number[]) => number) =>
+        cloud.positions.reduce((sum, p) => sum + f(p), 0) / cloud.positions.length;
+    const radius = ([x, y, z]: number[]) => Math.sqrt(x * x + y * y + z * z);
+
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('createSeededRandom function', () => {
+        it('should repeat the same sequence for the same seed', () => {
+            const a = createSeededRandom(42);
+            const b = createSeededRandom(42);
+            for (let i = 0; i < 10; i++) {
+                expect(a()).toBe(b());
+            }
+        });
+
+        it('should give different sequences for different seeds', () => {
+            expect(createSeededRandom(1)()).not.toBe(createSeededRandom(2)());
+        });
+
+        it('should stay in [0, 1) with a mean near 1/2', () => {
+            const random = createSeededRandom(7);
+            const values = Array.from({ length: 10000 }, () => random());
+            expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+            expect(Math.max(...values)).toBeLessThan(1);
+            expect(values.reduce((a, b) => a + b, 0) / values.length).toBeCloseTo(0.5, 1);
+        });
+    });
+
+    describe('gaussianRandom function', () => {
+        it('should have zero mean and unit variance', () => {
+            const random = createSeededRandom(3);
+            const samples = Array.from({ length: 20000 }, () => gaussianRandom(random));
+            const mean = samples.reduce((a, b) => a + b, 0) / samples.length;
+            const variance = samples.reduce((a, b) => a + (b - mean) ** 2, 0) / samples.length;
+            expect(Math.abs(mean)).toBeLessThan(0.03);
+            expect(variance).toBeCloseTo(1, 1);
+        });
+    });
+
+    describe('metropolisSample function', () => {
+        it('should return the requested number of points inside the box', () => {
+            const cloud = metropolisSample(getOrbitalPotentialFunction(1, 0, 0, 1, 0), { count: 500, seed: 1, rMax: 5 });
+            expect(cloud.positions).toHaveLength(500);
+            expect(cloud.psiSigns).toHaveLength(500);
+            expect(cloud.psiPhases).toHaveLength(500);
+            cloud.positions.forEach(p => p.forEach(c => expect(Math.abs(c)).toBeLessThanOrEqual(5)));
+        });
+
+        it('should reject invalid options', () => {
+            const fn = getOrbitalPotentialFunction(1, 0, 0, 1, 0);
+            expect(() => metropolisSample(fn, { count: -1, seed: 1, rMax: 5 })).toThrow();
+            expect(() => metropolisSample(fn, { count: 10, seed: 1, rMax: 0 })).toThrow();
+        });
+    });
+
+    describe('sampleOrbitalPoints function', () => {
+        it('should be reproducible for a given seed', () => {
+            const params = { ...baseParams, pointCount: 200, sampleSeed: 99 };
+            expect(sampleOrbitalPoints(params)).toEqual(sampleOrbitalPoints(params));
+            expect(sampleOrbitalPoints({ ...params, sampleSeed: 100 }).positions)
+                .not.toEqual(sampleOrbitalPoints(params).positions);
+        });
+
+        it('should reproduce the analytic <r> of the 1s orbital', () => {
+            const cloud = sampleOrbitalPoints({ ...baseParams, pointCount: 20000, sampleSeed: 11 });
+            expect(meanOf(cloud, radius)).toBeCloseTo(analyticMeanRadius(1, 0, 1), 1);
+        });
+
+        it('should scale <r> as 1/Z', () => {
+            const cloud = sampleOrbitalPoints({ ...baseParams, Z: 2, rMax: 6, pointCount: 20000, sampleSeed: 12 });
+            expect(meanOf(cloud, radius)).toBeCloseTo(analyticMeanRadius(1, 0, 2), 1);
+        });
+
+        it('should reproduce the analytic <r> and <r²> of the 2p_z orbital', () => {
+            const cloud = sampleOrbitalPoints({ ...baseParams, n: 2, l: 1, ml: 0, rMax: 25, pointCount: 20000, sampleSeed: 13 });
+            const meanRadius = meanOf(cloud, radius);
+            const meanRadiusSquared = meanOf(cloud, p => radius(p) ** 2);
+            // ⟨r²⟩ = n²(5n² + 1 - 3l(l+1)) / (2Z²) = 30 for 2p
+            expect(Math.abs(meanRadius - analyticMeanRadius(2, 1, 1)) / analyticMeanRadius(2, 1, 1)).toBeLessThan(0.05);
+            expect(Math.abs(meanRadiusSquared - 30) / 30).toBeLessThan(0.08);
+        });
+
+        it('should populate both lobes of 2p_z with matching signs', () => {
+            const cloud = sampleOrbitalPoints({ ...baseParams, n: 2, l: 1, ml: 0, rMax: 25, pointCount: 10000, sampleSeed: 14 });
+            const positiveFraction = cloud.psiSigns.filter(sign => sign > 0).length / cloud.psiSigns.length;
+            expect(positiveFraction).toBeGreaterThan(0.4);
+            expect(positiveFraction).toBeLessThan(0.6);
+            cloud.positions.forEach((p, i) => {
+                if (Math.abs(p[2]) > 1e-6) {
+                    expect(cloud.psiSigns[i]).toBe(Math.sign(p[2]));
+                }
+            });
+            // ⟨z²⟩ = ⟨r²⟩ · ⟨cos²θ⟩ = 30 · 3/5 for 2p_z
+            expect(meanOf(cloud, p => p[2] ** 2) / meanOf(cloud, p => radius(p) ** 2)).toBeCloseTo(0.6, 1);
+        });
+    });
+});
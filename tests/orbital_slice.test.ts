@@ -0,0 +1,179 @@
+// tests/orbital_slice.test.ts
+import {
+    slicePlanePresets,
+    getPlaneBasis,
+    normalizeVector,
+    sampleSlice,
+    sampleOrbitalSlice,
+    divergingColor,
+    sliceToImageData,
+    marchingSquares,
+    parseContourLevels,
+    getContourLevels
+} from '../src/orbital_slice';
+import { __clearAllCaches__, getOrbitalPotentialFunction } from '../src/quantum_functions';
+import { OrbitalDataPoint, OrbitalParams } from '../src/types/orbital';
+
+describe('Orbital Slice Module', () => {
+    const EPSILON = 1e-9;
+    const baseParams: OrbitalParams = { n: 2, l: 1, ml: 0, Z: 1, resolution: 32, rMax: 15, isoLevel: 0.001 };
+
+    // A linear "orbital" ψ = x, handy for checking where samples land
+    const linearFunction = (x: number, y: number, z: number): OrbitalDataPoint => ({
+        waveFunctionValue: x,
+        probabilityDensity: x * x,
+        realPart: x,
+        imaginaryPart: 0,
+        phase: x >= 0 ? 0 : Math.PI,
+    });
+    const coordinateFunction = (axis: 0 | 1 | 2) => (x: number, y: number, z: number) => linearFunction([x, y, z][axis], 0, 0);
+
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('getPlaneBasis function', () => {
+        it('should give the named axes for the presets', () => {
+            expect(getPlaneBasis(slicePlanePresets.xy)).toEqual({ u: [1, 0, 0], v: [0, 1, 0] });
+            const xz = getPlaneBasis(slicePlanePresets.xz);
+            expect(xz.u).toEqual([1, 0, 0]);
+            expect(xz.v.map(c => c + 0)).toEqual([0, 0, 1]);
+            const yz = getPlaneBasis(slicePlanePresets.yz);
+            expect(yz.u).toEqual([0, 1, 0]);
+            expect(yz.v).toEqual([0, 0, 1]);
+        });
+
+        it('should be orthonormal and right-handed for an arbitrary normal', () => {
+            const n = normalizeVector([1, 2, 3]);
+            const { u, v } = getPlaneBasis(n);
+            const dot = (a: number[], b: number[]) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+            expect(dot(u, u)).toBeCloseTo(1, 12);
+            expect(dot(v, v)).toBeCloseTo(1, 12);
+            expect(dot(u, v)).toBeCloseTo(0, 12);
+            expect(dot(u, n)).toBeCloseTo(0, 12);
+            // u × v = n
+            expect(u[1] * v[2] - u[2] * v[1]).toBeCloseTo(n[0], 12);
+            expect(u[2] * v[0] - u[0] * v[2]).toBeCloseTo(n[1], 12);
+            expect(u[0] * v[1] - u[1] * v[0]).toBeCloseTo(n[2], 12);
+        });
+
+        it('should reject a zero normal', () => {
+            expect(() => getPlaneBasis([0, 0, 0])).toThrow();
+        });
+    });
+
+    describe('sampleSlice function', () => {
+        it('should place samples on the plane, row by row', () => {
+            const slice = sampleSlice(coordinateFunction(0), { normal: [0, 0, 1], offset: 2 }, 4, 5, 'psi');
+            expect(slice.origin).toEqual([0, 0, 2]);
+            expect(Array.from(slice.values.slice(0, 5))).toEqual([-4, -2, 0, 2, 4]); // i runs along u = x
+            const sliceY = sampleSlice(coordinateFunction(1), { normal: [0, 0, 1], offset: 2 }, 4, 5, 'psi');
+            expect(sliceY.values[5 * 4]).toBe(4); // j runs along v = y
+            const sliceZ = sampleSlice(coordinateFunction(2), { normal: [0, 0, 1], offset: 2 }, 4, 5, 'psi');
+            expect(Array.from(sliceZ.values).every(value => value === 2)).toBe(true); // The whole slice sits at z = offset
+        });
+
+        it('should sample ψ or |ψ|² and track the range', () => {
+            const psi = sampleSlice(linearFunction, { normal: [0, 0, 1], offset: 0 }, 3, 7, 'psi');
+            expect(psi.minValue).toBe(-3);
+            expect(psi.maxValue).toBe(3);
+            const density = sampleSlice(linearFunction, { normal: [0, 0, 1], offset: 0 }, 3, 7, 'density');
+            expect(density.minValue).toBe(0);
+            expect(density.maxValue).toBe(9);
+        });
+
+        it('should reject invalid sizes', () => {
+            expect(() => sampleSlice(linearFunction, { normal: [0, 0, 1], offset: 0 }, 3, 1, 'psi')).toThrow();
+            expect(() => sampleSlice(linearFunction, { normal: [0, 0, 1], offset: 0 }, 0, 5, 'psi')).toThrow();
+        });
+    });
+
+    describe('sampleOrbitalSlice function', () => {
+        it('should match the orbital on the plane', () => {
+            const plane = { normal: slicePlanePresets.xz, offset: 0.5 };
+            const slice = sampleOrbitalSlice(baseParams, plane, 10, 11, 'psi');
+            const fn = getOrbitalPotentialFunction(2, 1, 0, 1, 0);
+            // Sample (i, j) = (3, 8) sits at x = -4, z = 6 on the plane y = -0.5
+            expect(slice.values[8 * 11 + 3]).toBeCloseTo(fn(-4, -0.5, 6).waveFunctionValue, 6);
+        });
+
+        it('should show the 2p_z nodal plane as a sign change across z = 0', () => {
+            const slice = sampleOrbitalSlice(baseParams, { normal: slicePlanePresets.xz, offset: 0 }, 10, 21, 'psi');
+            for (let i = 0; i < 21; i++) {
+                expect(slice.values[5 * 21 + i]).toBeLessThanOrEqual(0); // z < 0
+                expect(slice.values[15 * 21 + i]).toBeGreaterThanOrEqual(0); // z > 0
+                expect(Math.abs(slice.values[10 * 21 + i])).toBeLessThan(EPSILON); // z = 0
+            }
+        });
+    });
+
+    describe('divergingColor and sliceToImageData functions', () => {
+        it('should map negative to blue, zero to white and positive to red', () => {
+            expect(divergingColor(-1, 1)).toEqual([0, 0, 255]);
+            expect(divergingColor(0, 1)).toEqual([255, 255, 255]);
+            expect(divergingColor(1, 1)).toEqual([255, 0, 0]);
+            expect(divergingColor(0.5, 1)).toEqual([255, 128, 128]);
+            expect(divergingColor(5, 0)).toEqual([255, 255, 255]);
+        });
+
+        it('should put the first row at the bottom of the image', () => {
+            const slice = sampleSlice(coordinateFunction(1), { normal: [0, 0, 1], offset: 0 }, 1, 2, 'psi');
+            const pixels = sliceToImageData(slice);
+            expect(Array.from(pixels.slice(0, 4))).toEqual([255, 0, 0, 255]); // Top-left pixel: y = +1
+            expect(Array.from(pixels.slice(8, 12))).toEqual([0, 0, 255, 255]); // Bottom-left pixel: y = -1
+        });
+    });
+
+    describe('marchingSquares function', () => {
+        it('should trace a straight contour through a linear field', () => {
+            const resolution = 5;
+            const values = Array.from({ length: resolution * resolution }, (_, k) => k % resolution); // value = i
+            const segments = marchingSquares(values, resolution, 1.5);
+            expect(segments).toHaveLength(resolution - 1);
+            segments.forEach(segment => segment.forEach(([x]) => expect(x).toBeCloseTo(1.5, 12)));
+        });
+
+        it('should close a contour around a peak', () => {
+            const resolution = 21;
+            const values = Array.from({ length: resolution * resolution }, (_, k) => {
+                const i = (k % resolution) - 10;
+                const j = Math.floor(k / resolution) - 10;
+                return Math.exp(-(i * i + j * j) / 20);
+            });
+            const segments = marchingSquares(values, resolution, 0.5);
+            // Every endpoint is shared by exactly two segments on a closed loop
+            const counts = new Map<string, number>();
+            segments.flat().forEach(([x, y]) => {
+                const key = `${x.toFixed(9)},${y.toFixed(9)}`;
+                counts.set(key, (counts.get(key) ?? 0) + 1);
+            });
+            expect(Array.from(counts.values()).every(count => count === 2)).toBe(true);
+            // Radius of the level set: e^{-r²/20} = 0.5
+            const radius = Math.sqrt(20 * Math.log(2));
+            segments.flat().forEach(([x, y]) => {
+                expect(Math.abs(Math.hypot(x - 10, y - 10) - radius)).toBeLessThan(0.1);
+            });
+        });
+
+        it('should split a saddle cell into two segments', () => {
+            expect(marchingSquares([1, 0, 0, 1], 2, 0.5)).toHaveLength(2);
+            expect(marchingSquares([1, 1, 1, 1], 2, 0.5)).toHaveLength(0);
+        });
+    });
+
+    describe('contour level helpers', () => {
+        it('should parse comma-separated fractions', () => {
+            expect(parseContourLevels('0.1, 0.5,0.9')).toEqual([0.1, 0.5, 0.9]);
+            expect(parseContourLevels('')).toBeNull();
+            expect(parseContourLevels('0.5, abc')).toBeNull();
+            expect(parseContourLevels('1.5')).toBeNull();
+        });
+
+        it('should mirror signed levels and add the nodal line', () => {
+            const psi = sampleSlice(linearFunction, { normal: [0, 0, 1], offset: 0 }, 2, 5, 'psi');
+            expect(getContourLevels(psi, [0.5], 'psi')).toEqual([-1, 0, 1]);
+            const density = sampleSlice(linearFunction, { normal: [0, 0, 1], offset: 0 }, 2, 5, 'density');
+            expect(getContourLevels(density, [0.5], 'density')).toEqual([2]);
+        });
+    });
+});
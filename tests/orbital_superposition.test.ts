@@ -0,0 +1,158 @@
+// tests/orbital_superposition.test.ts
+import {
+    hybridOrbitalPresets,
+    getHybridOrbitalPreset,
+    getOrbitalComponents,
+    validateComponent,
+    superpositionNorm,
+    isNormalized,
+    normalizeComponents,
+    getBeatPeriod,
+    getAnimationFrameTimes
+} from '../src/orbital_superposition';
+import { getSuperpositionPotentialFunction } from '../src/quantum_functions';
+import { OrbitalParams } from '../src/types/orbital';
+
+describe('Orbital Superposition Module', () => {
+    describe('hybridOrbitalPresets', () => {
+        it('should provide sp, sp2, sp3, sp3d and sp3d2', () => {
+            expect(hybridOrbitalPresets.map(p => p.id)).toEqual(['sp', 'sp2', 'sp3', 'sp3d', 'sp3d2']);
+        });
+
+        it('should point each preset along its stated direction at valence radii', () => {
+            const directions: Record<string, [number, number, number]> = {
+                sp: [0, 0, 1],
+                sp2: [1, 0, 0],
+                sp3: [1 / Math.sqrt(3), 1 / Math.sqrt(3), 1 / Math.sqrt(3)],
+                sp3d: [0, 0, 1],
+                sp3d2: [0, 0, 1],
+            };
+            hybridOrbitalPresets.forEach(preset => {
+                const psi = getSuperpositionPotentialFunction(preset.components, 1, 0);
+                const r = preset.components[0].n === 2 ? 4 : 10;
+                const [x, y, z] = directions[preset.id].map(d => d * r);
+                expect(psi(x, y, z).probabilityDensity).toBeGreaterThan(psi(-x, -y, -z).probabilityDensity);
+            });
+        });
+
+        it('should only contain valid, normalised superpositions', () => {
+            hybridOrbitalPresets.forEach(preset => {
+                preset.components.forEach(c => expect(validateComponent(c)).toBeNull());
+                expect(superpositionNorm(preset.components)).toBeCloseTo(1, 9);
+            });
+        });
+
+        it('should return a copy from getHybridOrbitalPreset', () => {
+            const preset = getHybridOrbitalPreset('sp3')!;
+            preset.components[0].coefficient = 42;
+            expect(getHybridOrbitalPreset('sp3')!.components[0].coefficient).toBe(-0.5);
+            expect(getHybridOrbitalPreset('unknown')).toBeNull();
+        });
+    });
+
+    describe('getOrbitalComponents function', () => {
+        const params: OrbitalParams = { n: 3, l: 1, ml: -1, Z: 1, resolution: 32, rMax: 20, isoLevel: 1e-5 };
+
+        it('should fall back to the single (n, l, ml) state', () => {
+            expect(getOrbitalComponents(params)).toEqual([{ n: 3, l: 1, ml: -1, coefficient: 1 }]);
+            expect(getOrbitalComponents({ ...params, components: [] })).toEqual([{ n: 3, l: 1, ml: -1, coefficient: 1 }]);
+        });
+
+        it('should return the explicit components when given', () => {
+            const components = getHybridOrbitalPreset('sp')!.components;
+            expect(getOrbitalComponents({ ...params, components })).toBe(components);
+        });
+    });
+
+    describe('validateComponent function', () => {
+        it('should accept a valid state', () => {
+            expect(validateComponent({ n: 3, l: 2, ml: -2, coefficient: 0.3 })).toBeNull();
+        });
+
+        it('should reject states that break the quantum-number rules', () => {
+            expect(validateComponent({ n: 0, l: 0, ml: 0, coefficient: 1 })).toBe("n must be a positive integer.");
+            expect(validateComponent({ n: 2, l: 2, ml: 0, coefficient: 1 })).toBe("l must be an integer between 0 and n-1.");
+            expect(validateComponent({ n: 2, l: 1, ml: 2, coefficient: 1 })).toBe("m_l must be an integer between -l and l.");
+            expect(validateComponent({ n: 2, l: 1, ml: 0, coefficient: NaN })).toBe("Coefficient must be a number.");
+        });
+    });
+
+    describe('superpositionNorm function', () => {
+        it('should sum the squared coefficients of distinct states', () => {
+            expect(superpositionNorm([
+                { n: 1, l: 0, ml: 0, coefficient: 0.6 },
+                { n: 2, l: 1, ml: 0, coefficient: -0.8 },
+            ])).toBeCloseTo(1, 9);
+        });
+
+        it('should merge repeated states before squaring', () => {
+            expect(superpositionNorm([
+                { n: 1, l: 0, ml: 0, coefficient: 0.5 },
+                { n: 1, l: 0, ml: 0, coefficient: 0.5 },
+            ])).toBeCloseTo(1, 9);
+        });
+    });
+
+    describe('normalizeComponents function', () => {
+        it('should rescale the coefficients to unit norm', () => {
+            const normalized = normalizeComponents([
+                { n: 2, l: 0, ml: 0, coefficient: 1 },
+                { n: 2, l: 1, ml: 1, coefficient: 1 },
+            ]);
+            expect(isNormalized(normalized)).toBe(true);
+            expect(normalized[0].coefficient).toBeCloseTo(Math.SQRT1_2, 9);
+        });
+
+        it('should throw an error when every coefficient is zero', () => {
+            expect(() => normalizeComponents([{ n: 1, l: 0, ml: 0, coefficient: 0 }])).toThrow(
+                "Cannot normalise a superposition whose coefficients are all zero."
+            );
+        });
+    });
+
+    describe('getBeatPeriod function', () => {
+        it('should return 2π / ΔE for two levels', () => {
+            const period = getBeatPeriod([
+                { n: 1, l: 0, ml: 0, coefficient: Math.SQRT1_2 },
+                { n: 2, l: 1, ml: 0, coefficient: Math.SQRT1_2 },
+            ]);
+            expect(period).toBeCloseTo((2 * Math.PI) / 0.375, 9);
+        });
+
+        it('should shrink by Z^2 for heavier nuclei', () => {
+            const components = [
+                { n: 1, l: 0, ml: 0, coefficient: Math.SQRT1_2 },
+                { n: 2, l: 1, ml: 0, coefficient: Math.SQRT1_2 },
+            ];
+            expect(getBeatPeriod(components, 3)).toBeCloseTo(getBeatPeriod(components, 1)! / 9, 9);
+        });
+
+        it('should use the slowest beat for three or more levels', () => {
+            const period = getBeatPeriod([
+                { n: 1, l: 0, ml: 0, coefficient: 1 },
+                { n: 2, l: 0, ml: 0, coefficient: 1 },
+                { n: 3, l: 0, ml: 0, coefficient: 1 },
+            ]);
+            expect(period).toBeCloseTo((2 * Math.PI) / (1 / 8 - 1 / 18), 9);
+        });
+
+        it('should return null for stationary superpositions', () => {
+            expect(getBeatPeriod(getHybridOrbitalPreset('sp3')!.components)).toBeNull();
+            expect(getBeatPeriod([
+                { n: 1, l: 0, ml: 0, coefficient: 1 },
+                { n: 2, l: 1, ml: 0, coefficient: 0 },
+            ])).toBeNull();
+        });
+    });
+
+    describe('getAnimationFrameTimes function', () => {
+        it('should split one period into evenly spaced frames', () => {
+            expect(getAnimationFrameTimes(8, 4)).toEqual([0, 2, 4, 6]);
+        });
+
+        it('should throw an error for invalid arguments', () => {
+            expect(() => getAnimationFrameTimes(0, 4)).toThrow("Animation needs a positive period and a positive integer frame count.");
+            expect(() => getAnimationFrameTimes(8, 0)).toThrow("Animation needs a positive period and a positive integer frame count.");
+        });
+    });
+});
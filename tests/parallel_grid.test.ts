@@ -0,0 +1,150 @@
+// tests/parallel_grid.test.ts
+import {
+    canShareGridMemory,
+    GridSlab,
+    sampleGridInSlabs,
+    sampleOrbitalGridWith,
+    sampleOrbitalSlab,
+    SlabArrays,
+    SlabJobRunner,
+    SlabResult,
+    splitGridIntoSlabs
+} from '../src/parallel_grid';
+import { ComputeBackend, jsComputeBackend } from '../src/compute_backend';
+import { generateOrbitalData, getSuperpositionPotentialFunction, sampleOrbitalGrid } from '../src/quantum_functions';
+import { OrbitalParams } from '../src/types/orbital';
+import { WorkerJob } from '../src/worker_pool';
+
+describe('Parallel Grid Module', () => {
+    const params: OrbitalParams = { n: 3, l: 2, ml: 1, Z: 1, resolution: 13, rMax: 20, isoLevel: 0.001 };
+
+    // Samples each slab in this thread, as a worker would, resolving once every slab has started
+    const createRunner = (orbitalParams: OrbitalParams, cancel = jest.fn()): SlabJobRunner => {
+        let nextId = 1;
+        return (slab: GridSlab, target: SlabArrays | null, onProgress) => {
+            const result = Promise.resolve().then(() => {
+                const sampled = sampleOrbitalSlab(orbitalParams, slab, target);
+                onProgress(1);
+                return sampled;
+            });
+            return { id: nextId++, result, cancel };
+        };
+    };
+
+    describe('splitGridIntoSlabs function', () => {
+        it('should cover every x index once with slabs of nearly equal size', () => {
+            const slabs = splitGridIntoSlabs(13, 4);
+            expect(slabs).toEqual([{ xStart: 0, xEnd: 3 }, { xStart: 3, xEnd: 6 }, { xStart: 6, xEnd: 9 }, { xStart: 9, xEnd: 13 }]);
+        });
+
+        it('should never make empty slabs', () => {
+            expect(splitGridIntoSlabs(3, 8)).toHaveLength(3);
+            expect(splitGridIntoSlabs(10, 0)).toEqual([{ xStart: 0, xEnd: 10 }]);
+        });
+    });
+
+    describe('sampleOrbitalSlab function', () => {
+        it('should write the slab into the target it is given', () => {
+            const length = 2 * params.resolution ** 2;
+            const target = { grid: new Float32Array(length), psiGrid: new Float32Array(length) };
+            const result = sampleOrbitalSlab(params, { xStart: 4, xEnd: 6 }, target);
+            expect(result.arrays).toBeNull();
+            expect(Math.fround(result.maxDensity)).toBe(Math.max(...target.grid));
+            expect(() => sampleOrbitalSlab(params, { xStart: 4, xEnd: 7 }, target)).toThrow();
+        });
+    });
+
+    describe('sampleOrbitalGridWith function', () => {
+        it('should sample a single orbital with the backend it is given', () => {
+            const backend: ComputeBackend = { ...jsComputeBackend, sampleOrbitalSlab: jest.fn(jsComputeBackend.sampleOrbitalSlab) };
+            const onSlab = jest.fn();
+            const data = sampleOrbitalGridWith(params, backend, onSlab);
+            expect(data).toEqual(generateOrbitalData(params.n, params.l, params.ml, params.Z, params.resolution, params.rMax));
+            expect(backend.sampleOrbitalSlab).toHaveBeenCalledTimes(1);
+            expect(onSlab).toHaveBeenCalledTimes(params.resolution);
+        });
+
+        it('should sample superpositions and later times without the backend', () => {
+            const backend: ComputeBackend = { ...jsComputeBackend, sampleOrbitalSlab: jest.fn() };
+            sampleOrbitalGridWith({ ...params, time: 1 }, backend);
+            expect(backend.sampleOrbitalSlab).not.toHaveBeenCalled();
+        });
+
+        it('should reject invalid grids', () => {
+            expect(() => sampleOrbitalGridWith({ ...params, resolution: 0 })).toThrow();
+            expect(() => sampleOrbitalGridWith({ ...params, rMax: -1 })).toThrow();
+        });
+    });
+
+    describe('sampleGridInSlabs function', () => {
+        const expected = generateOrbitalData(params.n, params.l, params.ml, params.Z, params.resolution, params.rMax);
+
+        it.each([
+            ['copied', false],
+            ['shared', true],
+        ])('should assemble exactly the serial grid from %s slabs', async (_, shared) => {
+            for (const slabCount of [1, 3, 4, 13]) {
+                const grid = await sampleGridInSlabs(createRunner(params), params.resolution, params.rMax, { slabCount, shared }).result;
+                expect(grid.grid).toEqual(expected.grid);
+                expect(grid.psiGrid).toEqual(expected.psiGrid);
+                expect(grid).toMatchObject({ dims: expected.dims, maxDensity: expected.maxDensity, minVal: -20, maxVal: 20 });
+                expect(grid.grid.buffer instanceof SharedArrayBuffer).toBe(shared);
+            }
+        });
+
+        it('should match the serial grid of a superposition at a later time', async () => {
+            const superposition: OrbitalParams = {
+                ...params,
+                components: [{ n: 2, l: 1, ml: 0, coefficient: 0.6 }, { n: 3, l: 2, ml: 0, coefficient: 0.8 }],
+                basis: 'complex',
+                time: 12,
+            };
+            const serial = sampleOrbitalGrid(
+                getSuperpositionPotentialFunction(superposition.components!, 1, 0, 'complex', 12),
+                params.resolution,
+                params.rMax
+            );
+            const grid = await sampleGridInSlabs(createRunner(superposition), params.resolution, params.rMax, { slabCount: 3 }).result;
+            expect(grid.grid).toEqual(serial.grid);
+            expect(grid.psiGrid).toEqual(serial.psiGrid);
+        });
+
+        it('should only share memory when the page is cross-origin isolated', async () => {
+            expect(canShareGridMemory()).toBe(false); // jsdom is not isolated
+            const grid = await sampleGridInSlabs(createRunner(params), params.resolution, params.rMax, { slabCount: 2 }).result;
+            expect(grid.grid.buffer instanceof SharedArrayBuffer).toBe(false);
+        });
+
+        it('should report progress weighted by slab size', async () => {
+            const onProgress = jest.fn();
+            await sampleGridInSlabs(createRunner(params), params.resolution, params.rMax, { slabCount: 4, onProgress }).result;
+            expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([3 / 13, 6 / 13, 9 / 13, 1]);
+        });
+
+        it('should cancel every slab together', () => {
+            const cancel = jest.fn();
+            const job = sampleGridInSlabs(createRunner(params, cancel), params.resolution, params.rMax, { slabCount: 4 });
+            job.cancel();
+            expect(cancel).toHaveBeenCalledTimes(4);
+            return job.result; // Slabs that ignore cancelling still finish
+        });
+
+        it('should fail when a slab fails, cancelling the others', async () => {
+            const cancel = jest.fn();
+            const runSlab: SlabJobRunner = slab => ({
+                id: slab.xStart,
+                result: slab.xStart === 0
+                    ? Promise.reject(new Error('Worker failed: out of memory'))
+                    : new Promise<SlabResult>(() => undefined),
+                cancel,
+            } as WorkerJob<SlabResult>);
+            await expect(sampleGridInSlabs(runSlab, 8, 10, { slabCount: 2 }).result).rejects.toThrow('out of memory');
+            expect(cancel).toHaveBeenCalledTimes(2);
+        });
+
+        it('should reject invalid grids', () => {
+            expect(() => sampleGridInSlabs(createRunner(params), 0, 10, { slabCount: 2 })).toThrow();
+            expect(() => sampleGridInSlabs(createRunner(params), 8, -1, { slabCount: 2 })).toThrow();
+        });
+    });
+});
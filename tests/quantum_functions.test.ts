@@ -1,373 +1,873 @@
-// tests/quantum_functions.test.ts
-import {
-    factorial,
-    pochhammer,
-    binomialCoefficient,
-    laguerrePolynomial,
-    radialWaveFunction,
-    associatedLegendrePolynomial,
-    realSphericalHarmonic,
-    atomicOrbitalProbabilityDensity,
-    generateOrbitalData,
-    __clearAllCaches__ // Import the cache clearing function
-} from '../src/quantum_functions'; // .js extension is no longer needed for TS imports
-
-// Jest provides global functions like `describe`, `it` (or `test`), `expect`
-
-describe('Quantum Functions Module', () => {
-    const EPSILON: number = 1e-9;
-    const Z_H: number = 1;
-
-    // Clear all caches before each test suite or test run to ensure isolation
-    beforeEach(() => {
-        __clearAllCaches__();
-    });
-
-    describe('factorial function', () => {
-        it('should return 1 for 0!', () => {
-            expect(factorial(0)).toBe(1);
-        });
-
-        it('should return 1 for 1!', () => {
-            expect(factorial(1)).toBe(1);
-        });
-
-        it('should calculate factorial for positive integers correctly', () => {
-            expect(factorial(5)).toBe(120);
-            expect(factorial(7)).toBe(5040);
-            expect(factorial(10)).toBe(3628800);
-        });
-
-        it('should throw an error for negative numbers', () => {
-            expect(() => factorial(-1)).toThrow('Factorial is not defined for negative numbers.');
-            expect(() => factorial(-5)).toThrow(Error); // Can also check for specific error message
-        });
-    });
-
-    describe('pochhammer function', () => {
-        it('should return 1 for n = 0', () => {
-            expect(pochhammer(5, 0)).toBe(1);
-            expect(pochhammer(0, 0)).toBe(1);
-        });
-
-        it('should calculate pochhammer correctly for positive x and n', () => {
-            expect(pochhammer(3, 1)).toBe(3);
-            expect(pochhammer(2, 3)).toBe(2 * 3 * 4); // 24
-            expect(pochhammer(1, 5)).toBe(1 * 2 * 3 * 4 * 5); // 120
-        });
-
-        it('should handle negative x values correctly', () => {
-            expect(pochhammer(-2, 3)).toBe(-2 * -1 * 0); // 0
-            expect(pochhammer(-5, 2)).toBe(-5 * -4); // 20
-        });
-
-        it('should return 0 when x is 0 and n > 0', () => {
-            expect(pochhammer(0, 4)).toBe(0);
-        });
-
-        it('should throw an error for negative n', () => {
-            expect(() => pochhammer(10, -1)).toThrow('Pochhammer symbol is not defined for negative n.');
-            expect(() => pochhammer(0, -5)).toThrow(Error);
-        });
-    });
-
-    describe('binomialCoefficient function', () => {
-        it('should return 1 for C(n, 0) and C(n, n)', () => {
-            expect(binomialCoefficient(5, 0)).toBe(1);
-            expect(binomialCoefficient(5, 5)).toBe(1);
-            expect(binomialCoefficient(1, 0)).toBe(1);
-            expect(binomialCoefficient(1, 1)).toBe(1);
-        });
-
-        it('should return 0 when k is out of bounds', () => {
-            expect(binomialCoefficient(5, -1)).toBe(0);
-            expect(binomialCoefficient(5, 6)).toBe(0);
-        });
-
-        it('should calculate binomial coefficients correctly for positive values', () => {
-            expect(binomialCoefficient(4, 2)).toBe(6);
-            expect(binomialCoefficient(5, 2)).toBe(10);
-            expect(binomialCoefficient(7, 3)).toBe(35);
-        });
-
-        it('should use the optimization C(n, k) = C(n, n-k)', () => {
-            expect(binomialCoefficient(7, 4)).toBe(35);
-            expect(binomialCoefficient(10, 8)).toBe(binomialCoefficient(10, 2)); // 45
-        });
-    });
-
-    describe('laguerrePolynomial function', () => {
-        it('should return 1 for L_0^(alpha)(x)', () => {
-            expect(laguerrePolynomial(0, 0, 5)).toBe(1);
-            expect(laguerrePolynomial(0, 10, 0)).toBe(1);
-            expect(laguerrePolynomial(0, -2, 100)).toBe(1);
-        });
-
-        it('should calculate L_1^(alpha)(x) correctly', () => {
-            expect(laguerrePolynomial(1, 0, 0)).toBe(1);
-            expect(laguerrePolynomial(1, 0, 1)).toBe(0);
-            expect(laguerrePolynomial(1, 0, 5)).toBe(-4);
-
-            expect(laguerrePolynomial(1, 1, 0)).toBe(2);
-            expect(laguerrePolynomial(1, 1, 2)).toBe(0);
-            expect(laguerrePolynomial(1, 1, -3)).toBe(5);
-        });
-
-        it('should calculate L_2^(alpha)(x) correctly', () => {
-            expect(laguerrePolynomial(2, 0, 0)).toBe(1);
-            expect(laguerrePolynomial(2, 0, 1)).toBeCloseTo((1 - 4 + 2) / 2, 9); // -0.5
-            expect(laguerrePolynomial(2, 0, 2)).toBeCloseTo((4 - 8 + 2) / 2, 9); // -1
-
-            expect(laguerrePolynomial(2, 1, 0)).toBe(3);
-            expect(laguerrePolynomial(2, 1, 1)).toBeCloseTo((1 - 6 + 6) / 2, 9); // 0.5
-            expect(laguerrePolynomial(2, 1, 3)).toBeCloseTo((9 - 18 + 6) / 2, 9); // -1.5
-        });
-
-        it('should calculate L_n^(alpha)(0) correctly (which is C(n + alpha, n))', () => {
-            expect(laguerrePolynomial(3, 2, 0)).toBe(binomialCoefficient(3 + 2, 3)); // 10
-            expect(laguerrePolynomial(2, 0, 0)).toBe(binomialCoefficient(2 + 0, 2)); // 1
-            expect(laguerrePolynomial(1, 1, 0)).toBe(binomialCoefficient(1 + 1, 1)); // 2
-        });
-
-        it('should throw an error for negative n', () => {
-            expect(() => laguerrePolynomial(-1, 0, 0)).toThrow('Laguerre polynomial degree (n) cannot be negative.');
-        });
-    });
-
-    describe('radialWaveFunction function', () => {
-        const Z_H: number = 1; // Hydrogen Atom
-
-        it('should calculate R_10(r) (1s orbital) correctly', () => {
-            expect(radialWaveFunction(1, 0, 0, Z_H)).toBeCloseTo(2, 9);
-            expect(radialWaveFunction(1, 0, 1, Z_H)).toBeCloseTo(2 * Math.exp(-1), 9);
-            expect(radialWaveFunction(1, 0, 2, Z_H)).toBeCloseTo(2 * Math.exp(-2), 9);
-        });
-
-        it('should calculate R_20(r) (2s orbital) correctly', () => {
-            expect(radialWaveFunction(2, 0, 0, Z_H)).toBeCloseTo(1 / (2 * Math.sqrt(2)) * 2, 9);
-            expect(radialWaveFunction(2, 0, 2, Z_H)).toBeCloseTo(0, 9); // Node
-            expect(radialWaveFunction(2, 0, 1, Z_H)).toBeCloseTo((1 / (2 * Math.sqrt(2))) * (2 - 1) * Math.exp(-0.5), 9);
-        });
-
-        it('should calculate R_21(r) (2p orbital) correctly', () => {
-            expect(radialWaveFunction(2, 1, 0, Z_H)).toBeCloseTo(0, 9);
-            expect(radialWaveFunction(2, 1, 1, Z_H)).toBeCloseTo((1 / (2 * Math.sqrt(6))) * 1 * Math.exp(-0.5), 9);
-            expect(radialWaveFunction(2, 1, 2, Z_H)).toBeCloseTo((1 / (2 * Math.sqrt(6))) * 2 * Math.exp(-1), 9);
-        });
-
-        it('should calculate R_10(r) for He+ (Z=2) correctly', () => {
-            const Z_He_plus: number = 2;
-            expect(radialWaveFunction(1, 0, 0, Z_He_plus)).toBeCloseTo(2 * Math.pow(Z_He_plus, 1.5), 9);
-            expect(radialWaveFunction(1, 0, 0.5, Z_He_plus)).toBeCloseTo(2 * Math.pow(Z_He_plus, 1.5) * Math.exp(-Z_He_plus * 0.5), 9);
-        });
-
-        it('should throw an error for invalid n', () => {
-            expect(() => radialWaveFunction(0, 0, 1)).toThrow("Principal quantum number (n) must be a positive integer.");
-            expect(() => radialWaveFunction(1.5, 0, 1)).toThrow("Principal quantum number (n) must be a positive integer.");
-        });
-
-        it('should throw an error for invalid l', () => {
-            expect(() => radialWaveFunction(1, 1, 1)).toThrow("Azimuthal quantum number (l) must be an integer between 0 and n-1.");
-            expect(() => radialWaveFunction(2, -1, 1)).toThrow("Azimuthal quantum number (l) must be an integer between 0 and n-1.");
-        });
-
-        it('should throw an error for negative r', () => {
-            expect(() => radialWaveFunction(1, 0, -1)).toThrow("Distance (r) cannot be negative.");
-        });
-
-        it('should throw an error for invalid Z', () => {
-            expect(() => radialWaveFunction(1, 0, 1, 0)).toThrow("Nuclear charge (Z) must be a positive integer.");
-        });
-    });
-
-    describe('associatedLegendrePolynomial function', () => {
-        const EPSILON: number = 1e-9;
-
-        it('should return 0 when m > l', () => {
-            expect(associatedLegendrePolynomial(0, 1, 0.5)).toBeCloseTo(0, EPSILON);
-            expect(associatedLegendrePolynomial(1, 2, 0.5)).toBeCloseTo(0, EPSILON);
-        });
-
-        it('should return 1 for P_0^0(x)', () => {
-            expect(associatedLegendrePolynomial(0, 0, 0)).toBeCloseTo(1, EPSILON);
-            expect(associatedLegendrePolynomial(0, 0, 0.5)).toBeCloseTo(1, EPSILON);
-        });
-
-        it('should calculate P_1^0(x) correctly', () => {
-            expect(associatedLegendrePolynomial(1, 0, 0.5)).toBeCloseTo(0.5, EPSILON);
-        });
-
-        it('should calculate P_1^1(x) correctly', () => {
-            expect(associatedLegendrePolynomial(1, 1, 0)).toBeCloseTo(1, EPSILON);
-            expect(associatedLegendrePolynomial(1, 1, 0.6)).toBeCloseTo(Math.sqrt(1 - 0.6 * 0.6), EPSILON);
-            expect(associatedLegendrePolynomial(1, 1, 1)).toBeCloseTo(0, EPSILON);
-        });
-
-        it('should calculate P_2^0(x) correctly', () => {
-            expect(associatedLegendrePolynomial(2, 0, 0)).toBeCloseTo(0.5 * (3 * 0 * 0 - 1), EPSILON); // -0.5
-            expect(associatedLegendrePolynomial(2, 0, 1)).toBeCloseTo(1, EPSILON);
-        });
-
-        it('should calculate P_2^1(x) correctly', () => {
-            expect(associatedLegendrePolynomial(2, 1, 0.5)).toBeCloseTo(3 * 0.5 * Math.sqrt(1 - 0.25), EPSILON);
-        });
-
-        it('should calculate P_2^2(x) correctly', () => {
-            expect(associatedLegendrePolynomial(2, 2, 0)).toBeCloseTo(3, EPSILON);
-            expect(associatedLegendrePolynomial(2, 2, 0.5)).toBeCloseTo(3 * (1 - 0.25), EPSILON);
-        });
-
-        it('should throw an error for negative l', () => {
-            expect(() => associatedLegendrePolynomial(-1, 0, 0)).toThrow('Associated Legendre Polynomial \'l\' parameter must be a non-negative integer.');
-        });
-
-        it('should throw an error for m < 0', () => {
-            expect(() => associatedLegendrePolynomial(1, -1, 0)).toThrow('Associated Legendre Polynomial \'m\' parameter must be a non-negative integer.');
-        });
-
-        // The function now clamps x, so this specific error won't be thrown.
-        // Instead, it will calculate with the clamped value.
-        // We can test the clamping behavior if desired, or remove this test.
-        // it('should throw an error for x out of range [-1, 1]', () => {
-        //     expect(() => associatedLegendrePolynomial(1, 0, 1.1)).toThrow("Associated Legendre Polynomial 'x' parameter must be between -1 and 1 (inclusive).");
-        // });
-        it('should clamp x if slightly out of range [-1, 1] and compute', () => {
-            // P_1^0(x) = x
-            expect(associatedLegendrePolynomial(1, 0, 1.0000000001)).toBeCloseTo(1, EPSILON);
-            expect(associatedLegendrePolynomial(1, 0, -1.0000000001)).toBeCloseTo(-1, EPSILON);
-        });
-    });
-
-    describe('realSphericalHarmonic function', () => {
-        const EPSILON: number = 1e-9;
-
-        it('should calculate Y_00 (s-orbital) correctly', () => {
-            const expected: number = 1 / Math.sqrt(4 * Math.PI);
-            expect(realSphericalHarmonic(0, 0, 0, 0)).toBeCloseTo(expected, EPSILON);
-            expect(realSphericalHarmonic(0, 0, Math.PI / 2, Math.PI)).toBeCloseTo(expected, EPSILON);
-        });
-
-        it('should calculate Y_10 (p_z orbital) correctly', () => {
-            const factor: number = Math.sqrt(3 / (4 * Math.PI));
-            expect(realSphericalHarmonic(1, 0, 0, 0)).toBeCloseTo(factor * Math.cos(0), EPSILON);
-            expect(realSphericalHarmonic(1, 0, Math.PI / 2, 0)).toBeCloseTo(0, EPSILON); // cos(PI/2) = 0
-        });
-
-        it('should calculate Y_11 (p_x orbital) correctly', () => {
-            const factor: number = Math.sqrt(3 / (4 * Math.PI)) * Math.sqrt(2); // Real form has sqrt(2)
-            expect(realSphericalHarmonic(1, 1, Math.PI / 2, 0)).toBeCloseTo(factor * Math.sin(Math.PI / 2) * Math.cos(0), EPSILON);
-            expect(realSphericalHarmonic(1, 1, Math.PI / 2, Math.PI / 2)).toBeCloseTo(0, EPSILON); // cos(phi) = 0
-        });
-
-        it('should calculate Y_1-1 (p_y orbital) correctly', () => {
-            const factor: number = Math.sqrt(3 / (4 * Math.PI)) * Math.sqrt(2); // Real form has sqrt(2)
-            expect(realSphericalHarmonic(1, -1, Math.PI / 2, Math.PI / 2)).toBeCloseTo(factor * Math.sin(Math.PI / 2) * Math.sin(Math.PI / 2), EPSILON);
-            expect(realSphericalHarmonic(1, -1, Math.PI / 2, 0)).toBeCloseTo(0, EPSILON); // sin(phi) = 0
-        });
-
-        it('should calculate Y_20 (d_z^2 orbital) correctly', () => {
-            const factor: number = Math.sqrt(5 / (16 * Math.PI));
-            expect(realSphericalHarmonic(2, 0, 0, 0)).toBeCloseTo(factor * (3 * Math.pow(Math.cos(0), 2) - 1), EPSILON);
-            expect(realSphericalHarmonic(2, 0, Math.PI / 2, 0)).toBeCloseTo(factor * (3 * Math.pow(Math.cos(Math.PI/2), 2) - 1), EPSILON); // -factor
-        });
-
-        // Add more d-orbital tests if desired, similar to above
-
-        it('should throw an error for negative l', () => {
-            expect(() => realSphericalHarmonic(-1, 0, 0, 0)).toThrow("Spherical Harmonic 'l' parameter must be a non-negative integer.");
-        });
-
-        it('should throw an error for ml out of range', () => {
-            expect(() => realSphericalHarmonic(1, 2, 0, 0)).toThrow("Spherical Harmonic 'ml' parameter must be an integer between -l and l (inclusive).");
-        });
-
-        // The function now clamps theta, so this specific error won't be thrown.
-        // it('should throw an error for theta out of range', () => {
-        //     expect(() => realSphericalHarmonic(0, 0, -0.1, 0)).toThrow("Spherical Harmonic 'theta' parameter must be between 0 and PI radians.");
-        // });
-        it('should clamp theta if slightly out of range [0, PI] and compute', () => {
-            const expected = 1 / Math.sqrt(4 * Math.PI);
-            expect(realSphericalHarmonic(0, 0, -0.0000000001, 0)).toBeCloseTo(expected, EPSILON);
-            expect(realSphericalHarmonic(0, 0, Math.PI + 0.0000000001, 0)).toBeCloseTo(expected, EPSILON);
-        });
-    });
-
-    describe('atomicOrbitalProbabilityDensity function', () => {
-        const EPSILON: number = 1e-9;
-        const Z_H: number = 1;
-
-        it('should calculate 1s orbital probability density correctly at origin', () => {
-            const expected: number = 1 / Math.PI;
-            const { probabilityDensity } = atomicOrbitalProbabilityDensity(1, 0, 0, 0, 0, 0, Z_H);
-            expect(probabilityDensity).toBeCloseTo(expected, EPSILON);
-        });
-
-        it('should calculate 1s orbital probability density correctly at a distance', () => {
-            const expected: number = 1 / (Math.PI * Math.exp(2));
-            const { probabilityDensity } = atomicOrbitalProbabilityDensity(1, 0, 0, 1, Math.PI / 2, Math.PI / 2, Z_H);
-            expect(probabilityDensity).toBeCloseTo(expected, EPSILON);
-        });
-
-        it('should calculate 2s orbital probability density correctly at its radial node', () => {
-            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 0, 0, 2, 0, 0, Z_H);
-            expect(probabilityDensity).toBeCloseTo(0, EPSILON); // Node
-        });
-
-        it('should calculate 2p_z orbital probability density correctly at its angular node', () => {
-            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 1, 0, 1, Math.PI / 2, 0, Z_H);
-            expect(probabilityDensity).toBeCloseTo(0, EPSILON); // Node
-        });
-
-        it('should calculate 2p_x orbital probability density correctly at its angular node', () => {
-            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 1, 1, 1, Math.PI / 2, Math.PI / 2, Z_H);
-            expect(probabilityDensity).toBeCloseTo(0, EPSILON); // Node
-        });
-
-        it('should calculate 2p_y orbital probability density correctly at its angular node', () => {
-            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 1, -1, 1, Math.PI / 2, 0, Z_H);
-            expect(probabilityDensity).toBeCloseTo(0, EPSILON); // Node
-        });
-
-        it('should calculate 2p_z orbital probability density correctly at a point', () => {
-            const expected: number = 1 / (8 * Math.PI * Math.exp(2));
-            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 1, 0, 1, 0, 0, Z_H);
-            expect(probabilityDensity).toBeCloseTo(expected, EPSILON);
-        });
-
-        it('should throw an error if r is negative', () => {
-            expect(() => atomicOrbitalProbabilityDensity(1, 0, 0, -0.1, 0, 0, Z_H)).toThrow(
-                "Distance (r) cannot be negative for atomic orbital probability density."
-            );
-        });
-    });
-
-    describe('generateOrbitalData function', () => {
-        it('should generate the correct number of data points and dimensions', () => {
-            const resolution: number = 10;
-            const result = generateOrbitalData(1, 0, 0, Z_H, resolution, 10);
-            expect(result.grid.length).toBe(resolution * resolution * resolution);
-            expect(result.dims).toEqual([resolution, resolution, resolution]);
-        });
-
-        it('should return points with valid density values for 1s orbital', () => {
-            const resolution: number = 11;
-            const rMax: number = 5;
-            const result = generateOrbitalData(1, 0, 0, Z_H, resolution, rMax);
-
-            const { grid, dims, minVal, maxVal } = result;
-            const step: number = (rMax - minVal) / (resolution - 1);
-
-            const centerIndex = Math.floor(dims[0] / 2) * dims[1] * dims[2] + Math.floor(dims[1] / 2) * dims[2] + Math.floor(dims[2] / 2);
-            expect(grid[centerIndex]).toBeDefined();
-            expect(grid[centerIndex]).toBeGreaterThan(0);
-        });
-
-        it('should throw an error for invalid resolution', () => {
-            expect(() => generateOrbitalData(1, 0, 0, Z_H, 0, 10)).toThrow("Resolution must be a positive integer.");
-        });
-
-        it('should throw an error for invalid rMax', () => {
-            expect(() => generateOrbitalData(1, 0, 0, Z_H, 50, 0)).toThrow("rMax must be a positive number.");
-        });
-    });
-});
+// tests/quantum_functions.test.ts
+import {
+    factorial,
+    logFactorial,
+    pochhammer,
+    binomialCoefficient,
+    laguerrePolynomial,
+    radialWaveFunction,
+    associatedLegendrePolynomial,
+    normalizedAssociatedLegendre,
+    realSphericalHarmonic,
+    complexSphericalHarmonic,
+    atomicOrbitalProbabilityDensity,
+    compileOrbital,
+    generateOrbitalData,
+    sampleCompiledOrbitalGrid,
+    sampleCompiledOrbitalGridSlab,
+    sampleOrbitalGrid,
+    getOrbitalPotentialFunction,
+    getSuperpositionGradientFunction,
+    getSuperpositionPotentialFunction,
+    hydrogenicEnergy,
+    subshellLabel,
+    __clearAllCaches__, // Import the cache clearing function
+    __getCacheSizes__
+} from '../src/quantum_functions'; // .js extension is no longer needed for TS imports
+import { OrbitalBasis } from '../src/types/orbital';
+
+// Jest provides global functions like `describe`, `it` (or `test`), `expect`
+
+describe('Quantum Functions Module', () => {
+    const EPSILON: number = 1e-9;
+    const Z_H: number = 1;
+
+    // Clear all caches before each test suite or test run to ensure isolation
+    beforeEach(() => {
+        __clearAllCaches__();
+    });
+
+    // Reference values below are exact rational sums evaluated to 50 digits (Python fractions and decimal)
+    const expectRelativelyClose = (actual: number, expected: number) =>
+        expect(Math.abs(actual / expected - 1)).toBeLessThan(1e-12);
+
+    // Composite Simpson's rule over [a, b] with an even number of intervals
+    const simpson = (f: (x: number) => number, a: number, b: number, intervals: number): number => {
+        const h = (b - a) / intervals;
+        let sum = f(a) + f(b);
+        for (let i = 1; i < intervals; i++) {
+            sum += (i % 2 === 1 ? 4 : 2) * f(a + i * h);
+        }
+        return (sum * h) / 3;
+    };
+
+    describe('factorial function', () => {
+        it('should return 1 for 0!', () => {
+            expect(factorial(0)).toBe(1);
+        });
+
+        it('should return 1 for 1!', () => {
+            expect(factorial(1)).toBe(1);
+        });
+
+        it('should calculate factorial for positive integers correctly', () => {
+            expect(factorial(5)).toBe(120);
+            expect(factorial(7)).toBe(5040);
+            expect(factorial(10)).toBe(3628800);
+        });
+
+        it('should throw an error for negative numbers', () => {
+            expect(() => factorial(-1)).toThrow('Factorial is not defined for negative numbers.');
+            expect(() => factorial(-5)).toThrow(Error); // Can also check for specific error message
+        });
+    });
+
+    describe('logFactorial function', () => {
+        it('should match ln(n!) where n! is representable', () => {
+            expect(logFactorial(0)).toBe(0);
+            expect(logFactorial(10)).toBeCloseTo(Math.log(3628800), 12);
+            expectRelativelyClose(logFactorial(170), Math.log(factorial(170)));
+        });
+
+        it('should stay finite past 170!, where factorial overflows', () => {
+            expect(factorial(171)).toBe(Infinity);
+            expectRelativelyClose(logFactorial(200), 863.23198719240547);
+        });
+
+        it('should throw an error for negative or non-integer n', () => {
+            expect(() => logFactorial(-1)).toThrow('Log-factorial is only defined for non-negative integers.');
+            expect(() => logFactorial(2.5)).toThrow('Log-factorial is only defined for non-negative integers.');
+        });
+    });
+
+    describe('pochhammer function', () => {
+        it('should return 1 for n = 0', () => {
+            expect(pochhammer(5, 0)).toBe(1);
+            expect(pochhammer(0, 0)).toBe(1);
+        });
+
+        it('should calculate pochhammer correctly for positive x and n', () => {
+            expect(pochhammer(3, 1)).toBe(3);
+            expect(pochhammer(2, 3)).toBe(2 * 3 * 4); // 24
+            expect(pochhammer(1, 5)).toBe(1 * 2 * 3 * 4 * 5); // 120
+        });
+
+        it('should handle negative x values correctly', () => {
+            expect(pochhammer(-2, 3)).toBe(-2 * -1 * 0); // 0
+            expect(pochhammer(-5, 2)).toBe(-5 * -4); // 20
+        });
+
+        it('should return 0 when x is 0 and n > 0', () => {
+            expect(pochhammer(0, 4)).toBe(0);
+        });
+
+        it('should throw an error for negative n', () => {
+            expect(() => pochhammer(10, -1)).toThrow('Pochhammer symbol is not defined for negative n.');
+            expect(() => pochhammer(0, -5)).toThrow(Error);
+        });
+    });
+
+    describe('binomialCoefficient function', () => {
+        it('should return 1 for C(n, 0) and C(n, n)', () => {
+            expect(binomialCoefficient(5, 0)).toBe(1);
+            expect(binomialCoefficient(5, 5)).toBe(1);
+            expect(binomialCoefficient(1, 0)).toBe(1);
+            expect(binomialCoefficient(1, 1)).toBe(1);
+        });
+
+        it('should return 0 when k is out of bounds', () => {
+            expect(binomialCoefficient(5, -1)).toBe(0);
+            expect(binomialCoefficient(5, 6)).toBe(0);
+        });
+
+        it('should calculate binomial coefficients correctly for positive values', () => {
+            expect(binomialCoefficient(4, 2)).toBe(6);
+            expect(binomialCoefficient(5, 2)).toBe(10);
+            expect(binomialCoefficient(7, 3)).toBe(35);
+        });
+
+        it('should use the optimization C(n, k) = C(n, n-k)', () => {
+            expect(binomialCoefficient(7, 4)).toBe(35);
+            expect(binomialCoefficient(10, 8)).toBe(binomialCoefficient(10, 2)); // 45
+        });
+    });
+
+    describe('laguerrePolynomial function', () => {
+        it('should return 1 for L_0^(alpha)(x)', () => {
+            expect(laguerrePolynomial(0, 0, 5)).toBe(1);
+            expect(laguerrePolynomial(0, 10, 0)).toBe(1);
+            expect(laguerrePolynomial(0, -2, 100)).toBe(1);
+        });
+
+        it('should calculate L_1^(alpha)(x) correctly', () => {
+            expect(laguerrePolynomial(1, 0, 0)).toBe(1);
+            expect(laguerrePolynomial(1, 0, 1)).toBe(0);
+            expect(laguerrePolynomial(1, 0, 5)).toBe(-4);
+
+            expect(laguerrePolynomial(1, 1, 0)).toBe(2);
+            expect(laguerrePolynomial(1, 1, 2)).toBe(0);
+            expect(laguerrePolynomial(1, 1, -3)).toBe(5);
+        });
+
+        it('should calculate L_2^(alpha)(x) correctly', () => {
+            expect(laguerrePolynomial(2, 0, 0)).toBe(1);
+            expect(laguerrePolynomial(2, 0, 1)).toBeCloseTo((1 - 4 + 2) / 2, 9); // -0.5
+            expect(laguerrePolynomial(2, 0, 2)).toBeCloseTo((4 - 8 + 2) / 2, 9); // -1
+
+            expect(laguerrePolynomial(2, 1, 0)).toBe(3);
+            expect(laguerrePolynomial(2, 1, 1)).toBeCloseTo((1 - 6 + 6) / 2, 9); // 0.5
+            expect(laguerrePolynomial(2, 1, 3)).toBeCloseTo((9 - 18 + 6) / 2, 9); // -1.5
+        });
+
+        it('should calculate L_n^(alpha)(0) correctly (which is C(n + alpha, n))', () => {
+            expect(laguerrePolynomial(3, 2, 0)).toBe(binomialCoefficient(3 + 2, 3)); // 10
+            expect(laguerrePolynomial(2, 0, 0)).toBe(binomialCoefficient(2 + 0, 2)); // 1
+            expect(laguerrePolynomial(1, 1, 0)).toBe(binomialCoefficient(1 + 1, 1)); // 2
+        });
+
+        it('should stay accurate at high degree, where the terms of the explicit sum cancel', () => {
+            expectRelativelyClose(laguerrePolynomial(29, 1, 40), 4.45516274232131168e+07);
+            expectRelativelyClose(laguerrePolynomial(25, 9, 30.5), 3.74472977157533984e+05);
+            expectRelativelyClose(laguerrePolynomial(20, 41, 75), -3.57703898307721138e+08);
+        });
+
+        it('should throw an error for negative n', () => {
+            expect(() => laguerrePolynomial(-1, 0, 0)).toThrow('Laguerre polynomial degree (n) cannot be negative.');
+        });
+    });
+
+    describe('radialWaveFunction function', () => {
+        const Z_H: number = 1; // Hydrogen Atom
+
+        it('should calculate R_10(r) (1s orbital) correctly', () => {
+            expect(radialWaveFunction(1, 0, 0, Z_H)).toBeCloseTo(2, 9);
+            expect(radialWaveFunction(1, 0, 1, Z_H)).toBeCloseTo(2 * Math.exp(-1), 9);
+            expect(radialWaveFunction(1, 0, 2, Z_H)).toBeCloseTo(2 * Math.exp(-2), 9);
+        });
+
+        it('should calculate R_20(r) (2s orbital) correctly', () => {
+            expect(radialWaveFunction(2, 0, 0, Z_H)).toBeCloseTo(1 / (2 * Math.sqrt(2)) * 2, 9);
+            expect(radialWaveFunction(2, 0, 2, Z_H)).toBeCloseTo(0, 9); // Node
+            expect(radialWaveFunction(2, 0, 1, Z_H)).toBeCloseTo((1 / (2 * Math.sqrt(2))) * (2 - 1) * Math.exp(-0.5), 9);
+        });
+
+        it('should calculate R_21(r) (2p orbital) correctly', () => {
+            expect(radialWaveFunction(2, 1, 0, Z_H)).toBeCloseTo(0, 9);
+            expect(radialWaveFunction(2, 1, 1, Z_H)).toBeCloseTo((1 / (2 * Math.sqrt(6))) * 1 * Math.exp(-0.5), 9);
+            expect(radialWaveFunction(2, 1, 2, Z_H)).toBeCloseTo((1 / (2 * Math.sqrt(6))) * 2 * Math.exp(-1), 9);
+        });
+
+        it('should calculate R_10(r) for He+ (Z=2) correctly', () => {
+            const Z_He_plus: number = 2;
+            expect(radialWaveFunction(1, 0, 0, Z_He_plus)).toBeCloseTo(2 * Math.pow(Z_He_plus, 1.5), 9);
+            expect(radialWaveFunction(1, 0, 0.5, Z_He_plus)).toBeCloseTo(2 * Math.pow(Z_He_plus, 1.5) * Math.exp(-Z_He_plus * 0.5), 9);
+        });
+
+        it('should match high-precision values up to n = 30', () => {
+            expectRelativelyClose(radialWaveFunction(30, 0, 100), 1.12056990040277407e-04);
+            expectRelativelyClose(radialWaveFunction(30, 1, 1500), -1.21144370456865143e-05);
+            expectRelativelyClose(radialWaveFunction(30, 29, 900), 6.50620121983956629e-05);
+            expectRelativelyClose(radialWaveFunction(25, 10, 2.5, 3), 3.39720963234383602e-10);
+        });
+
+        it('should be orthonormal up to n = 30', () => {
+            // ∫ r² R_nl R_n'l dr = δ_nn', out to where every state has decayed
+            const overlap = (n1: number, n2: number, l: number) =>
+                simpson(r => r * r * radialWaveFunction(n1, l, r) * radialWaveFunction(n2, l, r), 0, 10 * 30 * 30 + 20, 200000);
+            expect(overlap(30, 30, 0)).toBeCloseTo(1, 8);
+            expect(overlap(30, 30, 29)).toBeCloseTo(1, 8);
+            expect(overlap(30, 29, 0)).toBeCloseTo(0, 8);
+            expect(overlap(30, 25, 10)).toBeCloseTo(0, 8);
+        });
+
+        it('should vanish far out instead of multiplying an underflowed exponential by an overflowed polynomial', () => {
+            expect(radialWaveFunction(30, 0, 1e6)).toBe(0);
+            expect(radialWaveFunction(30, 29, 0)).toBe(0);
+        });
+
+        it('should throw an error for invalid n', () => {
+            expect(() => radialWaveFunction(0, 0, 1)).toThrow("Principal quantum number (n) must be a positive integer.");
+            expect(() => radialWaveFunction(1.5, 0, 1)).toThrow("Principal quantum number (n) must be a positive integer.");
+        });
+
+        it('should throw an error for invalid l', () => {
+            expect(() => radialWaveFunction(1, 1, 1)).toThrow("Azimuthal quantum number (l) must be an integer between 0 and n-1.");
+            expect(() => radialWaveFunction(2, -1, 1)).toThrow("Azimuthal quantum number (l) must be an integer between 0 and n-1.");
+        });
+
+        it('should throw an error for negative r', () => {
+            expect(() => radialWaveFunction(1, 0, -1)).toThrow("Distance (r) cannot be negative.");
+        });
+
+        it('should throw an error for invalid Z', () => {
+            expect(() => radialWaveFunction(1, 0, 1, 0)).toThrow("Nuclear charge (Z) must be a positive integer.");
+        });
+    });
+
+    describe('associatedLegendrePolynomial function', () => {
+        const EPSILON: number = 1e-9;
+
+        it('should return 0 when m > l', () => {
+            expect(associatedLegendrePolynomial(0, 1, 0.5)).toBeCloseTo(0, EPSILON);
+            expect(associatedLegendrePolynomial(1, 2, 0.5)).toBeCloseTo(0, EPSILON);
+        });
+
+        it('should return 1 for P_0^0(x)', () => {
+            expect(associatedLegendrePolynomial(0, 0, 0)).toBeCloseTo(1, EPSILON);
+            expect(associatedLegendrePolynomial(0, 0, 0.5)).toBeCloseTo(1, EPSILON);
+        });
+
+        it('should calculate P_1^0(x) correctly', () => {
+            expect(associatedLegendrePolynomial(1, 0, 0.5)).toBeCloseTo(0.5, EPSILON);
+        });
+
+        it('should calculate P_1^1(x) correctly', () => {
+            expect(associatedLegendrePolynomial(1, 1, 0)).toBeCloseTo(1, EPSILON);
+            expect(associatedLegendrePolynomial(1, 1, 0.6)).toBeCloseTo(Math.sqrt(1 - 0.6 * 0.6), EPSILON);
+            expect(associatedLegendrePolynomial(1, 1, 1)).toBeCloseTo(0, EPSILON);
+        });
+
+        it('should calculate P_2^0(x) correctly', () => {
+            expect(associatedLegendrePolynomial(2, 0, 0)).toBeCloseTo(0.5 * (3 * 0 * 0 - 1), EPSILON); // -0.5
+            expect(associatedLegendrePolynomial(2, 0, 1)).toBeCloseTo(1, EPSILON);
+        });
+
+        it('should calculate P_2^1(x) correctly', () => {
+            expect(associatedLegendrePolynomial(2, 1, 0.5)).toBeCloseTo(3 * 0.5 * Math.sqrt(1 - 0.25), EPSILON);
+        });
+
+        it('should calculate P_2^2(x) correctly', () => {
+            expect(associatedLegendrePolynomial(2, 2, 0)).toBeCloseTo(3, EPSILON);
+            expect(associatedLegendrePolynomial(2, 2, 0.5)).toBeCloseTo(3 * (1 - 0.25), EPSILON);
+        });
+
+        it('should throw an error for negative l', () => {
+            expect(() => associatedLegendrePolynomial(-1, 0, 0)).toThrow('Associated Legendre Polynomial \'l\' parameter must be a non-negative integer.');
+        });
+
+        it('should throw an error for m < 0', () => {
+            expect(() => associatedLegendrePolynomial(1, -1, 0)).toThrow('Associated Legendre Polynomial \'m\' parameter must be a non-negative integer.');
+        });
+
+        // The function now clamps x, so this specific error won't be thrown.
+        // Instead, it will calculate with the clamped value.
+        // We can test the clamping behavior if desired, or remove this test.
+        // it('should throw an error for x out of range [-1, 1]', () => {
+        //     expect(() => associatedLegendrePolynomial(1, 0, 1.1)).toThrow("Associated Legendre Polynomial 'x' parameter must be between -1 and 1 (inclusive).");
+        // });
+        it('should clamp x if slightly out of range [-1, 1] and compute', () => {
+            // P_1^0(x) = x
+            expect(associatedLegendrePolynomial(1, 0, 1.0000000001)).toBeCloseTo(1, EPSILON);
+            expect(associatedLegendrePolynomial(1, 0, -1.0000000001)).toBeCloseTo(-1, EPSILON);
+        });
+    });
+
+    describe('normalizedAssociatedLegendre function', () => {
+        it('should be P_l^m scaled by the spherical harmonic normalization', () => {
+            [[0, 0], [1, 1], [2, 1], [3, 2], [5, 0], [6, 4]].forEach(([l, m]) => {
+                const normalization = Math.sqrt(((2 * l + 1) / (4 * Math.PI)) * (factorial(l - m) / factorial(l + m)));
+                [-0.9, -0.2, 0.35, 0.8].forEach(x => {
+                    expect(normalizedAssociatedLegendre(l, m, x)).toBeCloseTo(normalization * associatedLegendrePolynomial(l, m, x), 12);
+                });
+            });
+        });
+
+        it('should match high-precision values up to l = 29', () => {
+            expectRelativelyClose(normalizedAssociatedLegendre(29, 17, 0.3), 1.95008210148892525e-01);
+            expectRelativelyClose(normalizedAssociatedLegendre(29, 0, -0.7), 2.91997466652336168e-01);
+            expectRelativelyClose(normalizedAssociatedLegendre(29, 29, 0.5), 1.07990733796094647e-02);
+            expectRelativelyClose(normalizedAssociatedLegendre(20, 3, 0.9), -2.46834387837374686e-01);
+        });
+
+        it('should return 0 when m > l and validate l and m', () => {
+            expect(normalizedAssociatedLegendre(2, 3, 0.5)).toBe(0);
+            expect(() => normalizedAssociatedLegendre(-1, 0, 0)).toThrow('Associated Legendre Polynomial \'l\' parameter must be a non-negative integer.');
+            expect(() => normalizedAssociatedLegendre(1, -1, 0)).toThrow('Associated Legendre Polynomial \'m\' parameter must be a non-negative integer.');
+        });
+    });
+
+    describe('realSphericalHarmonic function', () => {
+        const EPSILON: number = 1e-9;
+
+        it('should calculate Y_00 (s-orbital) correctly', () => {
+            const expected: number = 1 / Math.sqrt(4 * Math.PI);
+            expect(realSphericalHarmonic(0, 0, 0, 0)).toBeCloseTo(expected, EPSILON);
+            expect(realSphericalHarmonic(0, 0, Math.PI / 2, Math.PI)).toBeCloseTo(expected, EPSILON);
+        });
+
+        it('should calculate Y_10 (p_z orbital) correctly', () => {
+            const factor: number = Math.sqrt(3 / (4 * Math.PI));
+            expect(realSphericalHarmonic(1, 0, 0, 0)).toBeCloseTo(factor * Math.cos(0), EPSILON);
+            expect(realSphericalHarmonic(1, 0, Math.PI / 2, 0)).toBeCloseTo(0, EPSILON); // cos(PI/2) = 0
+        });
+
+        it('should calculate Y_11 (p_x orbital) correctly', () => {
+            const factor: number = Math.sqrt(3 / (4 * Math.PI)) * Math.sqrt(2); // Real form has sqrt(2)
+            expect(realSphericalHarmonic(1, 1, Math.PI / 2, 0)).toBeCloseTo(factor * Math.sin(Math.PI / 2) * Math.cos(0), EPSILON);
+            expect(realSphericalHarmonic(1, 1, Math.PI / 2, Math.PI / 2)).toBeCloseTo(0, EPSILON); // cos(phi) = 0
+        });
+
+        it('should calculate Y_1-1 (p_y orbital) correctly', () => {
+            const factor: number = Math.sqrt(3 / (4 * Math.PI)) * Math.sqrt(2); // Real form has sqrt(2)
+            expect(realSphericalHarmonic(1, -1, Math.PI / 2, Math.PI / 2)).toBeCloseTo(factor * Math.sin(Math.PI / 2) * Math.sin(Math.PI / 2), EPSILON);
+            expect(realSphericalHarmonic(1, -1, Math.PI / 2, 0)).toBeCloseTo(0, EPSILON); // sin(phi) = 0
+        });
+
+        it('should calculate Y_20 (d_z^2 orbital) correctly', () => {
+            const factor: number = Math.sqrt(5 / (16 * Math.PI));
+            expect(realSphericalHarmonic(2, 0, 0, 0)).toBeCloseTo(factor * (3 * Math.pow(Math.cos(0), 2) - 1), EPSILON);
+            expect(realSphericalHarmonic(2, 0, Math.PI / 2, 0)).toBeCloseTo(factor * (3 * Math.pow(Math.cos(Math.PI/2), 2) - 1), EPSILON); // -factor
+        });
+
+        // Add more d-orbital tests if desired, similar to above
+
+        it('should throw an error for negative l', () => {
+            expect(() => realSphericalHarmonic(-1, 0, 0, 0)).toThrow("Spherical Harmonic 'l' parameter must be a non-negative integer.");
+        });
+
+        it('should throw an error for ml out of range', () => {
+            expect(() => realSphericalHarmonic(1, 2, 0, 0)).toThrow("Spherical Harmonic 'ml' parameter must be an integer between -l and l (inclusive).");
+        });
+
+        // The function now clamps theta, so this specific error won't be thrown.
+        // it('should throw an error for theta out of range', () => {
+        //     expect(() => realSphericalHarmonic(0, 0, -0.1, 0)).toThrow("Spherical Harmonic 'theta' parameter must be between 0 and PI radians.");
+        // });
+        it('should clamp theta if slightly out of range [0, PI] and compute', () => {
+            const expected = 1 / Math.sqrt(4 * Math.PI);
+            expect(realSphericalHarmonic(0, 0, -0.0000000001, 0)).toBeCloseTo(expected, EPSILON);
+            expect(realSphericalHarmonic(0, 0, Math.PI + 0.0000000001, 0)).toBeCloseTo(expected, EPSILON);
+        });
+
+        it('should be orthonormal over the sphere up to l = 29', () => {
+            // Simpson's rule in theta; in phi the trapezoidal rule is exact for these trigonometric polynomials
+            const phiSteps = 64;
+            const overlap = (l1: number, m1: number, l2: number, m2: number) => simpson(theta => {
+                let sum = 0;
+                for (let i = 0; i < phiSteps; i++) {
+                    const phi = (2 * Math.PI * i) / phiSteps;
+                    sum += realSphericalHarmonic(l1, m1, theta, phi) * realSphericalHarmonic(l2, m2, theta, phi);
+                }
+                return Math.sin(theta) * sum * (2 * Math.PI / phiSteps);
+            }, 0, Math.PI, 1200);
+            expect(overlap(29, 17, 29, 17)).toBeCloseTo(1, 6);
+            expect(overlap(29, 0, 29, 0)).toBeCloseTo(1, 6);
+            expect(overlap(29, -29, 29, -29)).toBeCloseTo(1, 6);
+            expect(overlap(29, 17, 27, 17)).toBeCloseTo(0, 6);
+            expect(overlap(29, 17, 29, -17)).toBeCloseTo(0, 6);
+        });
+    });
+
+    describe('complexSphericalHarmonic function', () => {
+        it('should equal the real Y_l0 for m_l = 0', () => {
+            const theta = 0.7;
+            const y = complexSphericalHarmonic(2, 0, theta, 1.3);
+            expect(y.re).toBeCloseTo(realSphericalHarmonic(2, 0, theta, 1.3), 9);
+            expect(y.im).toBeCloseTo(0, 9);
+        });
+
+        it('should include the Condon-Shortley phase for Y_1^1 by default', () => {
+            const theta = Math.PI / 3;
+            const phi = Math.PI / 5;
+            const magnitude = Math.sqrt(3 / (8 * Math.PI)) * Math.sin(theta);
+            const y = complexSphericalHarmonic(1, 1, theta, phi);
+            expect(y.re).toBeCloseTo(-magnitude * Math.cos(phi), 9);
+            expect(y.im).toBeCloseTo(-magnitude * Math.sin(phi), 9);
+        });
+
+        it('should omit the Condon-Shortley phase when disabled', () => {
+            const theta = Math.PI / 3;
+            const phi = Math.PI / 5;
+            const magnitude = Math.sqrt(3 / (8 * Math.PI)) * Math.sin(theta);
+            const y = complexSphericalHarmonic(1, 1, theta, phi, false);
+            expect(y.re).toBeCloseTo(magnitude * Math.cos(phi), 9);
+            expect(y.im).toBeCloseTo(magnitude * Math.sin(phi), 9);
+        });
+
+        it('should satisfy Y_l^-m = (-1)^m conj(Y_l^m) with the Condon-Shortley phase', () => {
+            const theta = 1.1;
+            const phi = 2.4;
+            for (const m of [1, 2]) {
+                const positive = complexSphericalHarmonic(2, m, theta, phi);
+                const negative = complexSphericalHarmonic(2, -m, theta, phi);
+                const sign = m % 2 === 0 ? 1 : -1;
+                expect(negative.re).toBeCloseTo(sign * positive.re, 9);
+                expect(negative.im).toBeCloseTo(-sign * positive.im, 9);
+            }
+        });
+
+        it('should have |Y_l^m|^2 independent of phi', () => {
+            const theta = 0.9;
+            const a = complexSphericalHarmonic(3, 2, theta, 0.1);
+            const b = complexSphericalHarmonic(3, 2, theta, 2.9);
+            expect(a.re * a.re + a.im * a.im).toBeCloseTo(b.re * b.re + b.im * b.im, 9);
+        });
+
+        it('should relate to the real harmonics by Y_real = sqrt(2) (-1)^m Re(Y_l^m) for m > 0', () => {
+            const theta = 0.8;
+            const phi = 1.7;
+            const complex = complexSphericalHarmonic(2, 1, theta, phi);
+            expect(realSphericalHarmonic(2, 1, theta, phi)).toBeCloseTo(-Math.sqrt(2) * complex.re, 9);
+        });
+
+        it('should throw an error for ml out of range', () => {
+            expect(() => complexSphericalHarmonic(1, -2, 0, 0)).toThrow("Spherical Harmonic 'ml' parameter must be an integer between -l and l (inclusive).");
+        });
+    });
+
+    describe('atomicOrbitalProbabilityDensity function', () => {
+        const EPSILON: number = 1e-9;
+        const Z_H: number = 1;
+
+        it('should calculate 1s orbital probability density correctly at origin', () => {
+            const expected: number = 1 / Math.PI;
+            const { probabilityDensity } = atomicOrbitalProbabilityDensity(1, 0, 0, 0, 0, 0, Z_H);
+            expect(probabilityDensity).toBeCloseTo(expected, EPSILON);
+        });
+
+        it('should calculate 1s orbital probability density correctly at a distance', () => {
+            const expected: number = 1 / (Math.PI * Math.exp(2));
+            const { probabilityDensity } = atomicOrbitalProbabilityDensity(1, 0, 0, 1, Math.PI / 2, Math.PI / 2, Z_H);
+            expect(probabilityDensity).toBeCloseTo(expected, EPSILON);
+        });
+
+        it('should calculate 2s orbital probability density correctly at its radial node', () => {
+            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 0, 0, 2, 0, 0, Z_H);
+            expect(probabilityDensity).toBeCloseTo(0, EPSILON); // Node
+        });
+
+        it('should calculate 2p_z orbital probability density correctly at its angular node', () => {
+            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 1, 0, 1, Math.PI / 2, 0, Z_H);
+            expect(probabilityDensity).toBeCloseTo(0, EPSILON); // Node
+        });
+
+        it('should calculate 2p_x orbital probability density correctly at its angular node', () => {
+            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 1, 1, 1, Math.PI / 2, Math.PI / 2, Z_H);
+            expect(probabilityDensity).toBeCloseTo(0, EPSILON); // Node
+        });
+
+        it('should calculate 2p_y orbital probability density correctly at its angular node', () => {
+            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 1, -1, 1, Math.PI / 2, 0, Z_H);
+            expect(probabilityDensity).toBeCloseTo(0, EPSILON); // Node
+        });
+
+        it('should calculate 2p_z orbital probability density correctly at a point', () => {
+            const expected: number = 1 / (8 * Math.PI * Math.exp(2));
+            const { probabilityDensity } = atomicOrbitalProbabilityDensity(2, 1, 0, 1, 0, 0, Z_H);
+            expect(probabilityDensity).toBeCloseTo(expected, EPSILON);
+        });
+
+        it('should report a zero or pi phase in the real basis', () => {
+            const positive = atomicOrbitalProbabilityDensity(2, 1, 0, 1, 0, 0, Z_H);
+            const negative = atomicOrbitalProbabilityDensity(2, 1, 0, 1, Math.PI, 0, Z_H);
+            expect(positive.imaginaryPart).toBe(0);
+            expect(positive.phase).toBeCloseTo(0, 9);
+            expect(negative.phase).toBeCloseTo(Math.PI, 9);
+        });
+
+        it('should give a ring-shaped density with a winding phase for the complex |2,1,+1> state', () => {
+            const a = atomicOrbitalProbabilityDensity(2, 1, 1, 1, Math.PI / 2, Math.PI / 4, Z_H, 'complex');
+            const b = atomicOrbitalProbabilityDensity(2, 1, 1, 1, Math.PI / 2, 3 * Math.PI / 4, Z_H, 'complex');
+            // No nodal plane through the z-axis: density is the same at every phi
+            expect(b.probabilityDensity).toBeCloseTo(a.probabilityDensity, 9);
+            expect(a.probabilityDensity).toBeGreaterThan(0);
+            // Phase advances with phi
+            expect(b.phase - a.phase).toBeCloseTo(Math.PI / 2, 9);
+            expect(b.probabilityDensity).toBeCloseTo(b.realPart ** 2 + b.imaginaryPart ** 2, 9);
+        });
+
+        it('should negate odd positive ml states without the Condon-Shortley phase', () => {
+            const withPhase = atomicOrbitalProbabilityDensity(3, 2, 1, 2, 1, 0.5, Z_H, 'complex');
+            const withoutPhase = atomicOrbitalProbabilityDensity(3, 2, 1, 2, 1, 0.5, Z_H, 'complex', false);
+            expect(withoutPhase.realPart).toBeCloseTo(-withPhase.realPart, 12);
+            expect(withoutPhase.imaginaryPart).toBeCloseTo(-withPhase.imaginaryPart, 12);
+            expect(withoutPhase.probabilityDensity).toBeCloseTo(withPhase.probabilityDensity, 12);
+            // Even or negative ml are unaffected
+            expect(atomicOrbitalProbabilityDensity(3, 2, -1, 2, 1, 0.5, Z_H, 'complex', false))
+                .toEqual(atomicOrbitalProbabilityDensity(3, 2, -1, 2, 1, 0.5, Z_H, 'complex'));
+        });
+
+        it('should throw an error if r is negative', () => {
+            expect(() => atomicOrbitalProbabilityDensity(1, 0, 0, -0.1, 0, 0, Z_H)).toThrow(
+                "Distance (r) cannot be negative for atomic orbital probability density."
+            );
+        });
+    });
+
+    describe('compileOrbital function', () => {
+        // The orbital at (x, y, z) through the spherical functions
+        const spherical = (n: number, l: number, ml: number, Z: number, basis: OrbitalBasis, [x, y, z]: number[]) => {
+            const r = Math.hypot(x, y, z);
+            const theta = r === 0 ? 0 : Math.acos(z / r);
+            return atomicOrbitalProbabilityDensity(n, l, ml, r, theta, Math.atan2(y, x), Z, basis);
+        };
+
+        it('should agree with the spherical evaluation in both bases, up to n = 30', () => {
+            const states: [number, number, number, number, OrbitalBasis][] = [
+                [1, 0, 0, 1, 'real'], [2, 1, -1, 1, 'real'], [3, 2, 2, 2, 'complex'], [4, 3, -3, 1, 'complex'],
+                [12, 5, -5, 1, 'real'], [25, 10, 7, 3, 'complex'], [30, 0, 0, 1, 'real'], [30, 29, -17, 1, 'real'],
+            ];
+            const out = new Float64Array(2);
+            states.forEach(([n, l, ml, Z, basis]) => {
+                const orbital = compileOrbital(n, l, ml, Z, basis);
+                const extent = (3 * n * n) / Z;
+                const points = [[0, 0, 0], [0, 0, extent / 7], [0, 0, -extent / 5]];
+                for (let i = 1; i <= 200; i++) {
+                    // Deterministic points scattered through the box
+                    points.push([Math.sin(i * 1.7), Math.cos(i * 2.3), Math.sin(i * 0.9 + 1)].map(c => c * extent));
+                }
+                const expected = points.map(point => spherical(n, l, ml, Z, basis, point));
+                const scale = Math.max(...expected.map(({ realPart, imaginaryPart }) => Math.hypot(realPart, imaginaryPart)));
+                const worst = Math.max(...points.map(([x, y, z], i) => {
+                    const density = orbital.evaluate(x, y, z, out);
+                    return Math.max(
+                        Math.abs(out[0] - expected[i].realPart),
+                        Math.abs(out[1] - expected[i].imaginaryPart),
+                        Math.abs(density - expected[i].probabilityDensity) / scale
+                    );
+                }));
+                expect(worst / scale).toBeLessThan(1e-12);
+            });
+        });
+
+        it('should follow the Condon-Shortley option of the spherical evaluation', () => {
+            const out = new Float64Array(2);
+            const points = [[1, 2, -0.5], [-3, 0.5, 2], [0.2, -1, 1]];
+            ([[2, 1, 1], [3, 2, 1], [4, 3, 3], [4, 3, -3]] as const).forEach(([n, l, ml]) => {
+                const orbital = compileOrbital(n, l, ml, Z_H, 'complex', false);
+                points.forEach(([x, y, z]) => {
+                    const r = Math.hypot(x, y, z);
+                    const theta = Math.acos(z / r);
+                    const expected = atomicOrbitalProbabilityDensity(n, l, ml, r, theta, Math.atan2(y, x), Z_H, 'complex', false);
+                    orbital.evaluate(x, y, z, out);
+                    expect(out[0]).toBeCloseTo(expected.realPart, 12);
+                    expect(out[1]).toBeCloseTo(expected.imaginaryPart, 12);
+                });
+            });
+        });
+
+        it('should back the potential functions', () => {
+            const potential = getOrbitalPotentialFunction(3, 2, -1, 2, 0.001, 'complex');
+            const expected = spherical(3, 2, -1, 2, 'complex', [0.4, -0.7, 1.1]);
+            const point = potential(0.4, -0.7, 1.1);
+            expect(point.realPart).toBeCloseTo(expected.realPart, 12);
+            expect(point.imaginaryPart).toBeCloseTo(expected.imaginaryPart, 12);
+            expect(point.probabilityDensity).toBeCloseTo(expected.probabilityDensity - 0.001, 12);
+            expect(point.phase).toBeCloseTo(expected.phase, 9);
+        });
+
+        it('should give the gradient of ψ, matching central differences of evaluate', () => {
+            const states: [number, number, number, number, OrbitalBasis][] = [
+                [1, 0, 0, 1, 'real'], [2, 1, 1, 1, 'real'], [3, 2, -2, 2, 'real'], [4, 3, 1, 1, 'complex'],
+                [5, 2, -1, 1, 'complex'], [9, 6, -4, 1, 'real'], [20, 12, 9, 3, 'complex'],
+            ];
+            const values = new Float64Array(2);
+            const out = new Float64Array(8);
+            states.forEach(([n, l, ml, Z, basis]) => {
+                const orbital = compileOrbital(n, l, ml, Z, basis);
+                const extent = (2 * n * n) / Z;
+                const step = extent * 1e-6;
+                const part = (point: number[], index: number) => {
+                    orbital.evaluate(point[0], point[1], point[2], values);
+                    return values[index];
+                };
+                let scale = 0;
+                let worst = 0;
+                for (let i = 1; i <= 60; i++) {
+                    const point = [Math.sin(i * 1.3), Math.cos(i * 0.7), Math.sin(i * 2.1 + 0.5)].map(c => c * extent);
+                    const density = orbital.evaluateGradient(point[0], point[1], point[2], out);
+                    expect(density).toBeCloseTo(orbital.evaluate(point[0], point[1], point[2], values), 12);
+                    expect([out[0], out[1]]).toEqual([values[0], values[1]]);
+                    [0, 1].forEach(index => [0, 1, 2].forEach(axis => {
+                        const ahead = [...point];
+                        const behind = [...point];
+                        ahead[axis] += step;
+                        behind[axis] -= step;
+                        const difference = (part(ahead, index) - part(behind, index)) / (2 * step);
+                        const analytic = out[2 + 3 * index + axis];
+                        scale = Math.max(scale, Math.abs(difference));
+                        worst = Math.max(worst, Math.abs(analytic - difference));
+                    }));
+                }
+                expect(worst / scale).toBeLessThan(1e-6);
+            });
+        });
+
+        it('should give the gradient at the nucleus', () => {
+            const out = new Float64Array(8);
+            compileOrbital(1, 0, 0).evaluateGradient(0, 0, 0, out);
+            expect(Array.from(out.subarray(2))).toEqual([0, 0, 0, 0, 0, 0]); // The cusp has no direction
+            compileOrbital(2, 1, 0).evaluateGradient(0, 0, 0, out);
+            // ψ_2pz = z e^(-r/2) / sqrt(32π) near the nucleus
+            expect(out[4]).toBeCloseTo(1 / Math.sqrt(32 * Math.PI), 12);
+            expect(out[2]).toBe(0);
+        });
+
+        it('should validate the quantum numbers once, when compiled', () => {
+            expect(() => compileOrbital(0, 0, 0)).toThrow("Principal quantum number (n) must be a positive integer.");
+            expect(() => compileOrbital(2, 2, 0)).toThrow("Azimuthal quantum number (l) must be an integer between 0 and n-1.");
+            expect(() => compileOrbital(2, 1, 2)).toThrow("Spherical Harmonic 'ml' parameter must be an integer between -l and l (inclusive).");
+            expect(() => compileOrbital(1, 0, 0, 0)).toThrow("Nuclear charge (Z) must be a positive integer.");
+        });
+    });
+
+    describe('sampleCompiledOrbitalGrid function', () => {
+        it('should sample the grid of the potential function bit for bit', () => {
+            const expected = sampleOrbitalGrid(getOrbitalPotentialFunction(4, 2, 1, 1, 0, 'complex'), 12, 40);
+            const data = sampleCompiledOrbitalGrid(compileOrbital(4, 2, 1, 1, 'complex'), 12, 40);
+            expect(data.grid).toEqual(expected.grid);
+            expect(data.psiGrid).toEqual(expected.psiGrid);
+            expect(data.maxDensity).toBe(expected.maxDensity);
+            expect(data.dims).toEqual([12, 12, 12]);
+        });
+
+        it('should assemble the same grid from slabs', () => {
+            const orbital = compileOrbital(3, 1, 0);
+            const whole = sampleCompiledOrbitalGrid(orbital, 10, 20);
+            const grid = new Float32Array(1000);
+            const psiGrid = new Float32Array(1000);
+            const onSlab = jest.fn();
+            const firstMax = sampleCompiledOrbitalGridSlab(orbital, 10, 20, 0, 4, grid.subarray(0, 400), psiGrid.subarray(0, 400), onSlab);
+            const secondMax = sampleCompiledOrbitalGridSlab(orbital, 10, 20, 4, 10, grid.subarray(400), psiGrid.subarray(400), onSlab);
+            expect(grid).toEqual(whole.grid);
+            expect(psiGrid).toEqual(whole.psiGrid);
+            expect(Math.max(firstMax, secondMax)).toBe(whole.maxDensity);
+            expect(onSlab).toHaveBeenCalledTimes(10);
+        });
+    });
+
+    describe('generateOrbitalData function', () => {
+        it('should generate the correct number of data points and dimensions', () => {
+            const resolution: number = 10;
+            const result = generateOrbitalData(1, 0, 0, Z_H, resolution, 10);
+            expect(result.grid.length).toBe(resolution * resolution * resolution);
+            expect(result.dims).toEqual([resolution, resolution, resolution]);
+        });
+
+        it('should return points with valid density values for 1s orbital', () => {
+            const resolution: number = 11;
+            const rMax: number = 5;
+            const result = generateOrbitalData(1, 0, 0, Z_H, resolution, rMax);
+
+            const { grid, dims, minVal, maxVal } = result;
+            const step: number = (rMax - minVal) / (resolution - 1);
+
+            const centerIndex = Math.floor(dims[0] / 2) * dims[1] * dims[2] + Math.floor(dims[1] / 2) * dims[2] + Math.floor(dims[2] / 2);
+            expect(grid[centerIndex]).toBeDefined();
+            expect(grid[centerIndex]).toBeGreaterThan(0);
+        });
+
+        it('should store the signed wave function alongside the density', () => {
+            const result = generateOrbitalData(2, 1, 0, Z_H, 5, 4); // 2p_z on a 5^3 grid
+            const { grid, psiGrid, dims } = result;
+            const index = (xIdx: number, yIdx: number, zIdx: number) => xIdx * dims[1] * dims[2] + yIdx * dims[2] + zIdx;
+            expect(psiGrid[index(2, 2, 4)]).toBeGreaterThan(0); // +z lobe
+            expect(psiGrid[index(2, 2, 0)]).toBeLessThan(0); // -z lobe
+            expect(psiGrid[index(2, 2, 4)] ** 2).toBeCloseTo(grid[index(2, 2, 4)], 6);
+        });
+
+        it('should throw an error for invalid resolution', () => {
+            expect(() => generateOrbitalData(1, 0, 0, Z_H, 0, 10)).toThrow("Resolution must be a positive integer.");
+        });
+
+        it('should throw an error for invalid rMax', () => {
+            expect(() => generateOrbitalData(1, 0, 0, Z_H, 50, 0)).toThrow("rMax must be a positive number.");
+        });
+    });
+
+    describe('getSuperpositionPotentialFunction function', () => {
+        it('should match getOrbitalPotentialFunction for a single state', () => {
+            const single = getOrbitalPotentialFunction(3, 2, 1, Z_H, 0.0001);
+            const superposition = getSuperpositionPotentialFunction([{ n: 3, l: 2, ml: 1, coefficient: 1 }], Z_H, 0.0001);
+            const [x, y, z] = [1.5, -2, 0.7];
+            expect(superposition(x, y, z).probabilityDensity).toBeCloseTo(single(x, y, z).probabilityDensity, 9);
+            expect(superposition(x, y, z).waveFunctionValue).toBeCloseTo(single(x, y, z).waveFunctionValue, 9);
+        });
+
+        it('should point an sp3 hybrid along (1, 1, 1)', () => {
+            // 2s is negative beyond its node at r = 2, hence the negative s coefficient
+            const sp3 = getSuperpositionPotentialFunction([
+                { n: 2, l: 0, ml: 0, coefficient: -0.5 },
+                { n: 2, l: 1, ml: 1, coefficient: 0.5 },
+                { n: 2, l: 1, ml: -1, coefficient: 0.5 },
+                { n: 2, l: 1, ml: 0, coefficient: 0.5 },
+            ], Z_H, 0);
+            const d = 3 / Math.sqrt(3);
+            const front = sp3(d, d, d).probabilityDensity;
+            expect(front).toBeGreaterThan(sp3(-d, -d, -d).probabilityDensity);
+            expect(front).toBeGreaterThan(sp3(d, -d, -d).probabilityDensity);
+            expect(front).toBeGreaterThan(sp3(0, 0, 3).probabilityDensity);
+        });
+
+        it('should add amplitudes rather than densities', () => {
+            // (2s - 2s) cancels everywhere
+            const cancelled = getSuperpositionPotentialFunction([
+                { n: 2, l: 0, ml: 0, coefficient: 1 },
+                { n: 2, l: 0, ml: 0, coefficient: -1 },
+            ], Z_H, 0);
+            expect(cancelled(1, 1, 1).probabilityDensity).toBeCloseTo(0, 9);
+        });
+
+        it('should set the relative sign of odd positive ml components by the Condon-Shortley option', () => {
+            // |2,1,+1> + |2,1,-1> is 2p_y with the phase and 2p_x without it
+            const components = [
+                { n: 2, l: 1, ml: 1, coefficient: Math.SQRT1_2 },
+                { n: 2, l: 1, ml: -1, coefficient: Math.SQRT1_2 },
+            ];
+            const withPhase = getSuperpositionPotentialFunction(components, Z_H, 0, 'complex');
+            const withoutPhase = getSuperpositionPotentialFunction(components, Z_H, 0, 'complex', 0, false);
+            expect(withPhase(2, 0, 0).probabilityDensity).toBeCloseTo(0, 12);
+            expect(withPhase(0, 2, 0).probabilityDensity).toBeGreaterThan(0);
+            expect(withoutPhase(0, 2, 0).probabilityDensity).toBeCloseTo(0, 12);
+            expect(withoutPhase(2, 0, 0).probabilityDensity).toBeCloseTo(withPhase(0, 2, 0).probabilityDensity, 12);
+        });
+
+        it('should throw an error for an empty superposition', () => {
+            expect(() => getSuperpositionPotentialFunction([], Z_H, 0)).toThrow("A superposition needs at least one component.");
+        });
+    });
+
+    describe('hydrogenicEnergy function', () => {
+        it('should return -Z^2 / (2 n^2) in Hartree', () => {
+            expect(hydrogenicEnergy(1)).toBeCloseTo(-0.5, 9);
+            expect(hydrogenicEnergy(2)).toBeCloseTo(-0.125, 9);
+            expect(hydrogenicEnergy(1, 2)).toBeCloseTo(-2, 9);
+        });
+
+        it('should throw an error for invalid n', () => {
+            expect(() => hydrogenicEnergy(0)).toThrow("Principal quantum number (n) must be a positive integer.");
+        });
+    });
+
+    describe('subshellLabel function', () => {
+        it('should use spectroscopic letters and spell out l beyond them', () => {
+            expect(subshellLabel(1, 0)).toBe('1s');
+            expect(subshellLabel(3, 2)).toBe('3d');
+            expect(subshellLabel(30, 20)).toBe('30(l=20)');
+        });
+    });
+
+    describe('superposition time evolution', () => {
+        // (1s + 2pz) / sqrt(2): the density sloshes between +z and -z
+        const dipole = [
+            { n: 1, l: 0, ml: 0, coefficient: Math.SQRT1_2 },
+            { n: 2, l: 1, ml: 0, coefficient: Math.SQRT1_2 },
+        ];
+        const period = (2 * Math.PI) / (hydrogenicEnergy(2) - hydrogenicEnergy(1));
+
+        it('should leave a stationary state density unchanged over time', () => {
+            const atStart = getSuperpositionPotentialFunction([{ n: 2, l: 1, ml: 0, coefficient: 1 }], Z_H, 0, 'real', 0);
+            const later = getSuperpositionPotentialFunction([{ n: 2, l: 1, ml: 0, coefficient: 1 }], Z_H, 0, 'real', 7.3);
+            expect(later(0.5, 1, 2).probabilityDensity).toBeCloseTo(atStart(0.5, 1, 2).probabilityDensity, 9);
+        });
+
+        it('should move the 1s+2p density from +z to -z over half a beat period', () => {
+            const atStart = getSuperpositionPotentialFunction(dipole, Z_H, 0, 'real', 0);
+            const halfway = getSuperpositionPotentialFunction(dipole, Z_H, 0, 'real', period / 2);
+            expect(atStart(0, 0, 1).probabilityDensity).toBeGreaterThan(atStart(0, 0, -1).probabilityDensity);
+            expect(halfway(0, 0, -1).probabilityDensity).toBeCloseTo(atStart(0, 0, 1).probabilityDensity, 9);
+            expect(halfway(0, 0, 1).probabilityDensity).toBeCloseTo(atStart(0, 0, -1).probabilityDensity, 9);
+            expect(halfway(0, 0, -1).probabilityDensity).toBeGreaterThan(halfway(0, 0, 1).probabilityDensity);
+        });
+
+        it('should return to the initial density after a full beat period', () => {
+            const atStart = getSuperpositionPotentialFunction(dipole, Z_H, 0, 'real', 0);
+            const afterPeriod = getSuperpositionPotentialFunction(dipole, Z_H, 0, 'real', period);
+            expect(afterPeriod(0.3, -0.2, 1.1).probabilityDensity).toBeCloseTo(atStart(0.3, -0.2, 1.1).probabilityDensity, 9);
+        });
+    });
+
+    describe('getSuperpositionGradientFunction function', () => {
+        it('should give ψ and ∇ψ of the evolving superposition', () => {
+            const components = [
+                { n: 2, l: 1, ml: 1, coefficient: 0.6 },
+                { n: 3, l: 2, ml: -1, coefficient: 0.8 },
+            ];
+            const time = 3.7;
+            const potential = getSuperpositionPotentialFunction(components, 2, 0, 'complex', time);
+            const gradient = getSuperpositionGradientFunction(components, 2, 'complex', time);
+            const out = new Float64Array(8);
+            const point = [0.4, -0.9, 0.7];
+            const step = 1e-6;
+
+            const density = gradient(point[0], point[1], point[2], out);
+            const expected = potential(point[0], point[1], point[2]);
+            expect(density).toBeCloseTo(expected.probabilityDensity, 12);
+            expect(out[0]).toBeCloseTo(expected.realPart, 12);
+            expect(out[1]).toBeCloseTo(expected.imaginaryPart, 12);
+            [0, 1, 2].forEach(axis => {
+                const ahead = [...point];
+                const behind = [...point];
+                ahead[axis] += step;
+                behind[axis] -= step;
+                const a = potential(ahead[0], ahead[1], ahead[2]);
+                const b = potential(behind[0], behind[1], behind[2]);
+                expect(out[2 + axis]).toBeCloseTo((a.realPart - b.realPart) / (2 * step), 7);
+                expect(out[5 + axis]).toBeCloseTo((a.imaginaryPart - b.imaginaryPart) / (2 * step), 7);
+            });
+        });
+
+        it('should throw an error for an empty superposition', () => {
+            expect(() => getSuperpositionGradientFunction([], 1)).toThrow("A superposition needs at least one component.");
+        });
+    });
+
+    describe('caches', () => {
+        it('should hold constants per state rather than values per point', () => {
+            getOrbitalPotentialFunction(30, 29, 17, Z_H, 0)(1, 2, 3);
+            const sizes = __getCacheSizes__();
+            generateOrbitalData(30, 29, 17, Z_H, 16, 900);
+            expect(__getCacheSizes__()).toEqual(sizes);
+        });
+    });
+});
@@ -0,0 +1,98 @@
+// tests/radial_analysis.test.ts
+import {
+    sampleRadialCurves,
+    findRadialNodes,
+    findMostProbableRadius,
+    radialExpectationValue,
+    analyticRadialExpectationValues,
+    analyzeRadialFunction
+} from '../src/radial_analysis';
+import { __clearAllCaches__, radialWaveFunction } from '../src/quantum_functions';
+
+describe('Radial Analysis Module', () => {
+    const REL_TOLERANCE = 1e-6;
+    const relativeError = (actual: number, expected: number) => Math.abs(actual - expected) / Math.abs(expected);
+
+    const states: [number, number][] = [[1, 0], [2, 0], [2, 1], [3, 0], [3, 1], [3, 2], [4, 3], [6, 2], [10, 4]];
+
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('sampleRadialCurves function', () => {
+        it('should sample R, R² and r²R² consistently', () => {
+            const curves = sampleRadialCurves(2, 1, 1, 10, 11);
+            expect(curves.r).toHaveLength(11);
+            expect(curves.r[10]).toBeCloseTo(10, 12);
+            curves.r.forEach((r, i) => {
+                expect(curves.R[i]).toBeCloseTo(radialWaveFunction(2, 1, r, 1), 12);
+                expect(curves.R2[i]).toBeCloseTo(curves.R[i] ** 2, 12);
+                expect(curves.P[i]).toBeCloseTo(r * r * curves.R[i] ** 2, 12);
+            });
+        });
+
+        it('should reject fewer than two samples', () => {
+            expect(() => sampleRadialCurves(1, 0, 1, 5, 1)).toThrow();
+        });
+    });
+
+    describe('findRadialNodes function', () => {
+        it.each(states)('should find n - l - 1 nodes for n=%i, l=%i', (n, l) => {
+            const nodes = findRadialNodes(n, l);
+            expect(nodes).toHaveLength(n - l - 1);
+            nodes.forEach(node => expect(Math.abs(radialWaveFunction(n, l, node))).toBeLessThan(1e-10));
+        });
+
+        it('should match the closed-form node positions', () => {
+            // 2s: r = 2/Z; 3s: r = (9 ± 3√3)/2Z; 3p: r = 6/Z
+            expect(findRadialNodes(2, 0, 1)[0]).toBeCloseTo(2, 9);
+            expect(findRadialNodes(2, 0, 3)[0]).toBeCloseTo(2 / 3, 9);
+            const [inner, outer] = findRadialNodes(3, 0);
+            expect(inner).toBeCloseTo((9 - 3 * Math.sqrt(3)) / 2, 9);
+            expect(outer).toBeCloseTo((9 + 3 * Math.sqrt(3)) / 2, 9);
+            expect(findRadialNodes(3, 1)[0]).toBeCloseTo(6, 9);
+        });
+    });
+
+    describe('findMostProbableRadius function', () => {
+        it('should give n²/Z for nodeless states (l = n - 1)', () => {
+            expect(findMostProbableRadius(1, 0, 1)).toBeCloseTo(1, 6);
+            expect(findMostProbableRadius(2, 1, 1)).toBeCloseTo(4, 6);
+            expect(findMostProbableRadius(3, 2, 2)).toBeCloseTo(4.5, 6);
+            expect(findMostProbableRadius(4, 3, 1)).toBeCloseTo(16, 6);
+        });
+
+        it('should pick the outermost, largest lobe of 2s', () => {
+            // Stationary points of r²R² for 2s are at r = 3 ± √5
+            expect(findMostProbableRadius(2, 0, 1)).toBeCloseTo(3 + Math.sqrt(5), 6);
+        });
+    });
+
+    describe('radialExpectationValue function', () => {
+        it.each(states)('should match the closed forms for n=%i, l=%i', (n, l) => {
+            [1, 2, 3].forEach(Z => {
+                const analytic = analyticRadialExpectationValues(n, l, Z);
+                expect(relativeError(radialExpectationValue(n, l, Z, 0), 1)).toBeLessThan(REL_TOLERANCE);
+                expect(relativeError(radialExpectationValue(n, l, Z, 1), analytic.r)).toBeLessThan(REL_TOLERANCE);
+                expect(relativeError(radialExpectationValue(n, l, Z, 2), analytic.r2)).toBeLessThan(REL_TOLERANCE);
+                expect(relativeError(radialExpectationValue(n, l, Z, -1), analytic.inverseR)).toBeLessThan(REL_TOLERANCE);
+            });
+        });
+
+        it('should reject divergent moments', () => {
+            expect(() => radialExpectationValue(1, 0, 1, -3)).toThrow();
+        });
+    });
+
+    describe('analyzeRadialFunction function', () => {
+        it('should collect nodes, the most probable radius and expectation values', () => {
+            const analysis = analyzeRadialFunction(3, 1, 1);
+            expect(analysis.nodes).toHaveLength(1);
+            expect(analysis.mostProbableRadius).toBeGreaterThan(analysis.nodes[0]);
+            expect(analysis.expectation.r.analytic).toBe(12.5);
+            expect(analysis.expectation.r2.analytic).toBe(180);
+            expect(analysis.expectation.inverseR.analytic).toBeCloseTo(1 / 9, 12);
+            expect(relativeError(analysis.expectation.r.numeric, 12.5)).toBeLessThan(REL_TOLERANCE);
+        });
+    });
+});
@@ -0,0 +1,91 @@
+// tests/scenes.test.ts
+import {
+    migrateSceneCollection,
+    parseSceneCollection,
+    serializeSceneCollection,
+    readSceneFile,
+    loadScenes,
+    saveScenes,
+    SceneMigration,
+    SCENES_SCHEMA_VERSION,
+    SCENES_STORAGE_KEY
+} from '../src/scenes';
+import { Scene } from '../src/types/orbital';
+
+describe('Scenes Module', () => {
+    const scenes: Scene[] = [
+        { id: 'a', name: '3d_z²', view: 'n=3&l=2&ml=0&Z=1&res=64&rMax=20&iso=0.001&nodal=1' },
+        { id: 'b', name: 'sp³ lobe', view: 'n=2&l=0&ml=0&Z=1&res=32&rMax=12&iso=0.001&psi=2,0,0,0.5;2,1,0,0.866' },
+    ];
+
+    // Minimal in-memory Storage
+    const createStorage = (initial: Record<string, string> = {}): Storage => {
+        const items = new Map(Object.entries(initial));
+        return {
+            get length() { return items.size; },
+            clear: () => items.clear(),
+            getItem: (key: string) => items.get(key) ?? null,
+            key: (index: number) => Array.from(items.keys())[index] ?? null,
+            removeItem: (key: string) => { items.delete(key); },
+            setItem: (key: string, value: string) => { items.set(key, value); },
+        };
+    };
+
+    describe('migrateSceneCollection function', () => {
+        // A hypothetical version 2 that renamed "items" to "scenes"
+        const migrations: Record<number, SceneMigration> = {
+            1: ({ items, ...rest }) => ({ ...rest, scenes: items }),
+        };
+
+        it('should apply migrations in order up to the target version', () => {
+            const migrated = migrateSceneCollection({ version: 1, items: scenes }, migrations, 2);
+            expect(migrated).toEqual({ version: 2, scenes });
+        });
+
+        it('should reject missing, unknown and future versions', () => {
+            expect(() => migrateSceneCollection({ scenes })).toThrow(/no valid schema version/);
+            expect(() => migrateSceneCollection([])).toThrow(/JSON object/);
+            expect(() => migrateSceneCollection({ version: SCENES_SCHEMA_VERSION + 1, scenes })).toThrow(/newer than this app/);
+            expect(() => migrateSceneCollection({ version: 1, items: scenes }, {}, 2)).toThrow(/No migration from scene file version 1/);
+        });
+    });
+
+    describe('parseSceneCollection function', () => {
+        it('should round-trip a serialised collection', () => {
+            const text = serializeSceneCollection(scenes);
+            expect(JSON.parse(text).version).toBe(SCENES_SCHEMA_VERSION);
+            expect(readSceneFile(text)).toEqual(scenes);
+        });
+
+        it('should name the first invalid scene', () => {
+            const parse = (entries: unknown[]) => () => parseSceneCollection({ version: SCENES_SCHEMA_VERSION, scenes: entries });
+            expect(parse([scenes[0], null])).toThrow(/Scene 2 is not an object/);
+            expect(parse([scenes[0], { ...scenes[1], id: 'a' }])).toThrow(/Scene 2 needs a unique id/);
+            expect(parse([{ ...scenes[0], name: '  ' }])).toThrow(/Scene 1 needs a name/);
+            expect(parse([{ ...scenes[0], view: 'n=2&l=2&ml=0&Z=1&res=64&rMax=20&iso=0.001' }]))
+                .toThrow(/Scene 1 \("3d_z²"\) is invalid: .*l must be an integer between 0 and n-1/);
+            expect(parse([{ ...scenes[0], view: 'utm_source=mail' }])).toThrow(/does not describe an orbital/);
+            expect(() => parseSceneCollection({ version: SCENES_SCHEMA_VERSION })).toThrow(/"scenes" array/);
+            expect(() => readSceneFile('{ not json')).toThrow(/not valid JSON/);
+        });
+    });
+
+    describe('storage', () => {
+        it('should save and load scenes', () => {
+            const storage = createStorage();
+            saveScenes(storage, scenes);
+            expect(loadScenes(storage)).toEqual(scenes);
+            expect(loadScenes(createStorage())).toEqual([]);
+            expect(loadScenes(null)).toEqual([]);
+        });
+
+        it('should move a corrupt collection aside instead of failing', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+            const storage = createStorage({ [SCENES_STORAGE_KEY]: '{"version": 1, "scenes": [42]}' });
+            expect(loadScenes(storage)).toEqual([]);
+            expect(storage.getItem(SCENES_STORAGE_KEY)).toBeNull();
+            expect(storage.getItem(`${SCENES_STORAGE_KEY}.corrupt`)).toBe('{"version": 1, "scenes": [42]}');
+            warn.mockRestore();
+        });
+    });
+});
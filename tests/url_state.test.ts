@@ -0,0 +1,108 @@
+// tests/url_state.test.ts
+import { decodeUrlState, encodeUrlState, UrlState } from '../src/url_state';
+import { defaultTransferFunction, transferFunctionRamps } from '../src/volume_rendering';
+import { ColorStop } from '../src/types/orbital';
+
+describe('URL State Module', () => {
+    const baseState: UrlState = {
+        params: { n: 3, l: 2, ml: -1, Z: 1, resolution: 64, rMax: 21.25, isoLevel: 0.0005 },
+        showNodalSurfaces: false,
+        slicePlane: null,
+        camera: null,
+    };
+
+    describe('encodeUrlState function', () => {
+        it('should write only the parameters that are set', () => {
+            expect(encodeUrlState(baseState)).toBe('n=3&l=2&ml=-1&Z=1&res=64&rMax=21.25&iso=0.0005');
+        });
+
+        it('should round the camera and name known colour ramps', () => {
+            const query = new URLSearchParams(encodeUrlState({
+                ...baseState,
+                params: { ...baseState.params, renderMode: 'volume', transferFunction: defaultTransferFunction },
+                camera: { position: [1.23456, 0, 12], target: [0, 0, -0.0004] },
+            }));
+            expect(query.get('cam')).toBe('1.235,0,12,0,0,0');
+            expect(JSON.parse(query.get('tf')!).stops).toBe('fire');
+        });
+    });
+
+    describe('decodeUrlState function', () => {
+        it('should round-trip every parameter', () => {
+            const state: UrlState = {
+                params: {
+                    ...baseState.params,
+                    enclosedProbability: 0.85,
+                    basis: 'complex',
+                    condonShortleyPhase: false,
+                    components: [{ n: 2, l: 1, ml: 1, coefficient: 0.6 }, { n: 3, l: 2, ml: -2, coefficient: -0.8 }],
+                    time: 12.5,
+                    frameCount: 48,
+                    renderMode: 'points',
+                    extraction: 'adaptive',
+                    computeBackend: 'js',
+                    transferFunction: { ...defaultTransferFunction, stops: transferFunctionRamps.ice, logScale: false },
+                    pointCount: 30000,
+                    sampleSeed: 4000000000,
+                },
+                showNodalSurfaces: true,
+                slicePlane: { normal: [0, 1, 0], offset: -2.5 },
+                camera: { position: [3, 4, 12], target: [0, 0, 1] },
+            };
+            const decoded = decodeUrlState(`?${encodeUrlState(state)}`);
+            expect(decoded).toEqual(state);
+            expect(decoded!.params.transferFunction!.stops).toBe(transferFunctionRamps.ice);
+        });
+
+        it('should keep edited colour ramps', () => {
+            const stops: ColorStop[] = [{ position: 0, color: [0, 0, 0], opacity: 0 }, { position: 1, color: [0, 1, 0], opacity: 0.5 }];
+            const params = { ...baseState.params, transferFunction: { ...defaultTransferFunction, stops } };
+            expect(decodeUrlState(encodeUrlState({ ...baseState, params }))!.params.transferFunction!.stops).toEqual(stops);
+        });
+
+        it('should return null without an orbital', () => {
+            expect(decodeUrlState('')).toBeNull();
+            expect(decodeUrlState('?utm_source=mail')).toBeNull();
+        });
+
+        it('should enforce the quantum-number rules', () => {
+            expect(() => decodeUrlState('?n=2&l=2&ml=0&Z=1&res=64&rMax=10&iso=0.001')).toThrow(/"l" is "2"; l must be an integer between 0 and n-1/);
+            expect(() => decodeUrlState('?n=3&l=1&ml=2&Z=1&res=64&rMax=10&iso=0.001')).toThrow(/m_l must be/);
+            expect(() => decodeUrlState('?n=0&l=0&ml=0&Z=1&res=64&rMax=10&iso=0.001')).toThrow(/"n" is "0"/);
+            expect(() => decodeUrlState('?n=1.5&l=0&ml=0&Z=1&res=64&rMax=10&iso=0.001')).toThrow(/"n"/);
+            expect(decodeUrlState('?n=30&l=29&ml=-29&Z=1&res=64&rMax=2100&iso=1e-9')?.params.n).toBe(30);
+            expect(() => decodeUrlState('?n=31&l=0&ml=0&Z=1&res=64&rMax=2100&iso=1e-9')).toThrow(/"n" is "31"/);
+            expect(() => decodeUrlState('?n=1&l=0&ml=0&Z=1&res=64&rMax=10&iso=0.001&psi=1,0,0,1;2,2,0,1')).toThrow(/component 2: l must be/);
+        });
+
+        it('should reject missing and out-of-range parameters', () => {
+            const valid = 'n=1&l=0&ml=0&Z=1&res=64&rMax=10&iso=0.001';
+            expect(decodeUrlState(`?${valid}`)).not.toBeNull();
+            expect(() => decodeUrlState('?n=1&l=0&ml=0&Z=1&res=64&iso=0.001')).toThrow(/"rMax" is missing/);
+            expect(() => decodeUrlState(`?${valid}&res=50`.replace('res=64&', ''))).toThrow(/res must be one of/);
+            expect(() => decodeUrlState(`?${valid}&mode=wireframe`)).toThrow(/"mode" is "wireframe"/);
+            expect(() => decodeUrlState(`?${valid}&ext=octree`)).toThrow(/"ext" is "octree"/);
+            expect(() => decodeUrlState(`?${valid}&backend=gpu`)).toThrow(/"backend" is "gpu"/);
+            expect(() => decodeUrlState(`?${valid}&cs=yes`)).toThrow(/"cs" is "yes"/);
+            expect(() => decodeUrlState(`?${valid}&enc=1.5`)).toThrow(/enc must be/);
+            expect(() => decodeUrlState(`?${valid}&enc=1`)).toThrow(/enc must be in \(0, 1\)/);
+            expect(() => decodeUrlState(`?${valid}&cam=1,2,3`)).toThrow(/"cam" must be 6/);
+            expect(() => decodeUrlState(`?${valid}&slice=0,0,0,1`)).toThrow(/non-zero normal/);
+            expect(() => decodeUrlState(`?${valid}&tf=%7Bnot%20json`)).toThrow(/"tf" is not a valid/);
+            expect(() => decodeUrlState(`?${valid}&tf=${encodeURIComponent(JSON.stringify({ stops: 'lava' }))}`)).toThrow(/"tf"/);
+        });
+
+        it('should not take inherited properties for named ramps', () => {
+            const valid = 'n=1&l=0&ml=0&Z=1&res=64&rMax=10&iso=0.001';
+            ['constructor', 'toString', '__proto__'].forEach(name => {
+                const tf = encodeURIComponent(JSON.stringify({ ...defaultTransferFunction, stops: name }));
+                expect(() => decodeUrlState(`?${valid}&tf=${tf}`)).toThrow(/"tf" is not a valid/);
+            });
+        });
+
+        it('should normalise the slice normal', () => {
+            const decoded = decodeUrlState('?n=1&l=0&ml=0&Z=1&res=64&rMax=10&iso=0.001&slice=0,0,2,1.5');
+            expect(decoded!.slicePlane).toEqual({ normal: [0, 0, 1], offset: 1.5 });
+        });
+    });
+});
@@ -0,0 +1,116 @@
+// tests/volume_export.test.ts
+import {
+    writeCube,
+    readCube,
+    writeRawVolume,
+    readRawVolume,
+    writeNrrd,
+    readNrrd,
+    exportVolume
+} from '../src/volume_export';
+import { __clearAllCaches__, generateOrbitalData, getOrbitalPotentialFunction } from '../src/quantum_functions';
+import { OrbitalData, OrbitalParams } from '../src/types/orbital';
+
+describe('Volume Export Module', () => {
+    const params: OrbitalParams = { n: 2, l: 1, ml: 0, Z: 2, resolution: 9, rMax: 4, isoLevel: 0.001 };
+    let data: OrbitalData;
+
+    // Values are written with six significant figures
+    const expectValuesClose = (actual: ArrayLike<number>, expected: ArrayLike<number>, relative: number) => {
+        expect(actual.length).toBe(expected.length);
+        for (let i = 0; i < expected.length; i++) {
+            expect(Math.abs(actual[i] - expected[i])).toBeLessThanOrEqual(relative * Math.abs(expected[i]) + 1e-30);
+        }
+    };
+
+    beforeEach(() => {
+        data = generateOrbitalData(2, 1, 0, 2, 9, 4);
+    });
+
+    afterEach(() => {
+        __clearAllCaches__();
+    });
+
+    describe('cube files', () => {
+        it('should encode the origin, voxel spacing and a dummy nucleus of charge Z', () => {
+            const cube = readCube(writeCube(data, 'density', params));
+            expect(cube.origin).toEqual([-4, -4, -4]);
+            expect(cube.dims).toEqual([9, 9, 9]);
+            expect(cube.axes).toEqual([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
+            expect(cube.atoms).toEqual([{ atomicNumber: 2, charge: 2, position: [0, 0, 0] }]);
+            expect(cube.comments[1]).toBe('n=2 l=1 ml=0 Z=2 basis=real t=0');
+        });
+
+        it('should round-trip ψ and |ψ|² with z varying fastest', () => {
+            const psiCube = readCube(writeCube(data, 'psi', params));
+            expectValuesClose(psiCube.values, data.psiGrid, 1e-5);
+            expectValuesClose(readCube(writeCube(data, 'density', params)).values, data.grid, 1e-5);
+
+            // Point (i, j, k) sits at origin + i a + j b + k c
+            const fn = getOrbitalPotentialFunction(2, 1, 0, 2, 0);
+            const [i, j, k] = [3, 5, 7];
+            const value = psiCube.values[(i * 9 + j) * 9 + k];
+            expect(value).toBeCloseTo(fn(-4 + i, -4 + j, -4 + k).waveFunctionValue, 5);
+            expect(value).toBeGreaterThan(0); // z > 0 lobe of 2p_z
+        });
+
+        it('should write six values per line and start each z-column on a new line', () => {
+            const lines = writeCube(data, 'psi', params).trimEnd().split('\n');
+            const dataLines = lines.slice(7);
+            expect(dataLines).toHaveLength(9 * 9 * 2); // 9 values per column: a line of 6 and a line of 3
+            expect(dataLines[0]).toMatch(/^( *-?\d\.\d{5}E[+-]\d{2}){6}$/);
+            expect(dataLines[1].trim().split(/\s+/)).toHaveLength(3);
+        });
+
+        it('should convert Ångström headers and skip orbital indices', () => {
+            const text = [
+                'comment', 'comment',
+                '   -1    0.000000    0.000000    0.000000',
+                '   -2    1.000000    0.000000    0.000000',
+                '   -1    0.000000    1.000000    0.000000',
+                '   -1    0.000000    0.000000    1.000000',
+                '    1    1.000000    0.529177    0.000000    0.000000',
+                '    2    5    6',
+                ' 1.0E+00 9.0E+00 2.0E+00 9.0E+00',
+            ].join('\n');
+            const cube = readCube(text);
+            expect(cube.dims).toEqual([2, 1, 1]);
+            expect(cube.axes[0][0]).toBeCloseTo(1.8897261, 6);
+            expect(cube.atoms[0].position[0]).toBeCloseTo(1, 5);
+            expect(Array.from(cube.values)).toEqual([1, 2]); // First of the two orbitals at each point
+        });
+
+        it('should reject truncated and malformed files', () => {
+            const text = writeCube(data, 'psi', params);
+            expect(() => readCube(text.slice(0, text.length / 2))).toThrow();
+            expect(() => readCube(text.replace(/E-0/, 'X-0'))).toThrow();
+            expect(() => readCube('too\nshort')).toThrow();
+        });
+    });
+
+    describe('raw and NRRD files', () => {
+        it('should round-trip raw float32 data through its JSON header', () => {
+            const raw = writeRawVolume(data, 'psi', params);
+            const header = JSON.parse(JSON.stringify(raw.header));
+            expect(header).toMatchObject({ dims: [9, 9, 9], origin: [-4, -4, -4], spacing: 1, units: 'bohr', quantity: 'psi' });
+            expect(header.orbital).toMatchObject({ n: 2, l: 1, ml: 0, Z: 2 });
+            expect(Array.from(readRawVolume(header, raw.data))).toEqual(Array.from(data.psiGrid));
+            expect(() => readRawVolume(header, raw.data.slice(4))).toThrow();
+        });
+
+        it('should round-trip NRRD with the fastest axis first', () => {
+            const nrrd = readNrrd(writeNrrd(data, 'density', params));
+            expect(nrrd.sizes).toEqual([9, 9, 9]);
+            expect(nrrd.spaceDirections).toEqual([[0, 0, 1], [0, 1, 0], [1, 0, 0]]);
+            expect(nrrd.spaceOrigin).toEqual([-4, -4, -4]);
+            expect(Array.from(nrrd.values)).toEqual(Array.from(data.grid));
+            expect(() => readNrrd(new ArrayBuffer(8))).toThrow();
+        });
+
+        it('should name the files of each format', () => {
+            expect(exportVolume(data, 'psi', 'cube', params).map(file => file.extension)).toEqual(['cube']);
+            expect(exportVolume(data, 'psi', 'raw', params).map(file => file.extension)).toEqual(['raw', 'json']);
+            expect(exportVolume(data, 'psi', 'nrrd', params).map(file => file.extension)).toEqual(['nrrd']);
+        });
+    });
+});
@@ -0,0 +1,108 @@
+// tests/volume_rendering.test.ts
+import {
+    defaultTransferFunction,
+    normalizeDensity,
+    sampleColorRamp,
+    evaluateTransferFunction,
+    gridIndexToTextureIndex,
+    buildVolumeTextureData
+} from '../src/volume_rendering';
+import { generateOrbitalData } from '../src/quantum_functions';
+import { ColorStop, OrbitalData, TransferFunction } from '../src/types/orbital';
+
+describe('Volume Rendering Module', () => {
+    const linear: TransferFunction = { ...defaultTransferFunction, logScale: false };
+    const greyStops: ColorStop[] = [
+        { position: 0, color: [0, 0, 0], opacity: 0 },
+        { position: 1, color: [1, 1, 1], opacity: 1 },
+    ];
+
+    describe('normalizeDensity function', () => {
+        it('should map linearly onto [0, 1] without a log scale', () => {
+            expect(normalizeDensity(0.5, 2, linear)).toBeCloseTo(0.25, 9);
+            expect(normalizeDensity(2, 2, linear)).toBeCloseTo(1, 9);
+            expect(normalizeDensity(0, 2, linear)).toBe(0);
+        });
+
+        it('should map the chosen number of decades onto [0, 1] with a log scale', () => {
+            const log: TransferFunction = { ...defaultTransferFunction, logScale: true, logDecades: 4 };
+            expect(normalizeDensity(1, 1, log)).toBeCloseTo(1, 9);
+            expect(normalizeDensity(0.01, 1, log)).toBeCloseTo(0.5, 9);
+            expect(normalizeDensity(1e-6, 1, log)).toBe(0);
+        });
+
+        it('should return 0 for an empty grid', () => {
+            expect(normalizeDensity(0.3, 0, linear)).toBe(0);
+        });
+    });
+
+    describe('sampleColorRamp function', () => {
+        it('should interpolate between stops', () => {
+            const [r, g, b, a] = sampleColorRamp(greyStops, 0.25);
+            expect(r).toBeCloseTo(0.25, 9);
+            expect(g).toBeCloseTo(0.25, 9);
+            expect(b).toBeCloseTo(0.25, 9);
+            expect(a).toBeCloseTo(0.25, 9);
+        });
+
+        it('should clamp outside the ramp', () => {
+            expect(sampleColorRamp(greyStops, -1)).toEqual([0, 0, 0, 0]);
+            expect(sampleColorRamp(greyStops, 2)).toEqual([1, 1, 1, 1]);
+        });
+
+        it('should throw an error for an empty ramp', () => {
+            expect(() => sampleColorRamp([], 0.5)).toThrow("Transfer function needs at least one colour stop.");
+        });
+    });
+
+    describe('evaluateTransferFunction function', () => {
+        const tf: TransferFunction = { ...linear, stops: greyStops, opacityScale: 0.5 };
+
+        it('should scale the ramp opacity', () => {
+            expect(evaluateTransferFunction(1, 1, 1, tf)[3]).toBeCloseTo(0.5, 9);
+        });
+
+        it('should colour by the sign of psi when sign-aware', () => {
+            const signAware: TransferFunction = { ...tf, signAware: true };
+            const positive = evaluateTransferFunction(1, 0.3, 1, signAware);
+            const negative = evaluateTransferFunction(1, -0.3, 1, signAware);
+            expect(positive.slice(0, 3)).toEqual([1, 0, 0]);
+            expect(negative.slice(0, 3)).toEqual([0, 0, 1]);
+            expect(negative[3]).toBeCloseTo(positive[3], 9);
+        });
+    });
+
+    describe('buildVolumeTextureData function', () => {
+        it('should reorder the x-major grid into x-fastest RGBA texels', () => {
+            // 2 x 3 x 4 grid whose density encodes its own grid index
+            const dims: [number, number, number] = [2, 3, 4];
+            const count = dims[0] * dims[1] * dims[2];
+            const grid = Float32Array.from({ length: count }, (_, i) => i + 1);
+            const data: OrbitalData = {
+                grid,
+                psiGrid: new Float32Array(count).fill(1),
+                dims,
+                maxDensity: count,
+                minVal: -1,
+                maxVal: 1
+            };
+            const texels = buildVolumeTextureData(data, { ...linear, stops: greyStops, opacityScale: 1 });
+            expect(texels.length).toBe(count * 4);
+
+            const [xIdx, yIdx, zIdx] = [1, 2, 3];
+            const gridIndex = xIdx * dims[1] * dims[2] + yIdx * dims[2] + zIdx;
+            const texelIndex = gridIndexToTextureIndex(xIdx, yIdx, zIdx, dims);
+            expect(texelIndex).toBe(1 + 2 * 2 + 3 * 2 * 3);
+            expect(texels[texelIndex * 4 + 3]).toBe(Math.round((grid[gridIndex] / count) * 255));
+        });
+
+        it('should produce an opaque centre and transparent corners for the 1s orbital', () => {
+            const data = generateOrbitalData(1, 0, 0, 1, 9, 8);
+            const texels = buildVolumeTextureData(data, defaultTransferFunction);
+            const centre = gridIndexToTextureIndex(4, 4, 4, data.dims) * 4;
+            const corner = gridIndexToTextureIndex(0, 0, 0, data.dims) * 4;
+            expect(texels[centre + 3]).toBeGreaterThan(0);
+            expect(texels[corner + 3]).toBe(0);
+        });
+    });
+});
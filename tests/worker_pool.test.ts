@@ -0,0 +1,239 @@
+// tests/worker_pool.test.ts
+import {
+    chainJobs,
+    combineJobs,
+    createWorkerPool,
+    DEFAULT_JOB_TIMEOUT_MS,
+    getDefaultPoolSize,
+    isJobCancelled,
+    PoolWorker
+} from '../src/worker_pool';
+
+// Records what it is sent; replies only when a test tells it to
+class FakeWorker implements PoolWorker {
+    messages: { jobId: number; [key: string]: unknown }[] = [];
+    transfers: (Transferable[] | undefined)[] = [];
+    isTerminated = false;
+    onmessage: ((event: MessageEvent) => void) | null = null;
+    onerror: ((event: ErrorEvent) => void) | null = null;
+
+    postMessage(message: unknown, transfer?: Transferable[]) {
+        this.messages.push(message as { jobId: number });
+        this.transfers.push(transfer);
+    }
+
+    terminate() {
+        this.isTerminated = true;
+    }
+
+    get lastJobId(): number {
+        return this.messages[this.messages.length - 1].jobId;
+    }
+
+    reply(data: object) {
+        this.onmessage?.({ data } as MessageEvent);
+    }
+}
+
+describe('Worker Pool Module', () => {
+    let workers: FakeWorker[];
+    const createWorker = () => {
+        const worker = new FakeWorker();
+        workers.push(worker);
+        return worker;
+    };
+
+    beforeEach(() => {
+        workers = [];
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    describe('createWorkerPool function', () => {
+        it('should tag the request with a job id and resolve with the final reply', async () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const progress: number[] = [];
+            const job = pool.run<{ type: string }>({ type: 'calculate' }, { onProgress: p => progress.push(p) });
+
+            expect(workers[0].messages).toEqual([{ type: 'calculate', jobId: job.id }]);
+            workers[0].reply({ type: 'progress', jobId: job.id, progress: 0.25 });
+            workers[0].reply({ type: 'progress', jobId: job.id, progress: 0.5 });
+            workers[0].reply({ type: 'success', jobId: job.id });
+
+            await expect(job.result).resolves.toEqual({ type: 'success', jobId: job.id });
+            expect(progress).toEqual([0.25, 0.5]);
+        });
+
+        it('should transfer the buffers it is given with the request', () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const buffer = new ArrayBuffer(8);
+            pool.run({ type: 'calculate' }, { transfer: [buffer] });
+            pool.run({ type: 'calculate' });
+            workers[0].reply({ type: 'success', jobId: workers[0].lastJobId });
+            expect(workers[0].transfers).toEqual([[buffer], []]);
+        });
+
+        it('should keep its workers for later jobs', async () => {
+            const pool = createWorkerPool(createWorker, 2);
+            const first = pool.run({ type: 'a' });
+            workers[0].reply({ type: 'done', jobId: first.id });
+            await first.result;
+
+            const second = pool.run({ type: 'b' });
+            expect(workers).toHaveLength(1);
+            expect(workers[0].lastJobId).toBe(second.id);
+        });
+
+        it('should run at most size jobs at once and start queued ones by priority', async () => {
+            const pool = createWorkerPool(createWorker, 2);
+            const running = [pool.run({ type: 'a' }), pool.run({ type: 'b' })];
+            const low = pool.run({ type: 'low' }, { priority: 'low' });
+            const normal = pool.run({ type: 'normal' });
+            const high = pool.run({ type: 'high' }, { priority: 'high' });
+            expect(workers).toHaveLength(2);
+
+            workers[0].reply({ type: 'done', jobId: running[0].id });
+            expect(workers[0].lastJobId).toBe(high.id);
+            workers[1].reply({ type: 'done', jobId: running[1].id });
+            expect(workers[1].lastJobId).toBe(normal.id);
+            workers[0].reply({ type: 'done', jobId: high.id });
+            expect(workers[0].lastJobId).toBe(low.id);
+            await Promise.all([...running, high].map(job => job.result));
+        });
+
+        it('should drop a cancelled job from the queue', async () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const running = pool.run({ type: 'a' });
+            const queued = pool.run({ type: 'b' });
+            queued.cancel();
+            expect(isJobCancelled(await queued.result.catch(error => error))).toBe(true);
+
+            workers[0].reply({ type: 'done', jobId: running.id });
+            await running.result;
+            expect(workers[0].messages.map(m => m.type)).toEqual(['a']);
+        });
+
+        it('should terminate the worker of a cancelled running job and ignore its late reply', async () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const stale = pool.run({ type: 'a' });
+            const staleWorker = workers[0];
+            stale.cancel();
+            const fresh = pool.run({ type: 'b' });
+
+            expect(staleWorker.isTerminated).toBe(true);
+            staleWorker.reply({ type: 'done', jobId: stale.id });
+            expect(isJobCancelled(await stale.result.catch(error => error))).toBe(true);
+
+            expect(workers).toHaveLength(2);
+            workers[1].reply({ type: 'done', jobId: fresh.id });
+            await expect(fresh.result).resolves.toEqual({ type: 'done', jobId: fresh.id });
+        });
+
+        it('should ignore replies for other jobs', () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const job = pool.run({ type: 'a' });
+            const onSettled = jest.fn();
+            job.result.then(onSettled, onSettled);
+            workers[0].reply({ type: 'done', jobId: job.id + 100 });
+            return Promise.resolve().then(() => expect(onSettled).not.toHaveBeenCalled());
+        });
+
+        it('should time out a job that runs too long and replace its worker', async () => {
+            jest.useFakeTimers();
+            const pool = createWorkerPool(createWorker, 1);
+            const slow = pool.run({ type: 'a' });
+            const next = pool.run({ type: 'b' }, { timeoutMs: 500 });
+
+            jest.advanceTimersByTime(DEFAULT_JOB_TIMEOUT_MS);
+            await expect(slow.result).rejects.toThrow(/timed out after 120 s/);
+            expect(workers[0].isTerminated).toBe(true);
+            expect(workers[1].lastJobId).toBe(next.id);
+
+            jest.advanceTimersByTime(499);
+            workers[1].reply({ type: 'done', jobId: next.id });
+            await expect(next.result).resolves.toEqual({ type: 'done', jobId: next.id });
+        });
+
+        it('should reject the job of a worker that crashes', async () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const job = pool.run({ type: 'a' });
+            workers[0].onerror?.({ message: 'out of memory' } as ErrorEvent);
+            await expect(job.result).rejects.toThrow('Worker failed: out of memory');
+            expect(workers[0].isTerminated).toBe(true);
+        });
+
+        it('should cancel every job when disposed', async () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const jobs = [pool.run({ type: 'a' }), pool.run({ type: 'b' })];
+            pool.dispose();
+            const errors = await Promise.all(jobs.map(job => job.result.catch(error => error)));
+            expect(errors.every(isJobCancelled)).toBe(true);
+            expect(workers[0].isTerminated).toBe(true);
+            await expect(pool.run({ type: 'c' }).result).rejects.toThrow(/disposed/);
+        });
+
+        it('should reject invalid sizes', () => {
+            expect(createWorkerPool(createWorker, 3).size).toBe(3);
+            expect(() => createWorkerPool(createWorker, 0)).toThrow("Worker pool size must be a positive integer.");
+        });
+    });
+
+    describe('chainJobs function', () => {
+        it('should run the second job on the result of the first', async () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const job = chainJobs(
+                pool.run<{ value: number }>({ type: 'first' }),
+                ({ value }) => pool.run<{ value: number }>({ type: 'second', value })
+            );
+            workers[0].reply({ type: 'done', jobId: workers[0].lastJobId, value: 2 });
+            await Promise.resolve();
+            expect(workers[0].messages[1]).toMatchObject({ type: 'second', value: 2 });
+            workers[0].reply({ type: 'done', jobId: workers[0].lastJobId, value: 3 });
+            await expect(job.result).resolves.toMatchObject({ value: 3 });
+        });
+
+        it('should cancel whichever job is running', async () => {
+            const pool = createWorkerPool(createWorker, 1);
+            const first = pool.run({ type: 'first' });
+            const next = jest.fn(() => pool.run({ type: 'second' }));
+            const job = chainJobs(first, next);
+            workers[0].reply({ type: 'done', jobId: first.id });
+            job.cancel(); // Before the second job has started
+            expect(isJobCancelled(await job.result.catch(error => error))).toBe(true);
+            expect(next).toHaveBeenCalledTimes(1);
+            expect(workers[0].messages[1]).toMatchObject({ type: 'second' });
+            expect(workers[0].isTerminated).toBe(true);
+        });
+    });
+
+    describe('combineJobs function', () => {
+        it('should resolve with every result in order', async () => {
+            const pool = createWorkerPool(createWorker, 2);
+            const job = combineJobs([pool.run({ type: 'a' }), pool.run({ type: 'b' })]);
+            workers[1].reply({ type: 'b', jobId: workers[1].lastJobId });
+            workers[0].reply({ type: 'a', jobId: workers[0].lastJobId });
+            await expect(job.result).resolves.toMatchObject([{ type: 'a' }, { type: 'b' }]);
+        });
+
+        it('should cancel the other jobs when one fails', async () => {
+            const pool = createWorkerPool(createWorker, 2);
+            const jobs = [pool.run({ type: 'a' }), pool.run({ type: 'b' })];
+            const job = combineJobs(jobs);
+            workers[0].onerror?.({ message: 'out of memory' } as ErrorEvent);
+            await expect(job.result).rejects.toThrow('out of memory');
+            expect(isJobCancelled(await jobs[1].result.catch(error => error))).toBe(true);
+            expect(workers[1].isTerminated).toBe(true);
+        });
+    });
+
+    describe('getDefaultPoolSize function', () => {
+        it('should leave a core free and stay within bounds', () => {
+            expect(getDefaultPoolSize(1)).toBe(1);
+            expect(getDefaultPoolSize(4)).toBe(3);
+            expect(getDefaultPoolSize(32)).toBe(4);
+            expect(getDefaultPoolSize(undefined)).toBe(1);
+        });
+    });
+});
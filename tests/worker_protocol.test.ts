@@ -0,0 +1,91 @@
+// tests/worker_protocol.test.ts
+import {
+    createWorkerRequest,
+    expectWorkerResult,
+    getReplyTransferables,
+    getRequestTransferables,
+    WORKER_PROTOCOL_VERSION,
+    WorkerResult
+} from '../src/worker_protocol';
+import { createMeshData } from '../src/mesh_data';
+
+describe('Worker Protocol Module', () => {
+    const params = { n: 2, l: 1, ml: 0, Z: 1, resolution: 4, rMax: 10, isoLevel: 0.001 };
+    const header = { version: WORKER_PROTOCOL_VERSION, jobId: 7 };
+    const surfaceInfo = { isoLevel: 0.001, enclosedFraction: 0.9 };
+    const createMesh = () => createMeshData([[0, 0, 0], [1, 0, 0], [0, 1, 0]], [[0, 1, 2]], [1, 1, -1], [0, 0, Math.PI]);
+
+    describe('createWorkerRequest function', () => {
+        it('should stamp the request with the protocol version', () => {
+            expect(createWorkerRequest({ type: 'calculate', params })).toEqual({
+                type: 'calculate',
+                params,
+                version: WORKER_PROTOCOL_VERSION,
+            });
+        });
+    });
+
+    describe('getRequestTransferables function', () => {
+        const createGrid = (buffer: ArrayBufferLike) => ({
+            grid: new Float32Array(buffer, 0, 8),
+            psiGrid: new Float32Array(buffer, 32, 8),
+            dims: [2, 2, 2] as [number, number, number],
+            maxDensity: 1,
+            minVal: -1,
+            maxVal: 1,
+        });
+
+        it('should transfer a sampled grid unless it is in shared memory', () => {
+            const buffer = new ArrayBuffer(64);
+            expect(getRequestTransferables({ type: 'calculate', params, grid: createGrid(buffer) })).toEqual([buffer]);
+            expect(getRequestTransferables({ type: 'calculate', params, grid: createGrid(new SharedArrayBuffer(64)) })).toEqual([]);
+            expect(getRequestTransferables({ type: 'calculate', params })).toEqual([]);
+        });
+
+        it('should copy imported grids, which the page keeps', () => {
+            const grid = createGrid(new ArrayBuffer(64));
+            expect(getRequestTransferables({ type: 'calculateImported', grid, isoLevel: 0.1, signed: true })).toEqual([]);
+        });
+    });
+
+    describe('getReplyTransferables function', () => {
+        it('should transfer every mesh buffer', () => {
+            const meshData = createMesh();
+            expect(getReplyTransferables({ ...header, type: 'success', meshData, surfaceInfo })).toHaveLength(5);
+            const frames = [0, 1].map(time => ({ time, meshData: createMesh() }));
+            expect(getReplyTransferables({ ...header, type: 'frames', frames, surfaceInfo })).toHaveLength(10);
+        });
+
+        it('should transfer the arrays of a slab unless they are in shared memory', () => {
+            const arrays = { grid: new Float32Array(16), psiGrid: new Float32Array(16) };
+            expect(getReplyTransferables({ ...header, type: 'slab', maxDensity: 1, arrays })).toEqual([
+                arrays.grid.buffer,
+                arrays.psiGrid.buffer,
+            ]);
+            expect(getReplyTransferables({ ...header, type: 'slab', maxDensity: 1, arrays: null })).toEqual([]);
+        });
+
+        it('should transfer nothing with progress and errors', () => {
+            expect(getReplyTransferables({ ...header, type: 'progress', progress: 0.5 })).toEqual([]);
+            expect(getReplyTransferables({ ...header, type: 'error', message: 'failed' })).toEqual([]);
+        });
+    });
+
+    describe('expectWorkerResult function', () => {
+        it('should return a reply of an expected kind', () => {
+            const reply: WorkerResult = { ...header, type: 'success', meshData: createMesh(), surfaceInfo };
+            expect(expectWorkerResult(reply, 'success')).toBe(reply);
+            expect(expectWorkerResult(reply, 'frames', 'success')).toBe(reply);
+        });
+
+        it('should throw the message of a failed job', () => {
+            expect(() => expectWorkerResult({ ...header, type: 'error', message: 'No surface' }, 'success')).toThrow('No surface');
+        });
+
+        it('should reject replies of another kind or protocol version', () => {
+            const slab: WorkerResult = { ...header, type: 'slab', maxDensity: 1, arrays: null };
+            expect(() => expectWorkerResult(slab, 'success')).toThrow(/unexpected/i);
+            expect(() => expectWorkerResult({ ...slab, version: WORKER_PROTOCOL_VERSION - 1 }, 'slab')).toThrow(/protocol version/);
+        });
+    });
+});
@@ -1,31 +1,44 @@
-// vite.config.ts
-import { defineConfig } from 'vite';
-import react from '@vitejs/plugin-react';
-import { resolve } from 'path';
-
-export default defineConfig({
-  plugins: [react()],
-  root: 'public',
-  build: {
-    outDir: '../dist',
-    emptyOutDir: true,
-  },
-  resolve: {
-    alias: [
-      {
-        find: /^\/main.tsx$/,
-        replacement: resolve(__dirname, 'src/main.tsx')
-      },
-      {
-        find: /^\.\.\/src\/(.*)/,
-        replacement: resolve(__dirname, 'src/$1')
-      }
-    ]
-  },
-  server: {
-    watch: {
-      usePolling: true,
-      interval: 100
-    }
-  }
+// vite.config.ts
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+import { resolve } from 'path';
+
+// Cross-origin isolation, without which browsers withhold SharedArrayBuffer and the workers
+// sampling a grid cannot write into one shared array (see canShareGridMemory). The deployed
+// site sends the same headers from CloudFront (infra/infra_stack.py). Under require-corp every
+// cross-origin resource has to be fetched with CORS, like the Roboto stylesheet in index.html.
+const crossOriginIsolationHeaders = {
+  'Cross-Origin-Opener-Policy': 'same-origin',
+  'Cross-Origin-Embedder-Policy': 'require-corp'
+};
+
+export default defineConfig({
+  plugins: [react()],
+  root: 'public',
+  build: {
+    outDir: '../dist',
+    emptyOutDir: true,
+  },
+  resolve: {
+    alias: [
+      {
+        find: /^\/main.tsx$/,
+        replacement: resolve(__dirname, 'src/main.tsx')
+      },
+      {
+        find: /^\.\.\/src\/(.*)/,
+        replacement: resolve(__dirname, 'src/$1')
+      }
+    ]
+  },
+  server: {
+    headers: crossOriginIsolationHeaders,
+    watch: {
+      usePolling: true,
+      interval: 100
+    }
+  },
+  preview: {
+    headers: crossOriginIsolationHeaders
+  }
 });
\ No newline at end of file